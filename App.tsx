@@ -1,13 +1,59 @@
-import React, { useState, useCallback } from 'react';
-import { AppStatus, ExamPage, GradingMark, StudentInfo } from './types';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { Capacitor } from '@capacitor/core';
+import { Annotation, AppSettings, AppStatus, AnswerKey, BatchSplitMode, CapturedPage, DeliveryJob, ExamPage, GradingMark, GradingProfile, MarkAuditEvent, PageProgress, Quad, SessionRef, SessionStatus, StudentInfo, Submission } from './types';
 import Scanner from './components/Scanner';
+import AnswerKeyEditor from './components/AnswerKeyEditor';
+import RecentSessions from './components/RecentSessions';
+import BatchQueue from './components/BatchQueue';
+import GradingProgress from './components/GradingProgress';
+import CaptureReview from './components/CaptureReview';
+import PageTray from './components/PageTray';
+import ProfileManager from './components/ProfileManager';
+import RosterManager from './components/RosterManager';
+import Gradebook from './components/Gradebook';
 import GradingCanvas from './components/GradingCanvas';
 import StudentForm from './components/StudentForm';
-import { gradeExamPages } from './services/geminiService';
+import Outbox from './components/Outbox';
+import DeliveryStatusList from './components/DeliveryStatusList';
+import { detectCoverPages, explainMark, gradeExamPages } from './services/gradingService';
+import { createSessionId, loadSession, savePages, saveSession } from './services/sessionStore';
+import { autoProcessFiles, prepareCaptures, processCaptures } from './services/captureService';
+import { UPLOAD_ACCEPT, importFiles } from './services/documentImport';
+import { listAssignments, recordGrade } from './services/gradebookStore';
+import { loadSelectedProfile, saveSelectedProfile } from './services/profileStore';
+import { loadSettings, saveSettings } from './services/settingsStore';
+import { enqueueDelivery, retryDelivery, startOutbox, subscribeOutbox } from './services/deliveryService';
+import { I18nContext, examLanguage, translator } from './i18n';
 import { generateGradedPDF } from './utils/pdfGenerator';
-import { Share } from '@capacitor/share';
-import { Filesystem, Directory } from '@capacitor/filesystem';
-import { Capacitor } from '@capacitor/core';
+import { DEFAULT_POINTS, formatPoints, summarizeScore } from './utils/scoring';
+import { splitByCoverPages, splitByPageCount } from './utils/batch';
+import { buildGradebookEntry } from './utils/gradebook';
+import { shareFile } from './utils/share';
+import { EMPTY_HISTORY, MarkCommand, MarkHistory, applyCommand, invertCommand, pushCommand, undoCommand } from './utils/markHistory';
+import { auditEventFor, describeOverrides, gradedEvents, isOverridden } from './utils/audit';
+import { isFlagged, reviewQueue, stepReviewQueue } from './utils/review';
+
+// Helper to wrap cleaned-up photos as exam pages with local preview URLs
+const createPages = (files: File[]): ExamPage[] => files.map(file => ({
+  id: Math.random().toString(36).substr(2, 9),
+  imageUrl: URL.createObjectURL(file),
+  file
+}));
+
+// Helper to rasterize documents and flatten photos without corner review (used where there is no
+// time to check each page). Unreadable documents throw; failed cleanup falls back to the raw pages.
+const importWithoutReview = async (files: File[]): Promise<File[]> => {
+  const imported = await importFiles(files);
+  try {
+    return await autoProcessFiles(imported);
+  } catch (error) {
+    console.error("Page cleanup failed", error);
+    return imported.map(p => p.file);
+  }
+};
+
+// Helper to name a student's graded PDF, for sharing, saving and sending
+const gradedFileName = (info: StudentInfo | null) => `Exam_Graded_${info?.name?.replace(/\s+/g, '_') || 'Student'}.pdf`;
 
 function App() {
   const [status, setStatus] = useState<AppStatus>(AppStatus.IDLE);
@@ -19,42 +65,511 @@ function App() {
   const [pdfBlob, setPdfBlob] = useState<Blob | null>(null);
   const [studentInfo, setStudentInfo] = useState<StudentInfo | null>(null);
   const [isSharing, setIsSharing] = useState(false);
+  const [answerKey, setAnswerKey] = useState<AnswerKey | null>(null);
+  const [session, setSession] = useState<SessionRef | null>(null);
+  const [batch, setBatch] = useState<Submission[] | null>(null);
+  const [activeSubmissionId, setActiveSubmissionId] = useState<string | null>(null);
+  const [pageProgress, setPageProgress] = useState<PageProgress[]>([]);
+  const [history, setHistory] = useState<MarkHistory>(EMPTY_HISTORY);
+  const [auditLog, setAuditLog] = useState<MarkAuditEvent[]>([]);
+  const [captures, setCaptures] = useState<CapturedPage[]>([]);
+  const [profile, setProfile] = useState<GradingProfile | null>(() => loadSelectedProfile());
+  const [retakePageId, setRetakePageId] = useState<string | null>(null); // Page the photos under corner review will replace
+  const [settings, setSettings] = useState<AppSettings>(() => loadSettings());
+  const [reviewFocusId, setReviewFocusId] = useState<string | null>(null); // Mark opened by the needs-review navigator
+  const [deliveries, setDeliveries] = useState<DeliveryJob[]>([]);
+  const [deliveryIds, setDeliveryIds] = useState<string[]>([]); // Sends queued for the PDF just exported
+
+  const i18n = useMemo(() => ({ language: settings.uiLanguage, t: translator(settings.uiLanguage) }), [settings.uiLanguage]);
+  const { t } = i18n;
+  // Language new marks are written in; null keeps each page's own
+  const feedbackLanguage = settings.feedbackInUiLanguage ? settings.uiLanguage : null;
+
+  const activeSubmission = batch?.find(s => s.id === activeSubmissionId) || null;
+  // Latest marks, for async handlers whose closure would otherwise hold the ones from before their request
+  const marksRef = useRef(marks);
+  marksRef.current = marks;
+  const unsent = deliveries.filter(job => job.status !== 'delivered').length;
+  const failedSends = deliveries.filter(job => job.status === 'failed').length;
+
+  // --- Persistence ---
+
+  const persistSession = async (
+    sessionStatus: SessionStatus,
+    overrides: { marks?: GradingMark[]; studentInfo?: StudentInfo | null } = {}
+  ) => {
+    if (!session) return;
+    try {
+      await saveSession({
+        id: session.id,
+        createdAt: session.createdAt,
+        updatedAt: Date.now(),
+        status: sessionStatus,
+        pageIds: pages.map(p => p.id),
+        pageLanguages: Object.fromEntries(pages.map(p => [p.id, p.detectedLanguage])),
+        pageFeedbackLanguages: Object.fromEntries(pages.map(p => [p.id, p.feedbackLanguage])),
+        pageAnnotations: Object.fromEntries(pages.filter(p => p.annotations?.length).map(p => [p.id, p.annotations!])),
+        marks: overrides.marks ?? marks,
+        studentInfo: overrides.studentInfo !== undefined ? overrides.studentInfo : studentInfo,
+        answerKey,
+        auditLog,
+        profile,
+      });
+    } catch (error) {
+      console.error("Autosave failed", error);
+    }
+  };
+
+  // Autosave every mark edit made while reviewing (a reopened finished session stays finished)
+  useEffect(() => {
+    if (session && status === AppStatus.REVIEWING) {
+      persistSession(session.status);
+    }
+  }, [marks, pages, session]);
+
+  // The outbox keeps sending in the background: queued PDFs go out when the device is back online
+  useEffect(() => {
+    const stop = startOutbox();
+    const unsubscribe = subscribeOutbox(setDeliveries);
+    return () => {
+      stop();
+      unsubscribe();
+    };
+  }, []);
 
   // --- Handlers ---
 
-  const handleFilesSelected = async (files: FileList) => {
+  const trackPageProgress = (pageIndex: number, progress: PageProgress) => {
+    setPageProgress(prev => {
+      const next = [...prev];
+      next[pageIndex] = progress;
+      return next;
+    });
+  };
+
+  // Opens the review screen for freshly graded pages and starts a stored session for them
+  const startReview = async (gradedPages: ExamPage[]) => {
+    // Store the page images once; marks are autosaved on every edit
+    const sessionId = createSessionId();
+    await savePages(sessionId, gradedPages).catch(error => console.error("Failed to store pages", error));
+    setSession({ id: sessionId, createdAt: Date.now(), status: 'reviewing' });
+    setHistory(EMPTY_HISTORY);
+    setPageProgress([]);
+    setActivePageIndex(0);
+    setStatus(AppStatus.REVIEWING);
+  };
+
+  // Photos go through corner review first, then into the page tray. Retakes replace one tray page.
+  // Uploads made only of PDFs/TIFFs skip the corner review: their pages are already flat.
+  const reviewPhotos = async (files: File[], replacePageId: string | null = null) => {
+    const returnTo = status;
     setStatus(AppStatus.PROCESSING);
-    
-    // Create local preview URLs and state objects
-    const initialPages: ExamPage[] = Array.from(files).map(file => ({
-      id: Math.random().toString(36).substr(2, 9),
-      imageUrl: URL.createObjectURL(file),
-      file
-    }));
-    
-    setPages(initialPages);
+    let pending: CapturedPage[];
+    try {
+      pending = await prepareCaptures(await importFiles(files));
+    } catch (error) {
+      console.error("Preparing photos failed", error);
+      alert(t('app.error.readFiles'));
+      setStatus(returnTo);
+      return;
+    }
+
+    if (pending.every(c => c.fromDocument)) {
+      await addCapturesToTray(pending, replacePageId, false);
+      return;
+    }
+    setCaptures(pending);
+    setRetakePageId(replacePageId);
+    setStatus(AppStatus.CAPTURE_REVIEW);
+  };
+
+  const handleFilesSelected = (files: FileList) => reviewPhotos(Array.from(files));
+
+  const updateCaptureCorners = (captureId: string, corners: Quad) => {
+    setCaptures(prev => prev.map(c => c.id === captureId ? { ...c, corners } : c));
+  };
+
+  const discardCaptures = () => {
+    captures.forEach(c => URL.revokeObjectURL(c.imageUrl));
+    setCaptures([]);
+    setRetakePageId(null);
+  };
+
+  const cancelCaptureReview = () => {
+    discardCaptures();
+    setStatus(pages.length > 0 ? AppStatus.PAGE_TRAY : AppStatus.IDLE);
+  };
+
+  const handleCapturesConfirmed = (enhance: boolean) => {
+    const pending = captures;
+    const replacePageId = retakePageId;
+    setCaptures([]);
+    setRetakePageId(null);
+    return addCapturesToTray(pending, replacePageId, enhance);
+  };
+
+  const addCapturesToTray = async (pending: CapturedPage[], replacePageId: string | null, enhance: boolean) => {
+    setStatus(AppStatus.PROCESSING);
+    let files: File[];
+    try {
+      files = await processCaptures(pending, { enhance });
+    } catch (error) {
+      // Grade the photos as taken rather than losing them
+      console.error("Page cleanup failed", error);
+      files = pending.map(c => c.file);
+    }
+    pending.forEach(c => URL.revokeObjectURL(c.imageUrl));
+
+    const newPages = createPages(files);
+    const replaced = replacePageId ? pages.find(p => p.id === replacePageId) : undefined;
+    if (replaced) {
+      URL.revokeObjectURL(replaced.imageUrl);
+      // A retake of several photos puts all of them where the old page was
+      setPages(prev => prev.flatMap(p => p.id === replaced.id ? newPages : [p]));
+    } else {
+      setPages(prev => [...prev, ...newPages]);
+    }
+    setStatus(AppStatus.PAGE_TRAY);
+  };
+
+  // --- Page Tray ---
+
+  const movePage = (fromIndex: number, toIndex: number) => {
+    setPages(prev => {
+      const next = [...prev];
+      const [moved] = next.splice(fromIndex, 1);
+      next.splice(toIndex, 0, moved);
+      return next;
+    });
+  };
+
+  const deletePage = (pageId: string) => {
+    const page = pages.find(p => p.id === pageId);
+    if (page) URL.revokeObjectURL(page.imageUrl);
+    setPages(prev => prev.filter(p => p.id !== pageId));
+  };
+
+  const gradePages = async (initialPages: ExamPage[]) => {
+    setStatus(AppStatus.PROCESSING);
+    setPageProgress(initialPages.map(() => ({ status: 'queued', attempts: 0 })));
 
     try {
       // Call AI Service
       // Returns marks AND potentially updated pages (rotated/straightened)
-      const { marks: aiMarks, processedPages } = await gradeExamPages(initialPages);
+      const { marks: aiMarks, processedPages, failedPageIndices } = await gradeExamPages(
+        initialPages,
+        answerKey,
+        { profile, feedbackLanguage, onPageProgress: trackPageProgress }
+      );
       
       setMarks(aiMarks);
+      setAuditLog(gradedEvents(aiMarks));
       setPages(processedPages); // Update pages with straightened versions
-      setStatus(AppStatus.REVIEWING);
+
+      // With failures we stay on the progress screen so the teacher can retry them
+      if (failedPageIndices.length === 0) {
+        await startReview(processedPages);
+      }
     } catch (error) {
       console.error("Grading failed", error);
-      alert("Failed to grade the exam. Please check your API Key.");
+      alert(t('app.error.grading'));
+      setPageProgress([]);
+      setStatus(AppStatus.PAGE_TRAY);
+    }
+  };
+
+  const handleRetryFailedPages = async () => {
+    const failed = pageProgress
+      .map((p, idx) => (p.status === 'failed' ? idx : -1))
+      .filter(idx => idx !== -1);
+
+    try {
+      const { marks: retriedMarks, processedPages, failedPageIndices } = await gradeExamPages(
+        pages,
+        answerKey,
+        { pageIndices: failed, profile, feedbackLanguage, onPageProgress: trackPageProgress }
+      );
+
+      setMarks(prev => [...prev, ...retriedMarks]);
+      setAuditLog(prev => [...prev, ...gradedEvents(retriedMarks)]);
+      setPages(processedPages);
+
+      if (failedPageIndices.length === 0) {
+        await startReview(processedPages);
+      }
+    } catch (error) {
+      console.error("Retrying failed pages failed", error);
+      alert(t('app.error.grading'));
+      setPageProgress([]);
+      setStatus(AppStatus.PAGE_TRAY);
+    }
+  };
+
+  // Adds pages that were missed to the exam under review and grades only those pages
+  const handleAddReviewPages = async (files: FileList) => {
+    let cleanedFiles: File[];
+    try {
+      cleanedFiles = await importWithoutReview(Array.from(files));
+    } catch (error) {
+      console.error("Importing added pages failed", error);
+      alert(t('app.error.readFiles'));
+      return;
+    }
+
+    const newPages = createPages(cleanedFiles);
+    // Stored before they join the session, which is autosaved with their ids as soon as they do
+    if (session) {
+      try {
+        await savePages(session.id, newPages);
+      } catch (error) {
+        console.error("Failed to store added pages", error);
+        newPages.forEach(p => URL.revokeObjectURL(p.imageUrl));
+        alert(t('app.error.storePages'));
+        return;
+      }
+    }
+    const allPages = [...pages, ...newPages];
+    const newIndices = newPages.map((_, i) => pages.length + i);
+    setPages(allPages);
+    setActivePageIndex(newIndices[0]);
+
+    try {
+      const { marks: newMarks, processedPages, failedPageIndices } = await gradeExamPages(
+        allPages,
+        answerKey,
+        { pageIndices: newIndices, profile, feedbackLanguage, onPageProgress: trackPageProgress }
+      );
+
+      const gradedPages = newIndices.map(i => processedPages[i]);
+      setPages(prev => prev.map(p => gradedPages.find(g => g.id === p.id) || p));
+      setMarks(prev => [...prev, ...newMarks]);
+      setAuditLog(prev => [...prev, ...gradedEvents(newMarks)]);
+      if (session) {
+        await savePages(session.id, gradedPages).catch(error => console.error("Failed to store pages", error));
+      }
+
+      if (failedPageIndices.length > 0) {
+        alert(t('app.error.pagesNotGraded', { pages: failedPageIndices.map(i => i + 1).join(', ') }));
+      }
+    } catch (error) {
+      console.error("Grading added pages failed", error);
+      alert(t('app.error.gradeNewPage'));
+    }
+  };
+
+  // --- Batch Mode ---
+
+  const updateSubmission = (id: string, patch: Partial<Submission>) => {
+    setBatch(prev => prev && prev.map(s => s.id === id ? { ...s, ...patch } : s));
+  };
+
+  // Grades a submission, or only its failed pages when retrying
+  const gradeSubmission = async (submission: Submission) => {
+    const retryIndices = submission.failedPageIndices;
+    updateSubmission(submission.id, { status: 'grading', error: undefined });
+    try {
+      const { marks: aiMarks, processedPages, failedPageIndices } = await gradeExamPages(
+        submission.pages,
+        answerKey,
+        { pageIndices: retryIndices, profile, feedbackLanguage }
+      );
+      const allMarks = retryIndices ? [...submission.marks, ...aiMarks] : aiMarks;
+      const gradedLog = [...(retryIndices ? submission.auditLog || [] : []), ...gradedEvents(aiMarks)];
+
+      if (failedPageIndices.length > 0) {
+        updateSubmission(submission.id, {
+          status: 'failed',
+          marks: allMarks,
+          auditLog: gradedLog,
+          pages: processedPages,
+          failedPageIndices,
+          error: t('batch.pagesFailed', { failed: failedPageIndices.length, total: submission.pages.length }),
+        });
+      } else {
+        updateSubmission(submission.id, { status: 'ready', marks: allMarks, auditLog: gradedLog, pages: processedPages, failedPageIndices: undefined });
+      }
+    } catch (error) {
+      console.error(`Grading failed for submission ${submission.id}`, error);
+      updateSubmission(submission.id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : t('batch.gradingFailed'),
+      });
+    }
+  };
+
+  const handleBatchSelected = async (files: FileList, splitMode: BatchSplitMode) => {
+    setStatus(AppStatus.PROCESSING);
+
+    // A class stack is too long to check corners page by page; detected edges are used as-is
+    let cleanedFiles: File[];
+    try {
+      cleanedFiles = await importWithoutReview(Array.from(files));
+    } catch (error) {
+      console.error("Importing the class stack failed", error);
+      alert(t('app.error.readFiles'));
+      setStatus(AppStatus.IDLE);
+      return;
+    }
+
+    const allPages = createPages(cleanedFiles);
+
+    let submissions: Submission[];
+    try {
+      submissions = splitMode.type === 'fixed'
+        ? splitByPageCount(allPages, splitMode.pagesPerStudent)
+        : splitByCoverPages(allPages, await detectCoverPages(allPages));
+    } catch (error) {
+      console.error("Splitting the class stack failed", error);
+      alert(t('app.error.split'));
+      allPages.forEach(p => URL.revokeObjectURL(p.imageUrl));
       setStatus(AppStatus.IDLE);
+      return;
+    }
+
+    setBatch(submissions);
+    setStatus(AppStatus.BATCH_QUEUE);
+
+    // Grade one student at a time so the queue fills in order
+    for (const submission of submissions) {
+      await gradeSubmission(submission);
+    }
+  };
+
+  const handleReviewSubmission = async (submissionId: string) => {
+    const submission = batch?.find(s => s.id === submissionId);
+    if (!submission) return;
+
+    // Each student gets their own stored session the first time they are reviewed
+    let submissionSession = submission.session;
+    if (!submissionSession) {
+      submissionSession = { id: createSessionId(), createdAt: Date.now(), status: 'reviewing' };
+      await savePages(submissionSession.id, submission.pages).catch(error => console.error("Failed to store pages", error));
+      updateSubmission(submission.id, { session: submissionSession });
     }
+
+    setPages(submission.pages);
+    setMarks(submission.marks);
+    setAuditLog(submission.auditLog || gradedEvents(submission.marks));
+    setHistory(EMPTY_HISTORY);
+    setStudentInfo(submission.studentInfo);
+    setActivePageIndex(0);
+    setActiveSubmissionId(submission.id);
+    setSession(submissionSession);
+    setStatus(AppStatus.REVIEWING);
+  };
+
+  // Hands the reviewed state back to the submission and returns to the class queue
+  const returnToQueue = () => {
+    if (activeSubmissionId) {
+      updateSubmission(activeSubmissionId, { pages, marks, auditLog, studentInfo, session: session || undefined });
+    }
+    if (downloadUrl) URL.revokeObjectURL(downloadUrl);
+
+    setPages([]);
+    setMarks([]);
+    setAuditLog([]);
+    setHistory(EMPTY_HISTORY);
+    setDownloadUrl(null);
+    setPdfBlob(null);
+    setStudentInfo(null);
+    setActivePageIndex(0);
+    setActiveSubmissionId(null);
+    setSession(null);
+    setStatus(AppStatus.BATCH_QUEUE);
+  };
+
+  const handleResumeSession = async (sessionId: string) => {
+    try {
+      const { session: stored, pages: restoredPages } = await loadSession(sessionId);
+      setPages(restoredPages);
+      setMarks(stored.marks);
+      setAuditLog(stored.auditLog || []);
+      setHistory(EMPTY_HISTORY);
+      setStudentInfo(stored.studentInfo);
+      setAnswerKey(stored.answerKey);
+      setProfile(stored.profile ?? null);
+      setActivePageIndex(0);
+      setSession({ id: stored.id, createdAt: stored.createdAt, status: stored.status });
+      setStatus(AppStatus.REVIEWING);
+    } catch (error) {
+      console.error("Failed to resume session", error);
+      alert(t('app.error.resume'));
+    }
+  };
+
+  const selectProfile = (selected: GradingProfile | null) => {
+    setProfile(selected);
+    if (selected) saveSelectedProfile(selected.id);
+  };
+
+  const updateSettings = (next: AppSettings) => {
+    setSettings(next);
+    saveSettings(next);
+  };
+
+  const handleAnswerKeySave = (key: AnswerKey | null) => {
+    setAnswerKey(key);
+    setStatus(AppStatus.IDLE);
+  };
+
+  // --- Mark Edits (undoable, audited) ---
+
+  const executeCommand = (command: MarkCommand) => {
+    setMarks(prev => applyCommand(prev, command));
+    setHistory(prev => pushCommand(prev, command));
+    setAuditLog(prev => [...prev, auditEventFor(command)]);
   };
 
+  const undo = () => {
+    const command = history.undo[history.undo.length - 1];
+    if (!command) return;
+    setMarks(prev => undoCommand(prev, command));
+    setHistory({ undo: history.undo.slice(0, -1), redo: [...history.redo, command] });
+    setAuditLog(prev => [...prev, auditEventFor(invertCommand(command), 'undo')]);
+  };
+
+  const redo = () => {
+    const command = history.redo[history.redo.length - 1];
+    if (!command) return;
+    setMarks(prev => applyCommand(prev, command));
+    setHistory({ undo: [...history.undo, command], redo: history.redo.slice(0, -1) });
+    setAuditLog(prev => [...prev, auditEventFor(command, 'redo')]);
+  };
+
+  // Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z or Ctrl+Y to redo (web only; native uses the buttons)
+  useEffect(() => {
+    if (status !== AppStatus.REVIEWING || Capacitor.isNativePlatform()) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, [contenteditable="true"]')) return; // Leave text editing alone
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [status, history]);
+
+  // Any teacher edit (or an explicit confirm) settles a flagged mark
   const updateMark = (updatedMark: GradingMark) => {
-    setMarks(prev => prev.map(m => m.id === updatedMark.id ? updatedMark : m));
+    const before = marks.find(m => m.id === updatedMark.id);
+    if (!before) return;
+    executeCommand({ type: 'update', before, after: { ...updatedMark, reviewed: true } });
   };
 
   const removeMark = (markId: string) => {
-    setMarks(prev => prev.filter(m => m.id !== markId));
+    const index = marks.findIndex(m => m.id === markId);
+    if (index === -1) return;
+    executeCommand({ type: 'remove', mark: marks[index], index });
   };
 
   const addMark = (x: number, y: number, pageIndex: number) => {
@@ -63,46 +578,117 @@ function App() {
       x,
       y,
       status: 'correct', // Default to correct when manually added
+      pointsAwarded: DEFAULT_POINTS,
+      pointsPossible: DEFAULT_POINTS,
       pageIndex
     };
-    setMarks(prev => [...prev, newMark]);
+    executeCommand({ type: 'add', mark: newMark });
+  };
+
+  // Ink lives on the page itself; it is autosaved with the session like mark edits
+  const updatePageAnnotations = (pageIndex: number, annotations: Annotation[]) => {
+    setPages(prev => prev.map((p, i) => i === pageIndex ? { ...p, annotations } : p));
   };
 
+  // Asks the model for a new explanation that matches the teacher's current verdict
+  const handleReexplainMark = async (mark: GradingMark) => {
+    try {
+      const explanation = await explainMark(pages[mark.pageIndex], mark, profile);
+      // The teacher may have edited the mark meanwhile, so only the explanation changes; a removed mark drops it
+      const current = marksRef.current.find(m => m.id === mark.id);
+      if (!current) return;
+      executeCommand({ type: 'update', before: current, after: { ...current, explanation, reviewed: true } });
+    } catch (error) {
+      console.error("Re-explaining mark failed", error);
+      alert(t('app.error.reexplain'));
+    }
+  };
+
+  const goToReviewMark = (mark?: GradingMark) => {
+    if (!mark) return;
+    setActivePageIndex(mark.pageIndex);
+    setReviewFocusId(mark.id);
+  };
+
+  // Steps through flagged marks in reading order, starting from the open mark or the top of the page
+  const stepReview = (direction: 1 | -1) => {
+    const from = marks.find(m => m.id === reviewFocusId && m.pageIndex === activePageIndex)
+      ?? { pageIndex: activePageIndex, x: -1, y: -1 };
+    goToReviewMark(stepReviewQueue(reviewQueue(marks), from, direction));
+  };
+
+  // Flagged marks should be looked at before the PDF goes out; the teacher can still insist
   const handleApprove = () => {
+    const pending = reviewQueue(marks);
+    if (pending.length > 0 && !window.confirm(t('review.approveWarning', { count: pending.length }))) {
+      goToReviewMark(pending[0]);
+      return;
+    }
     setIsStudentFormOpen(true);
   };
 
-  const handleFinalSubmit = async (info: StudentInfo) => {
+  const handleFinalSubmit = async (info: StudentInfo, assignment: string, noteOverrides: boolean) => {
     setIsStudentFormOpen(false);
     setStatus(AppStatus.EXPORTING);
     setStudentInfo(info);
 
     try {
-      const generatedBlob = await generateGradedPDF(pages, marks);
+      let rasterFallback = false;
+      const generatedBlob = await generateGradedPDF(pages, marks, {
+        overrideNotes: noteOverrides ? describeOverrides(marks, auditLog, translator(examLanguage(pages))) : undefined,
+        onRasterFallback: () => { rasterFallback = true; },
+      });
       const url = URL.createObjectURL(generatedBlob);
       setPdfBlob(generatedBlob);
       setDownloadUrl(url);
       setStatus(AppStatus.COMPLETED);
+      await persistSession('completed', { studentInfo: info });
+      recordGrade(buildGradebookEntry(assignment, info, marks, answerKey, session?.id));
+      const completedSession = session && { ...session, status: 'completed' as SessionStatus };
+      setSession(completedSession);
+
+      sendPdf(generatedBlob, info, assignment);
+      if (rasterFallback) alert(t('app.notice.rasterPdf'));
+
+      if (activeSubmissionId) {
+        updateSubmission(activeSubmissionId, {
+          status: 'done',
+          pages,
+          marks,
+          studentInfo: info,
+          pdfBlob: generatedBlob,
+          session: completedSession || undefined,
+        });
+      }
     } catch (error) {
       console.error("PDF Generation failed", error);
-      alert("Failed to generate PDF.");
+      alert(t('app.error.pdf'));
       setStatus(AppStatus.REVIEWING);
     }
   };
 
-  // Convert Blob to Base64 for Capacitor Filesystem
-  const blobToBase64 = (blob: Blob): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const base64String = reader.result as string;
-        // Remove the data URI prefix (e.g. "data:application/pdf;base64,")
-        const base64Data = base64String.split(',')[1];
-        resolve(base64Data);
-      };
-      reader.onerror = reject;
-      reader.readAsDataURL(blob);
-    });
+  // Queues the PDF in the outbox for email and the LMS; the message is in the exam's language
+  const sendPdf = async (pdf: Blob, info: StudentInfo, assignment: string) => {
+    const noteT = translator(examLanguage(pages));
+    const score = summarizeScore(marks);
+    const awarded = formatPoints(score.awarded);
+    const possible = formatPoints(score.possible);
+    try {
+      const jobs = await enqueueDelivery({
+        student: info,
+        assignment,
+        fileName: gradedFileName(info),
+        subject: noteT('delivery.subject', { assignment }),
+        message: noteT('delivery.message', { name: info.name, assignment, awarded, possible }),
+        awarded: score.awarded,
+        possible: score.possible,
+        sessionId: session?.id,
+      }, pdf);
+      setDeliveryIds(jobs.map(job => job.id));
+    } catch (error) {
+      console.error("Queueing the PDF failed", error);
+      alert(t('app.error.delivery'));
+    }
   };
 
   const handleShare = async () => {
@@ -110,42 +696,10 @@ function App() {
     setIsSharing(true);
 
     try {
-      const fileName = `Exam_Graded_${studentInfo.name.replace(/\s+/g, '_')}.pdf`;
-
-      if (Capacitor.isNativePlatform()) {
-        // --- Native Logic (iOS/Android) ---
-        const base64Data = await blobToBase64(pdfBlob);
-
-        // 1. Write file to cache directory
-        const result = await Filesystem.writeFile({
-          path: fileName,
-          data: base64Data,
-          directory: Directory.Cache,
-        });
-
-        // 2. Share the file URI
-        await Share.share({
-          title: 'Exam Results',
-          text: `Here are the graded results for ${studentInfo.name}.`,
-          files: [result.uri],
-        });
-
-      } else {
-        // --- Web Logic Fallback ---
-        if (navigator.share && navigator.canShare && navigator.canShare({ files: [new File([pdfBlob], fileName, { type: 'application/pdf' })] })) {
-           await navigator.share({
-             files: [new File([pdfBlob], fileName, { type: 'application/pdf' })],
-             title: 'Exam Results',
-             text: `Here are the graded results for ${studentInfo.name}.`
-           });
-        } else {
-           // Direct download already handled by the download button, but we can trigger it
-           const link = document.createElement('a');
-           link.href = URL.createObjectURL(pdfBlob);
-           link.download = fileName;
-           link.click();
-        }
-      }
+      await shareFile(pdfBlob, gradedFileName(studentInfo), {
+        title: t('app.share.title'),
+        text: t('app.share.text', { name: studentInfo.name }),
+      });
     } catch (error) {
       console.error("Share failed", error);
       // alert("Sharing cancelled or failed.");
@@ -157,16 +711,26 @@ function App() {
   const resetApp = () => {
     // Cleanup object URLs to avoid leaks
     pages.forEach(p => URL.revokeObjectURL(p.imageUrl));
+    batch?.forEach(s => s.pages.forEach(p => URL.revokeObjectURL(p.imageUrl)));
     if (downloadUrl) URL.revokeObjectURL(downloadUrl);
     
+    discardCaptures();
     setPages([]);
     setMarks([]);
+    setAuditLog([]);
+    setHistory(EMPTY_HISTORY);
     setStatus(AppStatus.IDLE);
     setDownloadUrl(null);
     setPdfBlob(null);
     setStudentInfo(null);
     setActivePageIndex(0);
     setIsSharing(false);
+    setSession(null);
+    setBatch(null);
+    setActiveSubmissionId(null);
+    setPageProgress([]);
+    setDeliveryIds([]);
+    setProfile(loadSelectedProfile()); // A resumed session may have brought its own
   };
 
   // --- Render Helpers ---
@@ -174,9 +738,97 @@ function App() {
   const renderContent = () => {
     switch (status) {
       case AppStatus.IDLE:
-        return <Scanner onFilesSelected={handleFilesSelected} />;
+        return (
+          <div className="h-full overflow-y-auto no-scrollbar">
+            <Scanner
+              onFilesSelected={handleFilesSelected}
+              onBatchSelected={handleBatchSelected}
+              answerKey={answerKey}
+              onEditAnswerKey={() => setStatus(AppStatus.KEY_EDITING)}
+              profile={profile}
+              onEditProfiles={() => setStatus(AppStatus.PROFILES)}
+            />
+            <RecentSessions onResume={handleResumeSession} />
+          </div>
+        );
+
+      case AppStatus.KEY_EDITING:
+        return (
+          <AnswerKeyEditor
+            answerKey={answerKey}
+            onSave={handleAnswerKeySave}
+            onCancel={() => setStatus(AppStatus.IDLE)}
+          />
+        );
       
+      case AppStatus.CAPTURE_REVIEW:
+        return (
+          <CaptureReview
+            captures={captures}
+            onUpdateCorners={updateCaptureCorners}
+            onConfirm={handleCapturesConfirmed}
+            onCancel={cancelCaptureReview}
+          />
+        );
+
+      case AppStatus.PAGE_TRAY:
+        return (
+          <PageTray
+            pages={pages}
+            onMovePage={movePage}
+            onDeletePage={deletePage}
+            onRetakePage={(pageId, file) => reviewPhotos([file], pageId)}
+            onAddPages={(files) => reviewPhotos(Array.from(files))}
+            onConfirm={() => gradePages(pages)}
+            onCancel={resetApp}
+          />
+        );
+
+      case AppStatus.PROFILES:
+        return (
+          <ProfileManager
+            selectedId={profile?.id || null}
+            onSelect={selectProfile}
+            settings={settings}
+            onSettingsChange={updateSettings}
+            onClose={() => setStatus(AppStatus.IDLE)}
+          />
+        );
+
+      case AppStatus.ROSTER:
+        return <RosterManager onClose={() => setStatus(AppStatus.IDLE)} />;
+
+      case AppStatus.GRADEBOOK:
+        return <Gradebook onClose={() => setStatus(AppStatus.IDLE)} />;
+
+      case AppStatus.OUTBOX:
+        return <Outbox jobs={deliveries} onClose={() => setStatus(AppStatus.IDLE)} />;
+
+      case AppStatus.BATCH_QUEUE:
+        return (
+          <BatchQueue
+            submissions={batch || []}
+            onReview={handleReviewSubmission}
+            onRetry={(id) => {
+              const submission = batch?.find(s => s.id === id);
+              if (submission) gradeSubmission(submission);
+            }}
+            onFinish={resetApp}
+          />
+        );
+
       case AppStatus.PROCESSING:
+        if (pageProgress.length > 0) {
+          return (
+            <GradingProgress
+              pages={pages}
+              progress={pageProgress}
+              onRetryFailed={handleRetryFailedPages}
+              onContinue={() => startReview(pages)}
+              onCancel={resetApp}
+            />
+          );
+        }
         return (
           <div className="flex flex-col items-center justify-center h-full text-center p-8 space-y-6">
             <div className="relative w-24 h-24">
@@ -185,19 +837,24 @@ function App() {
               <i className="fa-solid fa-wand-magic-sparkles absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 text-3xl text-blue-500"></i>
             </div>
             <div>
-              <h2 className="text-xl font-bold text-gray-800">AI is Grading...</h2>
-              <p className="text-gray-500 mt-2">Detecting orientation & analyzing answers</p>
+              <h2 className="text-xl font-bold text-gray-800">{t('app.grading.title')}</h2>
+              <p className="text-gray-500 mt-2">{t('app.grading.subtitle')}</p>
             </div>
           </div>
         );
 
       case AppStatus.REVIEWING:
+        const score = summarizeScore(marks);
+        const pendingReview = reviewQueue(marks);
+        const hasFlagged = marks.some(m => isFlagged(m));
         return (
           <div className="relative h-full flex flex-col">
             {/* Header / Tabs */}
-            {pages.length > 1 && (
-              <div className="bg-white border-b overflow-x-auto whitespace-nowrap px-4 py-3 flex gap-2 no-scrollbar z-10">
-                {pages.map((_, idx) => (
+            <div className="bg-white border-b overflow-x-auto whitespace-nowrap px-4 py-3 flex gap-2 no-scrollbar z-10">
+              {pages.map((_, idx) => {
+                const progress = pageProgress[idx]?.status;
+                const pagePending = pendingReview.some(m => m.pageIndex === idx);
+                return (
                   <button
                     key={idx}
                     onClick={() => setActivePageIndex(idx)}
@@ -207,11 +864,27 @@ function App() {
                         : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
                     }`}
                   >
-                    Page {idx + 1}
+                    {t('common.page', { number: idx + 1 })}
+                    {(progress === 'queued' || progress === 'grading') && <i className="fa-solid fa-circle-notch animate-spin ml-2"></i>}
+                    {progress === 'failed' && <i className="fa-solid fa-triangle-exclamation text-red-400 ml-2"></i>}
+                    {pagePending && <span className="inline-block w-2 h-2 bg-orange-400 rounded-full ml-2 align-middle"></span>}
                   </button>
-                ))}
-              </div>
-            )}
+                );
+              })}
+              <label className="px-3 py-1.5 rounded-full text-sm font-medium bg-gray-100 text-gray-600 hover:bg-gray-200 transition cursor-pointer" title={t('app.addPage')}>
+                <i className="fa-solid fa-plus"></i>
+                <input
+                  type="file"
+                  multiple
+                  accept={UPLOAD_ACCEPT}
+                  className="hidden"
+                  onChange={(e) => {
+                    if (e.target.files && e.target.files.length > 0) handleAddReviewPages(e.target.files);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+            </div>
 
             {/* Canvas Area */}
             <div className="flex-1 relative bg-gray-900 overflow-hidden">
@@ -219,30 +892,71 @@ function App() {
                 page={pages[activePageIndex]}
                 marks={marks.filter(m => m.pageIndex === activePageIndex)}
                 pageIndex={activePageIndex}
+                answerKey={answerKey}
+                auditLog={auditLog}
                 onUpdateMark={updateMark}
                 onRemoveMark={removeMark}
                 onAddMark={addMark}
+                onReexplainMark={handleReexplainMark}
+                focusedMarkId={reviewFocusId}
+                onAnnotationsChange={(annotations) => updatePageAnnotations(activePageIndex, annotations)}
+                scoreLabel={`${formatPoints(score.awarded)}/${formatPoints(score.possible)}`}
               />
+
+              {/* Needs Review Navigator */}
+              {hasFlagged && (
+                <div className="absolute bottom-28 left-1/2 -translate-x-1/2 z-20">
+                  {pendingReview.length > 0 ? (
+                    <div className="flex items-center gap-1 bg-orange-500 text-white rounded-full shadow-lg px-1 py-1 text-sm font-semibold">
+                      <button onClick={() => stepReview(-1)} className="w-8 h-8 rounded-full hover:bg-orange-600" title={t('review.previous')}>
+                        <i className="fa-solid fa-chevron-left"></i>
+                      </button>
+                      <button onClick={() => stepReview(1)} className="px-2 whitespace-nowrap">
+                        <i className="fa-solid fa-flag mr-2"></i>
+                        {t('review.needsReview', { count: pendingReview.length })}
+                      </button>
+                      <button onClick={() => stepReview(1)} className="w-8 h-8 rounded-full hover:bg-orange-600" title={t('review.next')}>
+                        <i className="fa-solid fa-chevron-right"></i>
+                      </button>
+                    </div>
+                  ) : (
+                    <div className="bg-green-600/90 text-white rounded-full shadow-lg px-4 py-2 text-xs font-semibold whitespace-nowrap pointer-events-none">
+                      <i className="fa-solid fa-check-double mr-2"></i>{t('review.allReviewed')}
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
 
             {/* Bottom Floating Action Bar */}
             <div className="absolute bottom-6 left-6 right-6 z-20">
                <div className="bg-white/90 backdrop-blur-md border border-white/20 rounded-2xl p-2 flex items-center justify-between shadow-2xl">
-                  <div className="flex items-center gap-4 px-4">
+                  <div className="flex items-center gap-3 px-2">
                      <div className="flex items-center gap-2 text-sm font-semibold text-gray-700">
                         <span className="w-3 h-3 bg-green-500 rounded-full"></span>
                         {marks.filter(m => m.status === 'correct').length}
                      </div>
+                     <div className="flex items-center gap-2 text-sm font-semibold text-gray-700">
+                        <span className="w-3 h-3 bg-amber-500 rounded-full"></span>
+                        {marks.filter(m => m.status === 'partial').length}
+                     </div>
                      <div className="flex items-center gap-2 text-sm font-semibold text-gray-700">
                         <span className="w-3 h-3 bg-red-500 rounded-full"></span>
                         {marks.filter(m => m.status === 'incorrect').length}
                      </div>
+                     <div className="flex items-center gap-2 text-sm font-semibold text-gray-700">
+                        <span className="w-3 h-3 bg-slate-400 rounded-full"></span>
+                        {marks.filter(m => m.status === 'unanswered').length}
+                     </div>
+                     <div className="text-sm font-bold text-gray-900">
+                        {formatPoints(score.awarded)}/{formatPoints(score.possible)}
+                     </div>
                   </div>
                   <button 
                     onClick={handleApprove}
                     className="bg-blue-600 text-white px-6 py-3 rounded-xl font-bold shadow-lg shadow-blue-500/30 hover:bg-blue-700 active:scale-95 transition"
                   >
-                    Approve <i className="fa-solid fa-paper-plane ml-2"></i>
+                    {t('app.approve')} <i className="fa-solid fa-paper-plane ml-2"></i>
                   </button>
                </div>
             </div>
@@ -253,12 +967,13 @@ function App() {
         return (
           <div className="flex flex-col items-center justify-center h-full text-center space-y-4">
             <i className="fa-solid fa-file-pdf text-5xl text-red-500 animate-bounce"></i>
-            <h2 className="text-xl font-bold text-gray-800">Generating Report...</h2>
+            <h2 className="text-xl font-bold text-gray-800">{t('app.exporting')}</h2>
           </div>
         );
 
       case AppStatus.COMPLETED:
-        const fileName = `Exam_Graded_${studentInfo?.name?.replace(/\s+/g, '_') || 'Student'}.pdf`;
+        const fileName = gradedFileName(studentInfo);
+        const sends = deliveries.filter(job => deliveryIds.includes(job.id));
 
         return (
           <div className="flex flex-col items-center justify-center h-full text-center p-8 space-y-8 animate-[fadeIn_0.5s_ease-out]">
@@ -267,12 +982,18 @@ function App() {
             </div>
             
             <div>
-              <h2 className="text-2xl font-bold text-gray-900">Grading Complete!</h2>
+              <h2 className="text-2xl font-bold text-gray-900">{t('app.complete.title')}</h2>
               <p className="text-gray-500 mt-2">
-                Results ready for <span className="font-semibold text-gray-800">{studentInfo?.name}</span>
+                {t('app.complete.resultsFor', { name: studentInfo?.name || '' })}
               </p>
             </div>
 
+            {sends.length > 0 && (
+              <div className="w-full max-w-xs bg-gray-50 rounded-xl p-2">
+                <DeliveryStatusList jobs={sends} onRetry={retryDelivery} />
+              </div>
+            )}
+
             <div className="flex flex-col w-full max-w-xs gap-3">
               {/* Native Share Button */}
               <button 
@@ -288,12 +1009,12 @@ function App() {
                 {isSharing ? (
                    <>
                      <i className="fa-solid fa-circle-notch animate-spin"></i>
-                     <span>Preparing...</span>
+                     <span>{t('app.complete.preparing')}</span>
                    </>
                 ) : (
                    <>
                      <i className="fa-solid fa-arrow-up-from-bracket"></i>
-                     <span>Share / Email PDF</span>
+                     <span>{t('app.complete.share')}</span>
                    </>
                 )}
               </button>
@@ -306,17 +1027,26 @@ function App() {
                   className="w-full bg-white border-2 border-gray-200 hover:border-gray-300 text-gray-700 font-bold py-4 px-6 rounded-2xl transition flex items-center justify-center gap-3"
                 >
                   <i className="fa-solid fa-download"></i>
-                  <span>Save to Files</span>
+                  <span>{t('app.complete.save')}</span>
                 </a>
               )}
             </div>
 
-            <button 
-              onClick={resetApp}
-              className="text-gray-400 hover:text-gray-600 font-medium text-sm mt-4"
-            >
-              Start Over
-            </button>
+            {batch ? (
+              <button 
+                onClick={returnToQueue}
+                className="text-blue-600 hover:text-blue-700 font-semibold text-sm mt-4"
+              >
+                {t('app.complete.backToQueue')}
+              </button>
+            ) : (
+              <button 
+                onClick={resetApp}
+                className="text-gray-400 hover:text-gray-600 font-medium text-sm mt-4"
+              >
+                {t('app.complete.startOver')}
+              </button>
+            )}
           </div>
         );
 
@@ -326,30 +1056,74 @@ function App() {
   };
 
   return (
-    <div className="h-[100dvh] w-full max-w-md mx-auto bg-white shadow-2xl overflow-hidden flex flex-col relative md:rounded-3xl md:my-8 md:h-[90vh]">
-      {/* Top Bar */}
-      <div className="bg-white/80 backdrop-blur-md z-30 px-6 py-4 border-b flex justify-between items-center sticky top-0">
-        <h1 className="text-xl font-black tracking-tight text-gray-900">
-          <span className="text-blue-600">Smart</span>Grade
-        </h1>
-        {status === AppStatus.REVIEWING && (
-           <button onClick={resetApp} className="text-red-500 font-medium text-sm hover:underline">
-             Cancel
-           </button>
-        )}
-      </div>
+    <I18nContext.Provider value={i18n}>
+      <div className="h-[100dvh] w-full max-w-md mx-auto bg-white shadow-2xl overflow-hidden flex flex-col relative md:rounded-3xl md:my-8 md:h-[90vh]">
+        {/* Top Bar */}
+        <div className="bg-white/80 backdrop-blur-md z-30 px-6 py-4 border-b flex justify-between items-center sticky top-0">
+          <h1 className="text-xl font-black tracking-tight text-gray-900">
+            <span className="text-blue-600">Smart</span>Grade
+          </h1>
+          {status === AppStatus.IDLE && (
+             <div className="flex items-center gap-4 text-gray-500">
+               <button onClick={() => setStatus(AppStatus.ROSTER)} className="hover:text-blue-600" title={t('app.roster')}>
+                 <i className="fa-solid fa-users"></i>
+               </button>
+               <button onClick={() => setStatus(AppStatus.GRADEBOOK)} className="hover:text-blue-600" title={t('app.gradebook')}>
+                 <i className="fa-solid fa-table-list"></i>
+               </button>
+               {deliveries.length > 0 && (
+                 <button onClick={() => setStatus(AppStatus.OUTBOX)} className="relative hover:text-blue-600" title={t('app.outbox')}>
+                   <i className="fa-solid fa-paper-plane"></i>
+                   {unsent > 0 && (
+                     <span className={`absolute -top-2 -right-2 min-w-[16px] h-4 px-1 rounded-full text-[10px] font-bold text-white flex items-center justify-center ${failedSends > 0 ? 'bg-red-500' : 'bg-blue-600'}`}>
+                       {unsent}
+                     </span>
+                   )}
+                 </button>
+               )}
+               <button onClick={() => setStatus(AppStatus.PROFILES)} className="hover:text-blue-600" title={t('app.settings')}>
+                 <i className="fa-solid fa-gear"></i>
+               </button>
+             </div>
+          )}
+          {status === AppStatus.REVIEWING && (
+             <div className="flex items-center gap-4">
+               <div className="flex items-center gap-3 text-gray-500">
+                 <button onClick={undo} disabled={history.undo.length === 0} className="hover:text-blue-600 disabled:text-gray-300" title={t('app.undo')}>
+                   <i className="fa-solid fa-rotate-left"></i>
+                 </button>
+                 <button onClick={redo} disabled={history.redo.length === 0} className="hover:text-blue-600 disabled:text-gray-300" title={t('app.redo')}>
+                   <i className="fa-solid fa-rotate-right"></i>
+                 </button>
+               </div>
+               {batch ? (
+                 <button onClick={returnToQueue} className="text-blue-600 font-medium text-sm hover:underline">
+                   {t('app.backToQueue')}
+                 </button>
+               ) : (
+                 <button onClick={resetApp} className="text-red-500 font-medium text-sm hover:underline">
+                   {t('common.cancel')}
+                 </button>
+               )}
+             </div>
+          )}
+        </div>
 
-      <div className="flex-1 overflow-hidden relative">
-        {renderContent()}
-      </div>
+        <div className="flex-1 overflow-hidden relative">
+          {renderContent()}
+        </div>
 
-      {isStudentFormOpen && (
-        <StudentForm 
-          onSubmit={handleFinalSubmit} 
-          onCancel={() => setIsStudentFormOpen(false)} 
-        />
-      )}
-    </div>
+        {isStudentFormOpen && (
+          <StudentForm 
+            initialInfo={studentInfo || (activeSubmission?.detectedName ? { name: activeSubmission.detectedName } : undefined)}
+            initialAssignment={answerKey?.title || listAssignments()[0]}
+            overrideCount={marks.filter(m => isOverridden(m, auditLog)).length}
+            onSubmit={handleFinalSubmit} 
+            onCancel={() => setIsStudentFormOpen(false)} 
+          />
+        )}
+      </div>
+    </I18nContext.Provider>
   );
 }
 
@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { Annotation, AnnotationTool, Point } from '../types';
+import {
+  HIGHLIGHTER_COLOR, HIGHLIGHTER_OPACITY, HIGHLIGHTER_WIDTH, PEN_WIDTH, STAMP_SIZE, TEXT_SIZE,
+  appendPoint, createAnnotationId, stampBox, touchesAnnotation,
+} from '../utils/annotations';
+import { useI18n } from '../i18n';
+
+interface AnnotationLayerProps {
+  annotations: Annotation[];
+  aspect: number; // Page height / width
+  tool: AnnotationTool | null; // null leaves the page to the marks
+  color: string;
+  stampLabel: string;
+  onChange: (annotations: Annotation[]) => void;
+}
+
+type StrokeAnnotation = Extract<Annotation, { type: 'stroke' }>;
+
+const ERASER_RADIUS = 0.015;
+
+// Draws the teacher's annotations over the page and, while an ink tool is active, takes input for it
+const AnnotationLayer: React.FC<AnnotationLayerProps> = ({ annotations, aspect, tool, color, stampLabel, onChange }) => {
+  const { t } = useI18n();
+  // Stroke being drawn and annotations being rubbed out; both are committed as one change on release
+  const [stroke, setStroke] = useState<StrokeAnnotation | null>(null);
+  const [erased, setErased] = useState<Set<string> | null>(null);
+
+  // Helper to convert a screen point into normalized page coordinates
+  const toPoint = (e: React.PointerEvent<SVGSVGElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)),
+      y: Math.max(0, Math.min(1, (e.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  const eraseAt = (point: Point, already: Set<string>): Set<string> => {
+    const hits = annotations.filter(a => !already.has(a.id) && touchesAnnotation(a, point, ERASER_RADIUS, aspect));
+    return hits.length > 0 ? new Set([...already, ...hits.map(a => a.id)]) : already;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!tool) return;
+    e.stopPropagation();
+    const point = toPoint(e);
+
+    switch (tool) {
+      case 'pen':
+      case 'highlighter':
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setStroke({
+          id: createAnnotationId(),
+          type: 'stroke',
+          tool,
+          color: tool === 'pen' ? color : HIGHLIGHTER_COLOR,
+          width: tool === 'pen' ? PEN_WIDTH : HIGHLIGHTER_WIDTH,
+          points: [point],
+        });
+        break;
+      case 'eraser':
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setErased(eraseAt(point, new Set()));
+        break;
+      case 'text': {
+        const text = window.prompt(t('ink.textPrompt'))?.trim();
+        if (text) onChange([...annotations, { id: createAnnotationId(), type: 'text', at: point, text, color, size: TEXT_SIZE }]);
+        break;
+      }
+      case 'stamp':
+        onChange([...annotations, { id: createAnnotationId(), type: 'stamp', at: point, label: stampLabel, color, size: STAMP_SIZE }]);
+        break;
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (stroke) {
+      const points = appendPoint(stroke.points, toPoint(e));
+      if (points !== stroke.points) setStroke({ ...stroke, points });
+    } else if (erased) {
+      const next = eraseAt(toPoint(e), erased);
+      if (next !== erased) setErased(next);
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (stroke) {
+      onChange([...annotations, stroke]);
+      setStroke(null);
+    } else if (erased) {
+      if (erased.size > 0) onChange(annotations.filter(a => !erased.has(a.id)));
+      setErased(null);
+    }
+  };
+
+  const handlePointerCancel = () => {
+    setStroke(null);
+    setErased(null);
+  };
+
+  const visible = [...annotations.filter(a => !erased?.has(a.id)), ...(stroke ? [stroke] : [])];
+
+  return (
+    <svg
+      className={`ink-surface absolute inset-0 w-full h-full ${tool ? 'pointer-events-auto touch-none cursor-crosshair z-40' : 'pointer-events-none'}`}
+      viewBox={`0 0 1 ${aspect}`}
+      preserveAspectRatio="none"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerCancel}
+    >
+      {visible.map(annotation => {
+        switch (annotation.type) {
+          case 'stroke':
+            return (
+              <polyline
+                key={annotation.id}
+                points={annotation.points.map(p => `${p.x},${p.y * aspect}`).join(' ')}
+                fill="none"
+                stroke={annotation.color}
+                strokeWidth={annotation.width}
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                opacity={annotation.tool === 'highlighter' ? HIGHLIGHTER_OPACITY : 1}
+              />
+            );
+          case 'text':
+            return (
+              <text
+                key={annotation.id}
+                x={annotation.at.x}
+                y={annotation.at.y * aspect}
+                fontSize={annotation.size}
+                fill={annotation.color}
+                fontFamily="Arial, sans-serif"
+              >
+                {annotation.text}
+              </text>
+            );
+          case 'stamp': {
+            const { width, height } = stampBox(annotation);
+            return (
+              <g key={annotation.id} transform={`translate(${annotation.at.x} ${annotation.at.y * aspect})`}>
+                <rect
+                  x={-width / 2}
+                  y={-height / 2}
+                  width={width}
+                  height={height}
+                  rx={height * 0.25}
+                  fill="white"
+                  fillOpacity={0.8}
+                  stroke={annotation.color}
+                  strokeWidth={annotation.size * 0.12}
+                />
+                <text
+                  textAnchor="middle"
+                  dominantBaseline="central"
+                  fontSize={annotation.size}
+                  fontWeight="bold"
+                  fill={annotation.color}
+                  fontFamily="Arial, sans-serif"
+                >
+                  {annotation.label}
+                </text>
+              </g>
+            );
+          }
+        }
+      })}
+    </svg>
+  );
+};
+
+export default AnnotationLayer;
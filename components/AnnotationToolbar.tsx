@@ -0,0 +1,91 @@
+import React from 'react';
+import { AnnotationTool } from '../types';
+import { INK_COLORS } from '../utils/annotations';
+import { TranslationKey, useI18n } from '../i18n';
+
+interface AnnotationToolbarProps {
+  tool: AnnotationTool | null;
+  onToolChange: (tool: AnnotationTool | null) => void;
+  color: string;
+  onColorChange: (color: string) => void;
+  stamps: string[]; // Labels in the feedback language, score stamp included
+  stampLabel: string;
+  onStampChange: (label: string) => void;
+  canUndo: boolean;
+  onUndo: () => void;
+}
+
+const TOOLS: { tool: AnnotationTool | null; icon: string; label: TranslationKey }[] = [
+  { tool: null, icon: 'fa-check', label: 'ink.marks' },
+  { tool: 'pen', icon: 'fa-pen', label: 'ink.pen' },
+  { tool: 'highlighter', icon: 'fa-highlighter', label: 'ink.highlighter' },
+  { tool: 'eraser', icon: 'fa-eraser', label: 'ink.eraser' },
+  { tool: 'text', icon: 'fa-font', label: 'ink.text' },
+  { tool: 'stamp', icon: 'fa-stamp', label: 'ink.stamp' },
+];
+
+const AnnotationToolbar: React.FC<AnnotationToolbarProps> = ({
+  tool,
+  onToolChange,
+  color,
+  onColorChange,
+  stamps,
+  stampLabel,
+  onStampChange,
+  canUndo,
+  onUndo
+}) => {
+  const { t } = useI18n();
+  const showColors = tool === 'pen' || tool === 'text' || tool === 'stamp';
+
+  return (
+    <div className="absolute top-4 left-4 z-30 flex items-start gap-2">
+      <div className="flex flex-col gap-1 bg-black/50 backdrop-blur-md rounded-2xl p-1">
+        {TOOLS.map(item => (
+          <button
+            key={item.label}
+            onClick={() => onToolChange(item.tool)}
+            className={`w-9 h-9 rounded-xl text-sm transition ${tool === item.tool ? 'bg-white text-gray-900' : 'text-white hover:bg-white/20'}`}
+            title={t(item.label)}
+          >
+            <i className={`fa-solid ${item.icon}`}></i>
+          </button>
+        ))}
+        <button
+          onClick={onUndo}
+          disabled={!canUndo}
+          className="w-9 h-9 rounded-xl text-sm text-white hover:bg-white/20 disabled:opacity-30"
+          title={t('ink.undo')}
+        >
+          <i className="fa-solid fa-rotate-left"></i>
+        </button>
+      </div>
+
+      {showColors && (
+        <div className="flex flex-col gap-2 bg-black/50 backdrop-blur-md rounded-2xl p-2">
+          <div className="flex gap-1.5">
+            {INK_COLORS.map(c => (
+              <button
+                key={c}
+                onClick={() => onColorChange(c)}
+                className={`w-6 h-6 rounded-full border-2 ${color === c ? 'border-white scale-110' : 'border-transparent'}`}
+                style={{ backgroundColor: c }}
+              />
+            ))}
+          </div>
+          {tool === 'stamp' && stamps.map(label => (
+            <button
+              key={label}
+              onClick={() => onStampChange(label)}
+              className={`px-2 py-1 rounded-lg text-xs font-bold text-left ${stampLabel === label ? 'bg-white text-gray-900' : 'text-white hover:bg-white/20'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnnotationToolbar;
@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { AnswerKey, AnswerKeyEntry } from '../types';
+import { useI18n } from '../i18n';
+
+interface AnswerKeyEditorProps {
+  answerKey: AnswerKey | null;
+  onSave: (answerKey: AnswerKey | null) => void;
+  onCancel: () => void;
+}
+
+// Editable row: alternatives are kept as raw text until save
+interface EntryDraft {
+  id: string;
+  questionId: string;
+  expectedAnswer: string;
+  alternatives: string;
+  points: string;
+}
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+const toDraft = (entry: AnswerKeyEntry): EntryDraft => ({
+  id: entry.id,
+  questionId: entry.questionId,
+  expectedAnswer: entry.expectedAnswer,
+  alternatives: entry.alternatives.join(' | '),
+  points: String(entry.points),
+});
+
+const emptyDraft = (index: number): EntryDraft => ({
+  id: newId(),
+  questionId: String(index + 1),
+  expectedAnswer: '',
+  alternatives: '',
+  points: '1',
+});
+
+const AnswerKeyEditor: React.FC<AnswerKeyEditorProps> = ({ answerKey, onSave, onCancel }) => {
+  const { t } = useI18n();
+  const [title, setTitle] = useState(answerKey?.title || '');
+  const [drafts, setDrafts] = useState<EntryDraft[]>(
+    answerKey && answerKey.entries.length > 0 ? answerKey.entries.map(toDraft) : [emptyDraft(0)]
+  );
+
+  const updateDraft = (id: string, field: keyof EntryDraft, value: string) => {
+    setDrafts(prev => prev.map(d => d.id === id ? { ...d, [field]: value } : d));
+  };
+
+  const addRow = () => {
+    setDrafts(prev => [...prev, emptyDraft(prev.length)]);
+  };
+
+  const removeRow = (id: string) => {
+    setDrafts(prev => prev.filter(d => d.id !== id));
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const entries: AnswerKeyEntry[] = drafts
+      .filter(d => d.questionId.trim() && d.expectedAnswer.trim())
+      .map(d => ({
+        id: d.id,
+        questionId: d.questionId.trim(),
+        expectedAnswer: d.expectedAnswer.trim(),
+        alternatives: d.alternatives.split('|').map(a => a.trim()).filter(Boolean),
+        points: Math.max(0, Number(d.points) || 0),
+      }));
+
+    if (entries.length === 0) {
+      onSave(null);
+      return;
+    }
+
+    onSave({
+      id: answerKey?.id || newId(),
+      title: title.trim() || t('key.title'),
+      entries,
+    });
+  };
+
+  const totalPoints = drafts.reduce((sum, d) => sum + (Number(d.points) || 0), 0);
+
+  return (
+    <form onSubmit={handleSave} className="flex flex-col h-full">
+      <div className="p-6 pb-3 space-y-3 border-b">
+        <h2 className="text-xl font-bold text-gray-800">{t('key.title')}</h2>
+        <input
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          className="w-full px-4 py-2 bg-gray-100 rounded-lg border-transparent focus:bg-white focus:ring-2 focus:ring-blue-500 outline-none transition"
+          placeholder={t('key.titlePlaceholder')}
+        />
+        <p className="text-xs text-gray-400">
+          {t('key.summary', { questions: drafts.length, points: totalPoints })}
+        </p>
+      </div>
+
+      <div className="flex-1 overflow-y-auto no-scrollbar p-4 space-y-3">
+        {drafts.map((draft) => (
+          <div key={draft.id} className="bg-gray-50 rounded-xl p-3 space-y-2 border border-gray-100">
+            <div className="flex gap-2 items-center">
+              <input
+                type="text"
+                value={draft.questionId}
+                onChange={(e) => updateDraft(draft.id, 'questionId', e.target.value)}
+                className="w-16 px-2 py-1.5 bg-white rounded-lg text-sm font-semibold text-center outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder={t('key.questionPlaceholder')}
+              />
+              <input
+                type="text"
+                value={draft.expectedAnswer}
+                onChange={(e) => updateDraft(draft.id, 'expectedAnswer', e.target.value)}
+                className="flex-1 px-3 py-1.5 bg-white rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder={t('key.expected')}
+              />
+              <input
+                type="number"
+                min="0"
+                step="0.5"
+                value={draft.points}
+                onChange={(e) => updateDraft(draft.id, 'points', e.target.value)}
+                className="w-16 px-2 py-1.5 bg-white rounded-lg text-sm text-center outline-none focus:ring-2 focus:ring-blue-500"
+                title={t('key.points')}
+              />
+              <button
+                type="button"
+                onClick={() => removeRow(draft.id)}
+                className="text-gray-400 hover:text-red-500 px-1"
+                title={t('common.delete')}
+              >
+                <i className="fa-solid fa-trash text-sm"></i>
+              </button>
+            </div>
+            <input
+              type="text"
+              value={draft.alternatives}
+              onChange={(e) => updateDraft(draft.id, 'alternatives', e.target.value)}
+              className="w-full px-3 py-1.5 bg-white rounded-lg text-xs text-gray-600 outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder={t('key.alternatives')}
+            />
+          </div>
+        ))}
+
+        <button
+          type="button"
+          onClick={addRow}
+          className="w-full py-3 rounded-xl border-2 border-dashed border-gray-200 text-gray-500 font-medium hover:border-gray-300 transition"
+        >
+          <i className="fa-solid fa-plus mr-2"></i>{t('key.addQuestion')}
+        </button>
+      </div>
+
+      <div className="flex gap-3 p-4 border-t">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex-1 py-3 px-4 rounded-xl text-gray-700 font-semibold bg-gray-100 hover:bg-gray-200 transition"
+        >
+          {t('common.cancel')}
+        </button>
+        <button
+          type="submit"
+          className="flex-1 py-3 px-4 rounded-xl text-white font-semibold bg-blue-600 hover:bg-blue-700 shadow-lg shadow-blue-600/30 transition"
+        >
+          {t('key.save')}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default AnswerKeyEditor;
@@ -0,0 +1,100 @@
+import React from 'react';
+import { Submission, SubmissionStatus } from '../types';
+import { formatPoints, summarizeScore } from '../utils/scoring';
+import { TranslationKey, useI18n } from '../i18n';
+
+interface BatchQueueProps {
+  submissions: Submission[];
+  onReview: (submissionId: string) => void;
+  onRetry: (submissionId: string) => void;
+  onFinish: () => void;
+}
+
+const statusBadges: Record<SubmissionStatus, { label: TranslationKey; className: string; icon: string }> = {
+  queued: { label: 'batch.queued', className: 'bg-gray-100 text-gray-500', icon: 'fa-clock' },
+  grading: { label: 'batch.grading', className: 'bg-blue-100 text-blue-600', icon: 'fa-circle-notch animate-spin' },
+  ready: { label: 'batch.ready', className: 'bg-amber-100 text-amber-700', icon: 'fa-eye' },
+  done: { label: 'batch.done', className: 'bg-green-100 text-green-700', icon: 'fa-check' },
+  failed: { label: 'batch.failed', className: 'bg-red-100 text-red-600', icon: 'fa-triangle-exclamation' },
+};
+
+const BatchQueue: React.FC<BatchQueueProps> = ({ submissions, onReview, onRetry, onFinish }) => {
+  const { t } = useI18n();
+  const doneCount = submissions.filter(s => s.status === 'done').length;
+  const gradedCount = submissions.filter(s => s.status === 'ready' || s.status === 'done').length;
+  const progress = submissions.length > 0 ? (gradedCount / submissions.length) * 100 : 0;
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Progress Header */}
+      <div className="p-6 pb-4 border-b space-y-3">
+        <div className="flex justify-between items-baseline">
+          <h2 className="text-xl font-bold text-gray-800">{t('batch.title')}</h2>
+          <span className="text-sm text-gray-500">
+            {t('batch.summary', { graded: gradedCount, total: submissions.length, exported: doneCount })}
+          </span>
+        </div>
+        <div className="w-full h-2 bg-gray-100 rounded-full overflow-hidden">
+          <div className="h-full bg-blue-600 transition-all" style={{ width: `${progress}%` }}></div>
+        </div>
+      </div>
+
+      {/* Submissions */}
+      <div className="flex-1 overflow-y-auto no-scrollbar p-4 space-y-2">
+        {submissions.map((submission, index) => {
+          const badge = statusBadges[submission.status];
+          const canReview = submission.status === 'ready' || submission.status === 'done';
+          const score = summarizeScore(submission.marks);
+          const name = submission.studentInfo?.name || submission.detectedName || t('batch.student', { number: index + 1 });
+
+          return (
+            <div key={submission.id} className="flex items-center gap-3 bg-gray-50 rounded-xl p-3">
+              <div className="w-8 h-8 rounded-full bg-white shadow-sm flex items-center justify-center text-xs font-bold text-gray-500">
+                {index + 1}
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="font-semibold text-gray-800 truncate">{name}</p>
+                <p className="text-xs text-gray-500">
+                  {t('common.pageCount', { count: submission.pages.length })}
+                  {canReview && ` · ${formatPoints(score.awarded)}/${formatPoints(score.possible)}`}
+                  {submission.error && ` · ${submission.error}`}
+                </p>
+              </div>
+              <span className={`text-[10px] font-bold px-2 py-1 rounded-full flex items-center gap-1 ${badge.className}`}>
+                <i className={`fa-solid ${badge.icon}`}></i>
+                {t(badge.label)}
+              </span>
+              {canReview && (
+                <button
+                  onClick={() => onReview(submission.id)}
+                  className="text-sm font-semibold text-blue-600 hover:underline px-1"
+                >
+                  {submission.status === 'done' ? t('batch.reopen') : t('batch.review')}
+                </button>
+              )}
+              {submission.status === 'failed' && (
+                <button
+                  onClick={() => onRetry(submission.id)}
+                  className="text-sm font-semibold text-red-600 hover:underline px-1"
+                >
+                  {t('common.retry')}
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="p-4 border-t">
+        <button
+          onClick={onFinish}
+          className="w-full py-3 px-4 rounded-xl text-gray-700 font-semibold bg-gray-100 hover:bg-gray-200 transition"
+        >
+          {doneCount === submissions.length ? t('batch.finish') : t('batch.close')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BatchQueue;
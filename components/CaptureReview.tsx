@@ -0,0 +1,136 @@
+import React, { useRef, useState } from 'react';
+import { CapturedPage, Quad } from '../types';
+import { FULL_FRAME } from '../utils/docScan';
+import { useI18n } from '../i18n';
+
+interface CaptureReviewProps {
+  captures: CapturedPage[];
+  onUpdateCorners: (captureId: string, corners: Quad) => void;
+  onConfirm: (enhance: boolean) => void;
+  onCancel: () => void;
+}
+
+interface CornerEditorProps {
+  capture: CapturedPage;
+  index: number;
+  onUpdateCorners: (corners: Quad) => void;
+}
+
+// One photo with its page outline; each corner handle can be dragged with mouse or touch
+const CornerEditor: React.FC<CornerEditorProps> = ({ capture, index, onUpdateCorners }) => {
+  const imgRef = useRef<HTMLImageElement>(null);
+  const [activeCorner, setActiveCorner] = useState<number | null>(null);
+  const { t } = useI18n();
+  const { corners } = capture;
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (activeCorner === null || !imgRef.current) return;
+    const rect = imgRef.current.getBoundingClientRect();
+    const x = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width));
+    const y = Math.max(0, Math.min(1, (e.clientY - rect.top) / rect.height));
+
+    const next = [...corners] as Quad;
+    next[activeCorner] = { x, y };
+    onUpdateCorners(next);
+  };
+
+  const outline = corners.map(c => `${c.x * 100},${c.y * 100}`).join(' ');
+
+  return (
+    <div className="bg-gray-50 rounded-2xl p-3 space-y-2">
+      <div className="flex justify-between items-center text-sm">
+        <span className="font-semibold text-gray-700">{t('common.page', { number: index + 1 })}</span>
+        <div className="flex gap-3">
+          <button onClick={() => onUpdateCorners(capture.detectedCorners)} className="text-blue-600 hover:underline">
+            <i className="fa-solid fa-wand-magic-sparkles mr-1"></i>{t('capture.auto')}
+          </button>
+          <button onClick={() => onUpdateCorners(FULL_FRAME)} className="text-gray-500 hover:underline">
+            <i className="fa-solid fa-expand mr-1"></i>{t('capture.wholePhoto')}
+          </button>
+        </div>
+      </div>
+
+      <div
+        className="relative select-none touch-none"
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setActiveCorner(null)}
+        onPointerCancel={() => setActiveCorner(null)}
+      >
+        <img ref={imgRef} src={capture.imageUrl} alt={t('common.page', { number: index + 1 })} className="w-full h-auto block rounded-lg" draggable={false} />
+
+        {/* Page Outline */}
+        <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="none">
+          <polygon points={outline} fill="rgba(59,130,246,0.15)" stroke="#3b82f6" strokeWidth="0.6" vectorEffect="non-scaling-stroke" />
+        </svg>
+
+        {/* Corner Handles */}
+        {corners.map((corner, cornerIndex) => (
+          <div
+            key={cornerIndex}
+            className="absolute w-10 h-10 -translate-x-1/2 -translate-y-1/2 flex items-center justify-center cursor-move"
+            style={{ left: `${corner.x * 100}%`, top: `${corner.y * 100}%` }}
+            onPointerDown={(e) => {
+              e.currentTarget.setPointerCapture(e.pointerId);
+              setActiveCorner(cornerIndex);
+            }}
+          >
+            <div className={`rounded-full border-2 border-white shadow bg-blue-600 ${activeCorner === cornerIndex ? 'w-6 h-6' : 'w-4 h-4'}`} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const CaptureReview: React.FC<CaptureReviewProps> = ({ captures, onUpdateCorners, onConfirm, onCancel }) => {
+  const [enhance, setEnhance] = useState(true);
+  const { t } = useI18n();
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-6 pb-4 border-b">
+        <h2 className="text-xl font-bold text-gray-800">{t('capture.title')}</h2>
+        <p className="text-sm text-gray-500 mt-1">{t('capture.subtitle')}</p>
+      </div>
+
+      <div className="flex-1 overflow-y-auto no-scrollbar p-4 space-y-4">
+        {captures.map((capture, index) => (
+          <CornerEditor
+            key={capture.id}
+            capture={capture}
+            index={index}
+            onUpdateCorners={(corners) => onUpdateCorners(capture.id, corners)}
+          />
+        ))}
+      </div>
+
+      <div className="p-4 border-t space-y-3">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={enhance}
+            onChange={(e) => setEnhance(e.target.checked)}
+            className="w-4 h-4 accent-blue-600"
+          />
+          {t('capture.enhance')}
+        </label>
+        <div className="flex gap-3">
+          <button
+            onClick={onCancel}
+            className="flex-1 py-3 px-4 rounded-xl text-gray-700 font-semibold bg-gray-100 hover:bg-gray-200 transition"
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={() => onConfirm(enhance)}
+            className="flex-1 py-3 px-4 rounded-xl text-white font-semibold bg-blue-600 hover:bg-blue-700 shadow-lg shadow-blue-600/30 transition"
+          >
+            {t('capture.use', { count: captures.length })}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CaptureReview;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { DeliveryChannel, DeliveryJob, DeliveryStatus } from '../types';
+import { deliveryConfig } from '../config';
+import { TranslationKey, useI18n } from '../i18n';
+
+interface DeliveryStatusListProps {
+  jobs: DeliveryJob[];
+  onRetry: (id: string) => void;
+  onRemove?: (id: string) => void;
+  showAssignment?: boolean;
+}
+
+const channelLabels: Record<DeliveryChannel, { label: TranslationKey; icon: string }> = {
+  email: { label: 'delivery.channel.email', icon: 'fa-envelope' },
+  classroom: { label: 'delivery.channel.classroom', icon: 'fa-chalkboard-user' },
+  canvas: { label: 'delivery.channel.canvas', icon: 'fa-graduation-cap' },
+};
+
+const statusBadges: Record<DeliveryStatus, { label: TranslationKey; className: string; icon: string }> = {
+  queued: { label: 'delivery.queued', className: 'bg-gray-100 text-gray-500', icon: 'fa-clock' },
+  sending: { label: 'delivery.sending', className: 'bg-blue-100 text-blue-600', icon: 'fa-circle-notch animate-spin' },
+  delivered: { label: 'delivery.delivered', className: 'bg-green-100 text-green-700', icon: 'fa-check' },
+  failed: { label: 'delivery.failed', className: 'bg-red-100 text-red-600', icon: 'fa-triangle-exclamation' },
+};
+
+// One row per send, with its channel, status and the last error while it isn't delivered
+const DeliveryStatusList: React.FC<DeliveryStatusListProps> = ({ jobs, onRetry, onRemove, showAssignment = false }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="space-y-2">
+      {jobs.map(job => {
+        const channel = channelLabels[job.channel];
+        const badge = statusBadges[job.status];
+        return (
+          <div key={job.id} className="flex items-center gap-3 bg-white rounded-lg px-3 py-2 text-left">
+            <i className={`fa-solid ${channel.icon} text-gray-400 w-4 text-center`}></i>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-gray-800 truncate">
+                {t(channel.label)}{showAssignment && ` · ${job.assignment}`}
+              </p>
+              {job.status !== 'delivered' && job.lastError && (
+                <p className="text-xs text-red-500 truncate" title={job.lastError}>
+                  {job.status === 'queued' && job.attempts > 0
+                    ? t('delivery.retrying', { attempts: job.attempts, max: deliveryConfig.maxAttempts })
+                    : job.lastError}
+                </p>
+              )}
+            </div>
+            <span className={`text-[10px] font-bold px-2 py-1 rounded-full flex items-center gap-1 ${badge.className}`}>
+              <i className={`fa-solid ${badge.icon}`}></i>
+              {t(badge.label)}
+            </span>
+            {job.status === 'failed' && (
+              <button onClick={() => onRetry(job.id)} className="text-sm font-semibold text-red-600 hover:underline px-1">
+                {t('common.retry')}
+              </button>
+            )}
+            {onRemove && job.status !== 'sending' && (
+              <button onClick={() => onRemove(job.id)} className="text-gray-300 hover:text-red-500 px-1" title={t('common.delete')}>
+                <i className="fa-solid fa-xmark"></i>
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default DeliveryStatusList;
@@ -0,0 +1,174 @@
+import React, { useMemo, useState } from 'react';
+import { GradebookEntry, MarkStatus } from '../types';
+import { deleteGradebookEntry, listAssignments, loadGradebook } from '../services/gradebookStore';
+import { columnKey, gradebookRows, questionColumns } from '../utils/gradebook';
+import { toCsv } from '../utils/csv';
+import { toXlsx } from '../utils/xlsx';
+import { formatPoints } from '../utils/scoring';
+import { shareFile } from '../utils/share';
+import ItemAnalysis from './ItemAnalysis';
+import { useI18n } from '../i18n';
+
+interface GradebookProps {
+  onClose: () => void;
+}
+
+const STATUS_TEXT: Record<MarkStatus, string> = {
+  correct: 'text-green-600',
+  partial: 'text-amber-600',
+  incorrect: 'text-red-500',
+  unanswered: 'text-slate-400',
+};
+
+const Gradebook: React.FC<GradebookProps> = ({ onClose }) => {
+  const [entries, setEntries] = useState<GradebookEntry[]>(() => loadGradebook());
+  const [assignment, setAssignment] = useState<string>(() => listAssignments()[0] || '');
+  const [view, setView] = useState<'grades' | 'analysis'>('grades');
+  const { t } = useI18n();
+
+  const assignments = useMemo(() => listAssignments(), [entries]);
+  const assignmentEntries = useMemo(
+    () => entries
+      .filter(e => e.assignment === assignment)
+      .sort((a, b) => a.student.name.localeCompare(b.student.name)),
+    [entries, assignment]
+  );
+  const columns = questionColumns(assignmentEntries);
+
+  const fileBaseName = `Gradebook_${assignment.replace(/\s+/g, '_') || 'Assignment'}`;
+
+  const handleExport = async (format: 'csv' | 'xlsx') => {
+    const rows = gradebookRows(assignmentEntries, t);
+    const blob = format === 'csv'
+      ? new Blob([toCsv(rows)], { type: 'text/csv;charset=utf-8' })
+      : toXlsx(rows, assignment);
+
+    try {
+      await shareFile(blob, `${fileBaseName}.${format}`, {
+        title: t('gradebook.title'),
+        text: t('gradebook.shareText', { assignment }),
+      });
+    } catch (error) {
+      console.error("Gradebook export failed", error);
+    }
+  };
+
+  const handleDelete = (id: string) => {
+    deleteGradebookEntry(id);
+    const remaining = loadGradebook();
+    setEntries(remaining);
+    if (!remaining.some(e => e.assignment === assignment)) {
+      setAssignment(listAssignments()[0] || '');
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-6 pb-4 border-b space-y-3">
+        <h2 className="text-xl font-bold text-gray-800">{t('gradebook.title')}</h2>
+        {assignments.length > 0 ? (
+          <select
+            value={assignment}
+            onChange={(e) => setAssignment(e.target.value)}
+            className="w-full px-4 py-2 bg-gray-100 rounded-lg outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {assignments.map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+        ) : (
+          <p className="text-sm text-gray-400">{t('gradebook.empty')}</p>
+        )}
+        {assignmentEntries.length > 0 && (
+          <div className="bg-gray-100 rounded-xl p-1 flex text-sm font-semibold">
+            <button
+              onClick={() => setView('grades')}
+              className={`flex-1 py-1.5 rounded-lg transition ${view === 'grades' ? 'bg-white shadow text-gray-900' : 'text-gray-500'}`}
+            >
+              {t('gradebook.grades')}
+            </button>
+            <button
+              onClick={() => setView('analysis')}
+              className={`flex-1 py-1.5 rounded-lg transition ${view === 'analysis' ? 'bg-white shadow text-gray-900' : 'text-gray-500'}`}
+            >
+              {t('gradebook.analysis')}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Grade Table: one row per student, one column per question */}
+      <div className="flex-1 overflow-auto no-scrollbar">
+        {view === 'analysis' && assignmentEntries.length > 0 && (
+          <ItemAnalysis assignment={assignment} entries={assignmentEntries} />
+        )}
+        {view === 'grades' && assignmentEntries.length > 0 && (
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 sticky top-0">
+              <tr>
+                <th className="text-left px-4 py-2 font-semibold text-gray-600">{t('gradebook.student')}</th>
+                {columns.map(column => (
+                  <th key={column.key} className="px-2 py-2 font-semibold text-gray-600 whitespace-nowrap">{column.label}</th>
+                ))}
+                <th className="px-3 py-2 font-semibold text-gray-600">{t('gradebook.total')}</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {assignmentEntries.map(entry => {
+                const byKey = new Map(entry.questions.map(q => [columnKey(q), q]));
+                return (
+                  <tr key={entry.id} className="border-b border-gray-100">
+                    <td className="px-4 py-2 font-medium text-gray-800 whitespace-nowrap">{entry.student.name}</td>
+                    {columns.map(column => {
+                      const q = byKey.get(column.key);
+                      const color = !q ? 'text-gray-300' : STATUS_TEXT[q.status];
+                      return (
+                        <td key={column.key} className={`px-2 py-2 text-center ${color}`}>
+                          {q ? formatPoints(q.awarded) : '–'}
+                        </td>
+                      );
+                    })}
+                    <td className="px-3 py-2 text-center font-bold text-gray-900 whitespace-nowrap">
+                      {formatPoints(entry.awarded)}/{formatPoints(entry.possible)}
+                    </td>
+                    <td className="px-2">
+                      <button onClick={() => handleDelete(entry.id)} className="text-gray-300 hover:text-red-500" title={t('common.delete')}>
+                        <i className="fa-solid fa-trash text-xs"></i>
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="p-4 border-t space-y-2">
+        {view === 'grades' && assignmentEntries.length > 0 && (
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleExport('csv')}
+              className="flex-1 py-3 px-4 rounded-xl text-white font-semibold bg-blue-600 hover:bg-blue-700 shadow-lg shadow-blue-600/30 transition"
+            >
+              <i className="fa-solid fa-file-csv mr-2"></i>CSV
+            </button>
+            <button
+              onClick={() => handleExport('xlsx')}
+              className="flex-1 py-3 px-4 rounded-xl text-white font-semibold bg-green-600 hover:bg-green-700 shadow-lg shadow-green-600/30 transition"
+            >
+              <i className="fa-solid fa-file-excel mr-2"></i>Excel
+            </button>
+          </div>
+        )}
+        <button
+          onClick={onClose}
+          className="w-full py-3 px-4 rounded-xl text-gray-700 font-semibold bg-gray-100 hover:bg-gray-200 transition"
+        >
+          {t('common.done')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default Gradebook;
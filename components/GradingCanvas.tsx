@@ -1,55 +1,153 @@
-import React, { useRef, useState } from 'react';
-import { GradingMark, ExamPage } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { Annotation, AnnotationTool, GradingMark, ExamPage, AnswerKey, BoundingBox, MarkAuditEvent, MarkStatus } from '../types';
+import {
+  firstErrorStep, formatPoints, getMethodPoints, getPointsAwarded, getPointsPossible, nextStatus, withMethodPoints, withPoints, withStatus,
+} from '../utils/scoring';
+import { auditTrail } from '../utils/audit';
+import { isFlagged, needsReview } from '../utils/review';
+import { INK_COLORS, STAMPS } from '../utils/annotations';
+import ZoomViewport from './ZoomViewport';
+import AnnotationLayer from './AnnotationLayer';
+import AnnotationToolbar from './AnnotationToolbar';
+import MathText from './MathText';
+import { feedbackLanguageOf, translator, useI18n } from '../i18n';
 
 interface GradingCanvasProps {
   page: ExamPage;
   marks: GradingMark[];
   pageIndex: number;
+  answerKey?: AnswerKey | null;
+  auditLog?: MarkAuditEvent[];
   onUpdateMark: (mark: GradingMark) => void;
   onRemoveMark: (markId: string) => void;
   onAddMark: (x: number, y: number, pageIndex: number) => void;
+  onReexplainMark: (mark: GradingMark) => Promise<void>;
+  focusedMarkId?: string | null; // Opened and centred, e.g. by the needs-review navigator
+  onAnnotationsChange: (annotations: Annotation[]) => void;
+  scoreLabel: string; // Offered as a stamp, e.g. "7/10"
 }
 
+// The text fields a teacher can edit in the note
+type MarkText = Pick<GradingMark, 'question' | 'studentAnswer' | 'correctAnswer' | 'explanation'>;
+
+type BoxField = 'answerBox' | 'questionBox';
+type Corner = 'nw' | 'ne' | 'sw' | 'se';
+
+const CORNERS: Corner[] = ['nw', 'ne', 'sw', 'se'];
+const MIN_BOX_SIZE = 1; // Percent of the page
+
+// Helper to move a box by an offset, keeping it on the page
+const shiftBox = (box: BoundingBox, dx: number, dy: number): BoundingBox => ({
+  ...box,
+  x: Math.max(0, Math.min(100 - box.width, box.x + dx)),
+  y: Math.max(0, Math.min(100 - box.height, box.y + dy)),
+});
+
+// Helper to resize a box by dragging one corner to a point; the opposite corner stays put
+const resizeBox = (box: BoundingBox, corner: Corner, point: { x: number; y: number }): BoundingBox => {
+  const fixedX = corner.includes('w') ? box.x + box.width : box.x;
+  const fixedY = corner.includes('n') ? box.y + box.height : box.y;
+  return {
+    x: Math.min(fixedX, point.x),
+    y: Math.min(fixedY, point.y),
+    width: Math.max(MIN_BOX_SIZE, Math.abs(point.x - fixedX)),
+    height: Math.max(MIN_BOX_SIZE, Math.abs(point.y - fixedY)),
+  };
+};
+
 const GradingCanvas: React.FC<GradingCanvasProps> = ({ 
   page, 
   marks, 
   pageIndex,
+  answerKey,
+  auditLog = [],
   onUpdateMark, 
   onRemoveMark,
-  onAddMark 
+  onAddMark,
+  onReexplainMark,
+  focusedMarkId,
+  onAnnotationsChange,
+  scoreLabel
 }) => {
   const imgRef = useRef<HTMLImageElement>(null);
   const [expandedMarkId, setExpandedMarkId] = useState<string | null>(null);
+  const [editingMarkId, setEditingMarkId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<MarkText>({});
+  const [explainingMarkId, setExplainingMarkId] = useState<string | null>(null);
+  // Anchor position while it is being dragged; committed as one edit on release
+  const [drag, setDrag] = useState<{ markId: string; x: number; y: number; moved: boolean } | null>(null);
+  // Box being resized by one of its corners; also committed on release
+  const [resize, setResize] = useState<{ markId: string; field: BoxField; corner: Corner; start: BoundingBox; box: BoundingBox } | null>(null);
+  // Step of the open mark's working pointed at in the note, outlined more strongly on the page
+  const [hoveredStep, setHoveredStep] = useState<number | null>(null);
 
-  // Localization map
-  const labels = {
-    en: {
-      question: "Question",
-      studentAnswer: "Student Answer",
-      correctAnswer: "Correct Answer",
-      analysis: "Analysis",
-      correct: "Correct",
-      incorrect: "Incorrect"
-    },
-    zh: {
-      question: "题目",
-      studentAnswer: "学生作答",
-      correctAnswer: "正确答案",
-      analysis: "解析",
-      correct: "正确",
-      incorrect: "错误"
-    }
+  // Ink layer: null tool means taps place and open marks as usual
+  const [tool, setTool] = useState<AnnotationTool | null>(null);
+  const [inkColor, setInkColor] = useState(INK_COLORS[0]);
+  const [stampLabel, setStampLabel] = useState('');
+  const [aspect, setAspect] = useState(1.414); // Until the image reports its size; A4 portrait
+  const [inkHistory, setInkHistory] = useState<Annotation[][]>([]); // Earlier versions of this page's ink
+
+  // Controls follow the teacher's UI language; note headings follow the language the marks are written in
+  const { t } = useI18n();
+  const noteT = translator(feedbackLanguageOf(page));
+
+  const focusedMark = marks.find(m => m.id === focusedMarkId);
+  const annotations = page.annotations || [];
+  // Stamps are written on the student's paper, so they use the feedback language
+  const stamps = [...STAMPS.map(key => noteT(key)), scoreLabel];
+  const activeStamp = stamps.includes(stampLabel) ? stampLabel : stamps[0];
+
+  useEffect(() => {
+    setInkHistory([]);
+  }, [page.id]);
+
+  const changeAnnotations = (next: Annotation[]) => {
+    setInkHistory(prev => [...prev, annotations].slice(-50));
+    onAnnotationsChange(next);
+  };
+
+  const undoInk = () => {
+    const previous = inkHistory[inkHistory.length - 1];
+    if (!previous) return;
+    setInkHistory(inkHistory.slice(0, -1));
+    onAnnotationsChange(previous);
+  };
+
+  const selectTool = (next: AnnotationTool | null) => {
+    setTool(next);
+    if (next) setExpandedMarkId(null);
   };
 
-  const lang = page.detectedLanguage || 'en';
-  const t = labels[lang];
+  useEffect(() => {
+    if (!focusedMarkId) return;
+    setExpandedMarkId(focusedMarkId);
+    setEditingMarkId(null);
+  }, [focusedMarkId]);
+
+  // Visual style per status
+  const statusStyles: Record<MarkStatus, { dot: string; badge: string; chip: string; region: string; icon: string; label: string }> = {
+    correct: { dot: 'bg-green-500', badge: 'bg-green-500 text-white', chip: 'bg-green-100 text-green-700', region: 'bg-green-400/15 border-green-500/70', icon: 'fa-check', label: noteT('status.correct') },
+    partial: { dot: 'bg-amber-500', badge: 'bg-amber-500 text-white', chip: 'bg-amber-100 text-amber-700', region: 'bg-amber-400/15 border-amber-500/70', icon: 'fa-circle-half-stroke', label: noteT('status.partial') },
+    incorrect: { dot: 'bg-red-500', badge: 'bg-red-500 text-white', chip: 'bg-red-100 text-red-700', region: 'bg-red-400/15 border-red-500/70', icon: 'fa-xmark', label: noteT('status.incorrect') },
+    unanswered: { dot: 'bg-slate-400', badge: 'bg-slate-400 text-white', chip: 'bg-slate-100 text-slate-600', region: 'bg-slate-400/15 border-slate-500/70', icon: 'fa-minus', label: noteT('status.unanswered') },
+  };
+
+  // Helper to convert a screen point into percentages of the page image
+  const toImagePercent = (clientX: number, clientY: number) => {
+    if (!imgRef.current) return null;
+    const rect = imgRef.current.getBoundingClientRect();
+    const x = ((clientX - rect.left) / rect.width) * 100;
+    const y = ((clientY - rect.top) / rect.height) * 100;
+    return { x: Math.max(0, Math.min(100, x)), y: Math.max(0, Math.min(100, y)) };
+  };
 
-  const handleImageClick = (e: React.MouseEvent<HTMLDivElement>) => {
+  // Called by the viewport for single taps; the image rect already reflects zoom and pan
+  const handleImageClick = (clientX: number, clientY: number, target: HTMLElement) => {
     if (!imgRef.current) return;
 
-    // Check if the click target is a button or note
-    const target = e.target as HTMLElement;
-    if (target.closest('button') || target.closest('.mark-note')) return;
+    // Check if the click target is a button, note or anchor being dragged
+    if (target.closest('button') || target.closest('.mark-note') || target.closest('.mark-anchor')) return;
 
     // Close any expanded note if clicking background
     if (expandedMarkId) {
@@ -57,159 +155,601 @@ const GradingCanvas: React.FC<GradingCanvasProps> = ({
       return;
     }
 
-    const rect = imgRef.current.getBoundingClientRect();
-    const x = ((e.clientX - rect.left) / rect.width) * 100;
-    const y = ((e.clientY - rect.top) / rect.height) * 100;
+    // Taps on the dark margin around the page don't add marks
+    if (!imgRef.current.parentElement?.contains(target)) return;
 
-    const safeX = Math.max(0, Math.min(100, x));
-    const safeY = Math.max(0, Math.min(100, y));
+    const point = toImagePercent(clientX, clientY);
+    if (point) onAddMark(point.x, point.y, pageIndex);
+  };
 
-    onAddMark(safeX, safeY, pageIndex);
+  // Pointer events cover mouse, pen and touch alike
+  const handleAnchorPointerDown = (e: React.PointerEvent<HTMLDivElement>, mark: GradingMark) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ markId: mark.id, x: mark.x, y: mark.y, moved: false });
   };
 
-  const handleMarkStatusToggle = (e: React.MouseEvent, mark: GradingMark) => {
+  const handleAnchorPointerMove = (e: React.PointerEvent<HTMLDivElement>, mark: GradingMark) => {
+    if (drag?.markId !== mark.id) return;
+    const point = toImagePercent(e.clientX, e.clientY);
+    if (point) setDrag({ markId: mark.id, ...point, moved: true });
+  };
+
+  // Moving a mark carries its boxes along
+  const handleAnchorPointerUp = (mark: GradingMark) => {
+    if (drag?.markId === mark.id && drag.moved) {
+      const dx = drag.x - mark.x;
+      const dy = drag.y - mark.y;
+      onUpdateMark({
+        ...mark,
+        x: drag.x,
+        y: drag.y,
+        answerBox: mark.answerBox && shiftBox(mark.answerBox, dx, dy),
+        questionBox: mark.questionBox && shiftBox(mark.questionBox, dx, dy),
+        steps: mark.steps?.map(s => s.box ? { ...s, box: shiftBox(s.box, dx, dy) } : s),
+      });
+    }
+    setDrag(null);
+  };
+
+  const handleResizePointerDown = (e: React.PointerEvent<HTMLDivElement>, mark: GradingMark, field: BoxField, corner: Corner) => {
+    const box = mark[field];
+    if (!box) return;
     e.stopPropagation();
-    onUpdateMark({ 
-      ...mark, 
-      status: mark.status === 'correct' ? 'incorrect' : 'correct' 
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setResize({ markId: mark.id, field, corner, start: box, box });
+  };
+
+  const handleResizePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!resize) return;
+    const point = toImagePercent(e.clientX, e.clientY);
+    if (point) setResize({ ...resize, box: resizeBox(resize.start, resize.corner, point) });
+  };
+
+  const handleResizePointerUp = (mark: GradingMark) => {
+    if (resize?.markId === mark.id && resize.box !== resize.start) {
+      onUpdateMark({ ...mark, [resize.field]: resize.box });
+    }
+    setResize(null);
+  };
+
+  // A box as currently shown: mid-resize, carried along by an anchor drag, or as stored
+  const displayedBox = (mark: GradingMark, field: BoxField): BoundingBox | undefined => {
+    if (resize?.markId === mark.id && resize.field === field) return resize.box;
+    const box = mark[field];
+    if (box && drag?.markId === mark.id) return shiftBox(box, drag.x - mark.x, drag.y - mark.y);
+    return box;
+  };
+
+  // Regions of the working as currently shown, following an anchor drag
+  const displayedSteps = (mark: GradingMark) => {
+    const steps = mark.steps || [];
+    if (drag?.markId !== mark.id) return steps;
+    return steps.map(s => s.box ? { ...s, box: shiftBox(s.box, drag.x - mark.x, drag.y - mark.y) } : s);
+  };
+
+  const startEditing = (mark: GradingMark) => {
+    setDraft({
+      question: mark.question,
+      studentAnswer: mark.studentAnswer,
+      correctAnswer: mark.correctAnswer,
+      explanation: mark.explanation,
     });
+    setEditingMarkId(mark.id);
+  };
+
+  const saveEdits = (mark: GradingMark) => {
+    // Blank fields are dropped rather than stored as empty strings
+    const cleaned = Object.fromEntries(
+      Object.entries(draft).map(([key, value]) => [key, value?.trim() ? value : undefined])
+    ) as MarkText;
+    onUpdateMark({ ...mark, ...cleaned });
+    setEditingMarkId(null);
+  };
+
+  const handleReexplain = async (mark: GradingMark) => {
+    setExplainingMarkId(mark.id);
+    try {
+      await onReexplainMark(mark);
+    } finally {
+      setExplainingMarkId(null);
+    }
+  };
+
+  const handleMarkStatusToggle = (e: React.MouseEvent, mark: GradingMark) => {
+    e.stopPropagation();
+    onUpdateMark(withStatus(mark, nextStatus(mark.status)));
+  };
+
+  const handlePointsStep = (e: React.MouseEvent, mark: GradingMark, delta: number) => {
+    e.stopPropagation();
+    onUpdateMark(withPoints(mark, getPointsAwarded(mark) + delta));
+  };
+
+  const handleMethodStep = (e: React.MouseEvent, mark: GradingMark, delta: number) => {
+    e.stopPropagation();
+    onUpdateMark(withMethodPoints(mark, getMethodPoints(mark) + delta));
+  };
+
+  // The teacher can overrule the AI on a step; the first wrong step follows
+  const toggleStepVerdict = (mark: GradingMark, index: number) => {
+    const steps = (mark.steps || []).map((s, i) => i === index
+      ? { ...s, verdict: s.verdict === 'correct' ? 'incorrect' as const : 'correct' as const }
+      : s);
+    onUpdateMark({ ...mark, steps });
   };
 
   const toggleNote = (e: React.MouseEvent, markId: string) => {
     e.stopPropagation();
     setExpandedMarkId(prev => prev === markId ? null : markId);
+    setEditingMarkId(null);
+    setHoveredStep(null);
   };
 
   return (
-    <div className="relative w-full h-full overflow-y-auto no-scrollbar bg-gray-900 flex justify-center pt-8 pb-48">
-      {/* Paper Container */}
-      <div 
-        className="relative shadow-2xl bg-white rounded-sm"
-        style={{ width: '95%', maxWidth: '800px', height: 'fit-content' }} 
+    <div className="relative w-full h-full">
+      <ZoomViewport
+        key={page.id}
+        minimapSrc={page.imageUrl}
+        onTap={handleImageClick}
+        focus={focusedMark ? { x: focusedMark.x, y: focusedMark.y, key: focusedMark.id } : null}
       >
-        {/* Image Wrapper */}
-        <div className="relative" onClick={handleImageClick}>
-          <img 
-            ref={imgRef}
-            src={page.imageUrl} 
-            alt={`Page ${pageIndex + 1}`} 
-            className="w-full h-auto block select-none"
-          />
+        {/* Paper Container */}
+        {(scale) => (
+          <div className="relative shadow-2xl bg-white rounded-sm">
+            {/* Image Wrapper */}
+            <div className="relative">
+              <img 
+                ref={imgRef}
+                src={page.imageUrl} 
+                alt={t('common.page', { number: pageIndex + 1 })} 
+                className="w-full h-auto block select-none"
+                onLoad={(e) => {
+                  const { naturalWidth, naturalHeight } = e.currentTarget;
+                  if (naturalWidth > 0) setAspect(naturalHeight / naturalWidth);
+                }}
+              />
+
+              {/* Teacher's Ink, Text and Stamps */}
+              <AnnotationLayer
+                annotations={annotations}
+                aspect={aspect}
+                tool={tool}
+                color={inkColor}
+                stampLabel={activeStamp}
+                onChange={changeAnnotations}
+              />
           
-          {/* Marks Overlay */}
-          {marks.map((mark) => {
-            const isExpanded = expandedMarkId === mark.id;
+              {/* Answer Regions (and the question region of the open mark), resizable while open */}
+              {marks.map((mark) => {
+                const isExpanded = expandedMarkId === mark.id;
+                const regions = ([
+                  ['answerBox', displayedBox(mark, 'answerBox')],
+                  ['questionBox', isExpanded ? displayedBox(mark, 'questionBox') : undefined],
+                ] as [BoxField, BoundingBox | undefined][]).filter(([, box]) => box);
+
+                return regions.map(([field, box]) => (
+                  <div
+                    key={`${mark.id}-${field}`}
+                    className={`absolute pointer-events-none rounded-sm ${
+                      field === 'answerBox'
+                        ? `${statusStyles[mark.status].region} ${isExpanded ? 'opacity-100' : 'opacity-70'}`
+                        : 'border-dashed border-blue-400/80'
+                    }`}
+                    style={{
+                      left: `${box!.x}%`,
+                      top: `${box!.y}%`,
+                      width: `${box!.width}%`,
+                      height: `${box!.height}%`,
+                      borderWidth: 2 / scale,
+                    }}
+                  >
+                    {isExpanded && CORNERS.map(corner => (
+                      <div
+                        key={corner}
+                        className={`mark-anchor absolute w-6 h-6 pointer-events-auto touch-none flex items-center justify-center ${corner === 'nw' || corner === 'se' ? 'cursor-nwse-resize' : 'cursor-nesw-resize'}`}
+                        style={{
+                          left: corner.includes('w') ? '0%' : '100%',
+                          top: corner.includes('n') ? '0%' : '100%',
+                          transform: `translate(-50%, -50%) scale(${1 / scale})`,
+                        }}
+                        onPointerDown={(e) => handleResizePointerDown(e, mark, field, corner)}
+                        onPointerMove={handleResizePointerMove}
+                        onPointerUp={() => handleResizePointerUp(mark)}
+                        onPointerCancel={() => setResize(null)}
+                      >
+                        <div className="w-3 h-3 bg-white border-2 border-blue-500 rounded-sm shadow" />
+                      </div>
+                    ))}
+                  </div>
+                ));
+              })}
+
+              {/* Steps of the Open Mark's Working, the first wrong one in red */}
+              {marks.filter(m => m.id === expandedMarkId).map(mark => {
+                const firstError = firstErrorStep(mark.steps);
+                return displayedSteps(mark).map((step, index) => step.box && (
+                  <div
+                    key={`${mark.id}-step-${index}`}
+                    className={`absolute pointer-events-none rounded-sm ${
+                      step.verdict === 'incorrect' ? 'border-red-500/80' : 'border-green-500/60'
+                    } ${index === firstError ? 'bg-red-400/20' : ''} ${hoveredStep === index ? 'ring-4 ring-blue-400/60' : ''}`}
+                    style={{
+                      left: `${step.box.x}%`,
+                      top: `${step.box.y}%`,
+                      width: `${step.box.width}%`,
+                      height: `${step.box.height}%`,
+                      borderWidth: (index === firstError ? 2 : 1) / scale,
+                    }}
+                  >
+                    <span
+                      className={`absolute -left-1 top-0 text-[10px] font-bold px-1 rounded text-white ${step.verdict === 'incorrect' ? 'bg-red-500' : 'bg-green-500'}`}
+                      style={{ transform: `translateX(-100%) scale(${1 / scale})`, transformOrigin: 'right top' }}
+                    >
+                      {index + 1}
+                    </span>
+                  </div>
+                ));
+              })}
+
+              {/* Marks Overlay */}
+              {marks.map((mark) => {
+                const isExpanded = expandedMarkId === mark.id;
+                const style = statusStyles[mark.status];
+                const pointsStep = getPointsPossible(mark) >= 2 ? 1 : 0.5;
+                const keyEntry = mark.keyEntryId
+                  ? answerKey?.entries.find(e => e.id === mark.keyEntryId)
+                  : undefined;
+                const trail = auditTrail(auditLog, mark.id);
+                const isEditing = editingMarkId === mark.id;
+                const isDragging = drag?.markId === mark.id;
+                const flagged = isFlagged(mark);
+                const pending = needsReview(mark);
+                const position = isDragging ? drag : mark;
+                const firstError = firstErrorStep(mark.steps);
+                const methodPoints = getMethodPoints(mark);
+                // Method credit applies to worked answers, or wherever the AI already gave some
+                const showMethod = mark.status !== 'unanswered' && (!!mark.steps || mark.methodPoints !== undefined);
             
-            return (
-              <div
-                key={mark.id}
-                className="absolute w-full pointer-events-none"
-                style={{ top: `${mark.y}%`, height: 0 }}
-              >
-                {/* 1. The Connector Line (From answer location to right margin) */}
-                <div 
-                  className="absolute border-t-2 border-dotted border-gray-300 opacity-60"
-                  style={{
-                    left: `${mark.x}%`,
-                    width: `${92 - mark.x}%`,
-                    top: '0',
-                  }}
-                />
-
-                {/* 2. The Anchor Dot (Where the actual answer is) */}
-                <div 
-                  className={`absolute w-3 h-3 rounded-full transform -translate-x-1/2 -translate-y-1/2 shadow-sm ${mark.status === 'correct' ? 'bg-green-500' : 'bg-red-500'}`}
-                  style={{ left: `${mark.x}%`, top: '0' }}
-                />
-
-                {/* 3. The Interactive Marker (Right Side) */}
-                <div 
-                  className="absolute transform -translate-y-1/2 z-20 pointer-events-auto flex items-start"
-                  style={{ left: '92%' }} // Fixed to right side
-                >
-                  <div className="relative">
-                    {/* Main Badge */}
-                    <button
-                      onClick={(e) => toggleNote(e, mark.id)}
-                      className={`
-                        w-10 h-10 rounded-full shadow-lg border-2 border-white 
-                        flex items-center justify-center text-lg transition-all duration-200
-                        ${mark.status === 'correct' ? 'bg-green-500 text-white' : 'bg-red-500 text-white'}
-                        hover:scale-105 active:scale-95 z-20 relative
-                      `}
+                return (
+                  <div
+                    key={mark.id}
+                    className="absolute w-full pointer-events-none"
+                    style={{ top: `${position.y}%`, height: 0 }}
+                  >
+                    {/* 1. The Connector Line (From answer location to right margin) */}
+                    <div 
+                      className="absolute border-t-2 border-dotted border-gray-300 opacity-60"
+                      style={{
+                        left: `${position.x}%`,
+                        width: `${Math.max(0, 92 - position.x)}%`,
+                        top: '0',
+                        borderTopWidth: 2 / scale,
+                      }}
+                    />
+
+                    {/* 2. The Anchor Dot (Where the actual answer is); drag it to move the mark */}
+                    <div
+                      className="mark-anchor absolute w-8 h-8 pointer-events-auto touch-none cursor-move flex items-center justify-center"
+                      style={{ left: `${position.x}%`, top: '0', transform: `translate(-50%, -50%) scale(${1 / scale})` }}
+                      onPointerDown={(e) => handleAnchorPointerDown(e, mark)}
+                      onPointerMove={(e) => handleAnchorPointerMove(e, mark)}
+                      onPointerUp={() => handleAnchorPointerUp(mark)}
+                      onPointerCancel={() => setDrag(null)}
                     >
-                      {mark.status === 'correct' ? <i className="fa-solid fa-check"></i> : <i className="fa-solid fa-xmark"></i>}
-                    </button>
-
-                    {/* Quick Status Toggle (Small overlapping button) */}
-                    {isExpanded && (
-                       <button
-                         onClick={(e) => handleMarkStatusToggle(e, mark)}
-                         className="absolute -bottom-3 -left-2 w-6 h-6 bg-gray-700 text-white rounded-full text-xs flex items-center justify-center shadow-md z-30 hover:bg-black"
-                         title="Toggle Status"
-                       >
-                         <i className="fa-solid fa-rotate"></i>
-                       </button>
-                    )}
-
-                    {/* Expanded Detail Note (Sticky Note Style) */}
-                    {isExpanded && (
-                      <div className="mark-note absolute right-12 top-0 w-64 bg-yellow-50 rounded-xl shadow-xl border border-yellow-200 p-4 text-left z-50 animate-[fadeIn_0.2s_ease-out]">
-                         {/* Header */}
-                         <div className="flex justify-between items-start mb-2 border-b border-yellow-200 pb-2">
-                            <span className={`text-xs font-bold px-2 py-0.5 rounded ${mark.status === 'correct' ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
-                              {mark.status === 'correct' ? t.correct : t.incorrect}
-                            </span>
-                            <button 
-                              onClick={() => onRemoveMark(mark.id)}
-                              className="text-gray-400 hover:text-red-500 px-1"
-                            >
-                              <i className="fa-solid fa-trash text-sm"></i>
-                            </button>
-                         </div>
-
-                         {/* Content */}
-                         <div className="space-y-2 text-sm text-gray-800">
-                           {mark.question && (
-                             <div>
-                               <p className="text-xs text-gray-500 uppercase font-semibold">{t.question}</p>
-                               <p className="line-clamp-2">{mark.question}</p>
-                             </div>
-                           )}
-                           {mark.studentAnswer && (
-                             <div>
-                               <p className="text-xs text-gray-500 uppercase font-semibold">{t.studentAnswer}</p>
-                               <p className="font-mono bg-white/50 p-1 rounded text-xs">{mark.studentAnswer}</p>
+                      <div className={`rounded-full shadow-sm transition-transform ${style.dot} ${isDragging ? 'w-4 h-4 ring-4 ring-white/70' : 'w-3 h-3'}`} />
+                    </div>
+
+                    {/* 3. The Interactive Marker (Right Side) */}
+                    <div 
+                      className="absolute z-20 pointer-events-auto flex items-start"
+                      // Fixed to right side; counter-scaled so badges and notes keep their size when zoomed
+                      style={{ left: '92%', transform: `translateY(-50%) scale(${1 / scale})`, transformOrigin: 'left center' }}
+                    >
+                      <div className="relative">
+                        {/* Main Badge */}
+                        <button
+                          onClick={(e) => toggleNote(e, mark.id)}
+                          className={`
+                            w-10 h-10 rounded-full shadow-lg border-2 border-white 
+                            flex items-center justify-center text-lg transition-all duration-200
+                            ${style.badge}
+                            ${pending ? 'ring-4 ring-orange-400/80 animate-pulse' : ''}
+                            hover:scale-105 active:scale-95 z-20 relative
+                          `}
+                        >
+                          <i className={`fa-solid ${style.icon}`}></i>
+                        </button>
+
+                        {/* Needs Review Flag */}
+                        {pending && (
+                          <span
+                            className="absolute -bottom-2 -right-2 w-5 h-5 bg-orange-500 text-white rounded-full text-[10px] flex items-center justify-center shadow z-30 pointer-events-none"
+                            title={mark.illegible ? t('review.illegible') : t('review.lowConfidence', { percent: Math.round((mark.confidence ?? 0) * 100) })}
+                          >
+                            <i className={`fa-solid ${mark.illegible ? 'fa-eye-slash' : 'fa-question'}`}></i>
+                          </span>
+                        )}
+
+                        {/* Score Chip */}
+                        <span className="absolute -top-2 -right-3 bg-white text-gray-700 text-[10px] font-bold px-1.5 rounded-full shadow z-30">
+                          {formatPoints(getPointsAwarded(mark))}/{formatPoints(getPointsPossible(mark))}
+                        </span>
+
+                        {/* Quick Status Toggle (Small overlapping button) */}
+                        {isExpanded && (
+                           <button
+                             onClick={(e) => handleMarkStatusToggle(e, mark)}
+                             className="absolute -bottom-3 -left-2 w-6 h-6 bg-gray-700 text-white rounded-full text-xs flex items-center justify-center shadow-md z-30 hover:bg-black"
+                             title={t('note.toggleStatus')}
+                           >
+                             <i className="fa-solid fa-rotate"></i>
+                           </button>
+                        )}
+
+                        {/* Expanded Detail Note (Sticky Note Style) */}
+                        {isExpanded && (
+                          <div className="mark-note absolute right-12 top-0 w-64 bg-yellow-50 rounded-xl shadow-xl border border-yellow-200 p-4 text-left z-50 animate-[fadeIn_0.2s_ease-out]">
+                             {/* Header */}
+                             <div className="flex justify-between items-start mb-2 border-b border-yellow-200 pb-2">
+                                <div className="flex items-center gap-1">
+                                  <span className={`text-xs font-bold px-2 py-0.5 rounded ${style.chip}`}>
+                                    {style.label}
+                                  </span>
+                                  {mark.verdictSource && (
+                                    <span
+                                      className={`text-[10px] font-bold px-1.5 py-0.5 rounded ${mark.verdictSource === 'key' ? 'bg-blue-100 text-blue-700' : 'bg-purple-100 text-purple-700'}`}
+                                      title={mark.verdictSource === 'key' ? t('note.decidedByKey') : t('note.decidedByModel')}
+                                    >
+                                      {mark.verdictSource === 'key' ? noteT('note.keyVerdict') : noteT('note.modelVerdict')}
+                                    </span>
+                                  )}
+                                  {keyEntry && (
+                                    <span className="text-[10px] text-gray-500">{noteT('note.keyQuestion')} {keyEntry.questionId}</span>
+                                  )}
+                                </div>
+                                <div className="flex items-center">
+                                  {!isEditing && (
+                                    <button
+                                      onClick={() => startEditing(mark)}
+                                      className="text-gray-400 hover:text-blue-600 px-1"
+                                      title={t('common.edit')}
+                                    >
+                                      <i className="fa-solid fa-pen text-sm"></i>
+                                    </button>
+                                  )}
+                                  <button 
+                                    onClick={() => onRemoveMark(mark.id)}
+                                    className="text-gray-400 hover:text-red-500 px-1"
+                                    title={t('common.delete')}
+                                  >
+                                    <i className="fa-solid fa-trash text-sm"></i>
+                                  </button>
+                                </div>
                              </div>
-                           )}
-                           {mark.status === 'incorrect' && mark.correctAnswer && (
-                             <div>
-                               <p className="text-xs text-green-600 uppercase font-semibold">{t.correctAnswer}</p>
-                               <p className="font-bold text-green-700">{mark.correctAnswer}</p>
+
+                             {/* Review Flag: why the AI was unsure, and a way to accept its verdict as is */}
+                             {flagged && (
+                               <div className={`flex items-center justify-between gap-2 mb-2 px-2 py-1.5 rounded-lg text-xs ${pending ? 'bg-orange-100 text-orange-800' : 'bg-gray-100 text-gray-500'}`}>
+                                 <span>
+                                   <i className={`fa-solid ${mark.illegible ? 'fa-eye-slash' : 'fa-circle-question'} mr-1`}></i>
+                                   {mark.illegible
+                                     ? t('review.illegible')
+                                     : t('review.lowConfidence', { percent: Math.round((mark.confidence ?? 0) * 100) })}
+                                 </span>
+                                 {pending ? (
+                                   <button
+                                     onClick={() => onUpdateMark({ ...mark, reviewed: true })}
+                                     className="px-2 py-0.5 rounded bg-orange-500 text-white font-semibold hover:bg-orange-600"
+                                   >
+                                     <i className="fa-solid fa-check mr-1"></i>{t('review.confirm')}
+                                   </button>
+                                 ) : (
+                                   <span className="font-semibold"><i className="fa-solid fa-check mr-1"></i>{t('review.reviewed')}</span>
+                                 )}
+                               </div>
+                             )}
+
+                             {/* Points Stepper */}
+                             <div className="flex items-center justify-between mb-2 text-sm">
+                               <button
+                                 onClick={(e) => handlePointsStep(e, mark, -pointsStep)}
+                                 className="w-7 h-7 rounded-full bg-white shadow-sm text-gray-600 hover:bg-gray-100"
+                               >
+                                 <i className="fa-solid fa-minus text-xs"></i>
+                               </button>
+                               <span className="font-bold text-gray-800">
+                                 {formatPoints(getPointsAwarded(mark))} / {formatPoints(getPointsPossible(mark))} {noteT('note.points')}
+                               </span>
+                               <button
+                                 onClick={(e) => handlePointsStep(e, mark, pointsStep)}
+                                 className="w-7 h-7 rounded-full bg-white shadow-sm text-gray-600 hover:bg-gray-100"
+                               >
+                                 <i className="fa-solid fa-plus text-xs"></i>
+                               </button>
                              </div>
-                           )}
-                           {mark.explanation && (
-                             <div className="bg-yellow-100/50 p-2 rounded">
-                               <p className="text-xs text-gray-500 uppercase font-semibold">{t.analysis}</p>
-                               <p className="text-xs italic">{mark.explanation}</p>
+
+                             {/* Method Credit: points for the working, kept when the result changes */}
+                             {showMethod && (
+                               <div className="flex items-center justify-between mb-2 text-xs text-green-800">
+                                 <button
+                                   onClick={(e) => handleMethodStep(e, mark, -pointsStep)}
+                                   disabled={methodPoints <= 0}
+                                   className="w-6 h-6 rounded-full bg-white shadow-sm text-gray-600 hover:bg-gray-100 disabled:opacity-40"
+                                 >
+                                   <i className="fa-solid fa-minus text-[10px]"></i>
+                                 </button>
+                                 <span className="font-semibold">
+                                   {noteT('note.methodCredit')}: {formatPoints(methodPoints)} {noteT('note.points')}
+                                 </span>
+                                 <button
+                                   onClick={(e) => handleMethodStep(e, mark, pointsStep)}
+                                   disabled={getPointsAwarded(mark) >= getPointsPossible(mark)}
+                                   className="w-6 h-6 rounded-full bg-white shadow-sm text-gray-600 hover:bg-gray-100 disabled:opacity-40"
+                                 >
+                                   <i className="fa-solid fa-plus text-[10px]"></i>
+                                 </button>
+                               </div>
+                             )}
+
+                             {/* Edit Mode */}
+                             {isEditing && (
+                               <div className="space-y-2 text-sm">
+                                 {([
+                                   ['question', noteT('note.question')],
+                                   ['studentAnswer', noteT('note.studentAnswer')],
+                                   ['correctAnswer', noteT('note.correctAnswer')],
+                                   ['explanation', noteT('note.analysis')],
+                                 ] as [keyof MarkText, string][]).map(([field, label]) => (
+                                   <label key={field} className="block">
+                                     <span className="text-xs text-gray-500 uppercase font-semibold">{label}</span>
+                                     <textarea
+                                       value={draft[field] || ''}
+                                       onChange={(e) => setDraft(prev => ({ ...prev, [field]: e.target.value }))}
+                                       rows={field === 'explanation' ? 3 : 1}
+                                       className="w-full mt-0.5 px-2 py-1 bg-white rounded border border-yellow-200 focus:ring-2 focus:ring-blue-500 outline-none text-xs resize-y"
+                                     />
+                                   </label>
+                                 ))}
+                                 <div className="flex gap-2 pt-1">
+                                   <button
+                                     onClick={() => setEditingMarkId(null)}
+                                     className="flex-1 py-1.5 rounded-lg bg-white text-gray-600 font-semibold text-xs hover:bg-gray-100"
+                                   >
+                                     {t('common.cancel')}
+                                   </button>
+                                   <button
+                                     onClick={() => saveEdits(mark)}
+                                     className="flex-1 py-1.5 rounded-lg bg-blue-600 text-white font-semibold text-xs hover:bg-blue-700"
+                                   >
+                                     {t('common.save')}
+                                   </button>
+                                 </div>
+                               </div>
+                             )}
+
+                             {/* Content */}
+                             {!isEditing && (
+                             <div className="space-y-2 text-sm text-gray-800">
+                               {mark.question && (
+                                 <div>
+                                   <p className="text-xs text-gray-500 uppercase font-semibold">{noteT('note.question')}</p>
+                                   <MathText text={mark.question} className="block whitespace-pre-wrap" />
+                                 </div>
+                               )}
+                               {mark.studentAnswer && (
+                                 <div>
+                                   <p className="text-xs text-gray-500 uppercase font-semibold">{noteT('note.studentAnswer')}</p>
+                                   <MathText text={mark.studentAnswer} className="block font-mono bg-white/50 p-1 rounded text-xs" />
+                                 </div>
+                               )}
+                               {mark.steps && (
+                                 <div>
+                                   <p className="text-xs text-gray-500 uppercase font-semibold">{noteT('note.working')}</p>
+                                   <ol className="space-y-0.5 mt-0.5" onMouseLeave={() => setHoveredStep(null)}>
+                                     {mark.steps.map((step, index) => (
+                                       <li
+                                         key={index}
+                                         onMouseEnter={() => setHoveredStep(index)}
+                                         className={`flex items-start gap-1.5 p-1 rounded text-xs ${index === firstError ? 'bg-red-100 ring-1 ring-red-300' : 'bg-white/50'}`}
+                                       >
+                                         <button
+                                           onClick={() => toggleStepVerdict(mark, index)}
+                                           className={`shrink-0 w-4 h-4 mt-px rounded-full text-[9px] text-white flex items-center justify-center ${step.verdict === 'incorrect' ? 'bg-red-500' : 'bg-green-500'}`}
+                                           title={t('note.toggleStatus')}
+                                         >
+                                           <i className={`fa-solid ${step.verdict === 'incorrect' ? 'fa-xmark' : 'fa-check'}`}></i>
+                                         </button>
+                                         <div className="min-w-0">
+                                           <p className={`font-mono break-words ${step.verdict === 'incorrect' ? 'text-red-700' : ''}`}>
+                                             <span className="text-gray-400">{index + 1}.</span> <MathText text={step.text} />
+                                           </p>
+                                           {index === firstError && (
+                                             <p className="text-[11px] text-red-700">
+                                               <span className="font-semibold">{noteT('note.firstError')}</span>
+                                               {step.comment && <>: <MathText text={step.comment} /></>}
+                                             </p>
+                                           )}
+                                         </div>
+                                       </li>
+                                     ))}
+                                   </ol>
+                                 </div>
+                               )}
+                               {mark.status !== 'correct' && mark.correctAnswer && (
+                                 <div>
+                                   <p className="text-xs text-green-600 uppercase font-semibold">{noteT('note.correctAnswer')}</p>
+                                   <MathText text={mark.correctAnswer} className="block font-bold text-green-700" />
+                                 </div>
+                               )}
+                               {mark.explanation && (
+                                 <div className="bg-yellow-100/50 p-2 rounded">
+                                   <p className="text-xs text-gray-500 uppercase font-semibold">{noteT('note.analysis')}</p>
+                                   <MathText text={mark.explanation} className="block text-xs italic whitespace-pre-wrap" />
+                                 </div>
+                               )}
+                               <button
+                                 onClick={() => handleReexplain(mark)}
+                                 disabled={explainingMarkId === mark.id}
+                                 className="w-full py-1.5 rounded-lg bg-purple-100 text-purple-700 font-semibold text-xs hover:bg-purple-200 disabled:opacity-60"
+                               >
+                                 <i className={`fa-solid ${explainingMarkId === mark.id ? 'fa-circle-notch animate-spin' : 'fa-wand-magic-sparkles'} mr-1`}></i>
+                                 {t('note.reask')}
+                               </button>
                              </div>
-                           )}
-                         </div>
+                             )}
+
+                             {/* Audit Trail: the graded verdict, then each teacher change */}
+                             {trail.length > 1 && (
+                               <div className="mt-2 pt-2 border-t border-yellow-200">
+                                 <p className="text-xs text-gray-500 uppercase font-semibold mb-1">{t('note.history')}</p>
+                                 <ul className="space-y-0.5 text-[11px] text-gray-600 max-h-24 overflow-y-auto">
+                                   {trail.map((event, idx) => (
+                                     <li key={idx} className="flex justify-between gap-2">
+                                       <span>
+                                         {event.action === 'graded' ? t('note.graded') : t('note.teacher')}:{' '}
+                                         {event.status
+                                           ? `${statusStyles[event.status].label} ${formatPoints(event.pointsAwarded ?? 0)}/${formatPoints(event.pointsPossible ?? 0)}`
+                                           : t('note.removed')}
+                                         {event.via && <span className="text-gray-400"> ({t(`note.via.${event.via}`)})</span>}
+                                       </span>
+                                       <span className="text-gray-400">
+                                         {new Date(event.at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                                       </span>
+                                     </li>
+                                   ))}
+                                 </ul>
+                               </div>
+                             )}
                          
-                         {/* Arrow pointing to marker */}
-                         <div className="absolute top-3 -right-2 w-4 h-4 bg-yellow-50 transform rotate-45 border-t border-r border-yellow-200"></div>
+                             {/* Arrow pointing to marker */}
+                             <div className="absolute top-3 -right-2 w-4 h-4 bg-yellow-50 transform rotate-45 border-t border-r border-yellow-200"></div>
+                          </div>
+                        )}
                       </div>
-                    )}
+                    </div>
                   </div>
-                </div>
-              </div>
-            );
-          })}
-        </div>
-      </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </ZoomViewport>
+
+      <AnnotationToolbar
+        tool={tool}
+        onToolChange={selectTool}
+        color={inkColor}
+        onColorChange={setInkColor}
+        stamps={stamps}
+        stampLabel={activeStamp}
+        onStampChange={setStampLabel}
+        canUndo={inkHistory.length > 0}
+        onUndo={undoInk}
+      />
       
       <div className="fixed top-20 left-1/2 transform -translate-x-1/2 bg-black/50 backdrop-blur-md px-4 py-2 rounded-full text-white text-xs pointer-events-none z-20">
-        Page {pageIndex + 1}
+        {t('common.page', { number: pageIndex + 1 })}
       </div>
     </div>
   );
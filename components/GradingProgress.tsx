@@ -0,0 +1,92 @@
+import React from 'react';
+import { ExamPage, PageGradingStatus, PageProgress } from '../types';
+import { TranslationKey, useI18n } from '../i18n';
+
+interface GradingProgressProps {
+  pages: ExamPage[];
+  progress: PageProgress[];
+  onRetryFailed: () => void;
+  onContinue: () => void;
+  onCancel: () => void;
+}
+
+const statusStyles: Record<PageGradingStatus, { label: TranslationKey; className: string; icon: string }> = {
+  queued: { label: 'progress.queued', className: 'text-gray-400', icon: 'fa-clock' },
+  grading: { label: 'progress.grading', className: 'text-blue-500', icon: 'fa-circle-notch animate-spin' },
+  done: { label: 'progress.done', className: 'text-green-500', icon: 'fa-circle-check' },
+  failed: { label: 'progress.failed', className: 'text-red-500', icon: 'fa-triangle-exclamation' },
+};
+
+const GradingProgress: React.FC<GradingProgressProps> = ({ pages, progress, onRetryFailed, onContinue, onCancel }) => {
+  const { t } = useI18n();
+  const doneCount = progress.filter(p => p.status === 'done').length;
+  const failedCount = progress.filter(p => p.status === 'failed').length;
+  const isRunning = progress.some(p => p.status === 'queued' || p.status === 'grading');
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-6 pb-4 border-b space-y-3">
+        <div className="flex justify-between items-baseline">
+          <h2 className="text-xl font-bold text-gray-800">
+            {isRunning ? t('app.grading.title') : failedCount > 0 ? t('progress.someFailed') : t('progress.finished')}
+          </h2>
+          <span className="text-sm text-gray-500">{t('progress.count', { done: doneCount, total: progress.length })}</span>
+        </div>
+        <div className="w-full h-2 bg-gray-100 rounded-full overflow-hidden flex">
+          <div className="h-full bg-blue-600 transition-all" style={{ width: `${(doneCount / Math.max(1, progress.length)) * 100}%` }}></div>
+          <div className="h-full bg-red-500 transition-all" style={{ width: `${(failedCount / Math.max(1, progress.length)) * 100}%` }}></div>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto no-scrollbar p-4 grid grid-cols-3 gap-3 content-start">
+        {pages.map((page, idx) => {
+          const pageProgress = progress[idx] || { status: 'queued', attempts: 0 };
+          const style = statusStyles[pageProgress.status];
+
+          return (
+            <div key={page.id} className="relative rounded-xl overflow-hidden bg-gray-100 border border-gray-200" title={pageProgress.error}>
+              <img src={page.imageUrl} alt={t('common.page', { number: idx + 1 })} className={`w-full h-28 object-cover ${pageProgress.status === 'done' ? '' : 'opacity-60'}`} />
+              <div className="absolute bottom-0 inset-x-0 bg-white/90 px-2 py-1 flex items-center justify-between text-[11px] font-semibold">
+                <span className="text-gray-700">P{idx + 1}</span>
+                <span className={`flex items-center gap-1 ${style.className}`}>
+                  <i className={`fa-solid ${style.icon}`}></i>
+                  {t(style.label)}
+                  {pageProgress.attempts > 1 && ` ×${pageProgress.attempts}`}
+                </span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {!isRunning && failedCount > 0 && (
+        <div className="p-4 border-t space-y-2">
+          <button
+            onClick={onRetryFailed}
+            className="w-full py-3 px-4 rounded-xl text-white font-semibold bg-blue-600 hover:bg-blue-700 shadow-lg shadow-blue-600/30 transition"
+          >
+            <i className="fa-solid fa-rotate-right mr-2"></i>{t('progress.retryFailed', { count: failedCount })}
+          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={onCancel}
+              className="flex-1 py-3 px-4 rounded-xl text-gray-700 font-semibold bg-gray-100 hover:bg-gray-200 transition"
+            >
+              {t('common.cancel')}
+            </button>
+            {doneCount > 0 && (
+              <button
+                onClick={onContinue}
+                className="flex-1 py-3 px-4 rounded-xl text-gray-700 font-semibold bg-gray-100 hover:bg-gray-200 transition"
+              >
+                {t('progress.reviewGraded')}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GradingProgress;
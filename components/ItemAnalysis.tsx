@@ -0,0 +1,120 @@
+import React, { useMemo, useState } from 'react';
+import { GradebookEntry } from '../types';
+import { buildItemAnalysis } from '../utils/itemAnalysis';
+import { generateItemAnalysisPDF } from '../utils/pdfGenerator';
+import { shareFile } from '../utils/share';
+import { useI18n } from '../i18n';
+
+interface ItemAnalysisProps {
+  assignment: string;
+  entries: GradebookEntry[];
+}
+
+const ItemAnalysis: React.FC<ItemAnalysisProps> = ({ assignment, entries }) => {
+  const report = useMemo(() => buildItemAnalysis(entries), [entries]);
+  const [isExporting, setIsExporting] = useState(false);
+  const { t } = useI18n();
+
+  const maxBucket = Math.max(1, ...report.distribution.map(b => b.count));
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const blob = await generateItemAnalysisPDF(report, assignment, t);
+      await shareFile(blob, `Item_Analysis_${assignment.replace(/\s+/g, '_')}.pdf`, {
+        title: t('gradebook.analysis'),
+        text: t('analysis.shareText', { assignment }),
+      });
+    } catch (error) {
+      console.error("Item analysis export failed", error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="p-4 space-y-6">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500">
+          {t('analysis.summary', { students: t('common.studentCount', { count: report.studentCount }), percent: report.averagePercent })}
+        </p>
+        <button
+          onClick={handleExport}
+          disabled={isExporting}
+          className="text-sm font-semibold text-blue-600 hover:underline disabled:text-gray-400"
+        >
+          <i className={`fa-solid ${isExporting ? 'fa-circle-notch animate-spin' : 'fa-file-pdf'} mr-1`}></i>
+          {t('analysis.export')}
+        </button>
+      </div>
+
+      {/* Score Distribution */}
+      <section>
+        <h3 className="text-sm font-bold text-gray-500 uppercase tracking-wide mb-2">{t('analysis.distribution')}</h3>
+        <div className="flex items-end gap-1 h-32 border-b border-gray-200">
+          {report.distribution.map(bucket => (
+            <div key={bucket.label} className="flex-1 flex flex-col items-center justify-end h-full" title={`${bucket.label}: ${bucket.count}`}>
+              {bucket.count > 0 && <span className="text-[10px] font-bold text-gray-600">{bucket.count}</span>}
+              <div className="w-full bg-blue-500 rounded-t" style={{ height: `${(bucket.count / maxBucket) * 85}%` }}></div>
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-1 mt-1">
+          {report.distribution.map(bucket => (
+            <span key={bucket.label} className="flex-1 text-center text-[9px] text-gray-400">{bucket.min}</span>
+          ))}
+        </div>
+      </section>
+
+      {/* Per-Question */}
+      <section>
+        <h3 className="text-sm font-bold text-gray-500 uppercase tracking-wide mb-2">{t('analysis.questions')}</h3>
+        <div className="space-y-3">
+          {report.questions.map(q => (
+            <div key={q.key} className="bg-gray-50 rounded-xl p-3">
+              <div className="flex items-center gap-3">
+                <span className="font-bold text-gray-800 w-10">{q.label}</span>
+                <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full ${q.percentCorrect >= 70 ? 'bg-green-500' : q.percentCorrect >= 40 ? 'bg-amber-500' : 'bg-red-500'}`}
+                    style={{ width: `${q.percentCorrect}%` }}
+                  ></div>
+                </div>
+                <span className="text-xs font-semibold text-gray-600 w-20 text-right">{t('analysis.percentCorrect', { percent: q.percentCorrect })}</span>
+              </div>
+              {q.question && <p className="text-xs text-gray-500 mt-1 line-clamp-2">{q.question}</p>}
+              {q.commonWrongAnswers.length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {q.commonWrongAnswers.map(w => (
+                    <span key={w.answer} className="text-[11px] bg-red-50 text-red-700 px-2 py-0.5 rounded-full font-mono">
+                      {w.answer} ×{w.count}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </section>
+
+      {/* AI vs Teacher */}
+      <section>
+        <h3 className="text-sm font-bold text-gray-500 uppercase tracking-wide mb-2">{t('analysis.disputed')}</h3>
+        {report.mostDisputed.length === 0 ? (
+          <p className="text-sm text-gray-400">{t('analysis.noDisputes')}</p>
+        ) : (
+          <div className="space-y-1">
+            {report.mostDisputed.map(q => (
+              <div key={q.key} className="flex justify-between text-sm">
+                <span className="font-semibold text-gray-800">{q.label}</span>
+                <span className="text-gray-500">{t('analysis.overridden', { count: q.disagreements, percent: q.disagreementRate })}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default ItemAnalysis;
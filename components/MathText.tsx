@@ -0,0 +1,44 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ensureMathJax, isMathJaxReady, parseMath, typesetMath } from '../utils/math';
+
+interface MathTextProps {
+  text: string;
+  className?: string;
+}
+
+// Text with its LaTeX formulas typeset; they show as plain LaTeX until MathJax has loaded (or if it can't)
+const MathText: React.FC<MathTextProps> = ({ text, className }) => {
+  const parts = useMemo(() => parseMath(text), [text]);
+  const hasMath = parts.some(p => p.type === 'math');
+  const [ready, setReady] = useState(isMathJaxReady);
+
+  useEffect(() => {
+    if (!hasMath || ready) return;
+    let cancelled = false;
+    ensureMathJax()
+      .then(() => { if (!cancelled) setReady(true); })
+      .catch(error => console.warn("Formulas left as LaTeX:", error));
+    return () => { cancelled = true; };
+  }, [hasMath, ready]);
+
+  return (
+    <span className={className}>
+      {parts.map((part, i) => {
+        if (part.type === 'text') return <React.Fragment key={i}>{part.text}</React.Fragment>;
+        if (!ready) return <code key={i} className="font-mono">{part.tex}</code>;
+
+        const math = typesetMath(part.tex, part.display);
+        return (
+          <span
+            key={i}
+            className={part.display ? 'block my-1 overflow-x-auto text-center' : 'inline-block'}
+            style={part.display ? undefined : { verticalAlign: `${-math.depth}em` }}
+            dangerouslySetInnerHTML={{ __html: math.svg }}
+          />
+        );
+      })}
+    </span>
+  );
+};
+
+export default MathText;
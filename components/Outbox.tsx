@@ -0,0 +1,93 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { DeliveryJob } from '../types';
+import { clearDelivered, removeDelivery, retryDelivery } from '../services/deliveryService';
+import DeliveryStatusList from './DeliveryStatusList';
+import { useI18n } from '../i18n';
+
+interface OutboxProps {
+  jobs: DeliveryJob[];
+  onClose: () => void;
+}
+
+// Helper to group sends by student, keeping the order their first send was queued in
+const groupByStudent = (jobs: DeliveryJob[]) => {
+  const groups = new Map<string, DeliveryJob[]>();
+  jobs.forEach(job => {
+    const key = job.student.studentId || `${job.student.name}|${job.student.email}`;
+    groups.set(key, [...(groups.get(key) || []), job]);
+  });
+  return [...groups.values()];
+};
+
+const Outbox: React.FC<OutboxProps> = ({ jobs, onClose }) => {
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const { t } = useI18n();
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  const groups = useMemo(() => groupByStudent(jobs), [jobs]);
+  const delivered = jobs.filter(j => j.status === 'delivered').length;
+  const failed = jobs.filter(j => j.status === 'failed').length;
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-6 pb-4 border-b space-y-3">
+        <div className="flex justify-between items-baseline">
+          <h2 className="text-xl font-bold text-gray-800">{t('delivery.title')}</h2>
+          <span className="text-sm text-gray-500">
+            {t('delivery.summary', { delivered, pending: jobs.length - delivered - failed, failed })}
+          </span>
+        </div>
+        {!online && (
+          <p className="text-xs font-semibold text-amber-700 bg-amber-50 rounded-lg px-3 py-2">
+            <i className="fa-solid fa-wifi mr-2"></i>{t('delivery.offline')}
+          </p>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto no-scrollbar p-4 space-y-2">
+        {jobs.length === 0 && (
+          <p className="text-center text-sm text-gray-400 mt-8">
+            {t('delivery.empty')}
+          </p>
+        )}
+        {groups.map(group => (
+          <div key={group[0].id} className="bg-gray-50 rounded-xl p-3 space-y-2">
+            <div className="min-w-0">
+              <p className="font-semibold text-gray-800 truncate">{group[0].student.name}</p>
+              {group[0].student.email && <p className="text-xs text-gray-500 truncate">{group[0].student.email}</p>}
+            </div>
+            <DeliveryStatusList jobs={group} onRetry={retryDelivery} onRemove={removeDelivery} showAssignment />
+          </div>
+        ))}
+      </div>
+
+      <div className="p-4 border-t flex gap-3">
+        {delivered > 0 && (
+          <button
+            onClick={clearDelivered}
+            className="flex-1 py-3 px-4 rounded-xl text-gray-700 font-semibold bg-gray-100 hover:bg-gray-200 transition"
+          >
+            {t('delivery.clearDelivered')}
+          </button>
+        )}
+        <button
+          onClick={onClose}
+          className="flex-1 py-3 px-4 rounded-xl text-gray-700 font-semibold bg-gray-100 hover:bg-gray-200 transition"
+        >
+          {t('common.done')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default Outbox;
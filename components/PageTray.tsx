@@ -0,0 +1,133 @@
+import React, { ChangeEvent, useState } from 'react';
+import { ExamPage } from '../types';
+import { UPLOAD_ACCEPT } from '../services/documentImport';
+import { useI18n } from '../i18n';
+
+interface PageTrayProps {
+  pages: ExamPage[];
+  onMovePage: (fromIndex: number, toIndex: number) => void;
+  onDeletePage: (pageId: string) => void;
+  onRetakePage: (pageId: string, file: File) => void;
+  onAddPages: (files: FileList) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+// Helper to preview a move without committing it
+const reorder = <T,>(items: T[], from: number, to: number): T[] => {
+  const next = [...items];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
+
+const PageTray: React.FC<PageTrayProps> = ({ pages, onMovePage, onDeletePage, onRetakePage, onAddPages, onConfirm, onCancel }) => {
+  // Pointer-driven drag (HTML5 drag and drop doesn't fire for touch)
+  const [drag, setDrag] = useState<{ from: number; over: number; pointerId: number } | null>(null);
+  const { t } = useI18n();
+
+  const ordered = drag ? reorder(pages, drag.from, drag.over) : pages;
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag || e.pointerId !== drag.pointerId) return;
+    const target = document.elementFromPoint(e.clientX, e.clientY)?.closest<HTMLElement>('[data-tray-index]');
+    if (!target) return;
+    const over = Number(target.dataset.trayIndex);
+    if (over !== drag.over) setDrag({ ...drag, over });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (!drag || e.pointerId !== drag.pointerId) return;
+    if (drag.from !== drag.over) onMovePage(drag.from, drag.over);
+    setDrag(null);
+  };
+
+  const handleRetake = (pageId: string) => (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onRetakePage(pageId, file);
+    e.target.value = '';
+  };
+
+  const handleAdd = (e: ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) onAddPages(e.target.files);
+    e.target.value = '';
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-6 pb-4 border-b">
+        <h2 className="text-xl font-bold text-gray-800">{t('tray.title')}</h2>
+        <p className="text-sm text-gray-500 mt-1">{t('tray.subtitle')}</p>
+      </div>
+
+      <div
+        className="flex-1 overflow-y-auto no-scrollbar p-4 grid grid-cols-3 gap-3 content-start select-none"
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => setDrag(null)}
+      >
+        {ordered.map((page, idx) => {
+          const isDragged = drag !== null && idx === drag.over;
+
+          return (
+            <div
+              key={page.id}
+              data-tray-index={idx}
+              className={`relative rounded-xl overflow-hidden bg-gray-100 border transition ${
+                isDragged ? 'border-blue-500 ring-2 ring-blue-500 scale-95 opacity-80' : 'border-gray-200'
+              }`}
+            >
+              <div
+                className="touch-none cursor-grab active:cursor-grabbing"
+                onPointerDown={(e) => {
+                  e.currentTarget.setPointerCapture(e.pointerId);
+                  setDrag({ from: idx, over: idx, pointerId: e.pointerId });
+                }}
+              >
+                <img src={page.imageUrl} alt={t('common.page', { number: idx + 1 })} className="w-full h-28 object-cover pointer-events-none" draggable={false} />
+              </div>
+
+              <div className="absolute bottom-0 inset-x-0 bg-white/90 px-2 py-1 flex items-center justify-between text-[11px] font-semibold">
+                <span className="text-gray-700">P{idx + 1}</span>
+                <div className="flex items-center gap-2 text-gray-500">
+                  <label className="hover:text-blue-600 cursor-pointer" title={t('tray.retake')}>
+                    <i className="fa-solid fa-camera-rotate"></i>
+                    <input type="file" accept="image/*" capture="environment" className="hidden" onChange={handleRetake(page.id)} />
+                  </label>
+                  <button onClick={() => onDeletePage(page.id)} className="hover:text-red-500" title={t('tray.remove')}>
+                    <i className="fa-solid fa-trash"></i>
+                  </button>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+
+        {/* Append */}
+        <label className="h-28 rounded-xl border-2 border-dashed border-gray-300 hover:border-blue-400 text-gray-400 hover:text-blue-500 flex flex-col items-center justify-center gap-1 cursor-pointer transition">
+          <i className="fa-solid fa-plus text-xl"></i>
+          <span className="text-xs font-semibold">{t('tray.add')}</span>
+          <input type="file" multiple accept={UPLOAD_ACCEPT} className="hidden" onChange={handleAdd} />
+        </label>
+      </div>
+
+      <div className="p-4 border-t flex gap-3">
+        <button
+          onClick={onCancel}
+          className="flex-1 py-3 px-4 rounded-xl text-gray-700 font-semibold bg-gray-100 hover:bg-gray-200 transition"
+        >
+          {t('common.cancel')}
+        </button>
+        <button
+          onClick={onConfirm}
+          disabled={pages.length === 0}
+          className="flex-1 py-3 px-4 rounded-xl text-white font-semibold bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:shadow-none shadow-lg shadow-blue-600/30 transition"
+        >
+          {t('tray.grade', { count: pages.length })}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PageTray;
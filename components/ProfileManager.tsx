@@ -0,0 +1,243 @@
+import React, { useState } from 'react';
+import { AppSettings, GradingProfile, GradingSubject, UiLanguage } from '../types';
+import { loadProfiles, saveProfiles } from '../services/profileStore';
+import { STRICTNESS_LEVELS, SUBJECTS, TONES } from '../utils/gradingProfiles';
+import { UI_LANGUAGES, languageName, useI18n } from '../i18n';
+
+interface ProfileManagerProps {
+  selectedId: string | null;
+  onSelect: (profile: GradingProfile | null) => void;
+  settings: AppSettings;
+  onSettingsChange: (settings: AppSettings) => void;
+  onClose: () => void;
+}
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+const emptyProfile = (): GradingProfile => ({
+  id: newId(),
+  name: '',
+  subject: 'general',
+  strictness: 'standard',
+  tone: 'neutral',
+  instructions: '',
+});
+
+const ProfileManager: React.FC<ProfileManagerProps> = ({ selectedId, onSelect, settings, onSettingsChange, onClose }) => {
+  const [profiles, setProfiles] = useState<GradingProfile[]>(() => loadProfiles());
+  const [draft, setDraft] = useState<GradingProfile | null>(null);
+  const { t } = useI18n();
+
+  const commit = (next: GradingProfile[]) => {
+    saveProfiles(next);
+    setProfiles(next);
+  };
+
+  const updateDraft = <K extends keyof GradingProfile>(field: K, value: GradingProfile[K]) => {
+    setDraft(prev => prev && { ...prev, [field]: value });
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+
+    const saved = { ...draft, name: draft.name.trim() || t(`subject.${draft.subject}`), instructions: draft.instructions.trim() };
+    const exists = profiles.some(p => p.id === saved.id);
+    commit(exists ? profiles.map(p => p.id === saved.id ? saved : p) : [...profiles, saved]);
+    // Keep the session's copy in step when the selected profile is edited; pick brand-new profiles
+    if (!exists || saved.id === selectedId) onSelect(saved);
+    setDraft(null);
+  };
+
+  const removeProfile = (id: string) => {
+    const next = profiles.filter(p => p.id !== id);
+    commit(next);
+    if (id === selectedId) onSelect(next[0] || null);
+  };
+
+  if (draft) {
+    return (
+      <form onSubmit={handleSave} className="flex flex-col h-full">
+        <div className="p-6 pb-4 border-b">
+          <h2 className="text-xl font-bold text-gray-800">{profiles.some(p => p.id === draft.id) ? t('profiles.edit') : t('profiles.new')}</h2>
+        </div>
+
+        <div className="flex-1 overflow-y-auto no-scrollbar p-4 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('profiles.name')}</label>
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => updateDraft('name', e.target.value)}
+              className="w-full px-4 py-2 bg-gray-100 rounded-lg border-transparent focus:bg-white focus:ring-2 focus:ring-blue-500 outline-none transition"
+              placeholder={t('profiles.namePlaceholder')}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('profiles.subject')}</label>
+            <select
+              value={draft.subject}
+              onChange={(e) => updateDraft('subject', e.target.value as GradingSubject)}
+              className="w-full px-4 py-2 bg-gray-100 rounded-lg outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {SUBJECTS.map(subject => (
+                <option key={subject} value={subject}>{t(`subject.${subject}`)}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('profiles.strictness')}</label>
+            <div className="bg-gray-100 rounded-xl p-1 flex text-sm font-semibold">
+              {STRICTNESS_LEVELS.map(strictness => (
+                <button
+                  key={strictness}
+                  type="button"
+                  onClick={() => updateDraft('strictness', strictness)}
+                  className={`flex-1 py-2 rounded-lg transition ${draft.strictness === strictness ? 'bg-white shadow text-gray-900' : 'text-gray-500'}`}
+                >
+                  {t(`strictness.${strictness}`)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('profiles.tone')}</label>
+            <div className="bg-gray-100 rounded-xl p-1 flex text-sm font-semibold">
+              {TONES.map(tone => (
+                <button
+                  key={tone}
+                  type="button"
+                  onClick={() => updateDraft('tone', tone)}
+                  className={`flex-1 py-2 rounded-lg transition ${draft.tone === tone ? 'bg-white shadow text-gray-900' : 'text-gray-500'}`}
+                >
+                  {t(`tone.${tone}`)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('profiles.instructions')}</label>
+            <textarea
+              value={draft.instructions}
+              onChange={(e) => updateDraft('instructions', e.target.value)}
+              rows={5}
+              className="w-full px-4 py-2 bg-gray-100 rounded-lg border-transparent focus:bg-white focus:ring-2 focus:ring-blue-500 outline-none transition text-sm"
+              placeholder={t('profiles.instructionsPlaceholder')}
+            />
+          </div>
+        </div>
+
+        <div className="flex gap-3 p-4 border-t">
+          <button
+            type="button"
+            onClick={() => setDraft(null)}
+            className="flex-1 py-3 px-4 rounded-xl text-gray-700 font-semibold bg-gray-100 hover:bg-gray-200 transition"
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            type="submit"
+            className="flex-1 py-3 px-4 rounded-xl text-white font-semibold bg-blue-600 hover:bg-blue-700 shadow-lg shadow-blue-600/30 transition"
+          >
+            {t('profiles.save')}
+          </button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-6 pb-4 border-b">
+        <h2 className="text-xl font-bold text-gray-800">{t('app.settings')}</h2>
+      </div>
+
+      <div className="flex-1 overflow-y-auto no-scrollbar p-4 space-y-2">
+        {/* Language */}
+        <div className="bg-gray-50 rounded-xl p-3 space-y-2 mb-4">
+          <label className="block text-sm font-medium text-gray-700">{t('settings.language')}</label>
+          <select
+            value={settings.uiLanguage}
+            onChange={(e) => onSettingsChange({ ...settings, uiLanguage: e.target.value as UiLanguage })}
+            className="w-full px-4 py-2 bg-white rounded-lg outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {UI_LANGUAGES.map(code => (
+              <option key={code} value={code}>{languageName(code, code)}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={settings.feedbackInUiLanguage}
+              onChange={(e) => onSettingsChange({ ...settings, feedbackInUiLanguage: e.target.checked })}
+              className="w-4 h-4 accent-blue-600"
+            />
+            {t('settings.feedbackInMyLanguage')}
+          </label>
+        </div>
+
+        {/* Profiles */}
+        <div className="pb-1">
+          <h3 className="text-sm font-bold text-gray-500 uppercase tracking-wide">{t('profiles.title')}</h3>
+          <p className="text-xs text-gray-400 mt-0.5">{t('profiles.subtitle')}</p>
+        </div>
+        {profiles.map(profile => {
+          const isSelected = profile.id === selectedId;
+          return (
+            <div
+              key={profile.id}
+              onClick={() => onSelect(profile)}
+              className={`flex items-center gap-3 rounded-xl p-3 cursor-pointer border-2 transition ${
+                isSelected ? 'bg-blue-50 border-blue-500' : 'bg-gray-50 border-transparent hover:border-gray-200'
+              }`}
+            >
+              <i className={`fa-solid ${isSelected ? 'fa-circle-check text-blue-600' : 'fa-circle text-gray-300'}`}></i>
+              <div className="flex-1 min-w-0">
+                <p className="font-semibold text-gray-800 truncate">{profile.name}</p>
+                <p className="text-xs text-gray-500 truncate">
+                  {t(`subject.${profile.subject}`)} · {t(`strictness.${profile.strictness}`)} · {t(`tone.${profile.tone}`)}
+                </p>
+              </div>
+              <button
+                onClick={(e) => { e.stopPropagation(); setDraft(profile); }}
+                className="text-gray-400 hover:text-blue-600 px-1"
+                title={t('common.edit')}
+              >
+                <i className="fa-solid fa-pen text-sm"></i>
+              </button>
+              <button
+                onClick={(e) => { e.stopPropagation(); removeProfile(profile.id); }}
+                className="text-gray-400 hover:text-red-500 px-1"
+                title={t('common.delete')}
+              >
+                <i className="fa-solid fa-trash text-sm"></i>
+              </button>
+            </div>
+          );
+        })}
+
+        <button
+          onClick={() => setDraft(emptyProfile())}
+          className="w-full py-3 rounded-xl border-2 border-dashed border-gray-200 text-gray-500 font-medium hover:border-gray-300 transition"
+        >
+          <i className="fa-solid fa-plus mr-2"></i>{t('profiles.new')}
+        </button>
+      </div>
+
+      <div className="p-4 border-t">
+        <button
+          onClick={onClose}
+          className="w-full py-3 px-4 rounded-xl text-gray-700 font-semibold bg-gray-100 hover:bg-gray-200 transition"
+        >
+          {t('common.done')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ProfileManager;
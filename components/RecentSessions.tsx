@@ -0,0 +1,80 @@
+import React, { useEffect, useState } from 'react';
+import { GradingSession } from '../types';
+import { deleteSession, listSessions } from '../services/sessionStore';
+import { formatPoints, summarizeScore } from '../utils/scoring';
+import { useI18n } from '../i18n';
+
+interface RecentSessionsProps {
+  onResume: (sessionId: string) => void;
+  limit?: number;
+}
+
+const RecentSessions: React.FC<RecentSessionsProps> = ({ onResume, limit = 10 }) => {
+  const [sessions, setSessions] = useState<GradingSession[]>([]);
+  const { t } = useI18n();
+
+  useEffect(() => {
+    let cancelled = false;
+    listSessions()
+      .then(list => { if (!cancelled) setSessions(list.slice(0, limit)); })
+      .catch(error => console.error("Failed to load sessions", error));
+    return () => { cancelled = true; };
+  }, [limit]);
+
+  const handleDelete = async (e: React.MouseEvent, id: string) => {
+    e.stopPropagation();
+    try {
+      await deleteSession(id);
+      setSessions(prev => prev.filter(s => s.id !== id));
+    } catch (error) {
+      console.error("Failed to delete session", error);
+    }
+  };
+
+  if (sessions.length === 0) return null;
+
+  return (
+    <div className="w-full px-6 pb-8">
+      <h3 className="text-sm font-bold text-gray-500 uppercase tracking-wide mb-3">{t('sessions.title')}</h3>
+      <div className="space-y-2">
+        {sessions.map(session => {
+          const score = summarizeScore(session.marks);
+          const isCompleted = session.status === 'completed';
+
+          return (
+            <div
+              key={session.id}
+              onClick={() => onResume(session.id)}
+              className="flex items-center gap-3 bg-gray-50 hover:bg-gray-100 rounded-xl p-3 cursor-pointer transition"
+            >
+              <div className={`w-10 h-10 rounded-full flex items-center justify-center ${isCompleted ? 'bg-green-100 text-green-600' : 'bg-blue-100 text-blue-600'}`}>
+                <i className={`fa-solid ${isCompleted ? 'fa-check' : 'fa-pen'}`}></i>
+              </div>
+              <div className="flex-1 min-w-0 text-left">
+                <p className="font-semibold text-gray-800 truncate">
+                  {session.studentInfo?.name || t('sessions.unnamed')}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {new Date(session.updatedAt).toLocaleString()} · {t('common.pageCount', { count: session.pageIds.length })} · {formatPoints(score.awarded)}/{formatPoints(score.possible)}
+                  {session.profile && ` · ${session.profile.name}`}
+                </p>
+              </div>
+              <span className="text-xs font-semibold text-blue-600">
+                {isCompleted ? t('sessions.reopen') : t('sessions.resume')}
+              </span>
+              <button
+                onClick={(e) => handleDelete(e, session.id)}
+                className="text-gray-400 hover:text-red-500 px-1"
+                title={t('common.delete')}
+              >
+                <i className="fa-solid fa-trash text-sm"></i>
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default RecentSessions;
@@ -0,0 +1,89 @@
+import React, { ChangeEvent, useState } from 'react';
+import { RosterStudent } from '../types';
+import { loadRoster, mergeRoster, saveRoster } from '../services/gradebookStore';
+import { parseRosterCsv } from '../utils/gradebook';
+import { useI18n } from '../i18n';
+
+interface RosterManagerProps {
+  onClose: () => void;
+}
+
+const RosterManager: React.FC<RosterManagerProps> = ({ onClose }) => {
+  const [roster, setRoster] = useState<RosterStudent[]>(() => loadRoster());
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const { t } = useI18n();
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow importing the same file again
+    if (!file) return;
+
+    try {
+      const imported = parseRosterCsv(await file.text());
+      if (imported.length === 0) {
+        setImportMessage(t('roster.noStudents'));
+        return;
+      }
+      setRoster(mergeRoster(imported));
+      setImportMessage(t('roster.imported', { count: imported.length }));
+    } catch (error) {
+      console.error("Roster import failed", error);
+      setImportMessage(t('roster.unreadable'));
+    }
+  };
+
+  const removeStudent = (id: string) => {
+    const next = roster.filter(s => s.id !== id);
+    saveRoster(next);
+    setRoster(next);
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-6 pb-4 border-b space-y-3">
+        <div className="flex justify-between items-baseline">
+          <h2 className="text-xl font-bold text-gray-800">{t('roster.title')}</h2>
+          <span className="text-sm text-gray-500">{t('common.studentCount', { count: roster.length })}</span>
+        </div>
+        <label className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-3 px-6 rounded-xl shadow-lg transition cursor-pointer flex items-center justify-center gap-3">
+          <i className="fa-solid fa-file-csv"></i>
+          <span>{t('roster.import')}</span>
+          <input type="file" accept=".csv,text/csv" className="hidden" onChange={handleImport} />
+        </label>
+        {importMessage && <p className="text-xs text-gray-500">{importMessage}</p>}
+      </div>
+
+      <div className="flex-1 overflow-y-auto no-scrollbar p-4 space-y-2">
+        {roster.length === 0 && (
+          <p className="text-center text-sm text-gray-400 mt-8">
+            {t('roster.empty')}
+          </p>
+        )}
+        {[...roster].sort((a, b) => a.name.localeCompare(b.name)).map(student => (
+          <div key={student.id} className="flex items-center gap-3 bg-gray-50 rounded-xl p-3">
+            <div className="flex-1 min-w-0">
+              <p className="font-semibold text-gray-800 truncate">{student.name}</p>
+              <p className="text-xs text-gray-500 truncate">
+                {student.email || t('roster.noEmail')}{student.studentNumber && ` · #${student.studentNumber}`}
+              </p>
+            </div>
+            <button onClick={() => removeStudent(student.id)} className="text-gray-400 hover:text-red-500 px-1" title={t('common.delete')}>
+              <i className="fa-solid fa-trash text-sm"></i>
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="p-4 border-t">
+        <button
+          onClick={onClose}
+          className="w-full py-3 px-4 rounded-xl text-gray-700 font-semibold bg-gray-100 hover:bg-gray-200 transition"
+        >
+          {t('common.done')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RosterManager;
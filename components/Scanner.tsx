@@ -1,13 +1,33 @@
-import React, { ChangeEvent } from 'react';
+import React, { ChangeEvent, useState } from 'react';
+import { AnswerKey, BatchSplitMode, GradingProfile } from '../types';
+import { UPLOAD_ACCEPT } from '../services/documentImport';
+import { useI18n } from '../i18n';
 
 interface ScannerProps {
   onFilesSelected: (files: FileList) => void;
+  onBatchSelected: (files: FileList, splitMode: BatchSplitMode) => void;
+  answerKey: AnswerKey | null;
+  onEditAnswerKey: () => void;
+  profile: GradingProfile | null;
+  onEditProfiles: () => void;
 }
 
-const Scanner: React.FC<ScannerProps> = ({ onFilesSelected }) => {
+const Scanner: React.FC<ScannerProps> = ({ onFilesSelected, onBatchSelected, answerKey, onEditAnswerKey, profile, onEditProfiles }) => {
+  const [isBatch, setIsBatch] = useState(false);
+  const [splitType, setSplitType] = useState<BatchSplitMode['type']>('fixed');
+  const [pagesPerStudent, setPagesPerStudent] = useState(2);
+  const { t } = useI18n();
+
   const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      onFilesSelected(e.target.files);
+      if (isBatch) {
+        onBatchSelected(
+          e.target.files,
+          splitType === 'fixed' ? { type: 'fixed', pagesPerStudent } : { type: 'cover' }
+        );
+      } else {
+        onFilesSelected(e.target.files);
+      }
     }
   };
 
@@ -18,24 +38,80 @@ const Scanner: React.FC<ScannerProps> = ({ onFilesSelected }) => {
       </div>
       
       <div>
-        <h2 className="text-2xl font-bold text-gray-800 mb-2">Scan Exam Paper</h2>
-        <p className="text-gray-500">Take a photo of the exam pages to start grading.</p>
+        <h2 className="text-2xl font-bold text-gray-800 mb-2">{t('scanner.title')}</h2>
+        <p className="text-gray-500">{t('scanner.subtitle')}</p>
+      </div>
+
+      {/* Mode Switch */}
+      <div className="w-full max-w-xs bg-gray-100 rounded-xl p-1 flex text-sm font-semibold">
+        <button
+          onClick={() => setIsBatch(false)}
+          className={`flex-1 py-2 rounded-lg transition ${!isBatch ? 'bg-white shadow text-gray-900' : 'text-gray-500'}`}
+        >
+          {t('scanner.oneStudent')}
+        </button>
+        <button
+          onClick={() => setIsBatch(true)}
+          className={`flex-1 py-2 rounded-lg transition ${isBatch ? 'bg-white shadow text-gray-900' : 'text-gray-500'}`}
+        >
+          {t('scanner.wholeClass')}
+        </button>
       </div>
 
+      {isBatch && (
+        <div className="w-full max-w-xs space-y-2 text-sm text-left">
+          <label className="flex items-center gap-2">
+            <input type="radio" checked={splitType === 'fixed'} onChange={() => setSplitType('fixed')} />
+            <span>{t('scanner.splitEvery')}</span>
+            <input
+              type="number"
+              min="1"
+              value={pagesPerStudent}
+              onChange={(e) => setPagesPerStudent(Math.max(1, Number(e.target.value) || 1))}
+              className="w-14 px-2 py-1 bg-gray-100 rounded-lg text-center outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <span>{t('scanner.pages')}</span>
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="radio" checked={splitType === 'cover'} onChange={() => setSplitType('cover')} />
+            <span>{t('scanner.detectCover')}</span>
+          </label>
+        </div>
+      )}
+
       <label className="w-full max-w-xs bg-blue-600 hover:bg-blue-700 text-white font-bold py-4 px-6 rounded-2xl shadow-lg transition transform hover:scale-105 active:scale-95 cursor-pointer flex items-center justify-center space-x-3">
         <i className="fa-solid fa-plus text-xl"></i>
-        <span>Scan / Upload Pages</span>
+        <span>{isBatch ? t('scanner.uploadClass') : t('scanner.upload')}</span>
         <input 
           type="file" 
           multiple 
-          accept="image/*" 
-          capture="environment" 
+          accept={UPLOAD_ACCEPT}
           className="hidden" 
           onChange={handleFileChange}
         />
       </label>
 
-      <p className="text-xs text-gray-400 mt-4">Supports Multi-page Uploads</p>
+      <button
+        onClick={onEditAnswerKey}
+        className="w-full max-w-xs bg-white border-2 border-gray-200 hover:border-gray-300 text-gray-700 font-bold py-3 px-6 rounded-2xl transition flex items-center justify-center gap-3"
+      >
+        <i className="fa-solid fa-key"></i>
+        <span>
+          {answerKey
+            ? t('scanner.answerKey', { title: answerKey.title, count: answerKey.entries.length })
+            : t('scanner.addAnswerKey')}
+        </span>
+      </button>
+
+      <button
+        onClick={onEditProfiles}
+        className="w-full max-w-xs bg-white border-2 border-gray-200 hover:border-gray-300 text-gray-700 font-bold py-3 px-6 rounded-2xl transition flex items-center justify-center gap-3"
+      >
+        <i className="fa-solid fa-sliders"></i>
+        <span className="truncate">{profile ? profile.name : t('scanner.chooseProfile')}</span>
+      </button>
+
+      <p className="text-xs text-gray-400 mt-4">{t('scanner.formats')}</p>
     </div>
   );
 };
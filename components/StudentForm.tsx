@@ -1,39 +1,104 @@
-import React, { useState } from 'react';
-import { StudentInfo } from '../types';
+import React, { useMemo, useState } from 'react';
+import { RosterStudent, StudentInfo } from '../types';
+import { loadRoster } from '../services/gradebookStore';
+import { deliveryChannels } from '../services/deliveryService';
+import { useI18n } from '../i18n';
 
 interface StudentFormProps {
-  onSubmit: (info: StudentInfo) => void;
+  onSubmit: (info: StudentInfo, assignment: string, noteOverrides: boolean) => void;
   onCancel: () => void;
+  initialInfo?: Partial<StudentInfo>;
+  initialAssignment?: string;
+  overrideCount?: number; // Marks the teacher changed; offers to note them in the PDF
 }
 
-const StudentForm: React.FC<StudentFormProps> = ({ onSubmit, onCancel }) => {
-  const [name, setName] = useState('');
-  const [email, setEmail] = useState('');
+const MAX_SUGGESTIONS = 5;
+
+const StudentForm: React.FC<StudentFormProps> = ({ onSubmit, onCancel, initialInfo, initialAssignment, overrideCount = 0 }) => {
+  const [name, setName] = useState(initialInfo?.name || '');
+  const [email, setEmail] = useState(initialInfo?.email || '');
+  const [studentId, setStudentId] = useState(initialInfo?.studentId);
+  const [assignment, setAssignment] = useState(initialAssignment || '');
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [noteOverrides, setNoteOverrides] = useState(false);
+  const { t } = useI18n();
+
+  const roster = useMemo(() => loadRoster(), []);
+  const sends = useMemo(() => deliveryChannels().length > 0, []); // Without email or an LMS set up, the PDF is only shared by hand
+
+  // Roster matches by name or student number
+  const suggestions = useMemo(() => {
+    const query = name.trim().toLowerCase();
+    if (!query) return [];
+    return roster
+      .filter(s => s.name.toLowerCase().includes(query) || s.studentNumber?.toLowerCase().includes(query))
+      .slice(0, MAX_SUGGESTIONS);
+  }, [name, roster]);
+
+  const pickStudent = (student: RosterStudent) => {
+    setName(student.name);
+    setEmail(student.email);
+    setStudentId(student.id);
+    setShowSuggestions(false);
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSubmit({ name, email });
+    onSubmit({ name, email, studentId }, assignment.trim() || t('student.untitled'), noteOverrides);
   };
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
       <div className="bg-white rounded-2xl w-full max-w-sm overflow-hidden shadow-2xl animate-[fadeIn_0.2s_ease-out]">
         <div className="p-6">
-          <h3 className="text-xl font-bold text-gray-800 mb-4">Finalize & Send</h3>
+          <h3 className="text-xl font-bold text-gray-800 mb-4">{t('student.title')}</h3>
           <form onSubmit={handleSubmit} className="space-y-4">
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">Student Name</label>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('student.assignment')}</label>
+              <input
+                type="text"
+                value={assignment}
+                onChange={(e) => setAssignment(e.target.value)}
+                className="w-full px-4 py-2 bg-gray-100 rounded-lg border-transparent focus:bg-white focus:ring-2 focus:ring-blue-500 outline-none transition"
+                placeholder={t('student.assignmentPlaceholder')}
+              />
+            </div>
+            <div className="relative">
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('student.name')}</label>
               <input
                 type="text"
                 required
                 value={name}
-                onChange={(e) => setName(e.target.value)}
+                onChange={(e) => {
+                  setName(e.target.value);
+                  setStudentId(undefined); // Typing detaches the roster link until a student is picked again
+                  setShowSuggestions(true);
+                }}
+                onFocus={() => setShowSuggestions(true)}
+                onBlur={() => setShowSuggestions(false)}
+                autoComplete="off"
                 className="w-full px-4 py-2 bg-gray-100 rounded-lg border-transparent focus:bg-white focus:ring-2 focus:ring-blue-500 outline-none transition"
-                placeholder="John Doe"
+                placeholder={t('student.namePlaceholder')}
               />
+              {showSuggestions && suggestions.length > 0 && (
+                <div className="absolute left-0 right-0 mt-1 bg-white rounded-lg shadow-xl border border-gray-100 z-10 overflow-hidden">
+                  {suggestions.map(student => (
+                    <button
+                      key={student.id}
+                      type="button"
+                      // onMouseDown fires before the input's blur, so the pick isn't lost
+                      onMouseDown={(e) => { e.preventDefault(); pickStudent(student); }}
+                      className="w-full text-left px-4 py-2 hover:bg-blue-50 transition"
+                    >
+                      <p className="text-sm font-medium text-gray-800">{student.name}</p>
+                      <p className="text-xs text-gray-500">{student.email}{student.studentNumber && ` · #${student.studentNumber}`}</p>
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">Student Email</label>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('student.email')}</label>
               <input
                 type="email"
                 required
@@ -43,6 +108,17 @@ const StudentForm: React.FC<StudentFormProps> = ({ onSubmit, onCancel }) => {
                 placeholder="john@example.com"
               />
             </div>
+            {overrideCount > 0 && (
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={noteOverrides}
+                  onChange={(e) => setNoteOverrides(e.target.checked)}
+                  className="w-4 h-4 accent-blue-600"
+                />
+                {t('student.noteOverrides', { count: overrideCount })}
+              </label>
+            )}
             
             <div className="flex gap-3 pt-4">
               <button
@@ -50,13 +126,13 @@ const StudentForm: React.FC<StudentFormProps> = ({ onSubmit, onCancel }) => {
                 onClick={onCancel}
                 className="flex-1 py-3 px-4 rounded-xl text-gray-700 font-semibold bg-gray-100 hover:bg-gray-200 transition"
               >
-                Cancel
+                {t('common.cancel')}
               </button>
               <button
                 type="submit"
                 className="flex-1 py-3 px-4 rounded-xl text-white font-semibold bg-blue-600 hover:bg-blue-700 shadow-lg shadow-blue-600/30 transition"
               >
-                Send PDF
+                {sends ? t('student.send') : t('student.create')}
               </button>
             </div>
           </form>
@@ -0,0 +1,291 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+
+interface ZoomViewportProps {
+  minimapSrc: string;
+  // Single taps on the content (delayed slightly so a double tap can zoom instead)
+  onTap: (clientX: number, clientY: number, target: HTMLElement) => void;
+  // Receives the current scale so overlays can keep a constant on-screen size
+  children: (scale: number) => React.ReactNode;
+  // A point of the content (percentages) to bring to the centre; a new key recentres
+  focus?: { x: number; y: number; key: string } | null;
+}
+
+interface View {
+  scale: number;
+  x: number; // Content offset within the viewport, in screen px
+  y: number;
+}
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 5;
+const DOUBLE_TAP_SCALE = 2.5;
+const DOUBLE_TAP_MS = 300;
+const TAP_SLOP = 8; // Movement in px before a press becomes a pan
+const MAX_CONTENT_WIDTH = 800;
+const MARGIN_TOP = 32;
+const MARGIN_BOTTOM = 192; // Room for the floating action bar
+
+// Presses on these elements are left to them (buttons, notes, draggable anchors, text fields, the ink layer while drawing)
+const INTERACTIVE_SELECTOR = 'button, input, textarea, .mark-note, .mark-anchor, .ink-surface';
+
+// Keeps the content on screen: centred when it is narrower than the viewport, otherwise edge to edge
+const clampView = (view: View, viewport: { w: number; h: number }, content: { w: number; h: number }): View => {
+  const scale = Math.max(MIN_SCALE, Math.min(MAX_SCALE, view.scale));
+  const width = content.w * scale;
+  const height = content.h * scale;
+
+  const x = width <= viewport.w
+    ? (viewport.w - width) / 2
+    : Math.max(viewport.w - width, Math.min(0, view.x));
+  const y = height + MARGIN_TOP + MARGIN_BOTTOM <= viewport.h
+    ? MARGIN_TOP
+    : Math.max(viewport.h - height - MARGIN_BOTTOM, Math.min(MARGIN_TOP, view.y));
+
+  return { scale, x, y };
+};
+
+// Zooms to `scale` while keeping the content point under (px, py) fixed on screen
+const zoomAt = (view: View, scale: number, px: number, py: number): View => {
+  const cx = (px - view.x) / view.scale;
+  const cy = (py - view.y) / view.scale;
+  return { scale, x: px - cx * scale, y: py - cy * scale };
+};
+
+const ZoomViewport: React.FC<ZoomViewportProps> = ({ minimapSrc, onTap, children, focus }) => {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const [viewportSize, setViewportSize] = useState({ w: 0, h: 0 });
+  const [contentHeight, setContentHeight] = useState(0);
+  const [view, setView] = useState<View>({ scale: 1, x: 0, y: MARGIN_TOP });
+
+  // Gesture bookkeeping lives in refs so pointer moves don't wait for re-renders
+  const pointers = useRef(new Map<number, { x: number; y: number }>());
+  const gesture = useRef<{ startView: View; startX: number; startY: number; startDistance: number; moved: boolean } | null>(null);
+  const lastTap = useRef<{ time: number; x: number; y: number } | null>(null);
+  const tapTimer = useRef<number | null>(null);
+  const focusedKey = useRef<string | null>(null);
+
+  const contentWidth = Math.min(viewportSize.w * 0.95, MAX_CONTENT_WIDTH);
+  const contentSize = { w: contentWidth, h: contentHeight };
+
+  const updateView = (next: View) => setView(clampView(next, viewportSize, contentSize));
+
+  // Track the viewport and the (image-driven) content height
+  useLayoutEffect(() => {
+    const observer = new ResizeObserver(() => {
+      if (viewportRef.current) {
+        setViewportSize({ w: viewportRef.current.clientWidth, h: viewportRef.current.clientHeight });
+      }
+      if (contentRef.current) setContentHeight(contentRef.current.offsetHeight);
+    });
+    if (viewportRef.current) observer.observe(viewportRef.current);
+    if (contentRef.current) observer.observe(contentRef.current);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    setView(prev => clampView(prev, viewportSize, contentSize));
+  }, [viewportSize.w, viewportSize.h, contentHeight]);
+
+  useEffect(() => () => {
+    if (tapTimer.current) window.clearTimeout(tapTimer.current);
+  }, []);
+
+  // Centre the focus point once the content has a size (the image may still be loading)
+  useEffect(() => {
+    if (!focus || focus.key === focusedKey.current || contentHeight === 0 || viewportSize.w === 0) return;
+    focusedKey.current = focus.key;
+    updateView({
+      scale: view.scale,
+      x: viewportSize.w / 2 - (focus.x / 100) * contentSize.w * view.scale,
+      y: viewportSize.h / 2 - (focus.y / 100) * contentSize.h * view.scale,
+    });
+  }, [focus?.key, viewportSize.w, viewportSize.h, contentHeight]);
+
+  // Wheel: ctrl/cmd (and trackpad pinch) zooms, otherwise pans. Registered natively so it can
+  // preventDefault; React's wheel listener is passive.
+  useEffect(() => {
+    const el = viewportRef.current;
+    if (!el) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = el.getBoundingClientRect();
+      setView(prev => {
+        const next = e.ctrlKey || e.metaKey
+          ? zoomAt(prev, prev.scale * Math.exp(-e.deltaY * 0.01), e.clientX - rect.left, e.clientY - rect.top)
+          : { ...prev, x: prev.x - e.deltaX, y: prev.y - e.deltaY };
+        return clampView(next, viewportSize, contentSize);
+      });
+    };
+
+    el.addEventListener('wheel', handleWheel, { passive: false });
+    return () => el.removeEventListener('wheel', handleWheel);
+  }, [viewportSize.w, viewportSize.h, contentHeight]);
+
+  const toViewportPoint = (clientX: number, clientY: number) => {
+    const rect = viewportRef.current!.getBoundingClientRect();
+    return { x: clientX - rect.left, y: clientY - rect.top };
+  };
+
+  const startGesture = () => {
+    const points = [...pointers.current.values()];
+    const [a, b] = points;
+    gesture.current = {
+      startView: view,
+      startX: b ? (a.x + b.x) / 2 : a.x,
+      startY: b ? (a.y + b.y) / 2 : a.y,
+      startDistance: b ? Math.hypot(a.x - b.x, a.y - b.y) : 0,
+      moved: gesture.current?.moved || points.length > 1,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if ((e.target as HTMLElement).closest(INTERACTIVE_SELECTOR)) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    startGesture();
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!pointers.current.has(e.pointerId) || !gesture.current) return;
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    const g = gesture.current;
+    const [a, b] = [...pointers.current.values()];
+
+    if (b) {
+      // Pinch: scale by the change in finger distance around the starting midpoint, pan with the midpoint
+      const distance = Math.hypot(a.x - b.x, a.y - b.y);
+      const midX = (a.x + b.x) / 2;
+      const midY = (a.y + b.y) / 2;
+      const origin = toViewportPoint(g.startX, g.startY);
+      const zoomed = zoomAt(g.startView, g.startView.scale * (distance / g.startDistance), origin.x, origin.y);
+      updateView({ ...zoomed, x: zoomed.x + midX - g.startX, y: zoomed.y + midY - g.startY });
+      return;
+    }
+
+    const dx = a.x - g.startX;
+    const dy = a.y - g.startY;
+    if (!g.moved && Math.hypot(dx, dy) < TAP_SLOP) return;
+    g.moved = true;
+    updateView({ ...g.startView, x: g.startView.x + dx, y: g.startView.y + dy });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!pointers.current.has(e.pointerId)) return;
+    pointers.current.delete(e.pointerId);
+
+    const wasTap = gesture.current && !gesture.current.moved && pointers.current.size === 0;
+    if (pointers.current.size > 0) {
+      startGesture(); // Lifting one finger of a pinch continues as a pan
+      return;
+    }
+    gesture.current = null;
+    if (!wasTap) return;
+
+    const now = Date.now();
+    const previous = lastTap.current;
+    const isDoubleTap = previous
+      && now - previous.time < DOUBLE_TAP_MS
+      && Math.hypot(e.clientX - previous.x, e.clientY - previous.y) < TAP_SLOP * 4;
+
+    if (isDoubleTap) {
+      if (tapTimer.current) window.clearTimeout(tapTimer.current);
+      tapTimer.current = null;
+      lastTap.current = null;
+      const point = toViewportPoint(e.clientX, e.clientY);
+      updateView(view.scale > 1.05
+        ? { scale: 1, x: 0, y: view.y }
+        : zoomAt(view, DOUBLE_TAP_SCALE, point.x, point.y));
+      return;
+    }
+
+    // Wait to see whether a second tap follows before treating this as a single tap
+    lastTap.current = { time: now, x: e.clientX, y: e.clientY };
+    const { clientX, clientY } = e;
+    const target = e.target as HTMLElement;
+    tapTimer.current = window.setTimeout(() => {
+      tapTimer.current = null;
+      onTap(clientX, clientY, target);
+    }, DOUBLE_TAP_MS);
+  };
+
+  const handlePointerCancel = (e: React.PointerEvent<HTMLDivElement>) => {
+    pointers.current.delete(e.pointerId);
+    gesture.current = null;
+  };
+
+  // Moves the view so the tapped point of the minimap is centred
+  const handleMinimapPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fx = (e.clientX - rect.left) / rect.width;
+    const fy = (e.clientY - rect.top) / rect.height;
+    updateView({
+      scale: view.scale,
+      x: viewportSize.w / 2 - fx * contentSize.w * view.scale,
+      y: viewportSize.h / 2 - fy * contentSize.h * view.scale,
+    });
+  };
+
+  // Visible part of the content as fractions, for the minimap frame
+  const visible = contentSize.w > 0 && contentSize.h > 0 ? {
+    left: Math.max(0, -view.x / (contentSize.w * view.scale)),
+    top: Math.max(0, -view.y / (contentSize.h * view.scale)),
+    width: Math.min(1, viewportSize.w / (contentSize.w * view.scale)),
+    height: Math.min(1, viewportSize.h / (contentSize.h * view.scale)),
+  } : null;
+
+  return (
+    <div
+      ref={viewportRef}
+      className="relative w-full h-full overflow-hidden bg-gray-900 touch-none select-none"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerCancel}
+    >
+      <div
+        ref={contentRef}
+        className="absolute top-0 left-0"
+        style={{
+          width: contentWidth || undefined,
+          transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`,
+          transformOrigin: '0 0',
+        }}
+      >
+        {children(view.scale)}
+      </div>
+
+      {/* Minimap (only while zoomed in) */}
+      {view.scale > 1.05 && visible && (
+        <div className="absolute top-4 right-4 z-30 flex flex-col items-end gap-2">
+          <div
+            className="relative w-20 rounded shadow-lg border border-white/40 overflow-hidden bg-white cursor-pointer"
+            onPointerDown={handleMinimapPointerDown}
+          >
+            <img src={minimapSrc} alt="" className="w-full h-auto block opacity-80" draggable={false} />
+            <div
+              className="absolute border-2 border-blue-500 bg-blue-500/10 pointer-events-none"
+              style={{
+                left: `${visible.left * 100}%`,
+                top: `${visible.top * 100}%`,
+                width: `${visible.width * 100}%`,
+                height: `${visible.height * 100}%`,
+              }}
+            />
+          </div>
+          <button
+            onClick={() => updateView({ scale: 1, x: 0, y: MARGIN_TOP })}
+            className="bg-black/50 backdrop-blur-md text-white text-xs px-2 py-1 rounded-full"
+          >
+            {Math.round(view.scale * 100)}% <i className="fa-solid fa-compress ml-1"></i>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ZoomViewport;
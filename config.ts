@@ -0,0 +1,91 @@
+export type GradingProviderName = 'gemini' | 'mock';
+
+export interface GradingConfig {
+  provider: GradingProviderName;
+  model: string;
+}
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.0-flash'; // Latest stable Flash; switch to a Pro model if available in your tier
+
+// Set VITE_GRADING_PROVIDER=mock to run the whole flow offline against canned fixtures
+export const gradingConfig: GradingConfig = {
+  provider: import.meta.env.VITE_GRADING_PROVIDER === 'mock' ? 'mock' : 'gemini',
+  model: import.meta.env.VITE_GRADING_MODEL || DEFAULT_GEMINI_MODEL,
+};
+
+export interface PdfConfig {
+  renderMode: 'vector' | 'raster';
+  cjkFontUrl: string;
+}
+
+// The Chinese font is a TrueType file served by the app (e.g. public/fonts). Vector PDFs need it
+// for Chinese text; without it they fall back to raster mode.
+export const pdfConfig: PdfConfig = {
+  renderMode: import.meta.env.VITE_PDF_RENDER_MODE === 'raster' ? 'raster' : 'vector',
+  cjkFontUrl: import.meta.env.VITE_CJK_FONT_URL || '/fonts/NotoSansSC-Regular.ttf',
+};
+
+export interface ImportConfig {
+  dpi: number;
+  pdfjsUrl: string;
+  pdfjsWorkerUrl: string;
+}
+
+// PDF and TIFF pages are rasterized at this resolution. pdf.js is loaded on demand the first time a
+// PDF is opened; point these at a self-hosted copy to import PDFs offline.
+export const importConfig: ImportConfig = {
+  dpi: Number(import.meta.env.VITE_IMPORT_DPI) || 200,
+  pdfjsUrl: import.meta.env.VITE_PDFJS_URL || 'https://cdn.jsdelivr.net/npm/pdfjs-dist@4.10.38/build/pdf.min.mjs',
+  pdfjsWorkerUrl: import.meta.env.VITE_PDFJS_WORKER_URL || 'https://cdn.jsdelivr.net/npm/pdfjs-dist@4.10.38/build/pdf.worker.min.mjs',
+};
+
+export interface ReviewConfig {
+  confidenceThreshold: number;
+}
+
+// Marks the AI is less sure of than this (0-1), and any it could not read, need the teacher's review
+export const reviewConfig: ReviewConfig = {
+  confidenceThreshold: Number(import.meta.env.VITE_REVIEW_CONFIDENCE) || 0.7,
+};
+
+export interface MathConfig {
+  mathJaxUrl: string;
+}
+
+// MathJax typesets the LaTeX in marks, for review and for the PDF. It is loaded on demand the first
+// time a formula shows up; to work offline, self-host its es5 folder (it loads extensions next to
+// the script) and point this at tex-svg.js there. Without it formulas stay as plain LaTeX.
+export const mathConfig: MathConfig = {
+  mathJaxUrl: import.meta.env.VITE_MATHJAX_URL || 'https://cdn.jsdelivr.net/npm/mathjax@3.2.2/es5/tex-svg.js',
+};
+
+export type LmsProvider = 'classroom' | 'canvas';
+
+export interface DeliveryConfig {
+  mailerUrl: string | null;
+  mailerToken: string;
+  lms: LmsProvider | null;
+  lmsUrl: string;
+  lmsToken: string;
+  lmsCourseId: string;
+  driveUrl: string;
+  maxAttempts: number;
+}
+
+const lmsProvider = (value?: string): LmsProvider | null => {
+  return value === 'classroom' || value === 'canvas' ? value : null;
+};
+
+// Graded PDFs go out by email through the companion mailer (server/mailer.mjs, which speaks SMTP) and
+// to the LMS course over its REST API. Email is off without a mailer URL, the LMS without a provider and
+// course; both can be pointed at server/deliveryStub.mjs for testing. Failed sends are retried until maxAttempts.
+export const deliveryConfig: DeliveryConfig = {
+  mailerUrl: import.meta.env.VITE_MAILER_URL || null,
+  mailerToken: import.meta.env.VITE_MAILER_TOKEN || '',
+  lms: lmsProvider(import.meta.env.VITE_LMS_PROVIDER),
+  lmsUrl: import.meta.env.VITE_LMS_URL || (import.meta.env.VITE_LMS_PROVIDER === 'classroom' ? 'https://classroom.googleapis.com' : ''),
+  lmsToken: import.meta.env.VITE_LMS_TOKEN || '',
+  lmsCourseId: import.meta.env.VITE_LMS_COURSE_ID || '',
+  driveUrl: import.meta.env.VITE_DRIVE_URL || 'https://www.googleapis.com',
+  maxAttempts: Number(import.meta.env.VITE_DELIVERY_MAX_ATTEMPTS) || 6,
+};
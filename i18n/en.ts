@@ -0,0 +1,304 @@
+// English UI strings; every other catalog must define the same keys.
+// "{name}" placeholders are filled in by the translator. Keys ending in ".one"/".other" are plural
+// forms, picked by the "count" parameter.
+const en = {
+  // Shared
+  'common.cancel': 'Cancel',
+  'common.done': 'Done',
+  'common.save': 'Save',
+  'common.edit': 'Edit',
+  'common.delete': 'Delete',
+  'common.retry': 'Retry',
+  'common.page': 'Page {number}',
+  'common.pageCount.one': '{count} page',
+  'common.pageCount.other': '{count} pages',
+  'common.studentCount.one': '{count} student',
+  'common.studentCount.other': '{count} students',
+
+  // Verdicts, as printed in notes and reports
+  'status.correct': 'Correct',
+  'status.partial': 'Partial',
+  'status.incorrect': 'Incorrect',
+  'status.unanswered': 'Unanswered',
+
+  // App shell
+  'app.roster': 'Roster',
+  'app.gradebook': 'Gradebook',
+  'app.outbox': 'Outbox',
+  'app.settings': 'Settings & Grading Profiles',
+  'app.undo': 'Undo',
+  'app.redo': 'Redo',
+  'app.backToQueue': 'Back to Queue',
+  'app.addPage': 'Add Page',
+  'app.approve': 'Approve',
+  'app.grading.title': 'AI is Grading...',
+  'app.grading.subtitle': 'Detecting orientation & analyzing answers',
+  'app.exporting': 'Generating Report...',
+  'app.complete.title': 'Grading Complete!',
+  'app.complete.resultsFor': 'Results ready for {name}',
+  'app.complete.preparing': 'Preparing...',
+  'app.complete.share': 'Share / Email PDF',
+  'app.complete.save': 'Save to Files',
+  'app.complete.backToQueue': 'Back to Class Queue',
+  'app.complete.startOver': 'Start Over',
+  'app.share.title': 'Exam Results',
+  'app.share.text': 'Here are the graded results for {name}.',
+  'app.error.readFiles': 'Failed to read the uploaded files.',
+  'app.error.grading': 'Failed to grade the exam. Please check your API Key.',
+  'app.error.gradeNewPage': 'Failed to grade the new page. Please check your API Key.',
+  'app.error.storePages': 'Could not save the added pages. Please try again.',
+  'app.error.pagesNotGraded': 'Page {pages} could not be graded. You can still mark it by hand.',
+  'app.error.split': 'Failed to split the upload into students. Please check your API Key.',
+  'app.error.resume': 'Failed to open this session.',
+  'app.error.reexplain': 'Failed to get a new explanation from the AI.',
+  'app.error.pdf': 'Failed to generate PDF.',
+  'app.error.delivery': 'The PDF was created but could not be queued for sending.',
+  'app.notice.rasterPdf': 'The PDF was saved as page images, so its text can\'t be selected or searched. For Chinese, Japanese or Korean text this usually means the font set by VITE_CJK_FONT_URL is missing.',
+
+  // Scanner
+  'scanner.title': 'Scan Exam Paper',
+  'scanner.subtitle': 'Take a photo of the exam pages or upload a scan to start grading.',
+  'scanner.oneStudent': 'One Student',
+  'scanner.wholeClass': 'Whole Class',
+  'scanner.splitEvery': 'Split every',
+  'scanner.pages': 'pages',
+  'scanner.detectCover': 'Detect name on cover pages',
+  'scanner.uploadClass': 'Upload Class Stack',
+  'scanner.upload': 'Scan / Upload Pages',
+  'scanner.answerKey': '{title} ({count} Q)',
+  'scanner.addAnswerKey': 'Add Answer Key',
+  'scanner.chooseProfile': 'Choose Grading Profile',
+  'scanner.formats': 'Supports Multi-page Uploads, PDF and TIFF',
+
+  // Recent sessions
+  'sessions.title': 'Recent Sessions',
+  'sessions.unnamed': 'Unnamed student',
+  'sessions.reopen': 'Reopen',
+  'sessions.resume': 'Resume',
+
+  // Answer key editor
+  'key.title': 'Answer Key',
+  'key.titlePlaceholder': 'Worksheet title',
+  'key.summary': '{questions} questions · {points} pts · separate accepted alternatives with "|"',
+  'key.questionPlaceholder': 'Q',
+  'key.expected': 'Expected answer',
+  'key.points': 'Points',
+  'key.alternatives': 'Accepted alternatives (optional)',
+  'key.addQuestion': 'Add Question',
+  'key.save': 'Save Key',
+
+  // Corner review
+  'capture.title': 'Check Page Edges',
+  'capture.subtitle': 'Drag the corners onto the edges of the paper. Pages are flattened and straightened before they go into the tray.',
+  'capture.auto': 'Auto',
+  'capture.wholePhoto': 'Whole photo',
+  'capture.enhance': 'Remove shadows and boost contrast',
+  'capture.use.one': 'Use {count} Page',
+  'capture.use.other': 'Use {count} Pages',
+
+  // Page tray
+  'tray.title': 'Check Pages',
+  'tray.subtitle': 'Drag to reorder. Remove blurry shots, retake them or add pages you missed.',
+  'tray.retake': 'Retake',
+  'tray.remove': 'Remove',
+  'tray.add': 'Add Pages',
+  'tray.grade.one': 'Grade {count} Page',
+  'tray.grade.other': 'Grade {count} Pages',
+
+  // Grading progress
+  'progress.queued': 'Queued',
+  'progress.grading': 'Grading',
+  'progress.done': 'Done',
+  'progress.failed': 'Failed',
+  'progress.someFailed': 'Some Pages Failed',
+  'progress.finished': 'Grading Done',
+  'progress.count': '{done}/{total} pages',
+  'progress.retryFailed': 'Retry Failed Pages ({count})',
+  'progress.reviewGraded': 'Review Graded Pages',
+
+  // Class queue
+  'batch.title': 'Class Queue',
+  'batch.summary': '{graded}/{total} graded · {exported} exported',
+  'batch.student': 'Student {number}',
+  'batch.queued': 'Queued',
+  'batch.grading': 'Grading',
+  'batch.ready': 'Ready to review',
+  'batch.done': 'Exported',
+  'batch.failed': 'Failed',
+  'batch.pagesFailed': '{failed} of {total} pages failed',
+  'batch.gradingFailed': 'Grading failed',
+  'batch.reopen': 'Reopen',
+  'batch.review': 'Review',
+  'batch.finish': 'Finish Class',
+  'batch.close': 'Close Queue',
+
+  // Roster
+  'roster.title': 'Class Roster',
+  'roster.import': 'Import CSV',
+  'roster.noStudents': 'No students found. Expected columns: name, email, student id.',
+  'roster.imported': 'Imported {count} students.',
+  'roster.unreadable': 'Could not read this file.',
+  'roster.empty': 'Import a CSV with name, email and student id columns to pick students when grading.',
+  'roster.noEmail': 'No email',
+
+  // Gradebook
+  'gradebook.title': 'Gradebook',
+  'gradebook.empty': 'Finished exams are recorded here per assignment.',
+  'gradebook.grades': 'Grades',
+  'gradebook.analysis': 'Item Analysis',
+  'gradebook.student': 'Student',
+  'gradebook.total': 'Total',
+  'gradebook.shareText': 'Grades for {assignment}.',
+  'gradebook.column.email': 'Email',
+  'gradebook.column.studentId': 'Student ID',
+  'gradebook.column.score': 'Score',
+  'gradebook.column.possible': 'Possible',
+  'gradebook.column.percent': 'Percent',
+
+  // Item analysis (screen and PDF)
+  'analysis.title': 'Item Analysis: {assignment}',
+  'analysis.summary': '{students} · average {percent}%',
+  'analysis.reportSummary': '{students} · class average {percent}% · {date}',
+  'analysis.export': 'Export PDF',
+  'analysis.distribution': 'Score Distribution',
+  'analysis.questions': 'Questions',
+  'analysis.percentCorrect': '{percent}% correct',
+  'analysis.percentCorrectAverage': '{percent}% correct · avg {average}%',
+  'analysis.commonWrong': 'Common wrong answers: {answers}',
+  'analysis.disputed': 'Most Disputed (AI vs. Teacher)',
+  'analysis.noDisputes': 'The teacher kept every AI verdict.',
+  'analysis.overridden': '{count} overridden ({percent}%)',
+  'analysis.overriddenReport': '{label}: {count} overridden ({percent}% of AI verdicts)',
+  'analysis.shareText': 'Item analysis for {assignment}.',
+
+  // Outbox
+  'delivery.title': 'Outbox',
+  'delivery.summary': '{delivered} delivered · {pending} pending · {failed} failed',
+  'delivery.empty': 'PDFs sent by email or to your LMS are listed here with their delivery status.',
+  'delivery.offline': 'You are offline. Queued PDFs are sent once the connection is back.',
+  'delivery.clearDelivered': 'Clear Delivered',
+  'delivery.channel.email': 'Email',
+  'delivery.channel.classroom': 'Google Classroom',
+  'delivery.channel.canvas': 'Canvas',
+  'delivery.queued': 'Queued',
+  'delivery.sending': 'Sending',
+  'delivery.delivered': 'Delivered',
+  'delivery.failed': 'Failed',
+  'delivery.retrying': 'Attempt {attempts} of {max} failed, retrying',
+  'delivery.subject': 'Graded: {assignment}',
+  'delivery.message': 'Hi {name}, here is your graded {assignment}. Score: {awarded}/{possible}.',
+
+  // Finalize form
+  'student.title': 'Finalize & Send',
+  'student.assignment': 'Assignment',
+  'student.assignmentPlaceholder': 'Unit 3 Quiz',
+  'student.untitled': 'Untitled Assignment',
+  'student.name': 'Student Name',
+  'student.namePlaceholder': 'John Doe',
+  'student.email': 'Student Email',
+  'student.noteOverrides.one': 'Note my {count} change to the AI grading in the PDF',
+  'student.noteOverrides.other': 'Note my {count} changes to the AI grading in the PDF',
+  'student.send': 'Send PDF',
+  'student.create': 'Create PDF',
+
+  // Grading profiles and settings
+  'profiles.title': 'Grading Profiles',
+  'profiles.subtitle': 'Pick how the AI grades the next exam.',
+  'profiles.new': 'New Profile',
+  'profiles.edit': 'Edit Profile',
+  'profiles.name': 'Name',
+  'profiles.namePlaceholder': 'e.g. Year 9 Algebra',
+  'profiles.subject': 'Subject',
+  'profiles.strictness': 'Strictness',
+  'profiles.tone': 'Feedback Tone',
+  'profiles.instructions': 'Custom Instructions',
+  'profiles.instructionsPlaceholder': 'e.g. Ignore spelling. Require units on every numeric answer.',
+  'profiles.save': 'Save Profile',
+  'subject.general': 'General',
+  'subject.math': 'Math',
+  'subject.language': 'Language',
+  'subject.science': 'Science',
+  'strictness.lenient': 'Lenient',
+  'strictness.standard': 'Standard',
+  'strictness.strict': 'Strict',
+  'tone.encouraging': 'Encouraging',
+  'tone.neutral': 'Neutral',
+  'tone.concise': 'Concise',
+  'settings.language': 'App Language',
+  'settings.feedbackInMyLanguage': 'Write feedback in this language instead of the exam\'s',
+
+  // Mark notes on the grading canvas
+  'note.question': 'Question',
+  'note.studentAnswer': 'Student Answer',
+  'note.correctAnswer': 'Correct Answer',
+  'note.analysis': 'Analysis',
+  'note.points': 'pts',
+  'note.keyVerdict': 'Key',
+  'note.modelVerdict': 'AI',
+  'note.keyQuestion': 'Key Q',
+  'note.decidedByKey': 'Decided by the answer key',
+  'note.decidedByModel': 'Decided by the AI',
+  'note.toggleStatus': 'Toggle Status',
+  'note.reask': 'Re-ask AI',
+  'note.history': 'History',
+  'note.graded': 'Graded',
+  'note.teacher': 'Teacher',
+  'note.removed': 'Removed',
+  'note.via.undo': 'undo',
+  'note.via.redo': 'redo',
+  'note.working': 'Working',
+  'note.firstError': 'First error',
+  'note.methodCredit': 'Method credit',
+
+  // Needs-review flags and navigator
+  'review.needsReview.one': '{count} mark to review',
+  'review.needsReview.other': '{count} marks to review',
+  'review.allReviewed': 'All flagged marks reviewed',
+  'review.previous': 'Previous flagged mark',
+  'review.next': 'Next flagged mark',
+  'review.illegible': 'Handwriting unclear',
+  'review.lowConfidence': 'AI is {percent}% sure',
+  'review.confirm': 'Confirm',
+  'review.reviewed': 'Reviewed',
+  'review.approveWarning.one': '{count} flagged mark has not been reviewed yet. Approve anyway?',
+  'review.approveWarning.other': '{count} flagged marks have not been reviewed yet. Approve anyway?',
+
+  // Ink, text and stamps on the page
+  'ink.marks': 'Marks',
+  'ink.pen': 'Pen',
+  'ink.highlighter': 'Highlighter',
+  'ink.eraser': 'Eraser',
+  'ink.text': 'Text',
+  'ink.stamp': 'Stamp',
+  'ink.undo': 'Undo ink',
+  'ink.textPrompt': 'Text to write on the page',
+  'stamp.goodWork': 'Good work!',
+  'stamp.excellent': 'Excellent',
+  'stamp.seeMe': 'See me',
+  'stamp.showWork': 'Show your work',
+
+  // Fallbacks for fields the model left out
+  'mark.question': 'Question',
+  'mark.unknownAnswer': 'Unknown',
+  'mark.noAnswer': 'No answer',
+  'mark.noExplanation': 'No explanation provided.',
+
+  // Graded PDF
+  'pdf.title': 'Grading Report',
+  'pdf.score': 'Score',
+  'pdf.pageScore': 'Page {number}: {awarded} / {possible}',
+  'pdf.continued': 'Page {number} feedback (continued)',
+  'pdf.appendix': 'Appendix',
+  'pdf.appendixEntry': '{ref} · Page {number} · {label}',
+  'pdf.answer': 'Ans: {answer}',
+  'pdf.correct': 'Correct: {answer}',
+  'pdf.note': 'Note: {note}',
+  'pdf.seeAppendix': '(see appendix {ref})',
+  'pdf.changedByTeacher': 'Changed by teacher (AI: {status}, {awarded}/{possible})',
+  'pdf.addedByTeacher': 'Added by teacher',
+  'pdf.step': 'Step {number}: {step}',
+  'pdf.firstError': 'First error',
+  'pdf.methodCredit': 'Method credit: {points}',
+};
+
+export default en;
@@ -0,0 +1,282 @@
+import type { Messages } from "./index";
+
+const es: Messages = {
+  'common.cancel': 'Cancelar',
+  'common.done': 'Listo',
+  'common.save': 'Guardar',
+  'common.edit': 'Editar',
+  'common.delete': 'Eliminar',
+  'common.retry': 'Reintentar',
+  'common.page': 'Página {number}',
+  'common.pageCount.one': '{count} página',
+  'common.pageCount.other': '{count} páginas',
+  'common.studentCount.one': '{count} estudiante',
+  'common.studentCount.other': '{count} estudiantes',
+
+  'status.correct': 'Correcta',
+  'status.partial': 'Parcial',
+  'status.incorrect': 'Incorrecta',
+  'status.unanswered': 'Sin responder',
+
+  'app.roster': 'Lista de clase',
+  'app.gradebook': 'Libro de notas',
+  'app.outbox': 'Bandeja de salida',
+  'app.settings': 'Ajustes y perfiles de corrección',
+  'app.undo': 'Deshacer',
+  'app.redo': 'Rehacer',
+  'app.backToQueue': 'Volver a la cola',
+  'app.addPage': 'Añadir página',
+  'app.approve': 'Aprobar',
+  'app.grading.title': 'La IA está corrigiendo...',
+  'app.grading.subtitle': 'Detectando la orientación y analizando las respuestas',
+  'app.exporting': 'Generando informe...',
+  'app.complete.title': '¡Corrección terminada!',
+  'app.complete.resultsFor': 'Resultados listos para {name}',
+  'app.complete.preparing': 'Preparando...',
+  'app.complete.share': 'Compartir / enviar PDF',
+  'app.complete.save': 'Guardar en Archivos',
+  'app.complete.backToQueue': 'Volver a la cola de la clase',
+  'app.complete.startOver': 'Empezar de nuevo',
+  'app.share.title': 'Resultados del examen',
+  'app.share.text': 'Estos son los resultados corregidos de {name}.',
+  'app.error.readFiles': 'No se pudieron leer los archivos subidos.',
+  'app.error.grading': 'No se pudo corregir el examen. Revisa tu clave de API.',
+  'app.error.gradeNewPage': 'No se pudo corregir la nueva página. Revisa tu clave de API.',
+  'app.error.storePages': 'No se pudieron guardar las páginas añadidas. Inténtalo de nuevo.',
+  'app.error.pagesNotGraded': 'No se pudo corregir la página {pages}. Aún puedes corregirla a mano.',
+  'app.error.split': 'No se pudo dividir la subida por estudiantes. Revisa tu clave de API.',
+  'app.error.resume': 'No se pudo abrir esta sesión.',
+  'app.error.reexplain': 'No se pudo obtener una nueva explicación de la IA.',
+  'app.error.pdf': 'No se pudo generar el PDF.',
+  'app.error.delivery': 'El PDF se creó, pero no se pudo poner en cola para enviarlo.',
+  'app.notice.rasterPdf': 'El PDF se guardó como imágenes de página, así que su texto no se puede seleccionar ni buscar. Con texto en chino, japonés o coreano suele deberse a que falta la fuente indicada en VITE_CJK_FONT_URL.',
+
+  'scanner.title': 'Escanear examen',
+  'scanner.subtitle': 'Haz una foto de las páginas del examen o sube un escaneo para empezar a corregir.',
+  'scanner.oneStudent': 'Un estudiante',
+  'scanner.wholeClass': 'Toda la clase',
+  'scanner.splitEvery': 'Dividir cada',
+  'scanner.pages': 'páginas',
+  'scanner.detectCover': 'Detectar el nombre en las portadas',
+  'scanner.uploadClass': 'Subir exámenes de la clase',
+  'scanner.upload': 'Escanear / subir páginas',
+  'scanner.answerKey': '{title} ({count} P)',
+  'scanner.addAnswerKey': 'Añadir solucionario',
+  'scanner.chooseProfile': 'Elegir perfil de corrección',
+  'scanner.formats': 'Admite subidas de varias páginas, PDF y TIFF',
+
+  'sessions.title': 'Sesiones recientes',
+  'sessions.unnamed': 'Estudiante sin nombre',
+  'sessions.reopen': 'Reabrir',
+  'sessions.resume': 'Continuar',
+
+  'key.title': 'Solucionario',
+  'key.titlePlaceholder': 'Título de la ficha',
+  'key.summary': '{questions} preguntas · {points} pts · separa las alternativas aceptadas con "|"',
+  'key.questionPlaceholder': 'P',
+  'key.expected': 'Respuesta esperada',
+  'key.points': 'Puntos',
+  'key.alternatives': 'Alternativas aceptadas (opcional)',
+  'key.addQuestion': 'Añadir pregunta',
+  'key.save': 'Guardar solucionario',
+
+  'capture.title': 'Revisar bordes de página',
+  'capture.subtitle': 'Arrastra las esquinas a los bordes del papel. Las páginas se aplanan y enderezan antes de pasar a la bandeja.',
+  'capture.auto': 'Auto',
+  'capture.wholePhoto': 'Foto completa',
+  'capture.enhance': 'Quitar sombras y aumentar el contraste',
+  'capture.use.one': 'Usar {count} página',
+  'capture.use.other': 'Usar {count} páginas',
+
+  'tray.title': 'Revisar páginas',
+  'tray.subtitle': 'Arrastra para reordenar. Elimina las fotos borrosas, repítelas o añade las páginas que faltan.',
+  'tray.retake': 'Repetir',
+  'tray.remove': 'Eliminar',
+  'tray.add': 'Añadir páginas',
+  'tray.grade.one': 'Corregir {count} página',
+  'tray.grade.other': 'Corregir {count} páginas',
+
+  'progress.queued': 'En cola',
+  'progress.grading': 'Corrigiendo',
+  'progress.done': 'Hecho',
+  'progress.failed': 'Error',
+  'progress.someFailed': 'Algunas páginas fallaron',
+  'progress.finished': 'Corrección terminada',
+  'progress.count': '{done}/{total} páginas',
+  'progress.retryFailed': 'Reintentar páginas fallidas ({count})',
+  'progress.reviewGraded': 'Revisar páginas corregidas',
+
+  'batch.title': 'Cola de la clase',
+  'batch.summary': '{graded}/{total} corregidos · {exported} exportados',
+  'batch.student': 'Estudiante {number}',
+  'batch.queued': 'En cola',
+  'batch.grading': 'Corrigiendo',
+  'batch.ready': 'Listo para revisar',
+  'batch.done': 'Exportado',
+  'batch.failed': 'Error',
+  'batch.pagesFailed': 'Fallaron {failed} de {total} páginas',
+  'batch.gradingFailed': 'Error al corregir',
+  'batch.reopen': 'Reabrir',
+  'batch.review': 'Revisar',
+  'batch.finish': 'Terminar clase',
+  'batch.close': 'Cerrar cola',
+
+  'roster.title': 'Lista de clase',
+  'roster.import': 'Importar CSV',
+  'roster.noStudents': 'No se encontraron estudiantes. Columnas esperadas: nombre, correo, id de estudiante.',
+  'roster.imported': 'Se importaron {count} estudiantes.',
+  'roster.unreadable': 'No se pudo leer este archivo.',
+  'roster.empty': 'Importa un CSV con columnas de nombre, correo e id de estudiante para elegir estudiantes al corregir.',
+  'roster.noEmail': 'Sin correo',
+
+  'gradebook.title': 'Libro de notas',
+  'gradebook.empty': 'Los exámenes terminados se registran aquí por tarea.',
+  'gradebook.grades': 'Notas',
+  'gradebook.analysis': 'Análisis por pregunta',
+  'gradebook.student': 'Estudiante',
+  'gradebook.total': 'Total',
+  'gradebook.shareText': 'Notas de {assignment}.',
+  'gradebook.column.email': 'Correo',
+  'gradebook.column.studentId': 'ID de estudiante',
+  'gradebook.column.score': 'Puntuación',
+  'gradebook.column.possible': 'Máximo',
+  'gradebook.column.percent': 'Porcentaje',
+
+  'analysis.title': 'Análisis por pregunta: {assignment}',
+  'analysis.summary': '{students} · media {percent}%',
+  'analysis.reportSummary': '{students} · media de la clase {percent}% · {date}',
+  'analysis.export': 'Exportar PDF',
+  'analysis.distribution': 'Distribución de notas',
+  'analysis.questions': 'Preguntas',
+  'analysis.percentCorrect': '{percent}% correctas',
+  'analysis.percentCorrectAverage': '{percent}% correctas · media {average}%',
+  'analysis.commonWrong': 'Respuestas incorrectas frecuentes: {answers}',
+  'analysis.disputed': 'Más discutidas (IA frente a docente)',
+  'analysis.noDisputes': 'El docente mantuvo todos los veredictos de la IA.',
+  'analysis.overridden': '{count} cambiadas ({percent}%)',
+  'analysis.overriddenReport': '{label}: {count} cambiadas ({percent}% de los veredictos de la IA)',
+  'analysis.shareText': 'Análisis por pregunta de {assignment}.',
+
+  'delivery.title': 'Bandeja de salida',
+  'delivery.summary': '{delivered} entregados · {pending} pendientes · {failed} fallidos',
+  'delivery.empty': 'Aquí aparecen los PDF enviados por correo o a tu LMS, con su estado de entrega.',
+  'delivery.offline': 'Sin conexión. Los PDF en cola se enviarán cuando vuelva la conexión.',
+  'delivery.clearDelivered': 'Quitar entregados',
+  'delivery.channel.email': 'Correo',
+  'delivery.channel.classroom': 'Google Classroom',
+  'delivery.channel.canvas': 'Canvas',
+  'delivery.queued': 'En cola',
+  'delivery.sending': 'Enviando',
+  'delivery.delivered': 'Entregado',
+  'delivery.failed': 'Fallido',
+  'delivery.retrying': 'Falló el intento {attempts} de {max}; se reintentará',
+  'delivery.subject': 'Corregido: {assignment}',
+  'delivery.message': 'Hola, {name}: aquí tienes tu {assignment} corregido. Puntuación: {awarded}/{possible}.',
+
+  'student.title': 'Finalizar y enviar',
+  'student.assignment': 'Tarea',
+  'student.assignmentPlaceholder': 'Prueba de la unidad 3',
+  'student.untitled': 'Tarea sin título',
+  'student.name': 'Nombre del estudiante',
+  'student.namePlaceholder': 'Juan Pérez',
+  'student.email': 'Correo del estudiante',
+  'student.noteOverrides.one': 'Indicar en el PDF mi {count} cambio a la corrección de la IA',
+  'student.noteOverrides.other': 'Indicar en el PDF mis {count} cambios a la corrección de la IA',
+  'student.send': 'Enviar PDF',
+  'student.create': 'Crear PDF',
+
+  'profiles.title': 'Perfiles de corrección',
+  'profiles.subtitle': 'Elige cómo corrige la IA el próximo examen.',
+  'profiles.new': 'Nuevo perfil',
+  'profiles.edit': 'Editar perfil',
+  'profiles.name': 'Nombre',
+  'profiles.namePlaceholder': 'p. ej. Álgebra de 3.º de ESO',
+  'profiles.subject': 'Asignatura',
+  'profiles.strictness': 'Exigencia',
+  'profiles.tone': 'Tono de los comentarios',
+  'profiles.instructions': 'Instrucciones propias',
+  'profiles.instructionsPlaceholder': 'p. ej. Ignora la ortografía. Exige unidades en toda respuesta numérica.',
+  'profiles.save': 'Guardar perfil',
+  'subject.general': 'General',
+  'subject.math': 'Matemáticas',
+  'subject.language': 'Lengua',
+  'subject.science': 'Ciencias',
+  'strictness.lenient': 'Flexible',
+  'strictness.standard': 'Normal',
+  'strictness.strict': 'Estricta',
+  'tone.encouraging': 'Alentador',
+  'tone.neutral': 'Neutral',
+  'tone.concise': 'Conciso',
+  'settings.language': 'Idioma de la aplicación',
+  'settings.feedbackInMyLanguage': 'Escribir los comentarios en este idioma en lugar del del examen',
+
+  'note.question': 'Pregunta',
+  'note.studentAnswer': 'Respuesta del estudiante',
+  'note.correctAnswer': 'Respuesta correcta',
+  'note.analysis': 'Análisis',
+  'note.points': 'pts',
+  'note.keyVerdict': 'Clave',
+  'note.modelVerdict': 'IA',
+  'note.keyQuestion': 'P. clave',
+  'note.decidedByKey': 'Decidido por el solucionario',
+  'note.decidedByModel': 'Decidido por la IA',
+  'note.toggleStatus': 'Cambiar veredicto',
+  'note.reask': 'Preguntar de nuevo a la IA',
+  'note.history': 'Historial',
+  'note.graded': 'Corregida',
+  'note.teacher': 'Docente',
+  'note.removed': 'Eliminada',
+  'note.via.undo': 'deshacer',
+  'note.via.redo': 'rehacer',
+  'note.working': 'Desarrollo',
+  'note.firstError': 'Primer error',
+  'note.methodCredit': 'Crédito por el método',
+
+  'review.needsReview.one': '{count} marca por revisar',
+  'review.needsReview.other': '{count} marcas por revisar',
+  'review.allReviewed': 'Todas las marcas señaladas están revisadas',
+  'review.previous': 'Marca señalada anterior',
+  'review.next': 'Siguiente marca señalada',
+  'review.illegible': 'Letra poco clara',
+  'review.lowConfidence': 'La IA está segura al {percent}%',
+  'review.confirm': 'Confirmar',
+  'review.reviewed': 'Revisada',
+  'review.approveWarning.one': 'Aún queda {count} marca señalada sin revisar. ¿Aprobar de todos modos?',
+  'review.approveWarning.other': 'Aún quedan {count} marcas señaladas sin revisar. ¿Aprobar de todos modos?',
+
+  'ink.marks': 'Marcas',
+  'ink.pen': 'Bolígrafo',
+  'ink.highlighter': 'Resaltador',
+  'ink.eraser': 'Borrador',
+  'ink.text': 'Texto',
+  'ink.stamp': 'Sello',
+  'ink.undo': 'Deshacer trazo',
+  'ink.textPrompt': 'Texto para escribir en la página',
+  'stamp.goodWork': '¡Buen trabajo!',
+  'stamp.excellent': 'Excelente',
+  'stamp.seeMe': 'Ven a verme',
+  'stamp.showWork': 'Muestra tu procedimiento',
+
+  'mark.question': 'Pregunta',
+  'mark.unknownAnswer': 'Desconocida',
+  'mark.noAnswer': 'Sin respuesta',
+  'mark.noExplanation': 'Sin explicación.',
+
+  'pdf.title': 'Informe de corrección',
+  'pdf.score': 'Nota',
+  'pdf.pageScore': 'Página {number}: {awarded} / {possible}',
+  'pdf.continued': 'Comentarios de la página {number} (continuación)',
+  'pdf.appendix': 'Apéndice',
+  'pdf.appendixEntry': '{ref} · Página {number} · {label}',
+  'pdf.answer': 'Resp.: {answer}',
+  'pdf.correct': 'Correcta: {answer}',
+  'pdf.note': 'Nota: {note}',
+  'pdf.seeAppendix': '(ver apéndice {ref})',
+  'pdf.changedByTeacher': 'Cambiada por el docente (IA: {status}, {awarded}/{possible})',
+  'pdf.addedByTeacher': 'Añadida por el docente',
+  'pdf.step': 'Paso {number}: {step}',
+  'pdf.firstError': 'Primer error',
+  'pdf.methodCredit': 'Crédito por el método: {points}',
+};
+
+export default es;
@@ -0,0 +1,282 @@
+import type { Messages } from "./index";
+
+const fr: Messages = {
+  'common.cancel': 'Annuler',
+  'common.done': 'Terminé',
+  'common.save': 'Enregistrer',
+  'common.edit': 'Modifier',
+  'common.delete': 'Supprimer',
+  'common.retry': 'Réessayer',
+  'common.page': 'Page {number}',
+  'common.pageCount.one': '{count} page',
+  'common.pageCount.other': '{count} pages',
+  'common.studentCount.one': '{count} élève',
+  'common.studentCount.other': '{count} élèves',
+
+  'status.correct': 'Juste',
+  'status.partial': 'Partiel',
+  'status.incorrect': 'Faux',
+  'status.unanswered': 'Sans réponse',
+
+  'app.roster': 'Liste de classe',
+  'app.gradebook': 'Carnet de notes',
+  'app.outbox': 'Boîte d\'envoi',
+  'app.settings': 'Réglages et profils de correction',
+  'app.undo': 'Annuler',
+  'app.redo': 'Rétablir',
+  'app.backToQueue': 'Retour à la file',
+  'app.addPage': 'Ajouter une page',
+  'app.approve': 'Valider',
+  'app.grading.title': "L'IA corrige...",
+  'app.grading.subtitle': "Détection de l'orientation et analyse des réponses",
+  'app.exporting': 'Génération du rapport...',
+  'app.complete.title': 'Correction terminée !',
+  'app.complete.resultsFor': 'Résultats prêts pour {name}',
+  'app.complete.preparing': 'Préparation...',
+  'app.complete.share': 'Partager / envoyer le PDF',
+  'app.complete.save': 'Enregistrer dans Fichiers',
+  'app.complete.backToQueue': 'Retour à la file de la classe',
+  'app.complete.startOver': 'Recommencer',
+  'app.share.title': "Résultats de l'examen",
+  'app.share.text': 'Voici les résultats corrigés de {name}.',
+  'app.error.readFiles': 'Impossible de lire les fichiers envoyés.',
+  'app.error.grading': "Impossible de corriger l'examen. Vérifiez votre clé API.",
+  'app.error.gradeNewPage': 'Impossible de corriger la nouvelle page. Vérifiez votre clé API.',
+  'app.error.storePages': 'Impossible d\'enregistrer les pages ajoutées. Veuillez réessayer.',
+  'app.error.pagesNotGraded': "La page {pages} n'a pas pu être corrigée. Vous pouvez encore la corriger à la main.",
+  'app.error.split': "Impossible de répartir l'envoi par élève. Vérifiez votre clé API.",
+  'app.error.resume': "Impossible d'ouvrir cette session.",
+  'app.error.reexplain': "Impossible d'obtenir une nouvelle explication de l'IA.",
+  'app.error.pdf': 'Impossible de générer le PDF.',
+  'app.error.delivery': 'Le PDF a été créé mais n\'a pas pu être mis en file d\'envoi.',
+  'app.notice.rasterPdf': 'Le PDF a été enregistré sous forme d\'images de pages : son texte ne peut pas être sélectionné ni recherché. Pour du texte chinois, japonais ou coréen, il manque généralement la police indiquée par VITE_CJK_FONT_URL.',
+
+  'scanner.title': 'Numériser une copie',
+  'scanner.subtitle': "Photographiez les pages de l'examen ou envoyez un scan pour commencer la correction.",
+  'scanner.oneStudent': 'Un élève',
+  'scanner.wholeClass': 'Toute la classe',
+  'scanner.splitEvery': 'Séparer toutes les',
+  'scanner.pages': 'pages',
+  'scanner.detectCover': 'Détecter le nom sur les pages de garde',
+  'scanner.uploadClass': 'Envoyer les copies de la classe',
+  'scanner.upload': 'Numériser / envoyer des pages',
+  'scanner.answerKey': '{title} ({count} Q)',
+  'scanner.addAnswerKey': 'Ajouter un corrigé',
+  'scanner.chooseProfile': 'Choisir un profil de correction',
+  'scanner.formats': 'Envois multipages, PDF et TIFF acceptés',
+
+  'sessions.title': 'Sessions récentes',
+  'sessions.unnamed': 'Élève sans nom',
+  'sessions.reopen': 'Rouvrir',
+  'sessions.resume': 'Reprendre',
+
+  'key.title': 'Corrigé',
+  'key.titlePlaceholder': 'Titre de la fiche',
+  'key.summary': '{questions} questions · {points} pts · séparez les variantes acceptées par "|"',
+  'key.questionPlaceholder': 'Q',
+  'key.expected': 'Réponse attendue',
+  'key.points': 'Points',
+  'key.alternatives': 'Variantes acceptées (facultatif)',
+  'key.addQuestion': 'Ajouter une question',
+  'key.save': 'Enregistrer le corrigé',
+
+  'capture.title': 'Vérifier les bords',
+  'capture.subtitle': 'Faites glisser les coins sur les bords de la feuille. Les pages sont aplanies et redressées avant de rejoindre la liste.',
+  'capture.auto': 'Auto',
+  'capture.wholePhoto': 'Photo entière',
+  'capture.enhance': 'Supprimer les ombres et renforcer le contraste',
+  'capture.use.one': 'Utiliser {count} page',
+  'capture.use.other': 'Utiliser {count} pages',
+
+  'tray.title': 'Vérifier les pages',
+  'tray.subtitle': 'Faites glisser pour réordonner. Supprimez les photos floues, reprenez-les ou ajoutez les pages manquantes.',
+  'tray.retake': 'Reprendre',
+  'tray.remove': 'Supprimer',
+  'tray.add': 'Ajouter des pages',
+  'tray.grade.one': 'Corriger {count} page',
+  'tray.grade.other': 'Corriger {count} pages',
+
+  'progress.queued': 'En attente',
+  'progress.grading': 'Correction',
+  'progress.done': 'Terminé',
+  'progress.failed': 'Échec',
+  'progress.someFailed': 'Certaines pages ont échoué',
+  'progress.finished': 'Correction terminée',
+  'progress.count': '{done}/{total} pages',
+  'progress.retryFailed': 'Réessayer les pages en échec ({count})',
+  'progress.reviewGraded': 'Revoir les pages corrigées',
+
+  'batch.title': 'File de la classe',
+  'batch.summary': '{graded}/{total} corrigées · {exported} exportées',
+  'batch.student': 'Élève {number}',
+  'batch.queued': 'En attente',
+  'batch.grading': 'Correction',
+  'batch.ready': 'À relire',
+  'batch.done': 'Exportée',
+  'batch.failed': 'Échec',
+  'batch.pagesFailed': '{failed} pages sur {total} en échec',
+  'batch.gradingFailed': 'Échec de la correction',
+  'batch.reopen': 'Rouvrir',
+  'batch.review': 'Relire',
+  'batch.finish': 'Terminer la classe',
+  'batch.close': 'Fermer la file',
+
+  'roster.title': 'Liste de classe',
+  'roster.import': 'Importer un CSV',
+  'roster.noStudents': 'Aucun élève trouvé. Colonnes attendues : nom, e-mail, identifiant élève.',
+  'roster.imported': '{count} élèves importés.',
+  'roster.unreadable': 'Impossible de lire ce fichier.',
+  'roster.empty': 'Importez un CSV avec les colonnes nom, e-mail et identifiant élève pour choisir les élèves pendant la correction.',
+  'roster.noEmail': 'Pas d\'e-mail',
+
+  'gradebook.title': 'Carnet de notes',
+  'gradebook.empty': 'Les examens terminés sont enregistrés ici par devoir.',
+  'gradebook.grades': 'Notes',
+  'gradebook.analysis': 'Analyse des questions',
+  'gradebook.student': 'Élève',
+  'gradebook.total': 'Total',
+  'gradebook.shareText': 'Notes pour {assignment}.',
+  'gradebook.column.email': 'E-mail',
+  'gradebook.column.studentId': 'N° d\'élève',
+  'gradebook.column.score': 'Note',
+  'gradebook.column.possible': 'Maximum',
+  'gradebook.column.percent': 'Pourcentage',
+
+  'analysis.title': 'Analyse des questions : {assignment}',
+  'analysis.summary': '{students} · moyenne {percent} %',
+  'analysis.reportSummary': '{students} · moyenne de la classe {percent} % · {date}',
+  'analysis.export': 'Exporter en PDF',
+  'analysis.distribution': 'Répartition des notes',
+  'analysis.questions': 'Questions',
+  'analysis.percentCorrect': '{percent} % de réussite',
+  'analysis.percentCorrectAverage': '{percent} % de réussite · moy. {average} %',
+  'analysis.commonWrong': 'Erreurs fréquentes : {answers}',
+  'analysis.disputed': "Les plus contestées (IA contre enseignant)",
+  'analysis.noDisputes': "L'enseignant a conservé tous les verdicts de l'IA.",
+  'analysis.overridden': '{count} modifiées ({percent} %)',
+  'analysis.overriddenReport': "{label} : {count} modifiées ({percent} % des verdicts de l'IA)",
+  'analysis.shareText': 'Analyse des questions pour {assignment}.',
+
+  'delivery.title': 'Boîte d\'envoi',
+  'delivery.summary': '{delivered} remis · {pending} en attente · {failed} en échec',
+  'delivery.empty': 'Les PDF envoyés par e-mail ou à votre LMS apparaissent ici avec leur état de remise.',
+  'delivery.offline': 'Hors ligne. Les PDF en attente partiront dès le retour de la connexion.',
+  'delivery.clearDelivered': 'Effacer les remis',
+  'delivery.channel.email': 'E-mail',
+  'delivery.channel.classroom': 'Google Classroom',
+  'delivery.channel.canvas': 'Canvas',
+  'delivery.queued': 'En attente',
+  'delivery.sending': 'Envoi',
+  'delivery.delivered': 'Remis',
+  'delivery.failed': 'Échec',
+  'delivery.retrying': 'Échec de la tentative {attempts} sur {max}, nouvel essai prévu',
+  'delivery.subject': 'Corrigé : {assignment}',
+  'delivery.message': 'Bonjour {name}, voici votre copie corrigée de {assignment}. Note : {awarded}/{possible}.',
+
+  'student.title': 'Finaliser et envoyer',
+  'student.assignment': 'Devoir',
+  'student.assignmentPlaceholder': 'Interro chapitre 3',
+  'student.untitled': 'Devoir sans titre',
+  'student.name': "Nom de l'élève",
+  'student.namePlaceholder': 'Jean Dupont',
+  'student.email': "E-mail de l'élève",
+  'student.noteOverrides.one': "Signaler dans le PDF ma {count} modification de la correction de l'IA",
+  'student.noteOverrides.other': "Signaler dans le PDF mes {count} modifications de la correction de l'IA",
+  'student.send': 'Envoyer le PDF',
+  'student.create': 'Créer le PDF',
+
+  'profiles.title': 'Profils de correction',
+  'profiles.subtitle': "Choisissez comment l'IA corrige le prochain examen.",
+  'profiles.new': 'Nouveau profil',
+  'profiles.edit': 'Modifier le profil',
+  'profiles.name': 'Nom',
+  'profiles.namePlaceholder': 'ex. Algèbre de 3e',
+  'profiles.subject': 'Matière',
+  'profiles.strictness': 'Exigence',
+  'profiles.tone': 'Ton des commentaires',
+  'profiles.instructions': 'Consignes personnalisées',
+  'profiles.instructionsPlaceholder': "ex. Ignorer l'orthographe. Exiger les unités pour toute réponse chiffrée.",
+  'profiles.save': 'Enregistrer le profil',
+  'subject.general': 'Général',
+  'subject.math': 'Mathématiques',
+  'subject.language': 'Langues',
+  'subject.science': 'Sciences',
+  'strictness.lenient': 'Indulgente',
+  'strictness.standard': 'Normale',
+  'strictness.strict': 'Stricte',
+  'tone.encouraging': 'Encourageant',
+  'tone.neutral': 'Neutre',
+  'tone.concise': 'Concis',
+  'settings.language': "Langue de l'application",
+  'settings.feedbackInMyLanguage': "Rédiger les commentaires dans cette langue plutôt que dans celle de l'examen",
+
+  'note.question': 'Question',
+  'note.studentAnswer': "Réponse de l'élève",
+  'note.correctAnswer': 'Bonne réponse',
+  'note.analysis': 'Analyse',
+  'note.points': 'pts',
+  'note.keyVerdict': 'Corrigé',
+  'note.modelVerdict': 'IA',
+  'note.keyQuestion': 'Q. corrigé',
+  'note.decidedByKey': 'Décidé par le corrigé',
+  'note.decidedByModel': "Décidé par l'IA",
+  'note.toggleStatus': 'Changer le verdict',
+  'note.reask': "Redemander à l'IA",
+  'note.history': 'Historique',
+  'note.graded': 'Corrigée',
+  'note.teacher': 'Enseignant',
+  'note.removed': 'Supprimée',
+  'note.via.undo': 'annulation',
+  'note.via.redo': 'rétablissement',
+  'note.working': 'Démarche',
+  'note.firstError': 'Première erreur',
+  'note.methodCredit': 'Points de méthode',
+
+  'review.needsReview.one': '{count} marque à vérifier',
+  'review.needsReview.other': '{count} marques à vérifier',
+  'review.allReviewed': 'Toutes les marques signalées sont vérifiées',
+  'review.previous': 'Marque signalée précédente',
+  'review.next': 'Marque signalée suivante',
+  'review.illegible': 'Écriture peu lisible',
+  'review.lowConfidence': "L'IA est sûre à {percent} %",
+  'review.confirm': 'Confirmer',
+  'review.reviewed': 'Vérifiée',
+  'review.approveWarning.one': "{count} marque signalée n'a pas encore été vérifiée. Valider quand même ?",
+  'review.approveWarning.other': "{count} marques signalées n'ont pas encore été vérifiées. Valider quand même ?",
+
+  'ink.marks': 'Marques',
+  'ink.pen': 'Stylo',
+  'ink.highlighter': 'Surligneur',
+  'ink.eraser': 'Gomme',
+  'ink.text': 'Texte',
+  'ink.stamp': 'Tampon',
+  'ink.undo': "Annuler l'encre",
+  'ink.textPrompt': 'Texte à écrire sur la page',
+  'stamp.goodWork': 'Bon travail !',
+  'stamp.excellent': 'Excellent',
+  'stamp.seeMe': 'Viens me voir',
+  'stamp.showWork': 'Montre ta démarche',
+
+  'mark.question': 'Question',
+  'mark.unknownAnswer': 'Inconnue',
+  'mark.noAnswer': 'Pas de réponse',
+  'mark.noExplanation': 'Aucune explication fournie.',
+
+  'pdf.title': 'Rapport de correction',
+  'pdf.score': 'Note',
+  'pdf.pageScore': 'Page {number} : {awarded} / {possible}',
+  'pdf.continued': 'Commentaires de la page {number} (suite)',
+  'pdf.appendix': 'Annexe',
+  'pdf.appendixEntry': '{ref} · Page {number} · {label}',
+  'pdf.answer': 'Rép. : {answer}',
+  'pdf.correct': 'Bonne réponse : {answer}',
+  'pdf.note': 'Remarque : {note}',
+  'pdf.seeAppendix': '(voir annexe {ref})',
+  'pdf.changedByTeacher': "Modifiée par l'enseignant (IA : {status}, {awarded}/{possible})",
+  'pdf.addedByTeacher': "Ajoutée par l'enseignant",
+  'pdf.step': 'Étape {number} : {step}',
+  'pdf.firstError': 'Première erreur',
+  'pdf.methodCredit': 'Points de méthode : {points}',
+};
+
+export default fr;
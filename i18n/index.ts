@@ -0,0 +1,107 @@
+import { createContext, useContext } from "react";
+import { ExamPage, UiLanguage } from "../types";
+import en from "./en";
+import zh from "./zh";
+import es from "./es";
+import fr from "./fr";
+import ja from "./ja";
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
+
+// Plural messages are looked up by their base key, e.g. 'common.pageCount' with { count }
+type PluralBase<K> = K extends `${infer Base}.other` ? Base : never;
+export type TranslationKey = MessageKey | PluralBase<MessageKey>;
+
+export type TranslationParams = Record<string, string | number>;
+export type Translate = (key: TranslationKey, params?: TranslationParams) => string;
+
+const CATALOGS: Record<UiLanguage, Messages> = { en, zh, es, fr, ja };
+
+// Languages with a full UI catalog, in the order the settings list them
+export const UI_LANGUAGES: UiLanguage[] = ['en', 'zh', 'es', 'fr', 'ja'];
+
+// Helper to reduce a language tag from the model or the browser ("zh-Hans", "ES") to its base code
+export const baseLanguage = (code?: string | null): string => {
+  return (code || '').trim().toLowerCase().split(/[-_]/)[0];
+};
+
+// The catalog to use for a language code; languages without one fall back to English
+export const resolveUiLanguage = (code?: string | null): UiLanguage => {
+  const base = baseLanguage(code);
+  return (UI_LANGUAGES as string[]).includes(base) ? base as UiLanguage : 'en';
+};
+
+const interpolate = (text: string, params?: TranslationParams): string => {
+  if (!params) return text;
+  return text.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+};
+
+const translators = new Map<UiLanguage, Translate>();
+
+// A translate function for any language code (cached per catalog)
+export const translator = (code?: string | null): Translate => {
+  const language = resolveUiLanguage(code);
+  const cached = translators.get(language);
+  if (cached) return cached;
+
+  const messages = CATALOGS[language] as Record<string, string>;
+  const fallback = en as Record<string, string>;
+  const plurals = new Intl.PluralRules(language);
+
+  const t: Translate = (key, params) => {
+    let text = messages[key] ?? fallback[key];
+    if (text === undefined && typeof params?.count === 'number') {
+      const form = `${key}.${plurals.select(params.count)}`;
+      text = messages[form] ?? messages[`${key}.other`] ?? fallback[`${key}.other`];
+    }
+    return interpolate(text ?? key, params);
+  };
+
+  translators.set(language, t);
+  return t;
+};
+
+/**
+ * English name of a language code, for model prompts ("es" -> "Spanish"). Pass `displayIn` to name
+ * it in another language, e.g. a language's own name for the settings list.
+ */
+export const languageName = (code: string, displayIn: string = 'en'): string => {
+  try {
+    return new Intl.DisplayNames([displayIn], { type: 'language' }).of(code) || code;
+  } catch {
+    return code;
+  }
+};
+
+// Scripts the PDF needs the CJK font for
+const CJK_LANGUAGES = ['zh', 'ja', 'ko'];
+
+export const isCjkLanguage = (code?: string | null): boolean => CJK_LANGUAGES.includes(baseLanguage(code));
+
+// Language the marks on a page were written in: the teacher's, if grading asked for it, else the exam's
+export const feedbackLanguageOf = (page?: ExamPage): string => {
+  return page?.feedbackLanguage || page?.detectedLanguage || 'en';
+};
+
+// One report covers the whole exam, so it follows the first graded page
+export const examLanguage = (pages: ExamPage[]): string => {
+  return feedbackLanguageOf(pages.find(p => p.feedbackLanguage || p.detectedLanguage));
+};
+
+// The browser's language when it has a catalog, for first launch
+export const browserLanguage = (): UiLanguage => {
+  return resolveUiLanguage(typeof navigator !== 'undefined' ? navigator.language : undefined);
+};
+
+// --- React ---
+
+export interface I18n {
+  language: UiLanguage;
+  t: Translate;
+}
+
+export const I18nContext = createContext<I18n>({ language: 'en', t: translator('en') });
+
+// UI strings in the teacher's chosen language
+export const useI18n = (): I18n => useContext(I18nContext);
@@ -0,0 +1,282 @@
+import type { Messages } from "./index";
+
+const ja: Messages = {
+  'common.cancel': 'キャンセル',
+  'common.done': '完了',
+  'common.save': '保存',
+  'common.edit': '編集',
+  'common.delete': '削除',
+  'common.retry': '再試行',
+  'common.page': '{number} ページ',
+  'common.pageCount.one': '{count} ページ',
+  'common.pageCount.other': '{count} ページ',
+  'common.studentCount.one': '生徒 {count} 人',
+  'common.studentCount.other': '生徒 {count} 人',
+
+  'status.correct': '正解',
+  'status.partial': '部分正解',
+  'status.incorrect': '不正解',
+  'status.unanswered': '無回答',
+
+  'app.roster': '名簿',
+  'app.gradebook': '成績表',
+  'app.outbox': '送信トレイ',
+  'app.settings': '設定と採点プロファイル',
+  'app.undo': '元に戻す',
+  'app.redo': 'やり直す',
+  'app.backToQueue': 'キューに戻る',
+  'app.addPage': 'ページを追加',
+  'app.approve': '承認',
+  'app.grading.title': 'AI が採点中...',
+  'app.grading.subtitle': '向きを検出して解答を分析しています',
+  'app.exporting': 'レポートを作成中...',
+  'app.complete.title': '採点が完了しました！',
+  'app.complete.resultsFor': '{name} さんの結果の準備ができました',
+  'app.complete.preparing': '準備中...',
+  'app.complete.share': 'PDF を共有 / メール送信',
+  'app.complete.save': 'ファイルに保存',
+  'app.complete.backToQueue': 'クラスのキューに戻る',
+  'app.complete.startOver': '最初からやり直す',
+  'app.share.title': '試験結果',
+  'app.share.text': '{name} さんの採点結果です。',
+  'app.error.readFiles': 'アップロードされたファイルを読み込めませんでした。',
+  'app.error.grading': '試験を採点できませんでした。API キーを確認してください。',
+  'app.error.gradeNewPage': '新しいページを採点できませんでした。API キーを確認してください。',
+  'app.error.storePages': '追加したページを保存できませんでした。もう一度お試しください。',
+  'app.error.pagesNotGraded': '{pages} ページ目を採点できませんでした。手動で採点することはできます。',
+  'app.error.split': 'アップロードを生徒ごとに分けられませんでした。API キーを確認してください。',
+  'app.error.resume': 'このセッションを開けませんでした。',
+  'app.error.reexplain': 'AI から新しい解説を取得できませんでした。',
+  'app.error.pdf': 'PDF を作成できませんでした。',
+  'app.error.delivery': 'PDF は作成されましたが、送信キューに追加できませんでした。',
+  'app.notice.rasterPdf': 'PDF はページ画像として保存されたため、テキストを選択・検索できません。中国語・日本語・韓国語の場合は、通常 VITE_CJK_FONT_URL で指定したフォントが見つからないことが原因です。',
+
+  'scanner.title': '答案をスキャン',
+  'scanner.subtitle': '答案を撮影するか、スキャンしたファイルをアップロードして採点を始めましょう。',
+  'scanner.oneStudent': '生徒 1 人',
+  'scanner.wholeClass': 'クラス全体',
+  'scanner.splitEvery': '分割:',
+  'scanner.pages': 'ページごと',
+  'scanner.detectCover': '表紙の名前を検出',
+  'scanner.uploadClass': 'クラス分をアップロード',
+  'scanner.upload': 'スキャン / ページをアップロード',
+  'scanner.answerKey': '{title}（{count} 問）',
+  'scanner.addAnswerKey': '解答を追加',
+  'scanner.chooseProfile': '採点プロファイルを選択',
+  'scanner.formats': '複数ページ、PDF、TIFF のアップロードに対応',
+
+  'sessions.title': '最近のセッション',
+  'sessions.unnamed': '名前のない生徒',
+  'sessions.reopen': '再度開く',
+  'sessions.resume': '再開',
+
+  'key.title': '解答',
+  'key.titlePlaceholder': 'プリントのタイトル',
+  'key.summary': '{questions} 問 · {points} 点 · 別解は "|" で区切ってください',
+  'key.questionPlaceholder': '問',
+  'key.expected': '正答',
+  'key.points': '配点',
+  'key.alternatives': '別解（任意）',
+  'key.addQuestion': '問題を追加',
+  'key.save': '解答を保存',
+
+  'capture.title': 'ページの端を確認',
+  'capture.subtitle': '四隅を紙の端までドラッグしてください。ページは平らに補正され、まっすぐに整えてから一覧に入ります。',
+  'capture.auto': '自動',
+  'capture.wholePhoto': '写真全体',
+  'capture.enhance': '影を除去してコントラストを上げる',
+  'capture.use.one': '{count} ページを使用',
+  'capture.use.other': '{count} ページを使用',
+
+  'tray.title': 'ページを確認',
+  'tray.subtitle': 'ドラッグで並べ替えます。ぼやけた写真は削除・撮り直しし、抜けたページを追加してください。',
+  'tray.retake': '撮り直す',
+  'tray.remove': '削除',
+  'tray.add': 'ページを追加',
+  'tray.grade.one': '{count} ページを採点',
+  'tray.grade.other': '{count} ページを採点',
+
+  'progress.queued': '待機中',
+  'progress.grading': '採点中',
+  'progress.done': '完了',
+  'progress.failed': '失敗',
+  'progress.someFailed': '一部のページが失敗しました',
+  'progress.finished': '採点完了',
+  'progress.count': '{done}/{total} ページ',
+  'progress.retryFailed': '失敗したページを再試行（{count}）',
+  'progress.reviewGraded': '採点済みページを確認',
+
+  'batch.title': 'クラスのキュー',
+  'batch.summary': '採点済み {graded}/{total} · 書き出し済み {exported}',
+  'batch.student': '生徒 {number}',
+  'batch.queued': '待機中',
+  'batch.grading': '採点中',
+  'batch.ready': '確認待ち',
+  'batch.done': '書き出し済み',
+  'batch.failed': '失敗',
+  'batch.pagesFailed': '{total} ページ中 {failed} ページが失敗',
+  'batch.gradingFailed': '採点に失敗しました',
+  'batch.reopen': '再度開く',
+  'batch.review': '確認',
+  'batch.finish': 'クラスを終了',
+  'batch.close': 'キューを閉じる',
+
+  'roster.title': 'クラス名簿',
+  'roster.import': 'CSV を読み込む',
+  'roster.noStudents': '生徒が見つかりません。必要な列: 名前、メール、生徒 ID。',
+  'roster.imported': '{count} 人の生徒を読み込みました。',
+  'roster.unreadable': 'このファイルを読み込めませんでした。',
+  'roster.empty': '名前・メール・生徒 ID の列がある CSV を読み込むと、採点時に生徒を選べます。',
+  'roster.noEmail': 'メールなし',
+
+  'gradebook.title': '成績表',
+  'gradebook.empty': '採点を終えた試験は課題ごとにここに記録されます。',
+  'gradebook.grades': '成績',
+  'gradebook.analysis': '設問分析',
+  'gradebook.student': '生徒',
+  'gradebook.total': '合計',
+  'gradebook.shareText': '{assignment} の成績です。',
+  'gradebook.column.email': 'メール',
+  'gradebook.column.studentId': '学籍番号',
+  'gradebook.column.score': '得点',
+  'gradebook.column.possible': '満点',
+  'gradebook.column.percent': '得点率',
+
+  'analysis.title': '設問分析: {assignment}',
+  'analysis.summary': '{students} · 平均 {percent}%',
+  'analysis.reportSummary': '{students} · クラス平均 {percent}% · {date}',
+  'analysis.export': 'PDF を書き出す',
+  'analysis.distribution': '得点分布',
+  'analysis.questions': '設問',
+  'analysis.percentCorrect': '正答率 {percent}%',
+  'analysis.percentCorrectAverage': '正答率 {percent}% · 平均 {average}%',
+  'analysis.commonWrong': 'よくある誤答: {answers}',
+  'analysis.disputed': '修正の多い設問（AI と教員）',
+  'analysis.noDisputes': '教員は AI の判定をすべてそのまま採用しました。',
+  'analysis.overridden': '{count} 件修正（{percent}%）',
+  'analysis.overriddenReport': '{label}: {count} 件修正（AI 判定の {percent}%）',
+  'analysis.shareText': '{assignment} の設問分析です。',
+
+  'delivery.title': '送信トレイ',
+  'delivery.summary': '配信済み {delivered} · 保留中 {pending} · 失敗 {failed}',
+  'delivery.empty': 'メールや LMS に送った PDF が配信状況とともにここに表示されます。',
+  'delivery.offline': 'オフラインです。キューの PDF は接続が戻ると送信されます。',
+  'delivery.clearDelivered': '配信済みを消去',
+  'delivery.channel.email': 'メール',
+  'delivery.channel.classroom': 'Google Classroom',
+  'delivery.channel.canvas': 'Canvas',
+  'delivery.queued': '待機中',
+  'delivery.sending': '送信中',
+  'delivery.delivered': '配信済み',
+  'delivery.failed': '失敗',
+  'delivery.retrying': '{max} 回中 {attempts} 回目が失敗しました。再試行します',
+  'delivery.subject': '採点済み: {assignment}',
+  'delivery.message': '{name} さん、採点済みの {assignment} をお送りします。得点: {awarded}/{possible}',
+
+  'student.title': '確定して送信',
+  'student.assignment': '課題',
+  'student.assignmentPlaceholder': '第 3 単元小テスト',
+  'student.untitled': '無題の課題',
+  'student.name': '生徒の名前',
+  'student.namePlaceholder': '山田 太郎',
+  'student.email': '生徒のメール',
+  'student.noteOverrides.one': 'AI の採点に対する {count} 件の修正を PDF に記載する',
+  'student.noteOverrides.other': 'AI の採点に対する {count} 件の修正を PDF に記載する',
+  'student.send': 'PDF を送信',
+  'student.create': 'PDF を作成',
+
+  'profiles.title': '採点プロファイル',
+  'profiles.subtitle': '次の試験を AI がどう採点するかを選びます。',
+  'profiles.new': '新しいプロファイル',
+  'profiles.edit': 'プロファイルを編集',
+  'profiles.name': '名前',
+  'profiles.namePlaceholder': '例: 中学 3 年 代数',
+  'profiles.subject': '教科',
+  'profiles.strictness': '厳しさ',
+  'profiles.tone': 'フィードバックの口調',
+  'profiles.instructions': '独自の指示',
+  'profiles.instructionsPlaceholder': '例: 綴りの誤りは無視する。数値の答えには必ず単位を求める。',
+  'profiles.save': 'プロファイルを保存',
+  'subject.general': '一般',
+  'subject.math': '数学',
+  'subject.language': '語学',
+  'subject.science': '理科',
+  'strictness.lenient': '甘め',
+  'strictness.standard': '標準',
+  'strictness.strict': '厳しめ',
+  'tone.encouraging': '励まし',
+  'tone.neutral': '中立',
+  'tone.concise': '簡潔',
+  'settings.language': 'アプリの言語',
+  'settings.feedbackInMyLanguage': '試験の言語ではなくこの言語でフィードバックを書く',
+
+  'note.question': '問題',
+  'note.studentAnswer': '生徒の解答',
+  'note.correctAnswer': '正答',
+  'note.analysis': '解説',
+  'note.points': '点',
+  'note.keyVerdict': '解答',
+  'note.modelVerdict': 'AI',
+  'note.keyQuestion': '解答の問',
+  'note.decidedByKey': '解答に基づく判定',
+  'note.decidedByModel': 'AI による判定',
+  'note.toggleStatus': '判定を切り替え',
+  'note.reask': 'AI に再度聞く',
+  'note.history': '履歴',
+  'note.graded': '採点',
+  'note.teacher': '教員',
+  'note.removed': '削除済み',
+  'note.via.undo': '元に戻す',
+  'note.via.redo': 'やり直し',
+  'note.working': '途中式',
+  'note.firstError': '最初の誤り',
+  'note.methodCredit': '方針点',
+
+  'review.needsReview.one': '要確認 {count} 件',
+  'review.needsReview.other': '要確認 {count} 件',
+  'review.allReviewed': 'フラグ付きの採点はすべて確認済みです',
+  'review.previous': '前の要確認項目',
+  'review.next': '次の要確認項目',
+  'review.illegible': '文字が判読しにくい',
+  'review.lowConfidence': 'AI の確信度 {percent}%',
+  'review.confirm': '確認',
+  'review.reviewed': '確認済み',
+  'review.approveWarning.one': 'フラグ付きの採点 {count} 件がまだ確認されていません。このまま承認しますか？',
+  'review.approveWarning.other': 'フラグ付きの採点 {count} 件がまだ確認されていません。このまま承認しますか？',
+
+  'ink.marks': '採点マーク',
+  'ink.pen': 'ペン',
+  'ink.highlighter': '蛍光ペン',
+  'ink.eraser': '消しゴム',
+  'ink.text': 'テキスト',
+  'ink.stamp': 'スタンプ',
+  'ink.undo': '書き込みを元に戻す',
+  'ink.textPrompt': 'ページに書き込むテキスト',
+  'stamp.goodWork': 'よくできました！',
+  'stamp.excellent': 'たいへんよい',
+  'stamp.seeMe': '先生のところへ',
+  'stamp.showWork': '途中式を書こう',
+
+  'mark.question': '問題',
+  'mark.unknownAnswer': '不明',
+  'mark.noAnswer': '解答なし',
+  'mark.noExplanation': '解説はありません。',
+
+  'pdf.title': '採点レポート',
+  'pdf.score': '得点',
+  'pdf.pageScore': '{number} ページ: {awarded} / {possible}',
+  'pdf.continued': '{number} ページのフィードバック（続き）',
+  'pdf.appendix': '付録',
+  'pdf.appendixEntry': '{ref} · {number} ページ · {label}',
+  'pdf.answer': '解答: {answer}',
+  'pdf.correct': '正答: {answer}',
+  'pdf.note': '解説: {note}',
+  'pdf.seeAppendix': '（付録 {ref} を参照）',
+  'pdf.changedByTeacher': '教員が修正（AI: {status}、{awarded}/{possible}）',
+  'pdf.addedByTeacher': '教員が追加',
+  'pdf.step': 'ステップ{number}：{step}',
+  'pdf.firstError': '最初の誤り',
+  'pdf.methodCredit': '方針点：{points}',
+};
+
+export default ja;
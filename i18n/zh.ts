@@ -0,0 +1,282 @@
+import type { Messages } from "./index";
+
+const zh: Messages = {
+  'common.cancel': '取消',
+  'common.done': '完成',
+  'common.save': '保存',
+  'common.edit': '编辑',
+  'common.delete': '删除',
+  'common.retry': '重试',
+  'common.page': '第 {number} 页',
+  'common.pageCount.one': '{count} 页',
+  'common.pageCount.other': '{count} 页',
+  'common.studentCount.one': '{count} 名学生',
+  'common.studentCount.other': '{count} 名学生',
+
+  'status.correct': '正确',
+  'status.partial': '部分正确',
+  'status.incorrect': '错误',
+  'status.unanswered': '未作答',
+
+  'app.roster': '学生名单',
+  'app.gradebook': '成绩册',
+  'app.outbox': '发件箱',
+  'app.settings': '设置与批改方案',
+  'app.undo': '撤销',
+  'app.redo': '重做',
+  'app.backToQueue': '返回队列',
+  'app.addPage': '添加页面',
+  'app.approve': '确认',
+  'app.grading.title': 'AI 正在批改...',
+  'app.grading.subtitle': '正在识别方向并分析答案',
+  'app.exporting': '正在生成报告...',
+  'app.complete.title': '批改完成！',
+  'app.complete.resultsFor': '{name} 的结果已准备好',
+  'app.complete.preparing': '准备中...',
+  'app.complete.share': '分享 / 邮件发送 PDF',
+  'app.complete.save': '保存到文件',
+  'app.complete.backToQueue': '返回班级队列',
+  'app.complete.startOver': '重新开始',
+  'app.share.title': '考试结果',
+  'app.share.text': '这是 {name} 的批改结果。',
+  'app.error.readFiles': '无法读取上传的文件。',
+  'app.error.grading': '批改失败，请检查 API 密钥。',
+  'app.error.gradeNewPage': '新页面批改失败，请检查 API 密钥。',
+  'app.error.storePages': '无法保存新增的页面，请重试。',
+  'app.error.pagesNotGraded': '第 {pages} 页无法批改，您仍可手动批改。',
+  'app.error.split': '无法按学生拆分上传内容，请检查 API 密钥。',
+  'app.error.resume': '无法打开此会话。',
+  'app.error.reexplain': '无法从 AI 获取新的解析。',
+  'app.error.pdf': '生成 PDF 失败。',
+  'app.error.delivery': 'PDF 已生成，但无法加入发送队列。',
+  'app.notice.rasterPdf': 'PDF 已保存为页面图片，因此其中的文字无法选择或搜索。对于中文、日文或韩文，这通常是因为找不到 VITE_CJK_FONT_URL 指定的字体。',
+
+  'scanner.title': '扫描试卷',
+  'scanner.subtitle': '拍摄试卷页面或上传扫描件即可开始批改。',
+  'scanner.oneStudent': '单个学生',
+  'scanner.wholeClass': '整个班级',
+  'scanner.splitEvery': '每',
+  'scanner.pages': '页拆分',
+  'scanner.detectCover': '识别封面上的姓名',
+  'scanner.uploadClass': '上传全班试卷',
+  'scanner.upload': '扫描 / 上传页面',
+  'scanner.answerKey': '{title}（{count} 题）',
+  'scanner.addAnswerKey': '添加答案',
+  'scanner.chooseProfile': '选择批改方案',
+  'scanner.formats': '支持多页上传、PDF 和 TIFF',
+
+  'sessions.title': '最近的会话',
+  'sessions.unnamed': '未命名学生',
+  'sessions.reopen': '重新打开',
+  'sessions.resume': '继续',
+
+  'key.title': '答案',
+  'key.titlePlaceholder': '练习标题',
+  'key.summary': '{questions} 题 · {points} 分 · 多个可接受答案用 "|" 分隔',
+  'key.questionPlaceholder': '题号',
+  'key.expected': '标准答案',
+  'key.points': '分值',
+  'key.alternatives': '其他可接受答案（可选）',
+  'key.addQuestion': '添加题目',
+  'key.save': '保存答案',
+
+  'capture.title': '检查页面边缘',
+  'capture.subtitle': '将四角拖到纸张边缘。页面会先被压平、摆正，再放入页面列表。',
+  'capture.auto': '自动',
+  'capture.wholePhoto': '整张照片',
+  'capture.enhance': '去除阴影并增强对比度',
+  'capture.use.one': '使用 {count} 页',
+  'capture.use.other': '使用 {count} 页',
+
+  'tray.title': '检查页面',
+  'tray.subtitle': '拖动以调整顺序。删除模糊的照片、重拍，或补充遗漏的页面。',
+  'tray.retake': '重拍',
+  'tray.remove': '删除',
+  'tray.add': '添加页面',
+  'tray.grade.one': '批改 {count} 页',
+  'tray.grade.other': '批改 {count} 页',
+
+  'progress.queued': '排队中',
+  'progress.grading': '批改中',
+  'progress.done': '完成',
+  'progress.failed': '失败',
+  'progress.someFailed': '部分页面失败',
+  'progress.finished': '批改完成',
+  'progress.count': '{done}/{total} 页',
+  'progress.retryFailed': '重试失败页面（{count}）',
+  'progress.reviewGraded': '查看已批改页面',
+
+  'batch.title': '班级队列',
+  'batch.summary': '已批改 {graded}/{total} · 已导出 {exported}',
+  'batch.student': '学生 {number}',
+  'batch.queued': '排队中',
+  'batch.grading': '批改中',
+  'batch.ready': '待审阅',
+  'batch.done': '已导出',
+  'batch.failed': '失败',
+  'batch.pagesFailed': '{total} 页中有 {failed} 页失败',
+  'batch.gradingFailed': '批改失败',
+  'batch.reopen': '重新打开',
+  'batch.review': '审阅',
+  'batch.finish': '完成本班',
+  'batch.close': '关闭队列',
+
+  'roster.title': '班级名单',
+  'roster.import': '导入 CSV',
+  'roster.noStudents': '未找到学生。需要的列：姓名、邮箱、学号。',
+  'roster.imported': '已导入 {count} 名学生。',
+  'roster.unreadable': '无法读取此文件。',
+  'roster.empty': '导入包含姓名、邮箱和学号列的 CSV，批改时即可选择学生。',
+  'roster.noEmail': '无邮箱',
+
+  'gradebook.title': '成绩册',
+  'gradebook.empty': '完成的考试会按作业记录在这里。',
+  'gradebook.grades': '成绩',
+  'gradebook.analysis': '题目分析',
+  'gradebook.student': '学生',
+  'gradebook.total': '总分',
+  'gradebook.shareText': '{assignment} 的成绩。',
+  'gradebook.column.email': '邮箱',
+  'gradebook.column.studentId': '学号',
+  'gradebook.column.score': '得分',
+  'gradebook.column.possible': '满分',
+  'gradebook.column.percent': '百分比',
+
+  'analysis.title': '题目分析：{assignment}',
+  'analysis.summary': '{students} · 平均 {percent}%',
+  'analysis.reportSummary': '{students} · 班级平均 {percent}% · {date}',
+  'analysis.export': '导出 PDF',
+  'analysis.distribution': '分数分布',
+  'analysis.questions': '题目',
+  'analysis.percentCorrect': '正确率 {percent}%',
+  'analysis.percentCorrectAverage': '正确率 {percent}% · 平均 {average}%',
+  'analysis.commonWrong': '常见错误答案：{answers}',
+  'analysis.disputed': '争议最多（AI 与教师）',
+  'analysis.noDisputes': '教师保留了所有 AI 判定。',
+  'analysis.overridden': '修改 {count} 次（{percent}%）',
+  'analysis.overriddenReport': '{label}：修改 {count} 次（占 AI 判定的 {percent}%）',
+  'analysis.shareText': '{assignment} 的题目分析。',
+
+  'delivery.title': '发件箱',
+  'delivery.summary': '已送达 {delivered} · 待发送 {pending} · 失败 {failed}',
+  'delivery.empty': '通过邮件或 LMS 发送的 PDF 会连同送达状态显示在这里。',
+  'delivery.offline': '当前离线。排队的 PDF 将在网络恢复后发送。',
+  'delivery.clearDelivered': '清除已送达',
+  'delivery.channel.email': '邮件',
+  'delivery.channel.classroom': 'Google Classroom',
+  'delivery.channel.canvas': 'Canvas',
+  'delivery.queued': '排队中',
+  'delivery.sending': '发送中',
+  'delivery.delivered': '已送达',
+  'delivery.failed': '失败',
+  'delivery.retrying': '第 {attempts} 次尝试失败（共 {max} 次），将重试',
+  'delivery.subject': '已批改：{assignment}',
+  'delivery.message': '{name}，你好！这是你批改后的 {assignment}。得分：{awarded}/{possible}。',
+
+  'student.title': '完成并发送',
+  'student.assignment': '作业',
+  'student.assignmentPlaceholder': '第三单元测验',
+  'student.untitled': '未命名作业',
+  'student.name': '学生姓名',
+  'student.namePlaceholder': '张三',
+  'student.email': '学生邮箱',
+  'student.noteOverrides.one': '在 PDF 中注明我对 AI 批改的 {count} 处修改',
+  'student.noteOverrides.other': '在 PDF 中注明我对 AI 批改的 {count} 处修改',
+  'student.send': '发送 PDF',
+  'student.create': '生成 PDF',
+
+  'profiles.title': '批改方案',
+  'profiles.subtitle': '选择 AI 批改下一份试卷的方式。',
+  'profiles.new': '新建方案',
+  'profiles.edit': '编辑方案',
+  'profiles.name': '名称',
+  'profiles.namePlaceholder': '例如：九年级代数',
+  'profiles.subject': '学科',
+  'profiles.strictness': '严格程度',
+  'profiles.tone': '反馈语气',
+  'profiles.instructions': '自定义说明',
+  'profiles.instructionsPlaceholder': '例如：不扣拼写分。所有数值答案必须带单位。',
+  'profiles.save': '保存方案',
+  'subject.general': '通用',
+  'subject.math': '数学',
+  'subject.language': '语言',
+  'subject.science': '科学',
+  'strictness.lenient': '宽松',
+  'strictness.standard': '标准',
+  'strictness.strict': '严格',
+  'tone.encouraging': '鼓励',
+  'tone.neutral': '中性',
+  'tone.concise': '简洁',
+  'settings.language': '应用语言',
+  'settings.feedbackInMyLanguage': '用此语言而非试卷语言撰写反馈',
+
+  'note.question': '题目',
+  'note.studentAnswer': '学生作答',
+  'note.correctAnswer': '正确答案',
+  'note.analysis': '解析',
+  'note.points': '分',
+  'note.keyVerdict': '答案',
+  'note.modelVerdict': 'AI',
+  'note.keyQuestion': '答案题号',
+  'note.decidedByKey': '由答案判定',
+  'note.decidedByModel': '由 AI 判定',
+  'note.toggleStatus': '切换判定',
+  'note.reask': '重新生成解析',
+  'note.history': '修改记录',
+  'note.graded': '批改',
+  'note.teacher': '教师',
+  'note.removed': '已删除',
+  'note.via.undo': '撤销',
+  'note.via.redo': '重做',
+  'note.working': '解题步骤',
+  'note.firstError': '首个错误',
+  'note.methodCredit': '方法分',
+
+  'review.needsReview.one': '{count} 处待复核',
+  'review.needsReview.other': '{count} 处待复核',
+  'review.allReviewed': '所有标记项均已复核',
+  'review.previous': '上一个待复核项',
+  'review.next': '下一个待复核项',
+  'review.illegible': '字迹不清',
+  'review.lowConfidence': 'AI 把握度 {percent}%',
+  'review.confirm': '确认',
+  'review.reviewed': '已复核',
+  'review.approveWarning.one': '还有 {count} 处标记项未复核。仍要确认吗？',
+  'review.approveWarning.other': '还有 {count} 处标记项未复核。仍要确认吗？',
+
+  'ink.marks': '批改标记',
+  'ink.pen': '笔',
+  'ink.highlighter': '荧光笔',
+  'ink.eraser': '橡皮擦',
+  'ink.text': '文字',
+  'ink.stamp': '印章',
+  'ink.undo': '撤销笔迹',
+  'ink.textPrompt': '要写在页面上的文字',
+  'stamp.goodWork': '做得好！',
+  'stamp.excellent': '优秀',
+  'stamp.seeMe': '请来找我',
+  'stamp.showWork': '请写出过程',
+
+  'mark.question': '题目',
+  'mark.unknownAnswer': '未知',
+  'mark.noAnswer': '未作答',
+  'mark.noExplanation': '无解析',
+
+  'pdf.title': '评分报告',
+  'pdf.score': '总分',
+  'pdf.pageScore': '第 {number} 页：{awarded} / {possible}',
+  'pdf.continued': '第 {number} 页反馈（续）',
+  'pdf.appendix': '附录',
+  'pdf.appendixEntry': '{ref} · 第 {number} 页 · {label}',
+  'pdf.answer': '作答：{answer}',
+  'pdf.correct': '正确答案：{answer}',
+  'pdf.note': '解析：{note}',
+  'pdf.seeAppendix': '（见附录 {ref}）',
+  'pdf.changedByTeacher': '教师已修改（AI：{status}，{awarded}/{possible}）',
+  'pdf.addedByTeacher': '教师添加',
+  'pdf.step': '第{number}步：{step}',
+  'pdf.firstError': '首个错误',
+  'pdf.methodCredit': '方法分：{points}',
+};
+
+export default zh;
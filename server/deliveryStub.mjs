@@ -0,0 +1,177 @@
+// Local stand-in for the delivery endpoints, for trying out sending without real accounts:
+// the mailer (POST /send), Canvas, Google Classroom and the bits of Drive the app uses.
+// Plain Node, no dependencies:
+//
+//   node server/deliveryStub.mjs
+//
+// and point the app at it, e.g. VITE_MAILER_URL=http://localhost:8787/send, or VITE_LMS_PROVIDER=canvas
+// (or classroom) with VITE_LMS_URL=http://localhost:8787, VITE_DRIVE_URL=http://localhost:8787 and
+// any VITE_LMS_COURSE_ID. Every accepted send is listed at GET /__deliveries. Settings (environment):
+//   STUB_PORT (8787), STUB_ASSIGNMENTS (assignment titles the LMS knows, comma-separated,
+//   default "Unit 3 Quiz"), STUB_FAIL_RATE (0-1, share of requests answered 503 to exercise retries),
+//   STUB_SAVE_DIR (folder to write the received PDFs to).
+
+import http from 'node:http';
+import fs from 'node:fs';
+import path from 'node:path';
+import { corsHeaders, readBody, sendJson } from './http.mjs';
+
+const env = process.env;
+const PORT = Number(env.STUB_PORT) || 8787;
+const FAIL_RATE = Number(env.STUB_FAIL_RATE) || 0;
+const SAVE_DIR = env.STUB_SAVE_DIR || null;
+const ASSIGNMENTS = (env.STUB_ASSIGNMENTS || 'Unit 3 Quiz').split(',').map(title => title.trim()).filter(Boolean);
+const POINTS = 100;
+
+const deliveries = []; // Accepted sends, oldest first
+const files = new Map(); // Uploaded files by id: { name, pdf }
+const students = new Map(); // Canvas user id by email
+const grades = new Map(); // Classroom grade by submission id
+
+// Helper to cut the PDF out of a request body, whatever multipart wrapping it came in
+const extractPdf = (body) => {
+  const start = body.indexOf('%PDF');
+  const end = body.lastIndexOf('%%EOF');
+  return start >= 0 && end > start ? body.subarray(start, end + 5) : body;
+};
+
+// File names come from the request: keep only the last path segment and plain characters
+const safeFileName = (name) => {
+  const base = path.basename(String(name || '')).replace(/[^\p{L}\p{N}._ -]+/gu, '_').replace(/^\.+/, '');
+  return base || 'graded.pdf';
+};
+
+const record = (delivery, pdf) => {
+  const entry = { ...delivery, bytes: pdf?.length || 0, at: new Date().toISOString() };
+  deliveries.push(entry);
+  if (SAVE_DIR && pdf) {
+    fs.mkdirSync(SAVE_DIR, { recursive: true });
+    fs.writeFileSync(path.join(SAVE_DIR, `${deliveries.length}-${entry.channel}-${safeFileName(delivery.fileName)}`), pdf);
+  }
+  console.log(`[${entry.channel}] ${entry.to} · ${entry.assignment || entry.subject} · ${entry.bytes} bytes${entry.grade !== undefined ? ` · grade ${entry.grade}` : ''}`);
+};
+
+const studentId = (email) => {
+  if (!students.has(email)) students.set(email, students.size + 1);
+  return students.get(email);
+};
+
+// --- Routes: [method, path pattern, handler(match, url, body, req)] ---
+
+const routes = [
+  // Mailer
+  ['POST', /^\/send$/, (m, url, body) => {
+    const mail = JSON.parse(body.toString('utf8'));
+    if (!/^[^\s@]+@[^\s@]+$/.test(mail.to || '')) return [422, { error: `Invalid recipient "${mail.to}"` }];
+    const pdf = Buffer.from(mail.attachment?.content || '', 'base64');
+    record({ channel: 'email', to: mail.to, subject: mail.subject, fileName: mail.attachment?.fileName }, pdf);
+    return [200, { ok: true }];
+  }],
+
+  // Canvas
+  ['GET', /^\/api\/v1\/courses\/[^/]+\/assignments$/, (m, url) => {
+    const term = (url.searchParams.get('search_term') || '').toLowerCase();
+    return [200, ASSIGNMENTS
+      .map((name, i) => ({ id: i + 1, name, points_possible: POINTS }))
+      .filter(a => a.name.toLowerCase().includes(term))];
+  }],
+  ['GET', /^\/api\/v1\/courses\/[^/]+\/users$/, (m, url) => {
+    const email = (url.searchParams.get('search_term') || '').toLowerCase();
+    return [200, email.includes('@') ? [{ id: studentId(email), login_id: email, email }] : []];
+  }],
+  ['POST', /^\/api\/v1\/courses\/[^/]+\/assignments\/\d+\/submissions\/\d+\/comments\/files$/, (m, url, body, req) => {
+    const params = new URLSearchParams(body.toString('utf8'));
+    const id = files.size + 1;
+    files.set(id, { name: params.get('name') });
+    return [200, { upload_url: `http://${req.headers.host}/__upload/${id}`, upload_params: { filename: params.get('name') || '' } }];
+  }],
+  ['POST', /^\/__upload\/(\d+)$/, (m, url, body) => {
+    const id = Number(m[1]);
+    if (!files.has(id)) return [404, { error: 'Unknown upload' }];
+    files.get(id).pdf = extractPdf(body);
+    return [201, { id }];
+  }],
+  ['PUT', /^\/api\/v1\/courses\/[^/]+\/assignments\/(\d+)\/submissions\/(\d+)$/, (m, url, body) => {
+    const params = new URLSearchParams(body.toString('utf8'));
+    const file = files.get(Number(params.get('comment[file_ids][]')));
+    if (!file?.pdf) return [400, { error: 'Attached file was not uploaded' }];
+    const email = [...students.entries()].find(([, id]) => id === Number(m[2]))?.[0];
+    record({
+      channel: 'canvas',
+      to: email,
+      assignment: ASSIGNMENTS[Number(m[1]) - 1],
+      grade: params.get('submission[posted_grade]') ?? undefined,
+      comment: params.get('comment[text_comment]'),
+      fileName: file.name,
+    }, file.pdf);
+    return [200, { id: Number(m[2]) }];
+  }],
+
+  // Google Classroom
+  ['GET', /^\/v1\/courses\/[^/]+\/courseWork$/, () => {
+    return [200, { courseWork: ASSIGNMENTS.map((title, i) => ({ id: String(i + 1), title, maxPoints: POINTS })) }];
+  }],
+  ['GET', /^\/v1\/courses\/[^/]+\/courseWork\/(\d+)\/studentSubmissions$/, (m, url) => {
+    const email = url.searchParams.get('userId') || '';
+    return [200, email.includes('@') ? { studentSubmissions: [{ id: `${m[1]}:${email.toLowerCase()}` }] } : {}];
+  }],
+  ['PATCH', /^\/v1\/courses\/[^/]+\/courseWork\/\d+\/studentSubmissions\/([^/]+)$/, (m, url, body) => {
+    const update = JSON.parse(body.toString('utf8'));
+    grades.set(decodeURIComponent(m[1]), update.assignedGrade);
+    return [200, { id: m[1], ...update }];
+  }],
+
+  // Drive
+  ['POST', /^\/upload\/drive\/v3\/files$/, (m, url, body) => {
+    const name = body.toString('utf8', 0, 2000).match(/"name":"([^"]*)"/)?.[1];
+    const id = `file-${files.size + 1}`;
+    files.set(id, { name, pdf: extractPdf(body) });
+    return [200, { id, name }];
+  }],
+  ['POST', /^\/drive\/v3\/files\/([^/]+)\/permissions$/, (m, url, body) => {
+    const file = files.get(m[1]);
+    if (!file) return [404, { error: 'File not found' }];
+    const { emailAddress } = JSON.parse(body.toString('utf8'));
+    const submission = [...grades.keys()].find(key => key.endsWith(`:${String(emailAddress).toLowerCase()}`));
+    record({
+      channel: 'classroom',
+      to: emailAddress,
+      assignment: submission && ASSIGNMENTS[Number(submission.split(':')[0]) - 1],
+      grade: submission && grades.get(submission),
+      comment: url.searchParams.get('emailMessage'),
+      fileName: file.name,
+    }, file.pdf);
+    return [200, { id: `permission-${deliveries.length}`, type: 'user', role: 'reader' }];
+  }],
+
+  ['GET', /^\/__deliveries$/, () => [200, deliveries]],
+];
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, corsHeaders());
+    res.end();
+    return;
+  }
+  const url = new URL(req.url || '/', `http://${req.headers.host}`);
+  const route = routes.find(([method, pattern]) => method === req.method && pattern.test(url.pathname));
+  if (!route) {
+    sendJson(res, 404, { error: `No stub for ${req.method} ${url.pathname}` });
+    return;
+  }
+  if (!url.pathname.startsWith('/__') && Math.random() < FAIL_RATE) {
+    console.log(`Failing ${req.method} ${url.pathname} on purpose`);
+    sendJson(res, 503, { error: 'Stub failure (STUB_FAIL_RATE)' });
+    return;
+  }
+
+  try {
+    const body = await readBody(req);
+    const [status, reply] = route[2](url.pathname.match(route[1]), url, body, req);
+    sendJson(res, status, reply);
+  } catch (error) {
+    sendJson(res, error.status || 400, { error: error.message });
+  }
+});
+
+server.listen(PORT, () => console.log(`Delivery stub listening on http://localhost:${PORT} (assignments: ${ASSIGNMENTS.join(', ')})`));
@@ -0,0 +1,32 @@
+// Shared bits of the companion servers: CORS for the app's origin, body parsing and JSON replies.
+// Plain Node, no dependencies.
+
+// Failure with the HTTP status to answer with. The app retries 5xx and gives up on 4xx.
+export const httpError = (message, status) => Object.assign(new Error(message), { status });
+
+export const corsHeaders = (origin = '*') => ({
+  'Access-Control-Allow-Origin': origin,
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, OPTIONS',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+});
+
+export const readBody = (req, limit = 50 * 1024 * 1024) => new Promise((resolve, reject) => {
+  const chunks = [];
+  let size = 0;
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > limit) {
+      reject(httpError('Request too large', 413));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+export const sendJson = (res, status, body, origin) => {
+  res.writeHead(status, { ...corsHeaders(origin), 'Content-Type': 'application/json' });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
@@ -0,0 +1,96 @@
+// Companion mailer: takes a graded PDF from the app (POST /send, JSON) and emails it over SMTP.
+// Browsers can't speak SMTP, so this small server does it for them (the SMTP client is in smtp.mjs).
+// Plain Node, no dependencies:
+//
+//   SMTP_HOST=smtp.school.edu SMTP_USER=... SMTP_PASS=... MAIL_FROM="SmartGrade <grader@school.edu>" \
+//     node server/mailer.mjs
+//
+// Then set VITE_MAILER_URL=http://<this host>:8788/send in the app. Settings (environment):
+//   SMTP_HOST, SMTP_PORT (587), SMTP_SECURE ("true" for TLS from the start, usually port 465),
+//   SMTP_USER, SMTP_PASS, MAIL_FROM, MAILER_PORT (8788), MAILER_HOST (interface to listen on,
+//   127.0.0.1 unless set), MAILER_TOKEN (required; bearer token the app must send, same as
+//   VITE_MAILER_TOKEN), MAILER_ORIGIN (required; the app's origin, e.g. https://grade.school.edu).
+//
+// The token ends up in the app's JavaScript, so it only keeps out other web pages and stray clients,
+// not someone who can load the app. Don't expose the mailer beyond the network the app is used on.
+
+import http from 'node:http';
+import os from 'node:os';
+import { timingSafeEqual } from 'node:crypto';
+import { corsHeaders, httpError, readBody, sendJson } from './http.mjs';
+import { clean, sendMail } from './smtp.mjs';
+
+const env = process.env;
+const SMTP_SECURE = env.SMTP_SECURE === 'true';
+const SMTP = {
+  host: env.SMTP_HOST || 'localhost',
+  port: Number(env.SMTP_PORT) || (SMTP_SECURE ? 465 : 587),
+  secure: SMTP_SECURE,
+  user: env.SMTP_USER,
+  pass: env.SMTP_PASS,
+  from: env.MAIL_FROM || `SmartGrade <smartgrade@${os.hostname()}>`,
+};
+const PORT = Number(env.MAILER_PORT) || 8788;
+const HOST = env.MAILER_HOST || '127.0.0.1';
+const TOKEN = env.MAILER_TOKEN || '';
+const ORIGIN = env.MAILER_ORIGIN || '';
+
+// --- HTTP ---
+
+const parseMail = (body) => {
+  let mail;
+  try {
+    mail = JSON.parse(body.toString('utf8'));
+  } catch {
+    throw httpError('Body is not JSON', 400);
+  }
+  const to = clean(mail.to);
+  if (!/^[^\s@<>]+@[^\s@<>]+$/.test(to)) throw httpError(`Invalid recipient "${to}"`, 422);
+  if (!mail.attachment?.content) throw httpError('No attachment', 400);
+  return { ...mail, to };
+};
+
+const isAuthorized = (header = '') => {
+  const given = Buffer.from(header);
+  const expected = Buffer.from(`Bearer ${TOKEN}`);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+// Without a token and an origin anyone could relay mail through the SMTP account
+if (!TOKEN || !ORIGIN) {
+  console.error('Set MAILER_TOKEN and MAILER_ORIGIN (the app\'s origin) before starting the mailer.');
+  process.exit(1);
+}
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, corsHeaders(ORIGIN));
+    res.end();
+    return;
+  }
+  if (req.method !== 'POST' || req.url?.split('?')[0] !== '/send') {
+    sendJson(res, 404, { error: 'Not found' }, ORIGIN);
+    return;
+  }
+  // Browsers always send Origin on cross-site posts, so other pages are turned away here
+  if (req.headers.origin && req.headers.origin !== ORIGIN) {
+    sendJson(res, 403, { error: 'Origin not allowed' }, ORIGIN);
+    return;
+  }
+  if (!isAuthorized(req.headers.authorization)) {
+    sendJson(res, 401, { error: 'Unauthorized' }, ORIGIN);
+    return;
+  }
+
+  try {
+    const mail = parseMail(await readBody(req));
+    await sendMail(mail, SMTP);
+    console.log(`Sent ${mail.attachment.fileName} to ${mail.to}`);
+    sendJson(res, 200, { ok: true }, ORIGIN);
+  } catch (error) {
+    console.error('Send failed:', error.message);
+    sendJson(res, error.status || 502, { error: error.message }, ORIGIN);
+  }
+});
+
+server.listen(PORT, HOST, () => console.log(`Mailer listening on http://${HOST}:${PORT}/send for ${ORIGIN}, relaying to ${SMTP.host}:${SMTP.port}`));
@@ -0,0 +1,162 @@
+// SMTP client of the companion mailer: builds the message with the PDF attached and hands it to the
+// SMTP server, upgrading to TLS when offered. Plain Node, no dependencies.
+//
+// Settings: { host, port, secure (TLS from the start), user, pass, from, timeoutMs }
+
+import net from 'node:net';
+import tls from 'node:tls';
+import os from 'node:os';
+import { randomBytes } from 'node:crypto';
+import { httpError } from './http.mjs';
+
+// --- MIME ---
+
+export const clean = (value) => String(value ?? '').replace(/[\r\n]+/g, ' ').trim();
+
+// RFC 2047 encoded word for header values that aren't plain ASCII
+const encodeWord = (value) => /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+
+// Quoted when ASCII; an encoded word can't go inside quotes
+const displayName = (name) => {
+  const plain = clean(name).replace(/"/g, '');
+  return encodeWord(plain) === plain ? `"${plain}"` : encodeWord(plain);
+};
+
+const base64Lines = (data) => (Buffer.from(data).toString('base64').match(/.{1,76}/g) || []).join('\r\n');
+
+export const addressOf = (mailbox) => (mailbox.match(/<([^>]+)>/)?.[1] || mailbox).trim();
+
+export const buildMessage = ({ to, toName, subject, text, attachment }, from) => {
+  const boundary = `smartgrade-${randomBytes(12).toString('hex')}`;
+  const fileName = encodeWord(clean(attachment.fileName).replace(/"/g, ''));
+  const headers = [
+    `From: ${clean(from)}`,
+    `To: ${toName ? `${displayName(toName)} ` : ''}<${to}>`,
+    `Subject: ${encodeWord(clean(subject))}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomBytes(16).toString('hex')}@${addressOf(from).split('@')[1] || os.hostname()}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+  ];
+  // Base64 bodies never start a line with ".", so no dot-stuffing is needed
+  return [
+    ...headers,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(text || ''),
+    `--${boundary}`,
+    `Content-Type: ${clean(attachment.contentType) || 'application/pdf'}; name="${fileName}"`,
+    `Content-Disposition: attachment; filename="${fileName}"`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(Buffer.from(attachment.content, 'base64')),
+    `--${boundary}--`,
+  ].join('\r\n');
+};
+
+// --- SMTP session ---
+// One command at a time, so whatever arrives after a command is its whole reply
+
+// SNI takes host names only
+const serverName = (host) => net.isIP(host) ? undefined : host;
+
+// Gives up after timeoutMs when the host doesn't answer, rather than waiting for the OS to
+const openConnection = ({ host, port, secure, timeoutMs }) => new Promise((resolve, reject) => {
+  const onTimeout = () => socket.destroy(httpError('SMTP server could not be reached', 504));
+  const onConnect = () => {
+    socket.setTimeout(0);
+    socket.removeListener('timeout', onTimeout);
+    resolve(socket);
+  };
+  const socket = secure
+    ? tls.connect({ host, port, servername: serverName(host) }, onConnect)
+    : net.connect({ host, port }, onConnect);
+  socket.setTimeout(timeoutMs, onTimeout);
+  socket.once('error', reject);
+});
+
+const smtpSession = (initial, { host, timeoutMs }) => {
+  let socket = initial;
+  let buffer = '';
+  let pending = null;
+
+  const settle = () => {
+    const final = buffer.match(/(?:^|\r\n)(\d{3}) [^\r\n]*\r\n$/);
+    if (!final || !pending) return;
+    const reply = { code: Number(final[1]), text: buffer };
+    const { resolve } = pending;
+    buffer = '';
+    pending = null;
+    resolve(reply);
+  };
+
+  const attach = (s) => {
+    s.setTimeout(timeoutMs, () => s.destroy(httpError('SMTP server timed out', 504)));
+    s.on('data', chunk => { buffer += chunk.toString('utf8'); settle(); });
+    s.on('error', error => pending?.reject(error));
+    s.on('close', () => pending?.reject(httpError('SMTP connection closed', 502)));
+  };
+  attach(socket);
+
+  // SMTP's permanent (5xx) rejections become 422 and its temporary (4xx) ones 503
+  const read = (expected) => new Promise((resolve, reject) => {
+    pending = { resolve, reject };
+    settle();
+  }).then(reply => {
+    if (expected.includes(reply.code)) return reply;
+    const status = reply.code >= 500 ? 422 : 503;
+    throw httpError(`SMTP ${reply.text.trim().split('\r\n').pop()}`, status);
+  });
+
+  return {
+    read,
+    command: (line, expected) => {
+      socket.write(`${line}\r\n`);
+      return read(expected);
+    },
+    // STARTTLS: the same connection continues encrypted
+    upgrade: () => new Promise((resolve, reject) => {
+      socket.removeAllListeners('data');
+      socket.removeAllListeners('close');
+      socket.setTimeout(0);
+      const secure = tls.connect({ socket, servername: serverName(host) }, () => resolve());
+      secure.once('error', reject);
+      socket = secure;
+      attach(socket);
+    }),
+    close: () => socket.end(),
+  };
+};
+
+// Sends one message; failures carry the HTTP status to answer the app with
+export const sendMail = async (mail, settings) => {
+  const { secure, user, pass, from, timeoutMs = 30 * 1000 } = settings;
+  const smtp = smtpSession(await openConnection({ ...settings, timeoutMs }), { ...settings, timeoutMs });
+  try {
+    await smtp.read([220]);
+    const ehlo = `EHLO ${os.hostname()}`;
+    const features = await smtp.command(ehlo, [250]);
+    let encrypted = !!secure;
+    if (!encrypted && /STARTTLS/i.test(features.text)) {
+      await smtp.command('STARTTLS', [220]);
+      await smtp.upgrade();
+      await smtp.command(ehlo, [250]);
+      encrypted = true;
+    }
+    if (user) {
+      if (!encrypted) throw httpError('SMTP server offers no TLS; not sending the password in the clear', 502);
+      const credentials = Buffer.from(`\0${user}\0${pass || ''}`).toString('base64');
+      await smtp.command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+    await smtp.command(`MAIL FROM:<${addressOf(from)}>`, [250]);
+    await smtp.command(`RCPT TO:<${mail.to}>`, [250, 251]);
+    await smtp.command('DATA', [354]);
+    await smtp.command(`${buildMessage(mail, from)}\r\n.`, [250]);
+    await smtp.command('QUIT', [221]).catch(() => {});
+  } finally {
+    smtp.close();
+  }
+};
@@ -0,0 +1,138 @@
+import net from 'node:net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { sendMail } from './smtp.mjs';
+
+const PDF = Buffer.from('%PDF-1.4 graded %%EOF');
+
+const mail = {
+  to: 'ana@school.edu',
+  toName: 'Ana Núñez',
+  subject: 'Résultats : Unit 3',
+  text: 'Your graded quiz is attached.',
+  attachment: { fileName: 'Ana.pdf', contentType: 'application/pdf', content: PDF.toString('base64') },
+};
+
+let server = null;
+
+// Fake SMTP server answering each command from `replies` (by verb) or with 250; records what it got
+const startServer = (replies = {}) => new Promise(resolve => {
+  const received = { commands: [], message: '' };
+  server = net.createServer(socket => {
+    let buffer = '';
+    let inData = false;
+    if (replies.greeting !== null) socket.write(`${replies.greeting || '220 fake.test ESMTP'}\r\n`);
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end < 0) return;
+        received.message = buffer.slice(0, end);
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        socket.write('250 2.0.0 Queued\r\n');
+      }
+      let line;
+      while (!inData && (line = buffer.match(/^([^\r\n]*)\r\n/))) {
+        buffer = buffer.slice(line[0].length);
+        const command = line[1];
+        const verb = command.split(/[ :]/)[0].toUpperCase();
+        received.commands.push(command);
+        const reply = replies[verb];
+        if (reply === 'close') {
+          socket.destroy();
+          return;
+        }
+        if (reply) socket.write(`${reply}\r\n`);
+        else if (verb === 'EHLO') socket.write('250-fake.test\r\n250 SIZE 10000000\r\n');
+        else if (verb === 'DATA') {
+          inData = true;
+          socket.write('354 Go ahead\r\n');
+        } else if (verb === 'QUIT') socket.end('221 Bye\r\n');
+        else socket.write('250 OK\r\n');
+      }
+    });
+  });
+  server.listen(0, '127.0.0.1', () => resolve({ received, port: server.address().port }));
+});
+
+const settings = (port, extra = {}) => ({ host: '127.0.0.1', port, from: 'SmartGrade <grader@school.edu>', ...extra });
+
+afterEach(() => new Promise(resolve => {
+  if (!server) return resolve();
+  server.close(() => resolve());
+  server = null;
+}));
+
+describe('sendMail', () => {
+  it('walks through the SMTP dialog and sends the PDF as an attachment', async () => {
+    const { received, port } = await startServer();
+    await sendMail(mail, settings(port));
+
+    expect(received.commands.map(c => c.split(' ')[0])).toEqual(['EHLO', 'MAIL', 'RCPT', 'DATA', 'QUIT']);
+    expect(received.commands[1]).toBe('MAIL FROM:<grader@school.edu>');
+    expect(received.commands[2]).toBe('RCPT TO:<ana@school.edu>');
+
+    const message = received.message;
+    expect(message).toContain('From: SmartGrade <grader@school.edu>\r\n');
+    expect(message).toContain(`To: =?UTF-8?B?${Buffer.from('Ana Núñez').toString('base64')}?= <ana@school.edu>\r\n`);
+    expect(message).toContain(`Subject: =?UTF-8?B?${Buffer.from('Résultats : Unit 3').toString('base64')}?=\r\n`);
+    expect(message).toMatch(/Message-ID: <[0-9a-f]{32}@school\.edu>/);
+
+    const boundary = message.match(/boundary="([^"]+)"/)[1];
+    const parts = message.split(`--${boundary}`);
+    expect(parts).toHaveLength(4);
+    expect(parts[3]).toBe('--');
+    const [attachmentHeaders, attachmentBody] = parts[2].split('\r\n\r\n');
+    expect(attachmentHeaders).toContain('Content-Disposition: attachment; filename="Ana.pdf"');
+    expect(Buffer.from(attachmentBody.replace(/\r\n/g, ''), 'base64')).toEqual(PDF);
+    expect(Buffer.from(parts[1].split('\r\n\r\n')[1].replace(/\r\n/g, ''), 'base64').toString()).toBe(mail.text);
+  });
+
+  it('keeps injected line breaks out of the headers', async () => {
+    const { received, port } = await startServer();
+    await sendMail({ ...mail, toName: 'Ana', subject: 'Quiz\r\nBcc: eve@evil.test' }, settings(port));
+
+    expect(received.message).toContain('Subject: Quiz Bcc: eve@evil.test\r\n');
+    expect(received.message).not.toMatch(/^Bcc:/m);
+    expect(received.message).toContain('To: "Ana" <ana@school.edu>\r\n');
+  });
+
+  it('reports a permanent rejection as 422', async () => {
+    const { received, port } = await startServer({ RCPT: '550 5.1.1 No such user' });
+    const error = await sendMail(mail, settings(port)).catch(e => e);
+
+    expect(error).toMatchObject({ status: 422, message: 'SMTP 550 5.1.1 No such user' });
+    expect(received.commands).not.toContain('DATA');
+  });
+
+  it('reports a temporary failure as 503, so the app retries', async () => {
+    const { port } = await startServer({ MAIL: '451 4.3.0 Try again later' });
+    await expect(sendMail(mail, settings(port))).rejects.toMatchObject({ status: 503 });
+  });
+
+  it("won't send a password without TLS", async () => {
+    const { received, port } = await startServer();
+    const error = await sendMail(mail, settings(port, { user: 'grader', pass: 'secret' })).catch(e => e);
+
+    expect(error).toMatchObject({ status: 502 });
+    expect(received.commands.some(c => c.startsWith('AUTH'))).toBe(false);
+  });
+
+  it('fails when the server hangs up or goes quiet', async () => {
+    const closing = await startServer({ RCPT: 'close' });
+    await expect(sendMail(mail, settings(closing.port))).rejects.toMatchObject({ status: 502 });
+    await new Promise(resolve => server.close(resolve));
+
+    const silent = await startServer({ greeting: null });
+    await expect(sendMail(mail, settings(silent.port, { timeoutMs: 100 }))).rejects.toMatchObject({ status: 504 });
+  });
+
+  it('gives up on a connection that never completes', async () => {
+    // A TLS handshake the plain fake server never answers
+    const { port } = await startServer({ greeting: null });
+    await expect(sendMail(mail, settings(port, { secure: true, timeoutMs: 100 }))).rejects.toMatchObject({
+      status: 504,
+      message: 'SMTP server could not be reached',
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { CapturedPage, Quad } from "../types";
+import { FULL_FRAME, RgbaImage, detectPageCorners, enhanceDocument, estimateSkew, warpPerspective, warpedSize } from "../utils/docScan";
+import { loadImage } from "../utils/pdfShared";
+import { ImportedPage } from "./documentImport";
+
+// Preprocessing between the camera and the grader: find the page, flatten it, straighten it and
+// clean up the lighting. Heavy pixel work happens in utils/docScan; this module moves pixels in
+// and out of canvases and files.
+
+const DETECTION_SIDE = 400; // Corner detection runs on a small copy
+const SKEW_SIDE = 800;
+const MAX_SOURCE_SIDE = 3000; // Larger photos are scaled down before warping to bound memory
+const MAX_OUTPUT_SIDE = 2200; // Plenty for grading and the PDF
+const MIN_SKEW_DEGREES = 0.3;
+
+export interface CaptureOptions {
+  enhance?: boolean; // Shadow removal and contrast boost
+}
+
+// Helper to read an image or canvas into an RGBA buffer no larger than maxSide
+const readPixels = (source: HTMLImageElement | HTMLCanvasElement, maxSide: number): RgbaImage => {
+  const sourceWidth = source instanceof HTMLImageElement ? source.naturalWidth : source.width;
+  const sourceHeight = source instanceof HTMLImageElement ? source.naturalHeight : source.height;
+  const scale = Math.min(1, maxSide / Math.max(sourceWidth, sourceHeight));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(sourceWidth * scale));
+  canvas.height = Math.max(1, Math.round(sourceHeight * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("No context");
+
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+export const toCanvas = (image: RgbaImage): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("No context");
+
+  ctx.putImageData(new ImageData(new Uint8ClampedArray(image.data), image.width, image.height), 0, 0);
+  return canvas;
+};
+
+// Helper to rotate a canvas by a small angle around its centre, filling the exposed corners with white
+const rotateCanvas = (source: HTMLCanvasElement, degrees: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = source.width;
+  canvas.height = source.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("No context");
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate((degrees * Math.PI) / 180);
+  ctx.drawImage(source, -source.width / 2, -source.height / 2);
+  return canvas;
+};
+
+export const canvasToFile = (canvas: HTMLCanvasElement, name: string): Promise<File> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (!blob) return reject(new Error("Failed to encode page"));
+      resolve(new File([blob], name.replace(/\.[^.]+$/, '') + '.jpg', { type: 'image/jpeg' }));
+    }, 'image/jpeg', 0.92);
+  });
+};
+
+const isFullFrame = (corners: Quad) => corners.every((c, i) => c.x === FULL_FRAME[i].x && c.y === FULL_FRAME[i].y);
+
+// Loads each photo and detects its page corners, ready for the corner-adjust screen.
+// Pages rasterized from documents are already cropped, so they keep the whole frame.
+export const prepareCaptures = async (pages: ImportedPage[]): Promise<CapturedPage[]> => {
+  const captures: CapturedPage[] = [];
+
+  for (const { file, fromDocument } of pages) {
+    const imageUrl = URL.createObjectURL(file);
+    let corners: Quad = FULL_FRAME;
+    if (!fromDocument) {
+      try {
+        corners = detectPageCorners(readPixels(await loadImage(imageUrl), DETECTION_SIDE));
+      } catch (error) {
+        console.warn(`Page detection failed for ${file.name}`, error);
+      }
+    }
+    captures.push({
+      id: Math.random().toString(36).substr(2, 9),
+      file,
+      imageUrl,
+      corners,
+      detectedCorners: corners,
+      fromDocument,
+    });
+  }
+
+  return captures;
+};
+
+// Flattens, straightens and (optionally) enhances one photo into the file that gets graded
+export const processCapture = async (capture: CapturedPage, options: CaptureOptions = {}): Promise<File> => {
+  const { enhance = true } = options;
+
+  // 1. Perspective warp to a flat rectangle (nothing to do when the whole frame is the page)
+  const source = readPixels(await loadImage(capture.imageUrl), MAX_SOURCE_SIDE);
+  let page = source;
+  if (!isFullFrame(capture.corners)) {
+    const size = warpedSize(capture.corners, source.width, source.height, MAX_OUTPUT_SIDE);
+    page = warpPerspective(source, capture.corners, size.width, size.height);
+  }
+  let canvas = toCanvas(page);
+
+  // 2. Deskew the small residual tilt left by imperfect corners
+  const skew = estimateSkew(readPixels(canvas, SKEW_SIDE));
+  if (Math.abs(skew) >= MIN_SKEW_DEGREES) {
+    canvas = rotateCanvas(canvas, -skew);
+  }
+
+  // 3. Lighting and contrast (scans are already evenly lit)
+  if (enhance && !capture.fromDocument) {
+    page = enhanceDocument(readPixels(canvas, MAX_OUTPUT_SIDE));
+    canvas = toCanvas(page);
+  }
+
+  return canvasToFile(canvas, capture.file.name);
+};
+
+// One at a time: full-resolution buffers are large
+export const processCaptures = async (captures: CapturedPage[], options: CaptureOptions = {}): Promise<File[]> => {
+  const files: File[] = [];
+  for (const capture of captures) {
+    files.push(await processCapture(capture, options));
+  }
+  return files;
+};
+
+// Batch mode has no corner review; detected corners are used as-is
+export const autoProcessFiles = async (pages: ImportedPage[], options: CaptureOptions = {}): Promise<File[]> => {
+  const captures = await prepareCaptures(pages);
+  try {
+    return await processCaptures(captures, options);
+  } finally {
+    captures.forEach(c => URL.revokeObjectURL(c.imageUrl));
+  }
+};
@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DeliveryJob } from "../types";
+import { enqueueDelivery, listDeliveries, processOutbox, retryDelivery } from "./deliveryService";
+
+const { send, files } = vi.hoisted(() => ({
+  send: vi.fn(),
+  files: new Map<string, string>(),
+}));
+
+// PDFs go to an in-memory "app data directory"; every send goes through one fake email transport
+vi.mock("@capacitor/core", () => ({ Capacitor: { isNativePlatform: () => true } }));
+vi.mock("@capacitor/filesystem", () => ({
+  Directory: { Data: "DATA" },
+  Filesystem: {
+    writeFile: async ({ path, data }: { path: string; data: string }) => { files.set(path, data); },
+    readFile: async ({ path }: { path: string }) => {
+      if (!files.has(path)) throw new Error("File does not exist");
+      return { data: files.get(path) };
+    },
+    deleteFile: async ({ path }: { path: string }) => { files.delete(path); },
+  },
+}));
+vi.mock("../utils/share", () => ({
+  blobToBase64: async (blob: Blob) => btoa(String.fromCharCode(...new Uint8Array(await blob.arrayBuffer()))),
+}));
+vi.mock("../config", async () => {
+  const actual = await vi.importActual<typeof import("../config")>("../config");
+  return { ...actual, deliveryConfig: { ...actual.deliveryConfig, maxAttempts: 8 } };
+});
+vi.mock("./deliveryTransports", async () => ({
+  ...await vi.importActual<typeof import("./deliveryTransports")>("./deliveryTransports"),
+  configuredTransports: () => [{ channel: 'email', send }],
+}));
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+const failure = (status: number) => Object.assign(new Error(`Failed (${status})`), { status });
+
+const queue = async (): Promise<DeliveryJob> => {
+  const [job] = await enqueueDelivery({
+    student: { name: "Ana", email: "ana@school.edu" },
+    assignment: "Unit 3 Quiz",
+    fileName: "Ana.pdf",
+    subject: "Unit 3 Quiz",
+    message: "Your graded quiz",
+    awarded: 8,
+    possible: 10,
+  }, new Blob(["%PDF-1.4"], { type: "application/pdf" }));
+  await processOutbox();
+  return job;
+};
+
+const current = (id: string) => listDeliveries().find(job => job.id === id) as DeliveryJob;
+
+beforeEach(() => {
+  const storage = new Map<string, string>();
+  vi.stubGlobal("localStorage", {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => { storage.set(key, value); },
+  });
+  vi.useFakeTimers();
+  vi.spyOn(console, "warn").mockImplementation(() => {}); // Every failed attempt is logged
+  files.clear();
+  send.mockReset();
+});
+
+afterEach(() => {
+  vi.clearAllTimers();
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("outbox", () => {
+  it("delivers a queued PDF and then drops it", async () => {
+    send.mockResolvedValue(undefined);
+    const job = await queue();
+
+    expect(current(job.id)).toMatchObject({ status: "delivered", attempts: 0 });
+    expect(await send.mock.calls[0][1].text()).toBe("%PDF-1.4");
+    expect(files.size).toBe(0);
+  });
+
+  it("waits twice as long after each failure, up to half an hour, then gives up", async () => {
+    send.mockRejectedValue(failure(503));
+    const job = await queue();
+    const waits: number[] = [];
+
+    for (let attempt = 1; attempt < 8; attempt++) {
+      const { attempts, nextAttemptAt, status } = current(job.id);
+      expect({ attempts, status }).toEqual({ attempts: attempt, status: "queued" });
+      waits.push(nextAttemptAt - Date.now());
+      await vi.advanceTimersByTimeAsync(nextAttemptAt - Date.now());
+    }
+
+    expect(waits).toEqual([30 * SECOND, 1 * MINUTE, 2 * MINUTE, 4 * MINUTE, 8 * MINUTE, 16 * MINUTE, 30 * MINUTE]);
+    expect(current(job.id)).toMatchObject({ status: "failed", attempts: 8, lastError: "Failed (503)" });
+    expect(send).toHaveBeenCalledTimes(8);
+  });
+
+  it("gives up at once on a rejected send", async () => {
+    send.mockRejectedValue(failure(422));
+    const job = await queue();
+
+    expect(current(job.id)).toMatchObject({ status: "failed", attempts: 1 });
+    await vi.advanceTimersByTimeAsync(60 * MINUTE);
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps finished steps on the job so a retry resumes after them", async () => {
+    send.mockImplementationOnce(async (_job, _pdf, saveProgress) => {
+      saveProgress({ fileId: "file-1" });
+      throw failure(502);
+    });
+    send.mockImplementationOnce(async (_job, _pdf, saveProgress) => {
+      saveProgress({ graded: true });
+    });
+    const job = await queue();
+
+    expect(current(job.id).progress).toEqual({ fileId: "file-1" });
+    await vi.advanceTimersByTimeAsync(30 * SECOND);
+    expect(send.mock.calls[1][0].progress).toEqual({ fileId: "file-1" });
+    expect(current(job.id)).toMatchObject({ status: "delivered", progress: { fileId: "file-1", graded: true } });
+  });
+
+  it("starts a failed send over with a fresh set of attempts", async () => {
+    send.mockRejectedValueOnce(failure(404)).mockResolvedValueOnce(undefined);
+    const job = await queue();
+    expect(current(job.id).status).toBe("failed");
+
+    retryDelivery(job.id);
+    await processOutbox();
+    expect(current(job.id)).toMatchObject({ status: "delivered", attempts: 0 });
+  });
+});
@@ -0,0 +1,276 @@
+import { Filesystem, Directory } from "@capacitor/filesystem";
+import { Capacitor } from "@capacitor/core";
+import { deliveryConfig } from "../config";
+import { DeliveryChannel, DeliveryJob } from "../types";
+import { blobToBase64 } from "../utils/share";
+import { DeliveryTransport, configuredTransports, isPermanentFailure } from "./deliveryTransports";
+
+// The outbox: every send is stored as a job before it is attempted, so PDFs queued while offline
+// (or on a failing server) go out later, even after the app is closed. Jobs are small JSON kept
+// in localStorage like the gradebook; their PDFs are blobs kept next to the sessions.
+
+const OUTBOX_KEY = "smartgrade.outbox";
+
+// Wait before retry n is RETRY_BASE_MS * 2^(n-1), up to RETRY_MAX_MS
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 30 * 60 * 1000;
+
+// --- PDF storage: IndexedDB on the web, app data directory on iOS/Android ---
+
+interface PdfBackend {
+  save(jobId: string, pdf: Blob): Promise<void>;
+  load(jobId: string): Promise<Blob | null>;
+  remove(jobId: string): Promise<void>;
+}
+
+const DB_NAME = "smartgrade-outbox";
+const PDF_STORE = "pdfs";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(PDF_STORE);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+// Helper to run a single request inside a transaction
+const idbRequest = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(PDF_STORE, mode);
+    const request = run(tx.objectStore(PDF_STORE));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+const indexedDbBackend: PdfBackend = {
+  save: async (jobId, pdf) => {
+    await idbRequest("readwrite", store => store.put(pdf, jobId));
+  },
+  load: async (jobId) => {
+    const pdf = await idbRequest<Blob | undefined>("readonly", store => store.get(jobId));
+    return pdf || null;
+  },
+  remove: async (jobId) => {
+    await idbRequest("readwrite", store => store.delete(jobId));
+  },
+};
+
+const OUTBOX_DIR = "outbox";
+
+const filesystemBackend: PdfBackend = {
+  save: async (jobId, pdf) => {
+    await Filesystem.writeFile({
+      path: `${OUTBOX_DIR}/${jobId}.pdf`,
+      data: await blobToBase64(pdf),
+      directory: Directory.Data,
+      recursive: true,
+    });
+  },
+  load: async (jobId) => {
+    try {
+      const result = await Filesystem.readFile({ path: `${OUTBOX_DIR}/${jobId}.pdf`, directory: Directory.Data });
+      const response = await fetch(`data:application/pdf;base64,${result.data}`);
+      return response.blob();
+    } catch {
+      return null;
+    }
+  },
+  remove: async (jobId) => {
+    await Filesystem.deleteFile({ path: `${OUTBOX_DIR}/${jobId}.pdf`, directory: Directory.Data }).catch(() => {});
+  },
+};
+
+const pdfBackend = (): PdfBackend => {
+  return Capacitor.isNativePlatform() ? filesystemBackend : indexedDbBackend;
+};
+
+// --- Jobs ---
+
+const readJobs = (): DeliveryJob[] => {
+  try {
+    const raw = localStorage.getItem(OUTBOX_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch (error) {
+    console.error(`Failed to read ${OUTBOX_KEY}`, error);
+    return [];
+  }
+};
+
+type OutboxListener = (jobs: DeliveryJob[]) => void;
+const listeners = new Set<OutboxListener>();
+
+const writeJobs = (jobs: DeliveryJob[]) => {
+  localStorage.setItem(OUTBOX_KEY, JSON.stringify(jobs));
+  listeners.forEach(listener => listener(jobs));
+};
+
+const updateJob = (id: string, changes: Partial<DeliveryJob>) => {
+  writeJobs(readJobs().map(job => job.id === id ? { ...job, ...changes } : job));
+};
+
+const retryDelay = (attempts: number) => Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+
+const isOnline = () => typeof navigator === "undefined" || navigator.onLine;
+
+// --- Sending ---
+
+let running: Promise<void> | null = null;
+let rerun = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+const attempt = async (job: DeliveryJob, transport: DeliveryTransport) => {
+  updateJob(job.id, { status: 'sending' });
+  try {
+    const pdf = await pdfBackend().load(job.id);
+    if (!pdf) throw Object.assign(new Error("The PDF for this send is missing"), { status: 410 });
+    await transport.send(job, pdf, progress => {
+      const current = readJobs().find(j => j.id === job.id);
+      updateJob(job.id, { progress: { ...current?.progress, ...progress } });
+    });
+    updateJob(job.id, { status: 'delivered', deliveredAt: Date.now(), lastError: undefined });
+    await pdfBackend().remove(job.id);
+  } catch (error) {
+    const lastError = error instanceof Error ? error.message : String(error);
+    // A send that failed because the connection dropped doesn't count against the job
+    if (!isOnline()) {
+      updateJob(job.id, { status: 'queued', lastError });
+      return;
+    }
+    const attempts = job.attempts + 1;
+    const giveUp = isPermanentFailure(error) || attempts >= deliveryConfig.maxAttempts;
+    console.warn(`Delivery ${job.id} over ${job.channel} failed (attempt ${attempts})`, error);
+    updateJob(job.id, {
+      status: giveUp ? 'failed' : 'queued',
+      attempts,
+      nextAttemptAt: Date.now() + retryDelay(attempts),
+      lastError,
+    });
+  }
+};
+
+// Wakes the outbox when the next retry falls due
+const scheduleRetry = () => {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  const due = readJobs().filter(j => j.status === 'queued').map(j => j.nextAttemptAt);
+  if (due.length === 0) return;
+  retryTimer = setTimeout(() => { processOutbox(); }, Math.max(0, Math.min(...due) - Date.now()));
+};
+
+const drain = async () => {
+  const transports = new Map(configuredTransports().map(t => [t.channel, t]));
+  do {
+    rerun = false;
+    for (const { id } of readJobs()) {
+      if (!isOnline()) return; // The 'online' event picks up from here
+      const job = readJobs().find(j => j.id === id); // Re-read: the teacher may have removed or retried it meanwhile
+      if (!job || job.status !== 'queued' || job.nextAttemptAt > Date.now()) continue;
+      const transport = transports.get(job.channel);
+      if (!transport) {
+        updateJob(job.id, { status: 'failed', lastError: `Sending over ${job.channel} is not configured` });
+        continue;
+      }
+      await attempt(job, transport);
+    }
+  } while (rerun);
+};
+
+// Sends every job that is due, one at a time. Calls made while a pass is running trigger another pass.
+export const processOutbox = (): Promise<void> => {
+  if (running) {
+    rerun = true;
+    return running;
+  }
+  running = drain()
+    .catch(error => console.error("Outbox failed", error))
+    .finally(() => {
+      running = null;
+      scheduleRetry();
+    });
+  return running;
+};
+
+// --- Public API ---
+
+// Channels a new PDF would be sent over; empty when delivery isn't set up
+export const deliveryChannels = (): DeliveryChannel[] => configuredTransports().map(t => t.channel);
+
+export type DeliveryRequest = Pick<DeliveryJob, 'student' | 'assignment' | 'fileName' | 'subject' | 'message' | 'awarded' | 'possible' | 'sessionId'>;
+
+/**
+ * Queues the PDF for every configured channel and starts sending. An unsent job for the same student,
+ * assignment and channel is replaced, since its PDF is out of date; delivered ones stay as history.
+ */
+export const enqueueDelivery = async (delivery: DeliveryRequest, pdf: Blob): Promise<DeliveryJob[]> => {
+  const channels = deliveryChannels().filter(channel => channel !== 'email' || delivery.student.email);
+  const now = Date.now();
+  const jobs: DeliveryJob[] = channels.map(channel => ({
+    ...delivery,
+    id: `delivery-${now}-${Math.random().toString(36).substr(2, 5)}`,
+    channel,
+    status: 'queued',
+    attempts: 0,
+    nextAttemptAt: now,
+    createdAt: now,
+  }));
+  for (const job of jobs) await pdfBackend().save(job.id, pdf);
+
+  const isReplaced = (old: DeliveryJob) => old.status !== 'delivered' && old.status !== 'sending' && jobs.some(job =>
+    job.channel === old.channel && job.assignment === old.assignment && job.student.name === old.student.name && job.student.email === old.student.email);
+  const existing = readJobs();
+  for (const old of existing.filter(isReplaced)) await pdfBackend().remove(old.id);
+  writeJobs([...existing.filter(old => !isReplaced(old)), ...jobs]);
+
+  processOutbox();
+  return jobs;
+};
+
+// Oldest first
+export const listDeliveries = (): DeliveryJob[] => readJobs();
+
+// Sends a failed job again, with a fresh set of attempts; steps it already finished aren't repeated
+export const retryDelivery = (id: string) => {
+  updateJob(id, { status: 'queued', attempts: 0, nextAttemptAt: Date.now() });
+  processOutbox();
+};
+
+export const removeDelivery = async (id: string) => {
+  writeJobs(readJobs().filter(job => job.id !== id));
+  await pdfBackend().remove(id);
+};
+
+export const clearDelivered = () => {
+  writeJobs(readJobs().filter(job => job.status !== 'delivered'));
+};
+
+// Calls the listener with the jobs now and after every change; returns the unsubscribe function
+export const subscribeOutbox = (listener: OutboxListener): (() => void) => {
+  listeners.add(listener);
+  listener(readJobs());
+  return () => { listeners.delete(listener); };
+};
+
+/**
+ * Starts sending: now, whenever the device comes back online, and when retries fall due.
+ * Jobs left 'sending' by a closed app are queued again. Returns the cleanup function.
+ */
+export const startOutbox = (): (() => void) => {
+  if (!running) writeJobs(readJobs().map(job => job.status === 'sending' ? { ...job, status: 'queued' } : job));
+  const handleOnline = () => { processOutbox(); };
+  window.addEventListener('online', handleOnline);
+  processOutbox();
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+  };
+};
@@ -0,0 +1,221 @@
+import { deliveryConfig } from "../config";
+import { DeliveryChannel, DeliveryJob, DeliveryProgress, StudentInfo } from "../types";
+import { blobToBase64 } from "../utils/share";
+
+// A way of getting a graded PDF to a student. send() resolves once the far end has accepted it.
+// Sends made of several steps skip those in job.progress and report each one they finish through
+// saveProgress, which records it on the job before the next step starts.
+export interface DeliveryTransport {
+  channel: DeliveryChannel;
+  send(job: DeliveryJob, pdf: Blob, saveProgress: (progress: DeliveryProgress) => void): Promise<void>;
+}
+
+// Failed send; `status` is the HTTP status when the server answered, so the outbox can tell
+// a rejected send (not worth retrying) from a temporary failure
+export interface DeliveryError extends Error {
+  status?: number;
+}
+
+const deliveryError = (message: string, status?: number): DeliveryError => {
+  return Object.assign(new Error(message), { status });
+};
+
+// 4xx means the request itself is wrong (unknown student, bad token...); timeouts and rate limits pass
+export const isPermanentFailure = (error: unknown): boolean => {
+  const status = (error as DeliveryError | undefined)?.status;
+  return status !== undefined && status >= 400 && status < 500 && status !== 408 && status !== 429;
+};
+
+// Helper to call a REST endpoint, turning error responses into DeliveryErrors
+const request = async <T>(url: string, init: RequestInit, what: string): Promise<T> => {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    const detail = (await response.text().catch(() => '')).slice(0, 200);
+    throw deliveryError(`${what} failed (${response.status})${detail ? `: ${detail}` : ''}`, response.status);
+  }
+  const text = await response.text();
+  return (text ? JSON.parse(text) : undefined) as T;
+};
+
+// The grade scaled onto the LMS assignment's own point value
+const scaledGrade = (job: DeliveryJob, maxPoints?: number): number | undefined => {
+  if (!maxPoints || job.possible <= 0) return undefined;
+  return Math.round((job.awarded / job.possible) * maxPoints * 100) / 100;
+};
+
+// No token means a proxy in front of the LMS adds it, keeping it out of the app bundle
+const bearer = (token: string): Record<string, string> => token ? { Authorization: `Bearer ${token}` } : {};
+
+const sameTitle = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// --- Email (companion mailer) ---
+// POSTs the message as JSON with the PDF in base64; the mailer relays it over SMTP
+
+export const createEmailTransport = (mailerUrl: string, token: string): DeliveryTransport => ({
+  channel: 'email',
+  send: async (job, pdf) => {
+    if (!job.student.email) throw deliveryError(`${job.student.name} has no email address`, 422);
+    await request(mailerUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...bearer(token),
+      },
+      body: JSON.stringify({
+        to: job.student.email,
+        toName: job.student.name,
+        subject: job.subject,
+        text: job.message,
+        attachment: { fileName: job.fileName, contentType: 'application/pdf', content: await blobToBase64(pdf) },
+      }),
+    }, 'Sending email');
+  },
+});
+
+// --- Canvas ---
+// The PDF is attached to a comment on the student's submission, which also posts the grade
+
+interface CanvasAssignment { id: number; name: string; points_possible?: number }
+interface CanvasUser { id: number; email?: string; login_id?: string }
+interface CanvasUpload { upload_url: string; upload_params: Record<string, string> }
+
+export const createCanvasTransport = (baseUrl: string, token: string, courseId: string): DeliveryTransport => {
+  const api = `${baseUrl.replace(/\/$/, '')}/api/v1/courses/${encodeURIComponent(courseId)}`;
+  const auth = bearer(token);
+
+  const findStudent = async (student: StudentInfo): Promise<CanvasUser> => {
+    const query = new URLSearchParams({ search_term: student.email || student.name, 'enrollment_type[]': 'student' });
+    const users = await request<CanvasUser[]>(`${api}/users?${query}`, { headers: auth }, 'Finding the student in Canvas');
+    const email = student.email.toLowerCase();
+    // Canvas hides emails from some roles; a single search hit is then taken as the student
+    const user = users.find(u => u.email?.toLowerCase() === email || u.login_id?.toLowerCase() === email)
+      || (users.length === 1 ? users[0] : undefined);
+    if (!user) throw deliveryError(`${student.name} is not enrolled in the Canvas course`, 404);
+    return user;
+  };
+
+  return {
+    channel: 'canvas',
+    send: async (job, pdf, saveProgress) => {
+      // 1. Look up the assignment by title and the student by email
+      const query = new URLSearchParams({ search_term: job.assignment, per_page: '50' });
+      const assignments = await request<CanvasAssignment[]>(`${api}/assignments?${query}`, { headers: auth }, 'Finding the Canvas assignment');
+      const assignment = assignments.find(a => sameTitle(a.name, job.assignment));
+      if (!assignment) throw deliveryError(`No Canvas assignment named "${job.assignment}"`, 404);
+      const user = await findStudent(job.student);
+      const submission = `${api}/assignments/${assignment.id}/submissions/${user.id}`;
+
+      // 2. Upload the PDF, unless an earlier attempt did: Canvas hands out an upload URL, which takes the file as a form post
+      let fileId = job.progress?.fileId;
+      if (!fileId) {
+        const upload = await request<CanvasUpload>(`${submission}/comments/files`, {
+          method: 'POST',
+          headers: auth,
+          body: new URLSearchParams({ name: job.fileName, size: String(pdf.size), content_type: 'application/pdf' }),
+        }, 'Starting the Canvas upload');
+        const form = new FormData();
+        Object.entries(upload.upload_params).forEach(([key, value]) => form.append(key, value));
+        form.append('file', pdf, job.fileName);
+        const file = await request<{ id: number }>(upload.upload_url, { method: 'POST', body: form }, 'Uploading the PDF to Canvas');
+        fileId = String(file.id);
+        saveProgress({ fileId });
+      }
+
+      // 3. Comment with the file attached, and the grade
+      const update = new URLSearchParams({ 'comment[text_comment]': job.message, 'comment[file_ids][]': fileId });
+      const grade = scaledGrade(job, assignment.points_possible);
+      if (grade !== undefined) update.append('submission[posted_grade]', String(grade));
+      await request(submission, { method: 'PUT', headers: auth, body: update }, 'Updating the Canvas submission');
+    },
+  };
+};
+
+// --- Google Classroom ---
+// Classroom doesn't let a teacher attach files to a student's submission, so the grade is set there and
+// the PDF is uploaded to the teacher's Drive and shared with the student, who gets Drive's email
+
+interface ClassroomCourseWork { id: string; title: string; maxPoints?: number }
+interface ClassroomSubmission { id: string }
+
+export const createClassroomTransport = (baseUrl: string, driveUrl: string, token: string, courseId: string): DeliveryTransport => {
+  const api = `${baseUrl.replace(/\/$/, '')}/v1/courses/${encodeURIComponent(courseId)}`;
+  const drive = driveUrl.replace(/\/$/, '');
+  const auth = bearer(token);
+
+  // Drive's multipart upload: file metadata and contents in one multipart/related body
+  const uploadToDrive = async (job: DeliveryJob, pdf: Blob): Promise<string> => {
+    const boundary = `smartgrade-${Date.now().toString(36)}`;
+    const body = new Blob([
+      `--${boundary}\r\nContent-Type: application/json; charset=UTF-8\r\n\r\n`,
+      JSON.stringify({ name: job.fileName, mimeType: 'application/pdf' }),
+      `\r\n--${boundary}\r\nContent-Type: application/pdf\r\n\r\n`,
+      pdf,
+      `\r\n--${boundary}--`,
+    ]);
+    const file = await request<{ id: string }>(`${drive}/upload/drive/v3/files?uploadType=multipart`, {
+      method: 'POST',
+      headers: { ...auth, 'Content-Type': `multipart/related; boundary=${boundary}` },
+      body,
+    }, 'Uploading the PDF to Drive');
+    return file.id;
+  };
+
+  return {
+    channel: 'classroom',
+    send: async (job, pdf, saveProgress) => {
+      if (!job.student.email) throw deliveryError(`${job.student.name} has no email address`, 422);
+
+      // 1. Look up the coursework by title and the student's submission to it
+      const { courseWork = [] } = await request<{ courseWork?: ClassroomCourseWork[] }>(
+        `${api}/courseWork?pageSize=100`, { headers: auth }, 'Finding the Classroom assignment');
+      const work = courseWork.find(w => sameTitle(w.title, job.assignment));
+      if (!work) throw deliveryError(`No Classroom assignment named "${job.assignment}"`, 404);
+      const { studentSubmissions = [] } = await request<{ studentSubmissions?: ClassroomSubmission[] }>(
+        `${api}/courseWork/${work.id}/studentSubmissions?userId=${encodeURIComponent(job.student.email)}`,
+        { headers: auth }, 'Finding the Classroom submission');
+      if (studentSubmissions.length === 0) throw deliveryError(`${job.student.name} is not enrolled in the Classroom course`, 404);
+
+      // 2. Set the grade, when the coursework is graded
+      const grade = scaledGrade(job, work.maxPoints);
+      if (grade !== undefined && !job.progress?.graded) {
+        await request(`${api}/courseWork/${work.id}/studentSubmissions/${studentSubmissions[0].id}?updateMask=draftGrade,assignedGrade`, {
+          method: 'PATCH',
+          headers: { ...auth, 'Content-Type': 'application/json' },
+          body: JSON.stringify({ draftGrade: grade, assignedGrade: grade }),
+        }, 'Setting the Classroom grade');
+        saveProgress({ graded: true });
+      }
+
+      // 3. Share the PDF with the student, uploading it unless an earlier attempt did
+      let fileId = job.progress?.fileId;
+      if (!fileId) {
+        fileId = await uploadToDrive(job, pdf);
+        saveProgress({ fileId });
+      }
+      const query = new URLSearchParams({ sendNotificationEmail: 'true', emailMessage: job.message });
+      await request(`${drive}/drive/v3/files/${fileId}/permissions?${query}`, {
+        method: 'POST',
+        headers: { ...auth, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type: 'user', role: 'reader', emailAddress: job.student.email }),
+      }, 'Sharing the PDF with the student');
+    },
+  };
+};
+
+// --- Configured transports ---
+
+const lmsTransport = (): DeliveryTransport | null => {
+  const { lms, lmsUrl, lmsToken, lmsCourseId, driveUrl } = deliveryConfig;
+  if (!lms || !lmsUrl || !lmsCourseId) return null;
+  return lms === 'canvas'
+    ? createCanvasTransport(lmsUrl, lmsToken, lmsCourseId)
+    : createClassroomTransport(lmsUrl, driveUrl, lmsToken, lmsCourseId);
+};
+
+export const configuredTransports = (): DeliveryTransport[] => {
+  const transports: DeliveryTransport[] = [];
+  if (deliveryConfig.mailerUrl) transports.push(createEmailTransport(deliveryConfig.mailerUrl, deliveryConfig.mailerToken));
+  const lms = lmsTransport();
+  if (lms) transports.push(lms);
+  return transports;
+};
@@ -0,0 +1,133 @@
+import { importConfig } from "../config";
+import { decodeTiff } from "../utils/tiffDecoder";
+import { canvasToFile, toCanvas } from "./captureService";
+
+// Turns uploads into one image file per page: PDFs and multi-page TIFFs are rasterized at the
+// configured DPI, photos pass through untouched.
+
+// File picker filter for uploads that may contain documents
+export const UPLOAD_ACCEPT = 'image/*,application/pdf,.pdf,.tif,.tiff';
+
+const PDF_POINTS_PER_INCH = 72;
+const MAX_PAGE_SIDE = 4000; // Guards against poster-sized pages
+
+export interface ImportedPage {
+  file: File;
+  fromDocument: boolean; // Rasterized from a PDF or TIFF, so already flat and cropped
+}
+
+// The slice of the pdf.js API used here (loaded at runtime, so there are no package typings)
+interface PdfJsViewport {
+  width: number;
+  height: number;
+}
+
+interface PdfJsPage {
+  getViewport(params: { scale: number }): PdfJsViewport;
+  render(params: { canvasContext: CanvasRenderingContext2D; viewport: PdfJsViewport }): { promise: Promise<void> };
+  cleanup(): void;
+}
+
+interface PdfJsDocument {
+  numPages: number;
+  getPage(pageNumber: number): Promise<PdfJsPage>;
+  destroy(): Promise<void>;
+}
+
+interface PdfJsModule {
+  GlobalWorkerOptions: { workerSrc: string };
+  getDocument(params: { data: Uint8Array }): { promise: Promise<PdfJsDocument> };
+}
+
+let pdfJsPromise: Promise<PdfJsModule> | null = null;
+
+const loadPdfJs = (): Promise<PdfJsModule> => {
+  if (!pdfJsPromise) {
+    pdfJsPromise = import(/* @vite-ignore */ importConfig.pdfjsUrl).then((pdfjs: PdfJsModule) => {
+      pdfjs.GlobalWorkerOptions.workerSrc = importConfig.pdfjsWorkerUrl;
+      return pdfjs;
+    });
+    pdfJsPromise.catch(() => { pdfJsPromise = null; }); // Allow a retry once back online
+  }
+  return pdfJsPromise;
+};
+
+const isPdf = (file: File) => file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+
+const isTiff = (file: File) => file.type === 'image/tiff' || /\.tiff?$/i.test(file.name);
+
+// Helper to name page n of a document, e.g. "scan.pdf" -> "scan-p3"
+const pageName = (file: File, pageNumber: number) => `${file.name.replace(/\.[^.]+$/, '')}-p${pageNumber}`;
+
+const rasterizePdf = async (file: File, dpi: number): Promise<File[]> => {
+  const pdfjs = await loadPdfJs();
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  const files: File[] = [];
+
+  try {
+    for (let n = 1; n <= pdf.numPages; n++) {
+      const page = await pdf.getPage(n);
+      const natural = page.getViewport({ scale: 1 });
+      const scale = Math.min(dpi / PDF_POINTS_PER_INCH, MAX_PAGE_SIDE / Math.max(natural.width, natural.height));
+      const viewport = page.getViewport({ scale });
+
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(viewport.width);
+      canvas.height = Math.round(viewport.height);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error("No context");
+
+      // Transparent PDFs would otherwise turn black in the JPEG
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      await page.render({ canvasContext: ctx, viewport }).promise;
+      page.cleanup();
+
+      files.push(await canvasToFile(canvas, pageName(file, n)));
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return files;
+};
+
+const rasterizeTiff = async (file: File, dpi: number): Promise<File[]> => {
+  const pages = await decodeTiff(await file.arrayBuffer());
+  const files: File[] = [];
+
+  for (const [index, { image, dpi: sourceDpi }] of pages.entries()) {
+    // Scanners often save at 300-600 DPI; bring those down to the target (never up)
+    const scale = Math.min(1, sourceDpi ? dpi / sourceDpi : 1, MAX_PAGE_SIDE / Math.max(image.width, image.height));
+    const source = toCanvas(image);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(image.width * scale));
+    canvas.height = Math.max(1, Math.round(image.height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("No context");
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+    files.push(await canvasToFile(canvas, pageName(file, index + 1)));
+  }
+
+  return files;
+};
+
+// Expands every document into its pages, keeping upload order
+export const importFiles = async (files: File[], dpi: number = importConfig.dpi): Promise<ImportedPage[]> => {
+  const pages: ImportedPage[] = [];
+
+  for (const file of files) {
+    if (isPdf(file)) {
+      (await rasterizePdf(file, dpi)).forEach(page => pages.push({ file: page, fromDocument: true }));
+    } else if (isTiff(file)) {
+      (await rasterizeTiff(file, dpi)).forEach(page => pages.push({ file: page, fromDocument: true }));
+    } else {
+      pages.push({ file, fromDocument: false });
+    }
+  }
+
+  return pages;
+};
@@ -1,59 +1,12 @@
 import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { GradingMark, ExamPage } from "../types";
-
-// Helper to convert file to base64
-const fileToGenerativePart = async (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const base64String = reader.result as string;
-      const base64Data = base64String.split(',')[1];
-      resolve(base64Data);
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
-  });
-};
+import { describeAnswerKey } from "../utils/answerKey";
+import { describeProfile, describeTone } from "../utils/gradingProfiles";
+import { languageName } from "../i18n";
+import { formatPoints } from "../utils/scoring";
+import { ExplainMarkRequest, GradePageOptions, GradingProvider, PageImage, fieldsOf, normalizeCoverPageResult, normalizeModelResult, optionalString } from "./gradingProvider";
 
-// Helper to rotate image data url
-const rotateImage = async (imageUrl: string, angle: number): Promise<string> => {
-  if (angle === 0) return imageUrl;
-  
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.crossOrigin = "anonymous";
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      // Swap dimensions for 90 and 270 degree rotations
-      if (angle === 90 || angle === 270) {
-        canvas.width = img.height;
-        canvas.height = img.width;
-      } else {
-        canvas.width = img.width;
-        canvas.height = img.height;
-      }
-      
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return reject(new Error("No context"));
-      
-      ctx.translate(canvas.width / 2, canvas.height / 2);
-      ctx.rotate((angle * Math.PI) / 180);
-      ctx.drawImage(img, -img.width / 2, -img.height / 2);
-      
-      // Return high quality jpeg
-      resolve(canvas.toDataURL('image/jpeg', 0.95));
-    };
-    img.onerror = reject;
-    img.src = imageUrl;
-  });
-};
-
-interface GradingResult {
-  marks: GradingMark[];
-  processedPages: ExamPage[];
-}
-
-export const gradeExamPages = async (pages: ExamPage[]): Promise<GradingResult> => {
+// Helper to create the client from the configured API key
+const createClient = (): GoogleGenAI => {
   // VITE SPECIFIC: Access environment variable via import.meta.env
   const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
   
@@ -62,145 +15,244 @@ export const gradeExamPages = async (pages: ExamPage[]): Promise<GradingResult>
     throw new Error("API Key not configured");
   }
 
-  const ai = new GoogleGenAI({ apiKey });
-  const allMarks: GradingMark[] = [];
-  const processedPages: ExamPage[] = [...pages];
-
-  for (let i = 0; i < pages.length; i++) {
-    const page = pages[i];
-    const base64Data = await fileToGenerativePart(page.file);
-
-    const prompt = `
-      You are an expert academic grader. Analyze this image of an exam paper.
-      
-      Step 1: Detect Orientation & Language
-      1. Determine if the image needs rotation to be upright. Return 'rotation_needed' as one of [0, 90, 180, 270].
-      2. Detect the primary language of the exam content. Return 'detected_language' as 'zh' (Chinese) or 'en' (English).
-
-      Step 2: Grade & Analyze
-      Identify every student answer. For each answer:
-      1. Determine if it is 'correct' or 'incorrect'.
-      2. Estimate the center position (x, y percentages 0-100) relative to the image AS IT IS CURRENTLY (before rotation).
-      3. Extract the 'question_text' (brief summary).
-      4. Extract the 'student_answer' (what was written).
-      5. Provide an 'explanation' of why it is right or wrong, and the 'correct_answer' if applicable.
-      
-      CRITICAL LANGUAGE RULE: 
-      - The content of 'question', 'student_answer', 'correct_answer', and 'explanation' MUST be in the DETECTED LANGUAGE of the exam.
-      - If the exam is in Chinese, use Chinese. If English, use English.
-    `;
-
-    const responseSchema: Schema = {
-      type: Type.OBJECT,
-      properties: {
-        rotation_needed: { 
-          type: Type.INTEGER, 
-          description: "Degrees clockwise to rotate image. One of 0, 90, 180, 270." 
-        },
-        detected_language: {
-          type: Type.STRING,
-          enum: ["en", "zh"],
-          description: "Primary language of the exam text. 'zh' for Chinese, 'en' for English."
-        },
-        marks: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              x: { type: Type.NUMBER, description: "X coordinate percentage (0-100)" },
-              y: { type: Type.NUMBER, description: "Y coordinate percentage (0-100)" },
-              status: { type: Type.STRING, enum: ["correct", "incorrect"] },
-              question: { type: Type.STRING, description: "The text of the question" },
-              student_answer: { type: Type.STRING, description: "The answer provided by the student" },
-              correct_answer: { type: Type.STRING, description: "The correct answer (if applicable)" },
-              explanation: { type: Type.STRING, description: "Brief explanation of grading" },
-            },
-            required: ["x", "y", "status"],
-          }
-        }
+  return new GoogleGenAI({ apiKey });
+};
+
+const buildGradingRequest = (options: GradePageOptions) => {
+  const { answerKey, profile, feedbackLanguage } = options;
+
+  // Marks follow the exam's own language unless the teacher asked for theirs
+  const languageRule = feedbackLanguage ? `
+    - Write 'question', 'correct_answer' and 'explanation' in ${languageName(feedbackLanguage)}, whatever the language of the exam.
+    - Transcribe 'student_answer' exactly as written, in the student's own language.
+  ` : `
+    - The content of 'question', 'student_answer', 'correct_answer', and 'explanation' MUST be in the DETECTED LANGUAGE of the exam.
+    - If the exam is in Chinese, use Chinese. If Spanish, use Spanish. And so on for any language.
+  `;
+
+  const prompt = `
+    You are an expert academic grader. Analyze this image of an exam paper.
+    
+    Step 1: Detect Orientation & Language
+    1. Determine if the image needs rotation to be upright. Return 'rotation_needed' as one of [0, 90, 180, 270].
+    2. Detect the primary language of the exam content. Return 'detected_language' as its ISO 639-1 code, e.g. 'en', 'zh', 'es', 'fr', 'ja', 'de'.
+
+    Step 2: Grade & Analyze
+    Identify every question on the page, including any the student left blank. For each question:
+    1. Determine if the answer is 'correct', 'partial' (partly right, deserves some credit) or 'incorrect'.
+       If nothing was written (or only crossed out), use 'unanswered', award 0 points and place x, y where the answer belongs.
+       Return 'points_possible' (the value printed on the paper, or 1 if none) and 'points_awarded' (0 to points_possible).
+    2. Estimate the center position (x, y percentages 0-100) relative to the image AS IT IS CURRENTLY (before rotation).
+       Also return 'answer_box', the smallest box around everything the student wrote for it, and if you can,
+       'question_box' around the printed question. Boxes are x_min, y_min, x_max, y_max percentages in the same frame.
+       For an unanswered question, 'answer_box' is the empty space meant for the answer.
+    3. Extract the 'question_text' (brief summary).
+    4. Extract the 'student_answer' (what was written).
+    5. Provide an 'explanation' of why it is right or wrong, and the 'correct_answer' if applicable.
+    6. Return 'confidence' from 0 to 1: how sure you are that you read the answer correctly AND judged it
+       correctly. Use a low value for messy work, ambiguous answers or verdicts you could argue either way.
+    7. If the handwriting is too unclear to read with certainty, set 'illegible' to true and give your best guess
+       in 'student_answer'.
+    8. If the student worked the answer out over several lines (a calculation, derivation or proof), return
+       'steps': each line of working in the order written, with its own 'verdict' ('correct' or 'incorrect'),
+       a 'box' around it (same frame as 'answer_box') and, for a wrong step, a short 'comment' on the mistake.
+       A step that follows correctly from an earlier mistake is 'correct'. Return 'first_error_step', the
+       1-based number of the first wrong step, and keep 'student_answer' for the final result only.
+       If the method is sound but the result is wrong, give credit for the method: return 'method_points',
+       the part of 'points_awarded' earned by the working alone.
+    
+    MATH RULE: Write every formula, equation or expression as LaTeX between dollar signs, e.g. $\\frac{3}{4}$,
+    $x^2 - 9 = (x - 3)(x + 3)$, or between double dollars for a formula on its own line. This applies to
+    'question', 'student_answer', 'correct_answer', 'explanation' and the steps. Write a literal dollar sign as \\$.
+
+    CRITICAL LANGUAGE RULE: ${languageRule}
+  `;
+
+  // When an answer key is attached, the model must report which key question each answer belongs to
+  const keyPrompt = answerKey && answerKey.entries.length > 0 ? `
+    ANSWER KEY:
+    The teacher has provided the following answer key. For each answer, return 'question_id' as the
+    label of the matching key question exactly as written below. Grade against the key: an answer is
+    'correct' only if it matches the expected answer or an accepted alternative, or is clearly an
+    equivalent form of it. Use the point value in brackets as 'points_possible'. If an answer does not belong to any key question, omit 'question_id'.
+${describeAnswerKey(answerKey)}
+  ` : "";
+
+  // Subject rules, strictness, tone and the teacher's own instructions
+  const profileRules = profile ? describeProfile(profile) : "";
+  const profilePrompt = profileRules ? `
+    GRADING RULES:
+    Follow these rules when judging answers and writing explanations. They take precedence over your
+    own defaults, but not over the answer key or the language rule.
+${profileRules}
+  ` : "";
+
+  const boxSchema = (description: string): Schema => ({
+    type: Type.OBJECT,
+    description,
+    properties: {
+      x_min: { type: Type.NUMBER },
+      y_min: { type: Type.NUMBER },
+      x_max: { type: Type.NUMBER },
+      y_max: { type: Type.NUMBER },
+    },
+    required: ["x_min", "y_min", "x_max", "y_max"],
+  });
+
+  const responseSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+      rotation_needed: { 
+        type: Type.INTEGER, 
+        description: "Degrees clockwise to rotate image. One of 0, 90, 180, 270." 
       },
-      required: ["rotation_needed", "marks"],
-    };
-
-    try {
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.0-flash', // Using 2.0 Flash as requested for latest stable, or switch to 3-pro if available in your tier
-        contents: {
-          parts: [
-            { inlineData: { mimeType: page.file.type || 'image/jpeg', data: base64Data } },
-            { text: prompt }
-          ]
-        },
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: responseSchema,
-          temperature: 0.1,
-        }
-      });
-
-      const jsonText = response.text;
-      if (jsonText) {
-        const result = JSON.parse(jsonText);
-        const rotation = result.rotation_needed || 0;
-        const language = result.detected_language || 'en';
-        let pageMarks = result.marks || [];
-
-        // If rotation is needed, we update the page image and transform marks
-        if (rotation !== 0) {
-          // 1. Rotate Image
-          const newImageUrl = await rotateImage(page.imageUrl, rotation);
-          processedPages[i] = { 
-            ...page, 
-            imageUrl: newImageUrl,
-            detectedLanguage: language 
-          };
-
-          // 2. Transform Marks
-          pageMarks = pageMarks.map((m: any) => {
-            let nx = m.x;
-            let ny = m.y;
-            
-            if (rotation === 90) {
-              nx = 100 - m.y;
-              ny = m.x;
-            } else if (rotation === 180) {
-              nx = 100 - m.x;
-              ny = 100 - m.y;
-            } else if (rotation === 270) {
-              nx = m.y;
-              ny = 100 - m.x;
-            }
-            
-            return { ...m, x: nx, y: ny };
-          });
-        } else {
-          // Just update language
-           processedPages[i] = { 
-            ...page, 
-            detectedLanguage: language 
-          };
+      detected_language: {
+        type: Type.STRING,
+        description: "ISO 639-1 code of the primary language of the exam text, e.g. 'en', 'zh', 'es'."
+      },
+      marks: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            question_id: { type: Type.STRING, description: "Question label, matching the answer key if one is provided" },
+            x: { type: Type.NUMBER, description: "X coordinate percentage (0-100)" },
+            y: { type: Type.NUMBER, description: "Y coordinate percentage (0-100)" },
+            answer_box: boxSchema("Box around the student's answer, percentages (0-100)"),
+            question_box: boxSchema("Box around the printed question, percentages (0-100)"),
+            status: { type: Type.STRING, enum: ["correct", "partial", "incorrect", "unanswered"] },
+            points_awarded: { type: Type.NUMBER, description: "Points earned, between 0 and points_possible" },
+            points_possible: { type: Type.NUMBER, description: "Maximum points for this question" },
+            question: { type: Type.STRING, description: "The text of the question" },
+            student_answer: { type: Type.STRING, description: "The answer provided by the student" },
+            correct_answer: { type: Type.STRING, description: "The correct answer (if applicable)" },
+            explanation: { type: Type.STRING, description: "Brief explanation of grading" },
+            confidence: { type: Type.NUMBER, description: "How sure the reading and verdict are, from 0 to 1" },
+            illegible: { type: Type.BOOLEAN, description: "True if the handwriting could not be read with certainty" },
+            steps: {
+              type: Type.ARRAY,
+              description: "Lines of working in the order written, for multi-step answers",
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  text: { type: Type.STRING, description: "The step as written" },
+                  verdict: { type: Type.STRING, enum: ["correct", "incorrect"] },
+                  box: boxSchema("Box around the step, percentages (0-100)"),
+                  comment: { type: Type.STRING, description: "What is wrong with the step" },
+                },
+                required: ["text", "verdict"],
+              },
+            },
+            first_error_step: { type: Type.INTEGER, description: "1-based number of the first wrong step, if any" },
+            method_points: { type: Type.NUMBER, description: "Points awarded for the working, included in points_awarded" },
+          },
+          required: ["x", "y", "status", "confidence"],
         }
+      }
+    },
+    required: ["rotation_needed", "marks"],
+  };
+
+  return { prompt: prompt + profilePrompt + keyPrompt, responseSchema };
+};
+
+const buildCoverPageRequest = () => {
+  const prompt = `
+    This image is one page from a stack of scanned exams belonging to several students.
+    1. Decide whether this page is the FIRST page of a student's exam: it has a filled-in name field,
+       a title block or a cover sheet. Return 'is_cover_page'.
+    2. If it is, transcribe the handwritten student name into 'student_name'.
+  `;
+
+  const responseSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+      is_cover_page: { type: Type.BOOLEAN, description: "True if this page starts a new student's exam" },
+      student_name: { type: Type.STRING, description: "The student's name as written on the page" },
+    },
+    required: ["is_cover_page"],
+  };
+
+  return { prompt, responseSchema };
+};
+
+const buildExplanationRequest = ({ mark, language, profile }: ExplainMarkRequest) => {
+  const points = mark.pointsPossible !== undefined
+    ? ` (${formatPoints(mark.pointsAwarded ?? 0)} of ${formatPoints(mark.pointsPossible)} points)`
+    : "";
+  // The working as the teacher left it, so the explanation can point at the step that went wrong
+  const working = mark.steps ? `    Working:
+${mark.steps.map((s, i) => `      ${i + 1}. ${s.text} (${s.verdict})`).join("\n")}
+${mark.methodPoints ? `    ${formatPoints(mark.methodPoints)} of the points are for the method.\n` : ""}` : "";
+
+  const prompt = `
+    You are an expert academic grader. Look at the answer on this exam page near x=${mark.x.toFixed(1)}%, y=${mark.y.toFixed(1)}%.
+    Question: ${mark.question || "(not recorded)"}
+    Student answer: ${mark.studentAnswer || "(not recorded)"}
+    Correct answer: ${mark.correctAnswer || "(not recorded)"}
+${working}
+    The teacher has graded this answer as '${mark.status}'${points}. Do not argue with this verdict.
+    Write a short 'explanation' for the student of why the answer earns this grade and what to fix.
+    Write it in ${languageName(language)}.
+    ${profile ? describeTone(profile) : ""}
+  `;
 
-        // Add ID, pageIndex, and map textual fields
-        pageMarks.forEach((m: any) => {
-          allMarks.push({
-            id: `mark-${page.id}-${Math.random().toString(36).substr(2, 9)}`,
-            x: m.x,
-            y: m.y,
-            status: m.status,
-            pageIndex: i,
-            question: m.question || (language === 'zh' ? "题目" : "Question"),
-            studentAnswer: m.student_answer || (language === 'zh' ? "未知" : "Unknown"),
-            correctAnswer: m.correct_answer || "-",
-            explanation: m.explanation || (language === 'zh' ? "无解析" : "No explanation provided.")
-          });
-        });
+  const responseSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+      explanation: { type: Type.STRING, description: "Brief explanation of the teacher's grading" },
+    },
+    required: ["explanation"],
+  };
+
+  return { prompt, responseSchema };
+};
+
+export const createGeminiProvider = (model: string): GradingProvider => {
+  // The client is created lazily so a missing key only fails when Gemini is actually used
+  let client: GoogleGenAI | null = null;
+  const getClient = () => client || (client = createClient());
+
+  // The parsed JSON is unchecked; callers narrow it
+  const generateJson = async (page: PageImage, prompt: string, responseSchema: Schema, temperature: number): Promise<unknown> => {
+    const response = await getClient().models.generateContent({
+      model,
+      contents: {
+        parts: [
+          { inlineData: { mimeType: page.mimeType, data: page.base64Data } },
+          { text: prompt }
+        ]
+      },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: responseSchema,
+        temperature,
       }
-    } catch (error) {
-      console.error(`Error grading page ${i + 1}:`, error);
-      throw error;
-    }
-  }
+    });
+    return response.text ? JSON.parse(response.text) : {};
+  };
+
+  return {
+    name: `gemini:${model}`,
+
+    gradePage: async (page, options) => {
+      const { prompt, responseSchema } = buildGradingRequest(options);
+      const result = await generateJson(page, prompt, responseSchema, 0.1);
+      return normalizeModelResult(result);
+    },
 
-  return { marks: allMarks, processedPages };
+    detectCoverPage: async (page) => {
+      const { prompt, responseSchema } = buildCoverPageRequest();
+      return normalizeCoverPageResult(await generateJson(page, prompt, responseSchema, 0));
+    },
+
+    explainMark: async (page, request) => {
+      const { prompt, responseSchema } = buildExplanationRequest(request);
+      const explanation = optionalString(fieldsOf(await generateJson(page, prompt, responseSchema, 0.3)).explanation);
+      if (!explanation) {
+        throw new Error("The model returned no explanation");
+      }
+      return explanation.trim();
+    },
+  };
 };
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { GradebookEntry, RosterStudent, StudentInfo } from "../types";
+
+// Roster and gradebook are small JSON documents, so localStorage is enough on both web and native
+const ROSTER_KEY = "smartgrade.roster";
+const GRADEBOOK_KEY = "smartgrade.gradebook";
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : fallback;
+  } catch (error) {
+    console.error(`Failed to read ${key}`, error);
+    return fallback;
+  }
+};
+
+const writeJson = (key: string, value: unknown) => {
+  localStorage.setItem(key, JSON.stringify(value));
+};
+
+// --- Roster ---
+
+export const loadRoster = (): RosterStudent[] => readJson<RosterStudent[]>(ROSTER_KEY, []);
+
+export const saveRoster = (roster: RosterStudent[]) => writeJson(ROSTER_KEY, roster);
+
+// Adds imported students, updating existing ones matched by student number or email
+export const mergeRoster = (imported: RosterStudent[]): RosterStudent[] => {
+  const roster = loadRoster();
+  for (const student of imported) {
+    const existing = roster.find(s =>
+      (student.studentNumber && s.studentNumber === student.studentNumber) ||
+      (student.email && s.email.toLowerCase() === student.email.toLowerCase())
+    );
+    if (existing) {
+      Object.assign(existing, { name: student.name, email: student.email || existing.email, studentNumber: student.studentNumber || existing.studentNumber });
+    } else {
+      roster.push(student);
+    }
+  }
+  saveRoster(roster);
+  return roster;
+};
+
+// --- Gradebook ---
+
+export const loadGradebook = (): GradebookEntry[] => readJson<GradebookEntry[]>(GRADEBOOK_KEY, []);
+
+const isSameStudent = (a: StudentInfo, b: StudentInfo) => {
+  if (a.studentId && b.studentId) return a.studentId === b.studentId;
+  return a.name.trim().toLowerCase() === b.name.trim().toLowerCase();
+};
+
+// Records a result, replacing the student's earlier result for the same assignment (re-exports overwrite)
+export const recordGrade = (entry: GradebookEntry) => {
+  const gradebook = loadGradebook().filter(e => !(e.assignment === entry.assignment && isSameStudent(e.student, entry.student)));
+  writeJson(GRADEBOOK_KEY, [...gradebook, entry]);
+};
+
+export const deleteGradebookEntry = (id: string) => {
+  writeJson(GRADEBOOK_KEY, loadGradebook().filter(e => e.id !== id));
+};
+
+// Assignment names, most recently graded first
+export const listAssignments = (): string[] => {
+  const latest = new Map<string, number>();
+  loadGradebook().forEach(e => latest.set(e.assignment, Math.max(latest.get(e.assignment) || 0, e.recordedAt)));
+  return [...latest.entries()].sort((a, b) => b[1] - a[1]).map(([name]) => name);
+};
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { normalizeCoverPageResult, normalizeModelResult } from "./gradingProvider";
+
+describe("normalizeModelResult", () => {
+  it("maps snake_case fields onto a mark", () => {
+    const result = normalizeModelResult({
+      rotation_needed: 90,
+      detected_language: "en",
+      marks: [{
+        question_id: "3",
+        x: 40,
+        y: 60,
+        status: "partial",
+        points_awarded: 1,
+        points_possible: 2,
+        question: "2 + 2",
+        student_answer: "5",
+        correct_answer: "4",
+        explanation: "Off by one",
+        method_points: 1,
+        confidence: 0.8,
+      }],
+    });
+
+    expect(result.rotation).toBe(90);
+    expect(result.language).toBe("en");
+    expect(result.marks).toEqual([{
+      questionId: "3",
+      x: 40,
+      y: 60,
+      answerBox: undefined,
+      questionBox: undefined,
+      status: "partial",
+      pointsAwarded: 1,
+      pointsPossible: 2,
+      question: "2 + 2",
+      studentAnswer: "5",
+      correctAnswer: "4",
+      explanation: "Off by one",
+      steps: undefined,
+      methodPoints: 1,
+      confidence: 0.8,
+      illegible: undefined,
+    }]);
+  });
+
+  it("falls back for anything that isn't an object", () => {
+    for (const raw of [null, undefined, "oops", 42, []]) {
+      expect(normalizeModelResult(raw)).toEqual({ rotation: 0, language: "en", marks: [] });
+    }
+  });
+
+  it("treats unknown values as their safe defaults", () => {
+    const { rotation, language, marks } = normalizeModelResult({
+      rotation_needed: 45,
+      detected_language: "Chinese",
+      marks: [{ x: "10", y: 250, status: "great", points_awarded: NaN, illegible: "yes" }, "junk"],
+    });
+
+    expect(rotation).toBe(0);
+    expect(language).toBe("en");
+    expect(marks).toHaveLength(2);
+    expect(marks[0]).toMatchObject({ x: 50, y: 100, status: "incorrect", pointsAwarded: undefined, illegible: undefined });
+    expect(marks[1]).toMatchObject({ x: 50, y: 50, status: "incorrect" });
+  });
+
+  it("reduces region tags to the base language", () => {
+    expect(normalizeModelResult({ detected_language: "zh-CN" }).language).toBe("zh");
+    expect(normalizeModelResult({ detected_language: "JA" }).language).toBe("ja");
+  });
+
+  it("reads confidence given as a percentage", () => {
+    const { marks } = normalizeModelResult({ marks: [{ confidence: 85 }, { confidence: -3 }, { confidence: 0.4 }] });
+    expect(marks.map(m => m.confidence)).toEqual([0.85, 0, 0.4]);
+  });
+
+  it("puts swapped box edges right and drops empty boxes", () => {
+    const { marks } = normalizeModelResult({
+      marks: [{
+        answer_box: { x_min: 70, y_min: 30, x_max: 50, y_max: 20 },
+        question_box: { x_min: 10, y_min: 10, x_max: 10, y_max: 40 },
+      }, {
+        answer_box: { x_min: -5, y_min: 0, x_max: 120, y_max: "40" },
+      }],
+    });
+
+    expect(marks[0].answerBox).toEqual({ x: 50, y: 20, width: 20, height: 10 });
+    expect(marks[0].questionBox).toBeUndefined();
+    expect(marks[1].answerBox).toBeUndefined();
+  });
+
+  it("marks the first error step and every step flagged incorrect", () => {
+    const { marks } = normalizeModelResult({
+      marks: [{
+        steps: [
+          { text: " 2x = 6 ", verdict: "correct" },
+          { text: "x = 4", verdict: "correct" },
+          { text: "", verdict: "correct" },
+          { text: "x + 1 = 5", verdict: "incorrect", comment: "Carried the error" },
+        ],
+        first_error_step: 2,
+      }],
+    });
+
+    expect(marks[0].steps).toEqual([
+      { text: "2x = 6", verdict: "correct", box: undefined, comment: undefined },
+      { text: "x = 4", verdict: "incorrect", box: undefined, comment: undefined },
+      { text: "x + 1 = 5", verdict: "incorrect", box: undefined, comment: "Carried the error" },
+    ]);
+  });
+
+  it("drops working that is a single line", () => {
+    const { marks } = normalizeModelResult({ marks: [{ steps: [{ text: "x = 3", verdict: "correct" }] }] });
+    expect(marks[0].steps).toBeUndefined();
+  });
+});
+
+describe("normalizeCoverPageResult", () => {
+  it("reads the flag and name, ignoring values of the wrong type", () => {
+    expect(normalizeCoverPageResult({ is_cover_page: true, student_name: "Ana Núñez" })).toEqual({ isCoverPage: true, studentName: "Ana Núñez" });
+    expect(normalizeCoverPageResult({ is_cover_page: "yes", student_name: 42 })).toEqual({ isCoverPage: false, studentName: undefined });
+    expect(normalizeCoverPageResult({ is_cover_page: true, student_name: "  " })).toEqual({ isCoverPage: true, studentName: undefined });
+    expect(normalizeCoverPageResult(null)).toEqual({ isCoverPage: false, studentName: undefined });
+  });
+});
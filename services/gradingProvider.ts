@@ -0,0 +1,171 @@
+import { AnswerKey, BoundingBox, GradingProfile, MarkStatus, WorkStep } from "../types";
+import { CoverPageInfo } from "../utils/batch";
+import { baseLanguage } from "../i18n";
+
+// A single page image as sent to a grading backend
+export interface PageImage {
+  index: number; // Position of the page within the exam
+  base64Data: string;
+  mimeType: string;
+}
+
+export interface GradePageOptions {
+  answerKey?: AnswerKey | null;
+  profile?: GradingProfile | null;
+  feedbackLanguage?: string | null; // Write marks in this language instead of the exam's
+}
+
+// A mark as reported by a provider, before ids, rotation and the answer key are applied.
+// Coordinates are relative to the image as sent (before rotation).
+export interface ProviderMark {
+  questionId?: string;
+  x: number;
+  y: number;
+  answerBox?: BoundingBox;
+  questionBox?: BoundingBox;
+  status: MarkStatus;
+  pointsAwarded?: number;
+  pointsPossible?: number;
+  question?: string;
+  studentAnswer?: string;
+  correctAnswer?: string;
+  explanation?: string;
+  steps?: WorkStep[];
+  methodPoints?: number;
+  confidence?: number; // 0-1
+  illegible?: boolean;
+}
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+export interface PageGradingResult {
+  rotation: Rotation;
+  language: string; // ISO 639-1 code of the exam's language
+  marks: ProviderMark[];
+}
+
+// One mark to re-explain, with the verdict the teacher settled on
+export interface ExplainMarkRequest {
+  mark: Omit<ProviderMark, 'questionId' | 'explanation'>;
+  language: string; // Language to write the explanation in
+  profile?: GradingProfile | null; // For the feedback tone
+}
+
+// Any vision backend that can grade an exam page
+export interface GradingProvider {
+  name: string;
+  gradePage(page: PageImage, options: GradePageOptions): Promise<PageGradingResult>;
+  detectCoverPage(page: PageImage): Promise<CoverPageInfo>;
+  explainMark(page: PageImage, request: ExplainMarkRequest): Promise<string>;
+}
+
+// Model JSON as parsed, before normalizeModelResult checks it: any field may be missing or mistyped
+export type RawModelResult = Record<string, unknown>;
+
+const STATUSES: MarkStatus[] = ['correct', 'partial', 'incorrect', 'unanswered'];
+const ROTATIONS: Rotation[] = [0, 90, 180, 270];
+
+// Helper to read fields off a value that should be an object; anything else has none
+export const fieldsOf = (value: unknown): RawModelResult => {
+  return typeof value === 'object' && value !== null ? value as RawModelResult : {};
+};
+
+export const optionalString = (value: unknown): string | undefined => {
+  return typeof value === 'string' && value.trim() ? value : undefined;
+};
+
+const optionalNumber = (value: unknown): number | undefined => {
+  return typeof value === 'number' && isFinite(value) ? value : undefined;
+};
+
+// Models sometimes answer with a region tag ("zh-CN") or in capitals; anything unusable is English
+const languageCode = (value: unknown): string => {
+  const code = typeof value === 'string' ? baseLanguage(value) : '';
+  return /^[a-z]{2,3}$/.test(code) ? code : 'en';
+};
+
+// Confidence is 0-1, but some models answer as a percentage
+const confidenceValue = (value: unknown): number | undefined => {
+  const n = optionalNumber(value);
+  if (n === undefined) return undefined;
+  return Math.max(0, Math.min(1, n > 1 ? n / 100 : n));
+};
+
+const clampPercent = (value: unknown): number => {
+  const n = optionalNumber(value) ?? 50;
+  return Math.max(0, Math.min(100, n));
+};
+
+// Boxes arrive as { x_min, y_min, x_max, y_max } percentages; swapped edges are put right, empty boxes dropped
+const boxValue = (value: unknown): BoundingBox | undefined => {
+  const { x_min, y_min, x_max, y_max } = fieldsOf(value);
+  const edges = [x_min, y_min, x_max, y_max].map(optionalNumber);
+  if (edges.some(e => e === undefined)) return undefined;
+  const [x1, y1, x2, y2] = (edges as number[]).map(clampPercent);
+  const box = { x: Math.min(x1, x2), y: Math.min(y1, y2), width: Math.abs(x2 - x1), height: Math.abs(y2 - y1) };
+  return box.width > 0 && box.height > 0 ? box : undefined;
+};
+
+/**
+ * Steps arrive as { text, verdict, box, comment } in the order written. 'first_error_step' (1-based)
+ * points at the first wrong one; that step is wrong whatever its own verdict says, and so the
+ * first wrong step is always the first one with an 'incorrect' verdict.
+ */
+const stepsValue = (value: unknown, firstError: unknown): WorkStep[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const errorIndex = typeof firstError === 'number' ? firstError - 1 : -1;
+  const steps = value
+    .map(fieldsOf)
+    .map((s, i): WorkStep | null => {
+      const text = optionalString(s.text);
+      return text ? {
+        text: text.trim(),
+        verdict: s.verdict === 'incorrect' || i === errorIndex ? 'incorrect' : 'correct',
+        box: boxValue(s.box),
+        comment: optionalString(s.comment),
+      } : null;
+    })
+    .filter((s): s is WorkStep => s !== null);
+  // A single line of working is just the answer
+  return steps.length > 1 ? steps : undefined;
+};
+
+/**
+ * Converts the JSON returned by a model (snake_case, loosely typed) into a PageGradingResult.
+ * Unknown statuses are treated as incorrect and unknown rotations as upright.
+ */
+export const normalizeModelResult = (raw: unknown): PageGradingResult => {
+  const { rotation_needed, detected_language, marks: rawMarks } = fieldsOf(raw);
+  const rotation = ROTATIONS.find(r => r === rotation_needed) ?? 0;
+  const language = languageCode(detected_language);
+
+  const marks: ProviderMark[] = (Array.isArray(rawMarks) ? rawMarks : []).map(fieldsOf).map(m => ({
+    questionId: optionalString(m.question_id),
+    x: clampPercent(m.x),
+    y: clampPercent(m.y),
+    answerBox: boxValue(m.answer_box),
+    questionBox: boxValue(m.question_box),
+    status: STATUSES.find(s => s === m.status) ?? 'incorrect',
+    pointsAwarded: optionalNumber(m.points_awarded),
+    pointsPossible: optionalNumber(m.points_possible),
+    question: optionalString(m.question),
+    studentAnswer: optionalString(m.student_answer),
+    correctAnswer: optionalString(m.correct_answer),
+    explanation: optionalString(m.explanation),
+    steps: stepsValue(m.steps, m.first_error_step),
+    methodPoints: optionalNumber(m.method_points),
+    confidence: confidenceValue(m.confidence),
+    illegible: m.illegible === true || undefined,
+  }));
+
+  return { rotation, language, marks };
+};
+
+// Converts the model's cover page answer ({ is_cover_page, student_name }) into CoverPageInfo
+export const normalizeCoverPageResult = (raw: unknown): CoverPageInfo => {
+  const { is_cover_page, student_name } = fieldsOf(raw);
+  return {
+    isCoverPage: is_cover_page === true,
+    studentName: optionalString(student_name),
+  };
+};
@@ -0,0 +1,282 @@
+import { GradingMark, ExamPage, AnswerKey, BoundingBox, GradingProfile, PageProgress } from "../types";
+import { GradingConfig, gradingConfig } from "../config";
+import { applyAnswerKey } from "../utils/answerKey";
+import { DEFAULT_POINTS, getPointsAwarded, getPointsPossible, withPoints, withStatus } from "../utils/scoring";
+import { blobToBase64 } from "../utils/share";
+import { CoverPageInfo } from "../utils/batch";
+import { runWithConcurrency, withRetry } from "../utils/concurrency";
+import { feedbackLanguageOf, translator } from "../i18n";
+import { GradePageOptions, GradingProvider, PageImage, ProviderMark, Rotation } from "./gradingProvider";
+import { createGeminiProvider } from "./geminiService";
+import { createMockProvider } from "./mockGradingProvider";
+
+// Helper to convert file to base64
+const fileToBase64 = async (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const base64String = reader.result as string;
+      const base64Data = base64String.split(',')[1];
+      resolve(base64Data);
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+};
+
+// Helper to rotate image data url
+const rotateImage = async (imageUrl: string, angle: number): Promise<string> => {
+  if (angle === 0) return imageUrl;
+  
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      // Swap dimensions for 90 and 270 degree rotations
+      if (angle === 90 || angle === 270) {
+        canvas.width = img.height;
+        canvas.height = img.width;
+      } else {
+        canvas.width = img.width;
+        canvas.height = img.height;
+      }
+      
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return reject(new Error("No context"));
+      
+      ctx.translate(canvas.width / 2, canvas.height / 2);
+      ctx.rotate((angle * Math.PI) / 180);
+      ctx.drawImage(img, -img.width / 2, -img.height / 2);
+      
+      // Return high quality jpeg
+      resolve(canvas.toDataURL('image/jpeg', 0.95));
+    };
+    img.onerror = reject;
+    img.src = imageUrl;
+  });
+};
+
+// Helper to map a point on the original image onto the rotated image
+const rotatePoint = (x: number, y: number, rotation: Rotation): { x: number; y: number } => {
+  if (rotation === 90) return { x: 100 - y, y: x };
+  if (rotation === 180) return { x: 100 - x, y: 100 - y };
+  if (rotation === 270) return { x: y, y: 100 - x };
+  return { x, y };
+};
+
+// Helper to map a box the same way: rotate two opposite corners and take the box they span
+const rotateBox = (box: BoundingBox | undefined, rotation: Rotation): BoundingBox | undefined => {
+  if (!box) return undefined;
+  const a = rotatePoint(box.x, box.y, rotation);
+  const b = rotatePoint(box.x + box.width, box.y + box.height, rotation);
+  return { x: Math.min(a.x, b.x), y: Math.min(a.y, b.y), width: Math.abs(b.x - a.x), height: Math.abs(b.y - a.y) };
+};
+
+export const getGradingProvider = (config: GradingConfig = gradingConfig): GradingProvider => {
+  return config.provider === 'mock' ? createMockProvider() : createGeminiProvider(config.model);
+};
+
+const toPageImage = async (page: ExamPage, index: number): Promise<PageImage> => ({
+  index,
+  base64Data: await fileToBase64(page.file),
+  mimeType: page.file.type || 'image/jpeg',
+});
+
+// The page as currently displayed (rotated if grading straightened it), so mark coordinates line up
+const toDisplayedPageImage = async (page: ExamPage, index: number): Promise<PageImage> => {
+  const blob = await (await fetch(page.imageUrl)).blob();
+  return { index, base64Data: await blobToBase64(blob), mimeType: blob.type || 'image/jpeg' };
+};
+
+interface GradingResult {
+  marks: GradingMark[];
+  processedPages: ExamPage[];
+  failedPageIndices: number[]; // Pages that still failed after all retries; their marks are missing
+}
+
+export interface GradeExamOptions {
+  provider?: GradingProvider;
+  concurrency?: number; // Pages graded in parallel
+  maxRetries?: number; // Extra attempts per page on rate limits and transient errors
+  pageIndices?: number[]; // Grade only these pages (e.g. retrying failures); defaults to all
+  profile?: GradingProfile | null;
+  feedbackLanguage?: string | null; // Teacher's language for the marks; by default each page's own
+  onPageProgress?: (pageIndex: number, progress: PageProgress) => void;
+}
+
+export const DEFAULT_CONCURRENCY = 3;
+export const DEFAULT_MAX_RETRIES = 3;
+
+// Grades one page and returns its marks, with coordinates matched to the (possibly rotated) page
+const gradePage = async (
+  provider: GradingProvider,
+  page: ExamPage,
+  pageIndex: number,
+  options: GradePageOptions
+): Promise<{ page: ExamPage; marks: GradingMark[] }> => {
+  const { answerKey, feedbackLanguage } = options;
+  const { rotation, language, marks: providerMarks } = await provider.gradePage(
+    await toPageImage(page, pageIndex),
+    options
+  );
+
+  // If rotation is needed, we update the page image and transform marks
+  const languages = { detectedLanguage: language, feedbackLanguage: feedbackLanguage || undefined };
+  let processedPage: ExamPage;
+  let pageMarks: ProviderMark[] = providerMarks;
+  if (rotation !== 0) {
+    const newImageUrl = await rotateImage(page.imageUrl, rotation);
+    processedPage = { ...page, imageUrl: newImageUrl, ...languages };
+    pageMarks = pageMarks.map(m => ({
+      ...m,
+      ...rotatePoint(m.x, m.y, rotation),
+      answerBox: rotateBox(m.answerBox, rotation),
+      questionBox: rotateBox(m.questionBox, rotation),
+      steps: m.steps?.map(s => ({ ...s, box: rotateBox(s.box, rotation) })),
+    }));
+  } else {
+    processedPage = { ...page, ...languages };
+  }
+  const t = translator(feedbackLanguageOf(processedPage));
+
+  // Add ID, pageIndex, and fill in missing textual fields
+  const marks = pageMarks.map(m => {
+    const pointsPossible = m.pointsPossible !== undefined && m.pointsPossible > 0 ? m.pointsPossible : DEFAULT_POINTS;
+    const baseMark: GradingMark = {
+      id: `mark-${page.id}-${Math.random().toString(36).substr(2, 9)}`,
+      x: m.x,
+      y: m.y,
+      answerBox: m.answerBox,
+      questionBox: m.questionBox,
+      status: m.status,
+      pageIndex,
+      pointsPossible,
+      question: m.question || t('mark.question'),
+      studentAnswer: m.studentAnswer || t(m.status === 'unanswered' ? 'mark.noAnswer' : 'mark.unknownAnswer'),
+      correctAnswer: m.correctAnswer || "-",
+      explanation: m.explanation || t('mark.noExplanation'),
+      steps: m.steps,
+      methodPoints: m.methodPoints,
+      verdictSource: 'model',
+      confidence: m.confidence,
+      illegible: m.illegible,
+    };
+    // Reconcile points with status (the model may omit points or contradict itself)
+    const mark = m.pointsAwarded !== undefined
+      ? withPoints(baseMark, m.pointsAwarded)
+      : withStatus(baseMark, baseMark.status);
+    const graded = answerKey ? applyAnswerKey(mark, answerKey, m.questionId) : mark;
+    return { ...graded, aiStatus: graded.status };
+  });
+
+  return { page: processedPage, marks };
+};
+
+/**
+ * Grades pages in parallel (bounded by `concurrency`), retrying each page with exponential backoff.
+ * A page that keeps failing is reported in `failedPageIndices` instead of aborting the whole exam.
+ * `processedPages` always has every input page; failed pages are returned unchanged.
+ */
+export const gradeExamPages = async (
+  pages: ExamPage[],
+  answerKey?: AnswerKey | null,
+  options: GradeExamOptions = {}
+): Promise<GradingResult> => {
+  const {
+    provider = getGradingProvider(),
+    concurrency = DEFAULT_CONCURRENCY,
+    maxRetries = DEFAULT_MAX_RETRIES,
+    pageIndices = pages.map((_, i) => i),
+    profile,
+    feedbackLanguage,
+    onPageProgress,
+  } = options;
+
+  const processedPages: ExamPage[] = [...pages];
+  const marksByPage: GradingMark[][] = [];
+  const failedPageIndices: number[] = [];
+
+  pageIndices.forEach(i => onPageProgress?.(i, { status: 'queued', attempts: 0 }));
+
+  await runWithConcurrency(pageIndices, concurrency, async (i) => {
+    let attempts = 1;
+    onPageProgress?.(i, { status: 'grading', attempts });
+
+    try {
+      const result = await withRetry(() => gradePage(provider, pages[i], i, { answerKey, profile, feedbackLanguage }), {
+        retries: maxRetries,
+        baseDelayMs: 1000,
+        onRetry: (attempt, error) => {
+          attempts = attempt + 1;
+          console.warn(`Retrying page ${i + 1} (attempt ${attempts}):`, error);
+          onPageProgress?.(i, { status: 'grading', attempts });
+        },
+      });
+      processedPages[i] = result.page;
+      marksByPage[i] = result.marks;
+      onPageProgress?.(i, { status: 'done', attempts });
+    } catch (error) {
+      console.error(`Error grading page ${i + 1} with ${provider.name}:`, error);
+      failedPageIndices.push(i);
+      onPageProgress?.(i, {
+        status: 'failed',
+        attempts,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  // Flatten in page order so marks come out the same regardless of completion order
+  const marks = marksByPage.flatMap(m => m || []);
+  return { marks, processedPages, failedPageIndices: failedPageIndices.sort((a, b) => a - b) };
+};
+
+// Batch mode: decide for each page whether it starts a new student's exam, and read the name on it.
+// Pages are checked in parallel and retried like grading; a page that still fails aborts the split.
+export const detectCoverPages = async (
+  pages: ExamPage[],
+  provider: GradingProvider = getGradingProvider()
+): Promise<CoverPageInfo[]> => {
+  return runWithConcurrency(pages, DEFAULT_CONCURRENCY, async (page, i) => {
+    try {
+      const image = await toPageImage(page, i);
+      const info = await withRetry(() => provider.detectCoverPage(image), {
+        retries: DEFAULT_MAX_RETRIES,
+        baseDelayMs: 1000,
+        onRetry: (attempt, error) => console.warn(`Retrying cover page check ${i + 1} (attempt ${attempt + 1}):`, error),
+      });
+      // The first page always starts a submission
+      return { ...info, isCoverPage: i === 0 || info.isCoverPage };
+    } catch (error) {
+      console.error(`Error detecting cover page ${i + 1}:`, error);
+      throw error;
+    }
+  });
+};
+
+// Writes a fresh explanation for one mark that agrees with the teacher's (possibly edited) verdict
+export const explainMark = async (
+  page: ExamPage,
+  mark: GradingMark,
+  profile: GradingProfile | null = null,
+  provider: GradingProvider = getGradingProvider()
+): Promise<string> => {
+  const image = await toDisplayedPageImage(page, mark.pageIndex);
+  return withRetry(() => provider.explainMark(image, {
+    mark: {
+      x: mark.x,
+      y: mark.y,
+      status: mark.status,
+      pointsAwarded: getPointsAwarded(mark),
+      pointsPossible: getPointsPossible(mark),
+      question: mark.question,
+      studentAnswer: mark.studentAnswer,
+      correctAnswer: mark.correctAnswer,
+      steps: mark.steps,
+      methodPoints: mark.methodPoints,
+    },
+    language: feedbackLanguageOf(page),
+    profile,
+  }), { retries: DEFAULT_MAX_RETRIES, baseDelayMs: 1000 });
+};
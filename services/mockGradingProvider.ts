@@ -0,0 +1,39 @@
+import defaultFixtures from "./fixtures/mockGrading.json";
+import { formatPoints } from "../utils/scoring";
+import { GradingProvider, RawModelResult, normalizeCoverPageResult, normalizeModelResult } from "./gradingProvider";
+
+// Canned model responses, in the same JSON shape Gemini returns, plus cover page info for batch mode
+export interface MockFixtures {
+  pages: RawModelResult[];
+}
+
+/**
+ * Deterministic, network-free provider. Page N of an exam gets fixture N (cycling when the exam
+ * is longer than the fixture set), so the same upload always produces the same marks.
+ */
+export const createMockProvider = (fixtures: MockFixtures = defaultFixtures): GradingProvider => {
+  if (fixtures.pages.length === 0) {
+    throw new Error("Mock provider needs at least one fixture page");
+  }
+
+  const fixtureFor = (index: number) => fixtures.pages[index % fixtures.pages.length];
+
+  return {
+    name: "mock",
+
+    gradePage: async (page) => {
+      return normalizeModelResult(fixtureFor(page.index));
+    },
+
+    detectCoverPage: async (page) => {
+      return normalizeCoverPageResult(fixtureFor(page.index));
+    },
+
+    explainMark: async (_page, { mark, language }) => {
+      const points = `${formatPoints(mark.pointsAwarded ?? 0)}/${formatPoints(mark.pointsPossible ?? 0)}`;
+      return language === 'zh'
+        ? `（模拟）此题判为 ${mark.status}，得分 ${points}。`
+        : `(Mock) Marked ${mark.status} for ${points} points.`;
+    },
+  };
+};
@@ -0,0 +1,31 @@
+import { GradingProfile } from "../types";
+import { DEFAULT_PROFILES } from "../utils/gradingProfiles";
+
+// Grading profiles and the one last picked, kept in localStorage like the roster
+const PROFILES_KEY = "smartgrade.profiles";
+const SELECTED_PROFILE_KEY = "smartgrade.selectedProfile";
+
+export const loadProfiles = (): GradingProfile[] => {
+  try {
+    const raw = localStorage.getItem(PROFILES_KEY);
+    return raw ? JSON.parse(raw) : DEFAULT_PROFILES;
+  } catch (error) {
+    console.error("Failed to read grading profiles", error);
+    return DEFAULT_PROFILES;
+  }
+};
+
+export const saveProfiles = (profiles: GradingProfile[]) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+};
+
+// The profile picked for the next session, falling back to the first one
+export const loadSelectedProfile = (): GradingProfile | null => {
+  const profiles = loadProfiles();
+  const selectedId = localStorage.getItem(SELECTED_PROFILE_KEY);
+  return profiles.find(p => p.id === selectedId) || profiles[0] || null;
+};
+
+export const saveSelectedProfile = (profileId: string) => {
+  localStorage.setItem(SELECTED_PROFILE_KEY, profileId);
+};
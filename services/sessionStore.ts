@@ -0,0 +1,218 @@
+import { Filesystem, Directory, Encoding } from "@capacitor/filesystem";
+import { Capacitor } from "@capacitor/core";
+import { ExamPage, GradingSession } from "../types";
+import { blobToBase64 } from "../utils/share";
+
+// Storage backend: IndexedDB on the web, app data directory on iOS/Android
+interface SessionBackend {
+  saveSession(session: GradingSession): Promise<void>;
+  loadSession(id: string): Promise<GradingSession | null>;
+  listSessions(): Promise<GradingSession[]>;
+  deleteSession(id: string): Promise<void>;
+  savePageBlob(sessionId: string, pageId: string, blob: Blob): Promise<void>;
+  loadPageBlob(sessionId: string, pageId: string): Promise<Blob | null>;
+}
+
+// Helper to fetch the bytes behind an object/data URL
+const urlToBlob = async (url: string): Promise<Blob> => {
+  const response = await fetch(url);
+  return response.blob();
+};
+
+// --- IndexedDB (web) ---
+
+const DB_NAME = "smartgrade";
+const DB_VERSION = 1;
+const SESSION_STORE = "sessions";
+const PAGE_STORE = "pages";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          db.createObjectStore(SESSION_STORE, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(PAGE_STORE)) {
+          db.createObjectStore(PAGE_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+// Helper to run a single request inside a transaction
+const idbRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = run(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+const pageKey = (sessionId: string, pageId: string) => `${sessionId}/${pageId}`;
+
+const indexedDbBackend: SessionBackend = {
+  saveSession: async (session) => {
+    await idbRequest(SESSION_STORE, "readwrite", store => store.put(session));
+  },
+  loadSession: async (id) => {
+    const session = await idbRequest<GradingSession | undefined>(SESSION_STORE, "readonly", store => store.get(id));
+    return session || null;
+  },
+  listSessions: async () => {
+    return idbRequest<GradingSession[]>(SESSION_STORE, "readonly", store => store.getAll());
+  },
+  deleteSession: async (id) => {
+    const session = await indexedDbBackend.loadSession(id);
+    await idbRequest(SESSION_STORE, "readwrite", store => store.delete(id));
+    for (const pageId of session?.pageIds || []) {
+      await idbRequest(PAGE_STORE, "readwrite", store => store.delete(pageKey(id, pageId)));
+    }
+  },
+  savePageBlob: async (sessionId, pageId, blob) => {
+    await idbRequest(PAGE_STORE, "readwrite", store => store.put(blob, pageKey(sessionId, pageId)));
+  },
+  loadPageBlob: async (sessionId, pageId) => {
+    const blob = await idbRequest<Blob | undefined>(PAGE_STORE, "readonly", store => store.get(pageKey(sessionId, pageId)));
+    return blob || null;
+  },
+};
+
+// --- Capacitor Filesystem (native) ---
+// Layout: sessions/<sessionId>/session.json and sessions/<sessionId>/<pageId>.bin
+
+const SESSIONS_DIR = "sessions";
+
+const filesystemBackend: SessionBackend = {
+  saveSession: async (session) => {
+    await Filesystem.writeFile({
+      path: `${SESSIONS_DIR}/${session.id}/session.json`,
+      data: JSON.stringify(session),
+      directory: Directory.Data,
+      encoding: Encoding.UTF8,
+      recursive: true,
+    });
+  },
+  loadSession: async (id) => {
+    try {
+      const result = await Filesystem.readFile({
+        path: `${SESSIONS_DIR}/${id}/session.json`,
+        directory: Directory.Data,
+        encoding: Encoding.UTF8,
+      });
+      return JSON.parse(result.data as string);
+    } catch {
+      return null;
+    }
+  },
+  listSessions: async () => {
+    let entries: string[] = [];
+    try {
+      const result = await Filesystem.readdir({ path: SESSIONS_DIR, directory: Directory.Data });
+      entries = result.files.map(f => f.name);
+    } catch {
+      return []; // Directory doesn't exist yet
+    }
+    const sessions = await Promise.all(entries.map(id => filesystemBackend.loadSession(id)));
+    return sessions.filter((s): s is GradingSession => s !== null);
+  },
+  deleteSession: async (id) => {
+    await Filesystem.rmdir({ path: `${SESSIONS_DIR}/${id}`, directory: Directory.Data, recursive: true });
+  },
+  savePageBlob: async (sessionId, pageId, blob) => {
+    await Filesystem.writeFile({
+      path: `${SESSIONS_DIR}/${sessionId}/${pageId}.bin`,
+      data: await blobToBase64(blob),
+      directory: Directory.Data,
+      recursive: true,
+    });
+    // Keep the MIME type alongside the bytes so the page can be restored as the same kind of file
+    await Filesystem.writeFile({
+      path: `${SESSIONS_DIR}/${sessionId}/${pageId}.type`,
+      data: blob.type || "image/jpeg",
+      directory: Directory.Data,
+      encoding: Encoding.UTF8,
+    });
+  },
+  loadPageBlob: async (sessionId, pageId) => {
+    try {
+      const [bytes, type] = await Promise.all([
+        Filesystem.readFile({ path: `${SESSIONS_DIR}/${sessionId}/${pageId}.bin`, directory: Directory.Data }),
+        Filesystem.readFile({ path: `${SESSIONS_DIR}/${sessionId}/${pageId}.type`, directory: Directory.Data, encoding: Encoding.UTF8 }),
+      ]);
+      return urlToBlob(`data:${type.data};base64,${bytes.data}`);
+    } catch {
+      return null;
+    }
+  },
+};
+
+const backend = (): SessionBackend => {
+  return Capacitor.isNativePlatform() ? filesystemBackend : indexedDbBackend;
+};
+
+// --- Public API ---
+
+export const createSessionId = () => `session-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`;
+
+// Stores the page images. Rotated pages live in a data URL, so the current imageUrl is the source of truth.
+export const savePages = async (sessionId: string, pages: ExamPage[]): Promise<void> => {
+  for (const page of pages) {
+    const blob = await urlToBlob(page.imageUrl);
+    await backend().savePageBlob(sessionId, page.id, blob);
+  }
+};
+
+export const saveSession = async (session: GradingSession): Promise<void> => {
+  await backend().saveSession({ ...session, updatedAt: Date.now() });
+};
+
+// Most recently edited first
+export const listSessions = async (): Promise<GradingSession[]> => {
+  const sessions = await backend().listSessions();
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await backend().deleteSession(id);
+};
+
+interface RestoredSession {
+  session: GradingSession;
+  pages: ExamPage[];
+}
+
+export const loadSession = async (id: string): Promise<RestoredSession> => {
+  const session = await backend().loadSession(id);
+  if (!session) throw new Error(`Session ${id} not found`);
+
+  const pages: ExamPage[] = [];
+  for (const [index, pageId] of session.pageIds.entries()) {
+    const blob = await backend().loadPageBlob(id, pageId);
+    if (!blob) throw new Error(`Page ${index + 1} of session ${id} is missing`);
+    pages.push({
+      id: pageId,
+      imageUrl: URL.createObjectURL(blob),
+      file: new File([blob], `page-${index + 1}`, { type: blob.type || "image/jpeg" }),
+      detectedLanguage: session.pageLanguages[pageId],
+      feedbackLanguage: session.pageFeedbackLanguages?.[pageId],
+      annotations: session.pageAnnotations?.[pageId],
+    });
+  }
+
+  return { session, pages };
+};
@@ -0,0 +1,29 @@
+import { AppSettings } from "../types";
+import { browserLanguage, resolveUiLanguage } from "../i18n";
+
+// App-wide preferences, kept in localStorage like the roster and profiles
+const SETTINGS_KEY = "smartgrade.settings";
+
+const defaultSettings = (): AppSettings => ({
+  uiLanguage: browserLanguage(),
+  feedbackInUiLanguage: false,
+});
+
+export const loadSettings = (): AppSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (!raw) return defaultSettings();
+    const stored: Partial<AppSettings> = JSON.parse(raw);
+    return {
+      uiLanguage: resolveUiLanguage(stored.uiLanguage),
+      feedbackInUiLanguage: !!stored.feedbackInUiLanguage,
+    };
+  } catch (error) {
+    console.error("Failed to read settings", error);
+    return defaultSettings();
+  }
+};
+
+export const saveSettings = (settings: AppSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
@@ -1,26 +1,143 @@
+// 'unanswered' is a question the student left blank; it always scores zero
+export type MarkStatus = 'correct' | 'partial' | 'incorrect' | 'unanswered';
+
+// A rectangle on the page, in percentages 0-100 like a mark's x/y
+export interface BoundingBox {
+  x: number; // Left edge
+  y: number; // Top edge
+  width: number;
+  height: number;
+}
+
+// One line of a student's working, e.g. a step of a derivation
+export interface WorkStep {
+  text: string; // As the student wrote it
+  verdict: 'correct' | 'incorrect';
+  box?: BoundingBox; // Where the step is written, when the AI located it
+  comment?: string; // What went wrong, for incorrect steps
+}
+
 export interface GradingMark {
   id: string;
   x: number; // Percentage 0-100 (Location of the actual answer on paper)
   y: number; // Percentage 0-100 (Vertical alignment)
-  status: 'correct' | 'incorrect';
+  answerBox?: BoundingBox; // Area of the student's answer, when the AI located it
+  questionBox?: BoundingBox; // Area of the printed question
+  status: MarkStatus;
   pageIndex: number;
   // New fields for detailed feedback
   question?: string;
   studentAnswer?: string;
   correctAnswer?: string;
   explanation?: string;
+  steps?: WorkStep[]; // The student's working in order, for multi-step answers
+  // Scoring
+  pointsAwarded?: number;
+  pointsPossible?: number;
+  methodPoints?: number; // Part of pointsAwarded earned by the working, whatever the final result
+  // Answer key linkage
+  keyEntryId?: string; // AnswerKeyEntry.id this mark was matched against
+  verdictSource?: 'key' | 'model'; // Whether the status came from the answer key or the AI's own judgment
+  aiStatus?: MarkStatus; // Verdict as graded, before any teacher edits (absent on manually added marks)
+  // Review flags
+  confidence?: number; // 0-1, how sure the AI is of its reading and verdict (absent on manually added marks)
+  illegible?: boolean; // The AI could not read the handwriting
+  reviewed?: boolean; // The teacher confirmed or changed the mark
 }
 
 export interface ExamPage {
   id: string;
   imageUrl: string;
   file: File;
-  detectedLanguage?: 'en' | 'zh';
+  detectedLanguage?: string; // ISO 639-1 code reported by the model, e.g. "en", "zh", "es"
+  feedbackLanguage?: string; // Language the marks were written in, when the teacher asked for their own
+  annotations?: Annotation[]; // Teacher's ink, text and stamps, oldest first
+}
+
+// A point in normalized image coordinates (0-1 from the top-left)
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Freehand writing on a page. Positions are normalized Points; widths and sizes are fractions of
+// the page width, so annotations scale with the image in review and in the PDF.
+export type Annotation =
+  | { id: string; type: 'stroke'; tool: 'pen' | 'highlighter'; color: string; width: number; points: Point[] }
+  | { id: string; type: 'text'; at: Point; text: string; color: string; size: number } // `at` is the left end of the baseline
+  | { id: string; type: 'stamp'; at: Point; label: string; color: string; size: number }; // `at` is the centre
+
+export type AnnotationTool = 'pen' | 'highlighter' | 'eraser' | 'text' | 'stamp';
+
+// Page outline in a photo: top-left, top-right, bottom-right, bottom-left
+export type Quad = [Point, Point, Point, Point];
+
+// A raw photo awaiting cleanup, with the page corners found automatically (or set by the teacher)
+export interface CapturedPage {
+  id: string;
+  file: File;
+  imageUrl: string;
+  corners: Quad;
+  detectedCorners: Quad;
+  fromDocument?: boolean; // Rasterized from an uploaded PDF or TIFF rather than photographed
+}
+
+export type PageGradingStatus = 'queued' | 'grading' | 'done' | 'failed';
+
+// Live grading state of one page while the AI works through an exam
+export interface PageProgress {
+  status: PageGradingStatus;
+  attempts: number;
+  error?: string;
+}
+
+export interface AnswerKeyEntry {
+  id: string;
+  questionId: string; // Label printed on the paper, e.g. "1", "2b"
+  expectedAnswer: string;
+  alternatives: string[]; // Other accepted answers
+  points: number;
+}
+
+export interface AnswerKey {
+  id: string;
+  title: string;
+  entries: AnswerKeyEntry[];
+}
+
+export type GradingSubject = 'general' | 'math' | 'language' | 'science';
+export type GradingStrictness = 'lenient' | 'standard' | 'strict';
+export type FeedbackTone = 'encouraging' | 'neutral' | 'concise';
+
+// How the AI should grade: a teacher-named bundle of subject rules, strictness and feedback style
+export interface GradingProfile {
+  id: string;
+  name: string;
+  subject: GradingSubject;
+  strictness: GradingStrictness;
+  tone: FeedbackTone;
+  instructions: string; // Free-form extra rules, passed to the model as written
+}
+
+// Languages the interface is translated into
+export type UiLanguage = 'en' | 'zh' | 'es' | 'fr' | 'ja';
+
+export interface AppSettings {
+  uiLanguage: UiLanguage;
+  feedbackInUiLanguage: boolean; // Write marks in the UI language instead of the exam's language
 }
 
 export enum AppStatus {
   IDLE = 'IDLE',
+  KEY_EDITING = 'KEY_EDITING',
+  PROFILES = 'PROFILES',
+  BATCH_QUEUE = 'BATCH_QUEUE',
+  ROSTER = 'ROSTER',
+  GRADEBOOK = 'GRADEBOOK',
+  OUTBOX = 'OUTBOX',
   SCANNING = 'SCANNING',
+  CAPTURE_REVIEW = 'CAPTURE_REVIEW',
+  PAGE_TRAY = 'PAGE_TRAY',
   PROCESSING = 'PROCESSING',
   REVIEWING = 'REVIEWING',
   EXPORTING = 'EXPORTING',
@@ -30,4 +147,131 @@ export enum AppStatus {
 export interface StudentInfo {
   name: string;
   email: string;
-}
\ No newline at end of file
+  studentId?: string; // RosterStudent.id when picked from the roster
+}
+
+export interface RosterStudent {
+  id: string;
+  name: string;
+  email: string;
+  studentNumber?: string; // School-issued ID from the imported CSV
+}
+
+// Score for one question in a gradebook row
+export interface QuestionScore {
+  label: string; // Answer key question id, or "Q<n>" in paper order
+  key?: string; // Same question on every student's paper: answer key entry id, else the position (absent on older entries)
+  awarded: number;
+  possible: number;
+  status: MarkStatus;
+  aiStatus?: MarkStatus;
+  question?: string;
+  studentAnswer?: string;
+}
+
+// One student's result for one assignment
+export interface GradebookEntry {
+  id: string;
+  assignment: string;
+  student: StudentInfo;
+  sessionId?: string;
+  questions: QuestionScore[];
+  awarded: number;
+  possible: number;
+  percent: number;
+  recordedAt: number;
+}
+
+export type SessionStatus = 'reviewing' | 'completed';
+
+// Identifies the stored session the app is currently editing
+export interface SessionRef {
+  id: string;
+  createdAt: number;
+  status: SessionStatus;
+}
+
+// Everything needed to resume a grading session, minus the page images (stored separately as blobs)
+// One entry in a mark's audit trail: the verdict it was graded with, or a teacher change
+export type MarkAuditAction = 'graded' | 'added' | 'edited' | 'removed' | 'restored';
+
+export interface MarkAuditEvent {
+  markId: string;
+  action: MarkAuditAction;
+  at: number;
+  status?: MarkStatus; // Verdict after the event; absent for removals
+  pointsAwarded?: number;
+  pointsPossible?: number;
+  via?: 'undo' | 'redo';
+}
+
+export interface GradingSession {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  status: SessionStatus;
+  pageIds: string[];
+  pageLanguages: Record<string, ExamPage['detectedLanguage']>;
+  pageFeedbackLanguages?: Record<string, ExamPage['feedbackLanguage']>;
+  pageAnnotations?: Record<string, Annotation[]>;
+  marks: GradingMark[];
+  studentInfo: StudentInfo | null;
+  answerKey: AnswerKey | null;
+  auditLog?: MarkAuditEvent[]; // Missing on sessions saved before the audit trail existed
+  profile?: GradingProfile | null; // Profile the marks were graded with, as it was at the time
+}
+
+// How a class stack upload is divided into per-student submissions
+export type BatchSplitMode =
+  | { type: 'fixed'; pagesPerStudent: number }
+  | { type: 'cover' }; // A new student starts at every page the AI recognizes as a cover page
+
+export type SubmissionStatus = 'queued' | 'grading' | 'ready' | 'done' | 'failed';
+
+// One student's exam within a batch upload
+export interface Submission {
+  id: string;
+  pages: ExamPage[];
+  marks: GradingMark[];
+  status: SubmissionStatus;
+  detectedName?: string; // Name read from the cover page, if any
+  studentInfo: StudentInfo | null;
+  session?: SessionRef;
+  pdfBlob?: Blob;
+  failedPageIndices?: number[]; // Pages that could not be graded; the rest keep their marks
+  error?: string;
+  auditLog?: MarkAuditEvent[];
+}
+// Where a graded PDF is sent: email through the companion mailer, or an LMS course
+export type DeliveryChannel = 'email' | 'classroom' | 'canvas';
+
+// 'queued' covers both new sends and failed ones waiting for their next attempt
+export type DeliveryStatus = 'queued' | 'sending' | 'delivered' | 'failed';
+
+// Steps of a multi-step LMS send that already went through. A retry resumes after them, so it
+// doesn't upload the PDF (or comment with it) a second time.
+export interface DeliveryProgress {
+  fileId?: string; // The PDF as uploaded to Canvas or Drive
+  graded?: boolean; // The grade is set in Classroom
+}
+
+// One send of one student's PDF over one channel, kept in the outbox until it is delivered
+export interface DeliveryJob {
+  id: string;
+  channel: DeliveryChannel;
+  student: StudentInfo;
+  assignment: string; // Matched against assignment titles in the LMS
+  fileName: string;
+  subject: string; // Email subject, in the feedback language
+  message: string; // Email body or LMS comment
+  awarded: number;
+  possible: number;
+  sessionId?: string;
+  status: DeliveryStatus;
+  attempts: number; // Failed attempts so far
+  nextAttemptAt: number; // A queued job is sent once this time has passed
+  lastError?: string;
+  progress?: DeliveryProgress;
+  createdAt: number;
+  deliveredAt?: number;
+}
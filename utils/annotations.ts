@@ -0,0 +1,77 @@
+import { Annotation, Point } from "../types";
+import { TranslationKey } from "../i18n";
+import { containsCjk } from "./pdfFonts";
+
+// Ink presets. Widths and sizes are fractions of the page width.
+export const INK_COLORS = ['#dc2626', '#2563eb', '#16a34a', '#111827'];
+export const PEN_WIDTH = 0.004;
+export const HIGHLIGHTER_COLOR = '#facc15';
+export const HIGHLIGHTER_WIDTH = 0.025;
+export const HIGHLIGHTER_OPACITY = 0.35;
+export const TEXT_SIZE = 0.028;
+export const STAMP_SIZE = 0.032;
+
+// Stamps with a fixed label, printed in the language of the feedback; the score stamp is added separately
+export const STAMPS: TranslationKey[] = ['stamp.goodWork', 'stamp.excellent', 'stamp.seeMe', 'stamp.showWork'];
+
+// Points closer together than this are dropped while drawing
+const MIN_STEP = 0.002;
+
+export const createAnnotationId = (): string => `ink-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`;
+
+// Approximate text width in page-width units, so review, hit-testing and both PDF renderers agree
+export const textWidth = (text: string, size: number): number => {
+  return [...text].reduce((sum, char) => sum + (containsCjk(char) ? 1 : 0.55) * size, 0);
+};
+
+// Stamp outline around its centre: label plus padding, in page-width units
+export const stampBox = (stamp: Extract<Annotation, { type: 'stamp' }>) => {
+  const width = textWidth(stamp.label, stamp.size) + stamp.size * 1.2;
+  const height = stamp.size * 1.8;
+  return { width, height };
+};
+
+// Extends a stroke being drawn, skipping points that barely moved
+export const appendPoint = (points: Point[], point: Point): Point[] => {
+  const last = points[points.length - 1];
+  if (last && Math.hypot(point.x - last.x, point.y - last.y) < MIN_STEP) return points;
+  return [...points, point];
+};
+
+// Distance from p to the segment a-b, with y stretched by the page aspect (height / width)
+const distanceToSegment = (p: Point, a: Point, b: Point, aspect: number): number => {
+  const [px, py, ax, ay, bx, by] = [p.x, p.y * aspect, a.x, a.y * aspect, b.x, b.y * aspect];
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSq)) : 0;
+  return Math.hypot(px - (ax + t * dx), py - (ay + t * dy));
+};
+
+/**
+ * Whether an eraser of `radius` (page-width units) at `point` touches the annotation.
+ * `aspect` is the page's height / width, since normalized y runs over a different length than x.
+ */
+export const touchesAnnotation = (annotation: Annotation, point: Point, radius: number, aspect: number): boolean => {
+  switch (annotation.type) {
+    case 'stroke': {
+      const reach = radius + annotation.width / 2;
+      const [first, ...rest] = annotation.points;
+      if (!first) return false;
+      if (rest.length === 0) return distanceToSegment(point, first, first, aspect) <= reach;
+      return rest.some((p, i) => distanceToSegment(point, annotation.points[i], p, aspect) <= reach);
+    }
+    case 'text': {
+      const left = annotation.at.x - radius;
+      const right = annotation.at.x + textWidth(annotation.text, annotation.size) + radius;
+      const top = annotation.at.y * aspect - annotation.size - radius;
+      const bottom = annotation.at.y * aspect + annotation.size * 0.3 + radius;
+      return point.x >= left && point.x <= right && point.y * aspect >= top && point.y * aspect <= bottom;
+    }
+    case 'stamp': {
+      const { width, height } = stampBox(annotation);
+      return Math.abs(point.x - annotation.at.x) <= width / 2 + radius
+        && Math.abs((point.y - annotation.at.y) * aspect) <= height / 2 + radius;
+    }
+  }
+};
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { AnswerKey, GradingMark } from "../types";
+import { applyAnswerKey, findKeyEntry, normalizeAnswer } from "./answerKey";
+
+const answerKey: AnswerKey = {
+  id: "key",
+  title: "Quiz",
+  entries: [
+    { id: "e1", questionId: "1", expectedAnswer: "x = 5", alternatives: ["5"], points: 4 },
+    { id: "e2", questionId: "2b", expectedAnswer: "Paris", alternatives: [], points: 2 },
+  ],
+};
+
+const mark = (overrides: Partial<GradingMark>): GradingMark => ({
+  id: "m1",
+  x: 50,
+  y: 50,
+  pageIndex: 0,
+  status: "incorrect",
+  pointsAwarded: 0,
+  pointsPossible: 2,
+  ...overrides,
+});
+
+describe("normalizeAnswer", () => {
+  it("ignores case, spacing, trailing punctuation and LaTeX delimiters", () => {
+    expect(normalizeAnswer("  X  =  5. ")).toBe("x = 5");
+    expect(normalizeAnswer("$x = 5$")).toBe("x = 5");
+    expect(normalizeAnswer("巴黎。")).toBe("巴黎");
+    expect(normalizeAnswer("ｘ＝５")).toBe("x=5");
+  });
+});
+
+describe("findKeyEntry", () => {
+  it("matches printed labels in their usual forms", () => {
+    for (const label of ["1", "Q1", "q1.", "(1)", "1)", "Question 1", "第1题"]) {
+      expect(findKeyEntry(answerKey, label)?.id).toBe("e1");
+    }
+    expect(findKeyEntry(answerKey, "2B")?.id).toBe("e2");
+  });
+
+  it("finds nothing without a label or for an unknown one", () => {
+    expect(findKeyEntry(answerKey, undefined)).toBeUndefined();
+    expect(findKeyEntry(answerKey, "3")).toBeUndefined();
+  });
+});
+
+describe("applyAnswerKey", () => {
+  it("marks an accepted answer correct for the entry's points", () => {
+    const result = applyAnswerKey(mark({ studentAnswer: "5" }), answerKey, "1");
+    expect(result).toMatchObject({
+      status: "correct",
+      pointsAwarded: 4,
+      pointsPossible: 4,
+      correctAnswer: "x = 5",
+      keyEntryId: "e1",
+      verdictSource: "key",
+    });
+  });
+
+  it("lets the key decide when both it and the model reject the answer", () => {
+    const result = applyAnswerKey(mark({ studentAnswer: "London" }), answerKey, "2b");
+    expect(result).toMatchObject({ status: "incorrect", pointsAwarded: 0, verdictSource: "key" });
+  });
+
+  it("keeps the model's partial verdict, rescaled to the entry's points", () => {
+    const result = applyAnswerKey(
+      mark({ status: "partial", studentAnswer: "10/2", pointsAwarded: 1, pointsPossible: 2, methodPoints: 1 }),
+      answerKey,
+      "1"
+    );
+    expect(result).toMatchObject({
+      status: "partial",
+      pointsAwarded: 2,
+      pointsPossible: 4,
+      methodPoints: 2,
+      verdictSource: "model",
+    });
+  });
+
+  it("leaves a blank answer unanswered even if it matches", () => {
+    const result = applyAnswerKey(mark({ status: "unanswered", studentAnswer: "5" }), answerKey, "1");
+    expect(result).toMatchObject({ status: "unanswered", pointsAwarded: 0, pointsPossible: 4, keyEntryId: "e1" });
+  });
+
+  it("leaves marks without a key entry to the model", () => {
+    const original = mark({ status: "correct", pointsAwarded: 2, keyEntryId: "stale" });
+    const result = applyAnswerKey(original, answerKey, "7");
+    expect(result).toEqual({ ...original, keyEntryId: undefined, verdictSource: "model" });
+  });
+});
@@ -0,0 +1,85 @@
+import { AnswerKey, AnswerKeyEntry, GradingMark } from "../types";
+import { getPointsAwarded, getPointsPossible, withPoints } from "./scoring";
+import { plainMath } from "./math";
+
+// Helper to normalize an answer for comparison (case, whitespace, trailing punctuation, LaTeX delimiters)
+export const normalizeAnswer = (answer: string): string => {
+  return plainMath(answer)
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/[.。,，;；]+$/, "")
+    .trim();
+};
+
+// Helper to normalize question labels ("Q1.", "1)", "(1)" -> "1")
+const normalizeQuestionId = (questionId: string): string => {
+  return questionId
+    .toLowerCase()
+    .replace(/^(question|q|第)\s*/, "")
+    .replace(/[\s().:：、题]/g, "");
+};
+
+export const findKeyEntry = (
+  answerKey: AnswerKey,
+  questionId: string | undefined
+): AnswerKeyEntry | undefined => {
+  if (!questionId) return undefined;
+  const target = normalizeQuestionId(questionId);
+  return answerKey.entries.find(e => normalizeQuestionId(e.questionId) === target);
+};
+
+export const isAcceptedAnswer = (entry: AnswerKeyEntry, studentAnswer: string): boolean => {
+  const normalized = normalizeAnswer(studentAnswer);
+  if (!normalized) return false;
+  return [entry.expectedAnswer, ...entry.alternatives]
+    .map(normalizeAnswer)
+    .some(accepted => accepted === normalized);
+};
+
+/**
+ * Resolves a mark against the answer key.
+ * - Matches an accepted answer: correct, decided by the key.
+ * - No match and the model also says incorrect: incorrect, decided by the key.
+ * - No match but the model says correct or partial (e.g. an equivalent form or partly right work): keep the model's verdict.
+ * - Left blank: stays unanswered, whatever the fallback answer text says.
+ * Matched marks are scored out of the entry's points. Marks without a matching key entry are left to the model.
+ */
+export const applyAnswerKey = (
+  mark: GradingMark,
+  answerKey: AnswerKey,
+  questionId: string | undefined
+): GradingMark => {
+  const entry = findKeyEntry(answerKey, questionId);
+  if (!entry) {
+    return { ...mark, keyEntryId: undefined, verdictSource: 'model' };
+  }
+
+  const accepted = mark.status !== 'unanswered' && isAcceptedAnswer(entry, mark.studentAnswer || "");
+  const keyDecides = accepted || mark.status === 'incorrect';
+
+  // Rescale the model's score onto the key's point value
+  const modelPossible = getPointsPossible(mark);
+  const modelRatio = modelPossible > 0 ? getPointsAwarded(mark) / modelPossible : 0;
+  const scale = (points?: number) => points !== undefined && modelPossible > 0 ? (points / modelPossible) * entry.points : points;
+  const scaled = { ...mark, pointsPossible: entry.points, methodPoints: scale(mark.methodPoints) };
+  const scored = withPoints(scaled, accepted ? entry.points : modelRatio * entry.points);
+
+  return {
+    ...scored,
+    correctAnswer: entry.expectedAnswer,
+    keyEntryId: entry.id,
+    verdictSource: keyDecides ? 'key' : 'model',
+  };
+};
+
+// Formats the key for inclusion in the grading prompt
+export const describeAnswerKey = (answerKey: AnswerKey): string => {
+  return answerKey.entries
+    .map(e => {
+      const alternatives = e.alternatives.length > 0 ? ` (also accept: ${e.alternatives.join(" | ")})` : "";
+      return `- Question ${e.questionId}: ${e.expectedAnswer}${alternatives} [${e.points} pt]`;
+    })
+    .join("\n");
+};
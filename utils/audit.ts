@@ -0,0 +1,63 @@
+import { GradingMark, MarkAuditEvent } from "../types";
+import { MarkCommand } from "./markHistory";
+import { formatPoints, getPointsAwarded, getPointsPossible } from "./scoring";
+import { Translate } from "../i18n";
+
+const verdictOf = (mark: GradingMark) => ({
+  status: mark.status,
+  pointsAwarded: getPointsAwarded(mark),
+  pointsPossible: getPointsPossible(mark),
+});
+
+// The verdicts marks arrived with from grading, before any teacher change
+export const gradedEvents = (marks: GradingMark[]): MarkAuditEvent[] => {
+  const at = Date.now();
+  return marks.map(mark => ({ markId: mark.id, action: 'graded', at, ...verdictOf(mark) }));
+};
+
+// Records the effect of a command; `via` marks events produced by undo or redo
+export const auditEventFor = (command: MarkCommand, via?: 'undo' | 'redo'): MarkAuditEvent => {
+  const at = Date.now();
+  switch (command.type) {
+    case 'add':
+      return { markId: command.mark.id, action: via === 'undo' ? 'restored' : 'added', at, via, ...verdictOf(command.mark) };
+    case 'update':
+      return { markId: command.after.id, action: 'edited', at, via, ...verdictOf(command.after) };
+    case 'remove':
+      return { markId: command.mark.id, action: 'removed', at, via };
+  }
+};
+
+export const auditTrail = (log: MarkAuditEvent[], markId: string): MarkAuditEvent[] => {
+  return log.filter(e => e.markId === markId);
+};
+
+// A mark counts as overridden when the teacher added it or its verdict no longer matches grading.
+// Marks with no trail at all (sessions saved before auditing) are left alone.
+export const isOverridden = (mark: GradingMark, log: MarkAuditEvent[]): boolean => {
+  const trail = auditTrail(log, mark.id);
+  if (trail.length === 0) return false;
+
+  const graded = trail.find(e => e.action === 'graded');
+  if (!graded) return trail.some(e => e.action === 'added');
+
+  return graded.status !== mark.status
+    || graded.pointsAwarded !== getPointsAwarded(mark)
+    || graded.pointsPossible !== getPointsPossible(mark);
+};
+
+// Short PDF notes for overridden marks, keyed by mark id, in the report's language
+export const describeOverrides = (marks: GradingMark[], log: MarkAuditEvent[], t: Translate): Record<string, string> => {
+  const notes: Record<string, string> = {};
+  marks.filter(m => isOverridden(m, log)).forEach(mark => {
+    const graded = auditTrail(log, mark.id).find(e => e.action === 'graded');
+    notes[mark.id] = graded
+      ? t('pdf.changedByTeacher', {
+          status: graded.status ? t(`status.${graded.status}`) : '',
+          awarded: formatPoints(graded.pointsAwarded ?? 0),
+          possible: formatPoints(graded.pointsPossible ?? 0),
+        })
+      : t('pdf.addedByTeacher');
+  });
+  return notes;
+};
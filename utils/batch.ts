@@ -0,0 +1,49 @@
+import { ExamPage, Submission } from "../types";
+
+export interface CoverPageInfo {
+  isCoverPage: boolean;
+  studentName?: string;
+}
+
+const newSubmission = (pages: ExamPage[], detectedName?: string): Submission => ({
+  id: `submission-${Math.random().toString(36).substr(2, 9)}`,
+  pages,
+  marks: [],
+  status: 'queued',
+  detectedName,
+  studentInfo: null,
+});
+
+// Every N consecutive pages belong to one student. A short final chunk becomes its own submission.
+export const splitByPageCount = (pages: ExamPage[], pagesPerStudent: number): Submission[] => {
+  const size = Math.max(1, Math.floor(pagesPerStudent));
+  const submissions: Submission[] = [];
+  for (let i = 0; i < pages.length; i += size) {
+    submissions.push(newSubmission(pages.slice(i, i + size)));
+  }
+  return submissions;
+};
+
+// A new submission starts at every cover page. Pages before the first cover are kept as an unnamed submission.
+export const splitByCoverPages = (pages: ExamPage[], covers: CoverPageInfo[]): Submission[] => {
+  const submissions: Submission[] = [];
+  let current: ExamPage[] = [];
+  let currentName: string | undefined;
+
+  pages.forEach((page, i) => {
+    if (covers[i]?.isCoverPage && current.length > 0) {
+      submissions.push(newSubmission(current, currentName));
+      current = [];
+      currentName = undefined;
+    }
+    if (covers[i]?.isCoverPage) {
+      currentName = covers[i].studentName?.trim() || undefined;
+    }
+    current.push(page);
+  });
+
+  if (current.length > 0) {
+    submissions.push(newSubmission(current, currentName));
+  }
+  return submissions;
+};
@@ -0,0 +1,111 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { isTransientError, runWithConcurrency, withRetry } from "./concurrency";
+
+const failure = (status: number) => Object.assign(new Error(`Failed (${status})`), { status });
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("runWithConcurrency", () => {
+  it("keeps at most `limit` workers running and returns results in input order", async () => {
+    let running = 0;
+    let peak = 0;
+    const results = await runWithConcurrency([30, 5, 20, 1, 10], 2, async (ms, index) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, ms));
+      running--;
+      return `${index}:${ms}`;
+    });
+
+    expect(results).toEqual(["0:30", "1:5", "2:20", "3:1", "4:10"]);
+    expect(peak).toBe(2);
+  });
+
+  it("handles no items and a limit below one", async () => {
+    expect(await runWithConcurrency([], 3, async () => 1)).toEqual([]);
+    expect(await runWithConcurrency([1, 2], 0, async n => n * 2)).toEqual([2, 4]);
+  });
+
+  it("rejects with the worker's error", async () => {
+    await expect(runWithConcurrency([1, 2, 3], 2, async n => {
+      if (n === 2) throw new Error("Page 2 failed");
+      return n;
+    })).rejects.toThrow("Page 2 failed");
+  });
+});
+
+describe("isTransientError", () => {
+  it("retries rate limits, timeouts and server errors", () => {
+    for (const status of [408, 429, 500, 503]) expect(isTransientError(failure(status))).toBe(true);
+    expect(isTransientError({ code: 504 })).toBe(true);
+  });
+
+  it("doesn't retry bad requests or bad keys", () => {
+    for (const status of [400, 401, 403, 404]) expect(isTransientError(failure(status))).toBe(false);
+  });
+
+  it("reads the reason from the message when there is no status", () => {
+    expect(isTransientError(new Error("got status: 503 Service Unavailable"))).toBe(true);
+    expect(isTransientError(new Error("RESOURCE_EXHAUSTED: quota exceeded"))).toBe(true);
+    expect(isTransientError(new TypeError("Failed to fetch"))).toBe(true);
+    expect(isTransientError(new Error("API key not valid"))).toBe(false);
+    expect(isTransientError("model overloaded")).toBe(true);
+  });
+});
+
+describe("withRetry", () => {
+  it("backs off twice as long after each transient failure, up to the cap", async () => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, "random").mockReturnValue(1); // Longest wait the jitter allows
+    const fn = vi.fn()
+      .mockRejectedValueOnce(failure(503))
+      .mockRejectedValueOnce(failure(429))
+      .mockRejectedValueOnce(failure(500))
+      .mockResolvedValueOnce("ok");
+    const onRetry = vi.fn();
+
+    const result = withRetry(fn, { retries: 3, baseDelayMs: 1000, maxDelayMs: 3000, onRetry });
+    await vi.advanceTimersByTimeAsync(999);
+    expect(fn).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fn).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(fn).toHaveBeenCalledTimes(3);
+    await vi.advanceTimersByTimeAsync(3000); // 4000 capped at 3000
+
+    expect(await result).toBe("ok");
+    expect(onRetry.mock.calls.map(([attempt, error]) => [attempt, error.status])).toEqual([[1, 503], [2, 429], [3, 500]]);
+  });
+
+  it("waits at least half the delay", async () => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    const fn = vi.fn().mockRejectedValueOnce(failure(503)).mockResolvedValueOnce("ok");
+
+    const result = withRetry(fn, { retries: 1, baseDelayMs: 1000 });
+    await vi.advanceTimersByTimeAsync(499);
+    expect(fn).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(await result).toBe("ok");
+  });
+
+  it("gives up at once on an error that isn't transient", async () => {
+    const fn = vi.fn().mockRejectedValue(failure(400));
+    await expect(withRetry(fn, { retries: 3, baseDelayMs: 1000 })).rejects.toMatchObject({ status: 400 });
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it("rethrows the last error when the retries run out", async () => {
+    const fn = vi.fn().mockRejectedValueOnce(failure(503)).mockRejectedValueOnce(failure(502));
+    await expect(withRetry(fn, { retries: 1, baseDelayMs: 1 })).rejects.toMatchObject({ status: 502 });
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("uses the caller's rule for what to retry", async () => {
+    const fn = vi.fn().mockRejectedValueOnce(new Error("Invalid JSON")).mockResolvedValueOnce("ok");
+    expect(await withRetry(fn, { retries: 1, baseDelayMs: 1, shouldRetry: () => true })).toBe("ok");
+  });
+});
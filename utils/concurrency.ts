@@ -0,0 +1,56 @@
+// Runs worker over every item with at most `limit` in flight. Results keep the input order.
+export const runWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const runNext = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  const lanes = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, runNext);
+  await Promise.all(lanes);
+  return results;
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Rate limits, server errors and dropped connections are worth another attempt; bad keys or bad requests are not
+export const isTransientError = (error: unknown): boolean => {
+  const status = (error as { status?: number; code?: number })?.status ?? (error as { code?: number })?.code;
+  if (typeof status === 'number') {
+    return status === 408 || status === 429 || status >= 500;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return /\b(429|500|502|503|504)\b|rate.?limit|quota|RESOURCE_EXHAUSTED|UNAVAILABLE|overloaded|timeout|network|failed to fetch/i.test(message);
+};
+
+export interface RetryOptions {
+  retries: number; // Attempts after the first one
+  baseDelayMs: number;
+  maxDelayMs?: number;
+  shouldRetry?: (error: unknown) => boolean;
+  onRetry?: (attempt: number, error: unknown) => void;
+}
+
+// Exponential backoff with jitter: base, 2x base, 4x base... capped at maxDelayMs
+export const withRetry = async <T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> => {
+  const { retries, baseDelayMs, maxDelayMs = 30000, shouldRetry = isTransientError, onRetry } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= retries || !shouldRetry(error)) throw error;
+      onRetry?.(attempt + 1, error);
+      const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      await sleep(delay / 2 + Math.random() * (delay / 2));
+    }
+  }
+};
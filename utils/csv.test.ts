@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv, toCsv } from "./csv";
+
+describe("toCsv", () => {
+  it("quotes fields that need it and starts with a BOM", () => {
+    expect(toCsv([["Name", "Note"], ["Chen, Alex", 'Said "hi"\nthen left']]))
+      .toBe('\uFEFFName,Note\r\n"Chen, Alex","Said ""hi""\nthen left"');
+  });
+
+  it("keeps text that looks like a formula from running", () => {
+    const csv = toCsv([["=HYPERLINK(\"http://evil.test\")", "+1", "-2", "@SUM(A1)", "\tx", "a=b"]]);
+    expect(parseCsv(csv)).toEqual([["'=HYPERLINK(\"http://evil.test\")", "'+1", "'-2", "'@SUM(A1)", "'\tx", "a=b"]]);
+  });
+
+  it("writes numbers as they are, negative ones included", () => {
+    expect(toCsv([[-1.5, 0, 12]])).toBe("\uFEFF-1.5,0,12");
+  });
+});
+
+describe("parseCsv", () => {
+  it("reads quoted fields, CRLF and LF lines and skips blank ones", () => {
+    expect(parseCsv('\uFEFFname,email\r\n"Núñez, Ana",ana@school.edu\n\n"Say ""cheese""",\n')).toEqual([
+      ["name", "email"],
+      ["Núñez, Ana", "ana@school.edu"],
+      ['Say "cheese"', ""],
+    ]);
+  });
+});
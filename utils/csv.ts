@@ -0,0 +1,60 @@
+// Minimal RFC 4180 CSV support: quoted fields, escaped quotes, CRLF or LF line endings
+
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  // Strip a UTF-8 BOM written by Excel
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = "";
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.some(cell => cell.trim() !== ""));
+};
+
+// Excel and Sheets run text starting with one of these as a formula; a leading quote keeps it text
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const escapeField = (value: string | number): string => {
+  const text = typeof value === "string" && FORMULA_START.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// The BOM makes Excel open the file as UTF-8 (needed for Chinese names)
+export const toCsv = (rows: (string | number)[][]): string => {
+  return "\uFEFF" + rows.map(r => r.map(escapeField).join(",")).join("\r\n");
+};
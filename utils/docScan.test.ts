@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import { Point, Quad } from "../types";
+import { FULL_FRAME, RgbaImage, detectPageCorners, enhanceDocument, estimateSkew, warpPerspective, warpedSize } from "./docScan";
+
+// Helper to paint a gray image pixel by pixel
+const grayImage = (width: number, height: number, paint: (x: number, y: number) => number): RgbaImage => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      data[i] = data[i + 1] = data[i + 2] = paint(x, y);
+      data[i + 3] = 255;
+    }
+  }
+  return { width, height, data };
+};
+
+const grayAt = (image: RgbaImage, x: number, y: number) => image.data[(y * image.width + x) * 4];
+
+// Inside a convex polygon whose points go clockwise on screen
+const insideQuad = (quad: Point[], x: number, y: number) => quad.every((a, i) => {
+  const b = quad[(i + 1) % quad.length];
+  return (b.x - a.x) * (y - a.y) - (b.y - a.y) * (x - a.x) >= 0;
+});
+
+const expectCornersNear = (actual: Quad, expected: Point[], tolerance: number) => {
+  actual.forEach((corner, i) => {
+    expect(Math.abs(corner.x - expected[i].x)).toBeLessThanOrEqual(tolerance);
+    expect(Math.abs(corner.y - expected[i].y)).toBeLessThanOrEqual(tolerance);
+  });
+};
+
+describe("detectPageCorners", () => {
+  it("finds a white page on a dark desk", () => {
+    const image = grayImage(100, 80, (x, y) => x >= 20 && x <= 79 && y >= 10 && y <= 69 ? 230 : 40);
+    expect(detectPageCorners(image)).toEqual([
+      { x: 20 / 99, y: 10 / 79 },
+      { x: 79 / 99, y: 10 / 79 },
+      { x: 79 / 99, y: 69 / 79 },
+      { x: 20 / 99, y: 69 / 79 },
+    ]);
+  });
+
+  it("finds the corners of a page photographed at an angle", () => {
+    const page = [{ x: 30, y: 12 }, { x: 105, y: 18 }, { x: 112, y: 90 }, { x: 18, y: 84 }];
+    const image = grayImage(128, 100, (x, y) => insideQuad(page, x, y) ? 220 : 50);
+    expectCornersNear(detectPageCorners(image), page.map(p => ({ x: p.x / 127, y: p.y / 99 })), 0.02);
+  });
+
+  it("falls back to the whole frame when no page stands out", () => {
+    expect(detectPageCorners(grayImage(60, 40, () => 40))).toBe(FULL_FRAME);
+    expect(detectPageCorners(grayImage(60, 40, (x, y) => x < 10 && y < 10 ? 230 : 40))).toBe(FULL_FRAME);
+  });
+});
+
+describe("warpPerspective", () => {
+  const source = grayImage(40, 30, (x, y) => x * 5 + y);
+
+  it("copies the image when the corners are the whole frame", () => {
+    const out = warpPerspective(source, FULL_FRAME, 40, 30);
+    for (const [x, y] of [[0, 0], [39, 0], [17, 11], [39, 29]]) {
+      expect(Math.abs(grayAt(out, x, y) - grayAt(source, x, y))).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it("crops and stretches the outlined area", () => {
+    const corners: Quad = [{ x: 10 / 39, y: 5 / 29 }, { x: 30 / 39, y: 5 / 29 }, { x: 30 / 39, y: 25 / 29 }, { x: 10 / 39, y: 25 / 29 }];
+    const out = warpPerspective(source, corners, 11, 11);
+    // Output pixel (u, v) samples source (10 + 2u, 5 + 2v)
+    expect(Math.abs(grayAt(out, 0, 0) - grayAt(source, 10, 5))).toBeLessThanOrEqual(1);
+    expect(Math.abs(grayAt(out, 10, 10) - grayAt(source, 30, 25))).toBeLessThanOrEqual(1);
+    expect(Math.abs(grayAt(out, 4, 7) - grayAt(source, 18, 19))).toBeLessThanOrEqual(1);
+  });
+
+  it("fills what lies outside the photo with white", () => {
+    const corners: Quad = [{ x: -1, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: -1, y: 1 }];
+    const out = warpPerspective(source, corners, 20, 10);
+    expect([...out.data.subarray(0, 4)]).toEqual([255, 255, 255, 255]);
+    expect(grayAt(out, 19, 0)).toBe(grayAt(source, 39, 0));
+  });
+
+  it("rejects corners that don't outline an area", () => {
+    const point = { x: 0.5, y: 0.5 };
+    expect(() => warpPerspective(source, [point, point, point, point], 10, 10)).toThrow();
+  });
+});
+
+describe("warpedSize", () => {
+  it("uses the longer of each pair of opposite edges, scaled down to the limit", () => {
+    const corners: Quad = [{ x: 0.1, y: 0 }, { x: 0.9, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }];
+    expect(warpedSize(corners, 1000, 500, 4000)).toEqual({ width: 1000, height: 510 });
+    expect(warpedSize(corners, 1000, 500, 500)).toEqual({ width: 500, height: 255 });
+  });
+});
+
+describe("estimateSkew", () => {
+  // Lines of "text" across the page, sloping down to the right by `degrees`
+  const linedPage = (degrees: number) => {
+    const slope = Math.tan((degrees * Math.PI) / 180);
+    return grayImage(200, 200, (x, y) => {
+      const offset = (y - x * slope + 400) % 20;
+      return x > 20 && x < 180 && y > 20 && y < 180 && offset < 2 ? 20 : 240;
+    });
+  };
+
+  it("measures the tilt of the text lines", () => {
+    expect(estimateSkew(linedPage(0))).toBe(0);
+    expect(estimateSkew(linedPage(2))).toBeCloseTo(2, 0);
+    expect(estimateSkew(linedPage(-3.5))).toBeCloseTo(-3.5, 0);
+  });
+
+  it("leaves a blank page alone", () => {
+    expect(estimateSkew(grayImage(100, 100, () => 240))).toBe(0);
+  });
+});
+
+describe("enhanceDocument", () => {
+  it("lifts a shadow off the paper and keeps the ink dark", () => {
+    // Paper fading from white to half brightness, with a dark dot of ink every 16 pixels
+    const isInk = (x: number, y: number) => x % 16 < 3 && y % 16 < 3;
+    const shade = (x: number) => 1 - x / 400;
+    const image = grayImage(200, 120, (x, y) => (isInk(x, y) ? 40 : 240) * shade(x));
+
+    const out = enhanceDocument(image);
+    expect(out.data).not.toBe(image.data);
+    for (const x of [5, 100, 190]) {
+      expect(grayAt(out, x, 8)).toBeGreaterThanOrEqual(245);
+      expect(grayAt(out, x - (x % 16), 0)).toBeLessThanOrEqual(40);
+    }
+    expect(out.data[3]).toBe(255);
+  });
+});
@@ -0,0 +1,348 @@
+import { Point, Quad } from "../types";
+
+// Pixel-level document cleanup for phone photos: page corner detection, perspective warp,
+// deskew and shadow/contrast correction. Works on plain RGBA buffers (the shape of ImageData)
+// so it stays independent of the canvas plumbing in the capture service.
+
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+// The whole frame, used when no page can be found
+export const FULL_FRAME: Quad = [
+  { x: 0, y: 0 },
+  { x: 1, y: 0 },
+  { x: 1, y: 1 },
+  { x: 0, y: 1 },
+];
+
+const luminance = (data: Uint8ClampedArray, i: number): number => {
+  return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+};
+
+const toGray = (image: RgbaImage): Uint8Array => {
+  const gray = new Uint8Array(image.width * image.height);
+  for (let p = 0; p < gray.length; p++) gray[p] = luminance(image.data, p * 4);
+  return gray;
+};
+
+// Otsu's method: the threshold that best separates the histogram into two classes
+const otsuThreshold = (gray: Uint8Array): number => {
+  const histogram = new Array(256).fill(0);
+  for (let i = 0; i < gray.length; i++) histogram[gray[i]]++;
+
+  const total = gray.length;
+  const sumAll = histogram.reduce((sum, count, value) => sum + count * value, 0);
+  let sumBelow = 0;
+  let countBelow = 0;
+  let best = 0;
+  let threshold = 128;
+
+  for (let t = 0; t < 256; t++) {
+    countBelow += histogram[t];
+    if (countBelow === 0) continue;
+    const countAbove = total - countBelow;
+    if (countAbove === 0) break;
+
+    sumBelow += t * histogram[t];
+    const meanBelow = sumBelow / countBelow;
+    const meanAbove = (sumAll - sumBelow) / countAbove;
+    const between = countBelow * countAbove * (meanBelow - meanAbove) ** 2;
+    if (between > best) {
+      best = between;
+      threshold = t;
+    }
+  }
+  return threshold;
+};
+
+// Pages smaller than this share of the frame are treated as a failed detection
+const MIN_PAGE_AREA = 0.2;
+
+/**
+ * Finds the page as the largest bright region (paper against a darker desk) and returns its
+ * corners, normalized to 0-1, in order top-left, top-right, bottom-right, bottom-left.
+ * Expects a downscaled image; a few hundred pixels across is plenty.
+ */
+export const detectPageCorners = (image: RgbaImage): Quad => {
+  const { width, height } = image;
+  const gray = toGray(image);
+  const threshold = otsuThreshold(gray);
+
+  // Label the largest 4-connected bright component with a flood fill
+  const visited = new Uint8Array(width * height);
+  const queue = new Int32Array(width * height);
+  let bestPixels: Int32Array | null = null;
+
+  for (let start = 0; start < gray.length; start++) {
+    if (visited[start] || gray[start] <= threshold) continue;
+
+    let head = 0;
+    let tail = 0;
+    queue[tail++] = start;
+    visited[start] = 1;
+
+    while (head < tail) {
+      const p = queue[head++];
+      const x = p % width;
+      const neighbours = [
+        x > 0 ? p - 1 : -1,
+        x < width - 1 ? p + 1 : -1,
+        p - width,
+        p + width,
+      ];
+      for (const n of neighbours) {
+        if (n >= 0 && n < gray.length && !visited[n] && gray[n] > threshold) {
+          visited[n] = 1;
+          queue[tail++] = n;
+        }
+      }
+    }
+
+    if (!bestPixels || tail > bestPixels.length) bestPixels = queue.slice(0, tail);
+  }
+
+  if (!bestPixels || bestPixels.length < width * height * MIN_PAGE_AREA) return FULL_FRAME;
+
+  // The corners are the extreme points along the two diagonals
+  let tl = bestPixels[0], tr = tl, br = tl, bl = tl;
+  const sum = (p: number) => (p % width) + Math.floor(p / width);
+  const diff = (p: number) => (p % width) - Math.floor(p / width);
+  for (const p of bestPixels) {
+    if (sum(p) < sum(tl)) tl = p;
+    if (sum(p) > sum(br)) br = p;
+    if (diff(p) > diff(tr)) tr = p;
+    if (diff(p) < diff(bl)) bl = p;
+  }
+
+  const toPoint = (p: number): Point => ({
+    x: (p % width) / (width - 1),
+    y: Math.floor(p / width) / (height - 1),
+  });
+  return [toPoint(tl), toPoint(tr), toPoint(br), toPoint(bl)];
+};
+
+// Solves the 8x8 system for the homography taking each `from` point onto its `to` point
+const solveHomography = (from: Point[], to: Point[]): number[] => {
+  const rows: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x: u, y: v } = from[i];
+    const { x, y } = to[i];
+    rows.push([u, v, 1, 0, 0, 0, -u * x, -v * x, x]);
+    rows.push([0, 0, 0, u, v, 1, -u * y, -v * y, y]);
+  }
+
+  // Gaussian elimination with partial pivoting
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < 8; r++) {
+      if (Math.abs(rows[r][col]) > Math.abs(rows[pivot][col])) pivot = r;
+    }
+    if (Math.abs(rows[pivot][col]) < 1e-10) throw new Error("Corners do not form a valid page outline");
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+
+    for (let r = 0; r < 8; r++) {
+      if (r === col) continue;
+      const factor = rows[r][col] / rows[col][col];
+      for (let c = col; c < 9; c++) rows[r][c] -= factor * rows[col][c];
+    }
+  }
+
+  return rows.map((row, i) => row[8] / row[i]);
+};
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Output size for a warped page: the longer of each pair of opposite edges, capped at maxSide
+export const warpedSize = (corners: Quad, width: number, height: number, maxSide: number) => {
+  const px = corners.map(c => ({ x: c.x * width, y: c.y * height }));
+  const w = Math.max(distance(px[0], px[1]), distance(px[3], px[2]));
+  const h = Math.max(distance(px[0], px[3]), distance(px[1], px[2]));
+  const scale = Math.min(1, maxSide / Math.max(w, h));
+  return { width: Math.max(1, Math.round(w * scale)), height: Math.max(1, Math.round(h * scale)) };
+};
+
+/**
+ * Maps the quadrilateral `corners` (normalized) of `source` onto a flat outWidth x outHeight
+ * rectangle, sampling bilinearly. Pixels that fall outside the source come out white.
+ */
+export const warpPerspective = (
+  source: RgbaImage,
+  corners: Quad,
+  outWidth: number,
+  outHeight: number
+): RgbaImage => {
+  const rect: Point[] = [
+    { x: 0, y: 0 },
+    { x: outWidth - 1, y: 0 },
+    { x: outWidth - 1, y: outHeight - 1 },
+    { x: 0, y: outHeight - 1 },
+  ];
+  const quad = corners.map(c => ({ x: c.x * (source.width - 1), y: c.y * (source.height - 1) }));
+  // Inverse mapping: for each output pixel, where does it come from in the photo?
+  const [a, b, c, d, e, f, g, h] = solveHomography(rect, quad);
+
+  const out = new Uint8ClampedArray(outWidth * outHeight * 4);
+  const { data, width, height } = source;
+
+  for (let v = 0; v < outHeight; v++) {
+    for (let u = 0; u < outWidth; u++) {
+      const w = g * u + h * v + 1;
+      const x = (a * u + b * v + c) / w;
+      const y = (d * u + e * v + f) / w;
+      const o = (v * outWidth + u) * 4;
+
+      if (x < 0 || y < 0 || x > width - 1 || y > height - 1) {
+        out[o] = out[o + 1] = out[o + 2] = out[o + 3] = 255;
+        continue;
+      }
+
+      const x0 = Math.floor(x);
+      const y0 = Math.floor(y);
+      const x1 = Math.min(x0 + 1, width - 1);
+      const y1 = Math.min(y0 + 1, height - 1);
+      const fx = x - x0;
+      const fy = y - y0;
+      const i00 = (y0 * width + x0) * 4;
+      const i10 = (y0 * width + x1) * 4;
+      const i01 = (y1 * width + x0) * 4;
+      const i11 = (y1 * width + x1) * 4;
+
+      for (let ch = 0; ch < 3; ch++) {
+        const top = data[i00 + ch] * (1 - fx) + data[i10 + ch] * fx;
+        const bottom = data[i01 + ch] * (1 - fx) + data[i11 + ch] * fx;
+        out[o + ch] = top * (1 - fy) + bottom * fy;
+      }
+      out[o + 3] = 255;
+    }
+  }
+
+  return { width: outWidth, height: outHeight, data: out };
+};
+
+const MAX_SKEW_DEGREES = 5;
+const SKEW_STEP_DEGREES = 0.25;
+
+/**
+ * Estimates how far text lines tilt (degrees, clockwise positive) by finding the angle whose
+ * row projection of dark pixels is sharpest. Only small angles are searched; the model already
+ * handles quarter turns. Expects a downscaled image.
+ */
+export const estimateSkew = (image: RgbaImage): number => {
+  const { width, height } = image;
+  const gray = toGray(image);
+  const threshold = otsuThreshold(gray);
+
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let p = 0; p < gray.length; p++) {
+    if (gray[p] <= threshold) {
+      xs.push(p % width);
+      ys.push(Math.floor(p / width));
+    }
+  }
+  // Nearly blank pages have no lines to measure
+  if (xs.length < gray.length * 0.002) return 0;
+
+  const diagonal = Math.ceil(Math.hypot(width, height));
+  let bestAngle = 0;
+  let bestScore = -1;
+
+  for (let deg = -MAX_SKEW_DEGREES; deg <= MAX_SKEW_DEGREES; deg += SKEW_STEP_DEGREES) {
+    const theta = (deg * Math.PI) / 180;
+    const sin = Math.sin(theta);
+    const cos = Math.cos(theta);
+    const bins = new Float64Array(diagonal * 2 + 1);
+
+    for (let i = 0; i < xs.length; i++) {
+      const row = Math.round(-xs[i] * sin + ys[i] * cos) + diagonal;
+      bins[row]++;
+    }
+
+    let score = 0;
+    for (let r = 0; r < bins.length; r++) score += bins[r] * bins[r];
+    if (score > bestScore) {
+      bestScore = score;
+      bestAngle = deg;
+    }
+  }
+  return bestAngle;
+};
+
+const SHADOW_GRID = 24; // Background cells across the longer side
+
+/**
+ * Evens out lighting and boosts contrast into a new image: each pixel is divided by the local paper
+ * brightness (estimated per grid cell from its brightest pixels, then interpolated), which lifts
+ * shadows and vignetting, and the result is stretched so ink is dark and paper is white.
+ */
+export const enhanceDocument = (image: RgbaImage): RgbaImage => {
+  const { width, height, data } = image;
+  const cell = Math.max(8, Math.ceil(Math.max(width, height) / SHADOW_GRID));
+  const cols = Math.ceil(width / cell);
+  const rows = Math.ceil(height / cell);
+
+  // 1. Paper brightness per cell: a high percentile, so ink doesn't darken the estimate
+  const grid = new Float32Array(cols * rows);
+  for (let gy = 0; gy < rows; gy++) {
+    for (let gx = 0; gx < cols; gx++) {
+      const samples: number[] = [];
+      for (let y = gy * cell; y < Math.min(height, (gy + 1) * cell); y += 2) {
+        for (let x = gx * cell; x < Math.min(width, (gx + 1) * cell); x += 2) {
+          samples.push(luminance(data, (y * width + x) * 4));
+        }
+      }
+      samples.sort((a, b) => a - b);
+      grid[gy * cols + gx] = Math.max(32, samples[Math.floor(samples.length * 0.9)] ?? 255);
+    }
+  }
+
+  // 2. Divide by the bilinearly interpolated background
+  const background = (x: number, y: number): number => {
+    const gx = Math.max(0, Math.min(cols - 1, x / cell - 0.5));
+    const gy = Math.max(0, Math.min(rows - 1, y / cell - 0.5));
+    const x0 = Math.floor(gx), y0 = Math.floor(gy);
+    const x1 = Math.min(x0 + 1, cols - 1), y1 = Math.min(y0 + 1, rows - 1);
+    const fx = gx - x0, fy = gy - y0;
+    const top = grid[y0 * cols + x0] * (1 - fx) + grid[y0 * cols + x1] * fx;
+    const bottom = grid[y1 * cols + x0] * (1 - fx) + grid[y1 * cols + x1] * fx;
+    return top * (1 - fy) + bottom * fy;
+  };
+
+  const out = new Uint8ClampedArray(data.length);
+  const histogram = new Array(256).fill(0);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const gain = 255 / background(x, y);
+      out[i] = data[i] * gain;
+      out[i + 1] = data[i + 1] * gain;
+      out[i + 2] = data[i + 2] * gain;
+      out[i + 3] = 255;
+      histogram[Math.round(luminance(out, i))]++;
+    }
+  }
+
+  // 3. Contrast stretch between the 1st and 99th luminance percentiles
+  const percentile = (fraction: number) => {
+    let count = 0;
+    const target = width * height * fraction;
+    for (let v = 0; v < 256; v++) {
+      count += histogram[v];
+      if (count >= target) return v;
+    }
+    return 255;
+  };
+  const low = percentile(0.01);
+  const high = Math.max(low + 1, percentile(0.99));
+  const scale = 255 / (high - low);
+  for (let i = 0; i < out.length; i += 4) {
+    out[i] = (out[i] - low) * scale;
+    out[i + 1] = (out[i + 1] - low) * scale;
+    out[i + 2] = (out[i + 2] - low) * scale;
+  }
+
+  return { width, height, data: out };
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { AnswerKey, GradebookEntry, GradingMark } from "../types";
+import { translator } from "../i18n";
+import { buildGradebookEntry, gradebookRows, questionColumns } from "./gradebook";
+
+const answerKey: AnswerKey = {
+  id: "key",
+  title: "Quiz",
+  entries: [
+    { id: "e1", questionId: "1", expectedAnswer: "5", alternatives: [], points: 1 },
+    { id: "e2", questionId: "2", expectedAnswer: "Paris", alternatives: [], points: 1 },
+  ],
+};
+
+// Helper to make a one-point mark; later `y` means further down the page
+const mark = (y: number, overrides: Partial<GradingMark>): GradingMark => ({
+  id: `m${y}`,
+  x: 50,
+  y,
+  pageIndex: 0,
+  status: "correct",
+  pointsAwarded: 1,
+  pointsPossible: 1,
+  ...overrides,
+});
+
+const entry = (name: string, marks: GradingMark[]): GradebookEntry =>
+  buildGradebookEntry("Quiz", { name, email: `${name.toLowerCase()}@school.edu` }, marks, answerKey);
+
+describe("gradebookRows", () => {
+  it("keeps answer key questions in their columns when a student has an extra mark", () => {
+    const ana = entry("Ana", [
+      mark(10, { keyEntryId: "e1" }),
+      mark(50, { keyEntryId: "e2", status: "incorrect", pointsAwarded: 0 }),
+    ]);
+    const ben = entry("Ben", [
+      mark(5, { question: "Show your name" }), // Not on Ana's paper
+      mark(10, { keyEntryId: "e1", status: "incorrect", pointsAwarded: 0 }),
+      mark(50, { keyEntryId: "e2" }),
+    ]);
+
+    const [header, ...rows] = gradebookRows([ana, ben], translator("en"));
+    expect(header.slice(3, 6)).toEqual(["1", "2", "Q1"]);
+    expect(rows.map(row => row.slice(3, 6))).toEqual([
+      [1, 0, ""],
+      [0, 1, 1],
+    ]);
+  });
+
+  it("gives every mark its own column, even with the same question text or key entry", () => {
+    const ana = entry("Ana", [
+      mark(10, { question: "Solve for x", status: "incorrect", pointsAwarded: 0 }),
+      mark(30, { question: "Solve for x" }),
+      mark(50, { question: "Question" }),
+      mark(60, { keyEntryId: "e1" }),
+      mark(70, { keyEntryId: "e1", status: "incorrect", pointsAwarded: 0 }),
+    ]);
+
+    expect(questionColumns([ana]).map(c => c.label)).toEqual(["Q1", "Q2", "Q3", "1", "1 (2)"]);
+    const [, row] = gradebookRows([ana], translator("en"));
+    expect(row.slice(3)).toEqual([0, 1, 1, 1, 0, 3, 5, 60]);
+  });
+
+  it("tells a numbered question apart from an answer key question with the same name", () => {
+    const key: AnswerKey = { ...answerKey, entries: [{ ...answerKey.entries[0], questionId: "Q1" }] };
+    const ana = buildGradebookEntry("Quiz", { name: "Ana", email: "" }, [mark(10, {})], key);
+    const ben = buildGradebookEntry("Quiz", { name: "Ben", email: "" }, [mark(10, { keyEntryId: "e1" })], key);
+
+    expect(questionColumns([ana, ben])).toEqual([{ key: "Q1", label: "Q1" }, { key: "key:e1", label: "Q1 (2)" }]);
+  });
+});
@@ -0,0 +1,143 @@
+import { AnswerKey, GradebookEntry, GradingMark, QuestionScore, RosterStudent, StudentInfo } from "../types";
+import { parseCsv } from "./csv";
+import { getPointsAwarded, getPointsPossible, summarizeScore } from "./scoring";
+import { Translate } from "../i18n";
+
+// Marks in paper order: page by page, top to bottom
+export const sortMarksInPaperOrder = (marks: GradingMark[]): GradingMark[] => {
+  return [...marks].sort((a, b) => a.pageIndex - b.pageIndex || a.y - b.y);
+};
+
+/**
+ * Per-question scores for a graded exam. Questions matched to the answer key use the key's
+ * question id as their label; the rest are numbered "Q1", "Q2"... by their position on the paper.
+ * Keys are unique within the paper: a key entry matched again gets " (2)", " (3)"... added.
+ */
+export const scoreQuestions = (marks: GradingMark[], answerKey: AnswerKey | null): QuestionScore[] => {
+  const seen = new Map<string, number>();
+  return sortMarksInPaperOrder(marks).map((mark, index) => {
+    const keyEntry = mark.keyEntryId ? answerKey?.entries.find(e => e.id === mark.keyEntryId) : undefined;
+    const repeat = keyEntry ? (seen.get(keyEntry.id) || 0) + 1 : 1;
+    if (keyEntry) seen.set(keyEntry.id, repeat);
+    const suffix = repeat > 1 ? ` (${repeat})` : '';
+    return {
+      label: keyEntry ? `${keyEntry.questionId}${suffix}` : `Q${index + 1}`,
+      key: keyEntry ? `key:${keyEntry.id}${suffix}` : `Q${index + 1}`,
+      awarded: getPointsAwarded(mark),
+      possible: getPointsPossible(mark),
+      status: mark.status,
+      aiStatus: mark.aiStatus,
+      question: mark.question,
+      studentAnswer: mark.studentAnswer,
+    };
+  });
+};
+
+export const buildGradebookEntry = (
+  assignment: string,
+  student: StudentInfo,
+  marks: GradingMark[],
+  answerKey: AnswerKey | null,
+  sessionId?: string
+): GradebookEntry => {
+  const score = summarizeScore(marks);
+  return {
+    id: `grade-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+    assignment,
+    student,
+    sessionId,
+    questions: scoreQuestions(marks, answerKey),
+    awarded: score.awarded,
+    possible: score.possible,
+    percent: score.percent,
+    recordedAt: Date.now(),
+  };
+};
+
+export interface QuestionColumn {
+  key: string;
+  label: string;
+}
+
+// Entries recorded before questions had a key fall back to their label
+export const columnKey = (q: QuestionScore): string => q.key ?? q.label;
+
+/**
+ * Question columns in the order they first appear across the class. A column takes the label
+ * its question had where first seen; a label already in use gets a " (2)", " (3)"... suffix.
+ */
+export const questionColumns = (entries: GradebookEntry[]): QuestionColumn[] => {
+  const columns: QuestionColumn[] = [];
+  entries.forEach(e => e.questions.forEach(q => {
+    const key = columnKey(q);
+    if (columns.some(c => c.key === key)) return;
+    let label = q.label;
+    for (let n = 2; columns.some(c => c.label === label); n++) label = `${q.label} (${n})`;
+    columns.push({ key, label });
+  }));
+  return columns;
+};
+
+// One row per student, one column per question; used by both CSV and XLSX export
+export const gradebookRows = (entries: GradebookEntry[], t: Translate): (string | number)[][] => {
+  const columns = questionColumns(entries);
+  const header = [
+    t('gradebook.student'),
+    t('gradebook.column.email'),
+    t('gradebook.column.studentId'),
+    ...columns.map(column => column.label),
+    t('gradebook.column.score'),
+    t('gradebook.column.possible'),
+    t('gradebook.column.percent'),
+  ];
+
+  const rows = [...entries]
+    .sort((a, b) => a.student.name.localeCompare(b.student.name))
+    .map(entry => {
+      const byKey = new Map(entry.questions.map(q => [columnKey(q), q.awarded]));
+      return [
+        entry.student.name,
+        entry.student.email,
+        entry.student.studentId || "",
+        ...columns.map(column => byKey.get(column.key) ?? ""),
+        entry.awarded,
+        entry.possible,
+        entry.percent,
+      ];
+    });
+
+  return [header, ...rows];
+};
+
+const HEADER_ALIASES = {
+  name: ["name", "student", "student name", "full name", "姓名"],
+  email: ["email", "e-mail", "email address", "邮箱"],
+  studentNumber: ["id", "student id", "student number", "number", "学号"],
+};
+
+/**
+ * Reads students from a CSV export. With a header row, columns are found by name
+ * (name / email / student id); without one, the order is name, email, student number.
+ */
+export const parseRosterCsv = (text: string): RosterStudent[] => {
+  const rows = parseCsv(text);
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map(cell => cell.trim().toLowerCase());
+  const findColumn = (aliases: string[]) => header.findIndex(cell => aliases.includes(cell));
+  const hasHeader = findColumn(HEADER_ALIASES.name) !== -1;
+
+  const nameCol = hasHeader ? findColumn(HEADER_ALIASES.name) : 0;
+  const emailCol = hasHeader ? findColumn(HEADER_ALIASES.email) : 1;
+  const numberCol = hasHeader ? findColumn(HEADER_ALIASES.studentNumber) : 2;
+
+  return rows
+    .slice(hasHeader ? 1 : 0)
+    .map(row => ({
+      id: `student-${Math.random().toString(36).substr(2, 9)}`,
+      name: (row[nameCol] || "").trim(),
+      email: emailCol >= 0 ? (row[emailCol] || "").trim() : "",
+      studentNumber: numberCol >= 0 ? (row[numberCol] || "").trim() || undefined : undefined,
+    }))
+    .filter(student => student.name);
+};
@@ -0,0 +1,67 @@
+import { FeedbackTone, GradingProfile, GradingStrictness, GradingSubject } from "../types";
+
+// Option order in the profile editor (labels are in the i18n catalogs)
+export const SUBJECTS: GradingSubject[] = ['general', 'math', 'language', 'science'];
+export const STRICTNESS_LEVELS: GradingStrictness[] = ['lenient', 'standard', 'strict'];
+export const TONES: FeedbackTone[] = ['encouraging', 'neutral', 'concise'];
+
+const SUBJECT_RULES: Record<GradingSubject, string> = {
+  general: "",
+  math: "This is a math exam. Accept mathematically equivalent answers (fractions, decimals, simplified or unsimplified forms) unless the question asks for a specific form. Where working is shown, grade the method as well as the final answer.",
+  language: "This is a language exam. Judge answers on meaning, grammar and vocabulary as the question requires.",
+  science: "This is a science exam. Check units, significant figures and the reasoning behind calculated values.",
+};
+
+const STRICTNESS_RULES: Record<GradingStrictness, string> = {
+  lenient: "Grade leniently: give the benefit of the doubt on unclear handwriting, minor notation slips and small omissions, and prefer 'partial' over 'incorrect' when the idea is right.",
+  standard: "",
+  strict: "Grade strictly: an answer is 'correct' only if it is complete and precise. Missing units, missing steps or imprecise wording lose points.",
+};
+
+const TONE_RULES: Record<FeedbackTone, string> = {
+  encouraging: "Write explanations in a warm, encouraging voice addressed to the student, pointing out what they did well before what to fix.",
+  neutral: "",
+  concise: "Keep explanations to one short sentence.",
+};
+
+// Starting set, created the first time profiles are opened
+export const DEFAULT_PROFILES: GradingProfile[] = [
+  { id: 'general', name: 'General', subject: 'general', strictness: 'standard', tone: 'neutral', instructions: '' },
+  {
+    id: 'math-work',
+    name: 'Math (show your work)',
+    subject: 'math',
+    strictness: 'standard',
+    tone: 'encouraging',
+    instructions: 'Give partial credit for a correct method with an arithmetic slip. A correct final answer with no working gets at most half the points.',
+  },
+  {
+    id: 'language-meaning',
+    name: 'Language (meaning over spelling)',
+    subject: 'language',
+    strictness: 'lenient',
+    tone: 'encouraging',
+    instructions: 'Ignore spelling mistakes unless the question is a spelling question.',
+  },
+  {
+    id: 'science-units',
+    name: 'Science (units required)',
+    subject: 'science',
+    strictness: 'strict',
+    tone: 'neutral',
+    instructions: 'Numeric answers without units are partial at best.',
+  },
+];
+
+// Helper to turn a profile into grading rules for a model prompt (empty for the plain default)
+export const describeProfile = (profile: GradingProfile): string => {
+  return [
+    SUBJECT_RULES[profile.subject],
+    STRICTNESS_RULES[profile.strictness],
+    TONE_RULES[profile.tone],
+    profile.instructions.trim() && `Teacher's instructions: ${profile.instructions.trim()}`,
+  ].filter(Boolean).join("\n");
+};
+
+// Tone alone, for prompts that only write feedback
+export const describeTone = (profile: GradingProfile): string => TONE_RULES[profile.tone];
@@ -0,0 +1,107 @@
+import { GradebookEntry } from "../types";
+import { normalizeAnswer } from "./answerKey";
+import { columnKey, QuestionColumn, questionColumns } from "./gradebook";
+
+export interface WrongAnswerCount {
+  answer: string; // As first written by a student
+  count: number;
+}
+
+export interface QuestionStats {
+  key: string;
+  label: string;
+  question?: string;
+  attempts: number;
+  correctCount: number;
+  percentCorrect: number; // 0-100
+  averagePercent: number; // Mean share of points earned, 0-100
+  commonWrongAnswers: WrongAnswerCount[];
+  disagreements: number; // Marks whose final verdict differs from the AI's
+  disagreementRate: number; // 0-100, out of the marks that have an AI verdict
+}
+
+export interface HistogramBucket {
+  label: string; // e.g. "80-89%"
+  min: number;
+  max: number;
+  count: number;
+}
+
+export interface ItemAnalysisReport {
+  studentCount: number;
+  averagePercent: number;
+  questions: QuestionStats[];
+  distribution: HistogramBucket[];
+  mostDisputed: QuestionStats[]; // Questions with at least one AI/teacher disagreement, most disputed first
+}
+
+const MAX_WRONG_ANSWERS = 3;
+const MAX_DISPUTED = 5;
+
+const percent = (part: number, whole: number) => whole > 0 ? Math.round((part / whole) * 1000) / 10 : 0;
+
+// Ten buckets of 10 points; 100% goes into the top bucket
+const buildDistribution = (entries: GradebookEntry[]): HistogramBucket[] => {
+  const buckets: HistogramBucket[] = Array.from({ length: 10 }, (_, i) => ({
+    label: i === 9 ? "90-100%" : `${i * 10}-${i * 10 + 9}%`,
+    min: i * 10,
+    max: i === 9 ? 100 : i * 10 + 9.99,
+    count: 0,
+  }));
+  entries.forEach(e => {
+    buckets[Math.min(9, Math.floor(e.percent / 10))].count++;
+  });
+  return buckets;
+};
+
+const buildQuestionStats = ({ key, label }: QuestionColumn, entries: GradebookEntry[]): QuestionStats => {
+  const scores = entries.flatMap(e => e.questions.filter(q => columnKey(q) === key));
+  const correctCount = scores.filter(q => q.status === 'correct').length;
+  const withAiVerdict = scores.filter(q => q.aiStatus !== undefined);
+  const disagreements = withAiVerdict.filter(q => q.aiStatus !== q.status).length;
+
+  // Group wrong answers by their normalized form, keeping the first spelling for display (blanks aren't answers)
+  const wrong = new Map<string, WrongAnswerCount>();
+  scores
+    .filter(q => q.status !== 'correct' && q.status !== 'unanswered' && q.studentAnswer)
+    .forEach(q => {
+      const key = normalizeAnswer(q.studentAnswer!);
+      const existing = wrong.get(key);
+      if (existing) existing.count++;
+      else wrong.set(key, { answer: q.studentAnswer!, count: 1 });
+    });
+
+  return {
+    key,
+    label,
+    question: scores.find(q => q.question)?.question,
+    attempts: scores.length,
+    correctCount,
+    percentCorrect: percent(correctCount, scores.length),
+    averagePercent: percent(
+      scores.reduce((sum, q) => sum + q.awarded, 0),
+      scores.reduce((sum, q) => sum + q.possible, 0)
+    ),
+    commonWrongAnswers: [...wrong.values()].sort((a, b) => b.count - a.count).slice(0, MAX_WRONG_ANSWERS),
+    disagreements,
+    disagreementRate: percent(disagreements, withAiVerdict.length),
+  };
+};
+
+// Builds the report for one assignment's gradebook entries
+export const buildItemAnalysis = (entries: GradebookEntry[]): ItemAnalysisReport => {
+  const questions = questionColumns(entries).map(column => buildQuestionStats(column, entries));
+
+  return {
+    studentCount: entries.length,
+    averagePercent: entries.length > 0
+      ? Math.round((entries.reduce((sum, e) => sum + e.percent, 0) / entries.length) * 10) / 10
+      : 0,
+    questions,
+    distribution: buildDistribution(entries),
+    mostDisputed: questions
+      .filter(q => q.disagreements > 0)
+      .sort((a, b) => b.disagreements - a.disagreements || b.disagreementRate - a.disagreementRate)
+      .slice(0, MAX_DISPUTED),
+  };
+};
@@ -0,0 +1,55 @@
+import { GradingMark } from "../types";
+
+// Every mark edit in review is a command so it can be undone and redone
+
+export type MarkCommand =
+  | { type: 'add'; mark: GradingMark }
+  | { type: 'update'; before: GradingMark; after: GradingMark }
+  | { type: 'remove'; mark: GradingMark; index: number };
+
+export interface MarkHistory {
+  undo: MarkCommand[];
+  redo: MarkCommand[];
+}
+
+export const EMPTY_HISTORY: MarkHistory = { undo: [], redo: [] };
+
+const MAX_HISTORY = 100;
+
+export const applyCommand = (marks: GradingMark[], command: MarkCommand): GradingMark[] => {
+  switch (command.type) {
+    case 'add':
+      return [...marks, command.mark];
+    case 'update':
+      return marks.map(m => m.id === command.after.id ? command.after : m);
+    case 'remove':
+      return marks.filter(m => m.id !== command.mark.id);
+  }
+};
+
+export const invertCommand = (command: MarkCommand): MarkCommand => {
+  switch (command.type) {
+    case 'add':
+      return { type: 'remove', mark: command.mark, index: -1 };
+    case 'update':
+      return { type: 'update', before: command.after, after: command.before };
+    case 'remove':
+      return { type: 'add', mark: command.mark };
+  }
+};
+
+// Undoing a removal puts the mark back where it was so the list order is stable
+export const undoCommand = (marks: GradingMark[], command: MarkCommand): GradingMark[] => {
+  if (command.type === 'remove' && command.index >= 0) {
+    const next = [...marks];
+    next.splice(Math.min(command.index, next.length), 0, command.mark);
+    return next;
+  }
+  return applyCommand(marks, invertCommand(command));
+};
+
+// A new edit drops anything that could have been redone
+export const pushCommand = (history: MarkHistory, command: MarkCommand): MarkHistory => ({
+  undo: [...history.undo, command].slice(-MAX_HISTORY),
+  redo: [],
+});
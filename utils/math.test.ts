@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { containsMath, parseMath, plainMath, truncateMath } from "./math";
+
+describe("parseMath", () => {
+  it("splits inline and display formulas from the text around them", () => {
+    expect(parseMath("So $x^2 = 4$, hence $$x = \\pm 2$$ done")).toEqual([
+      { type: 'text', text: "So " },
+      { type: 'math', tex: "x^2 = 4", display: false },
+      { type: 'text', text: ", hence " },
+      { type: 'math', tex: "x = \\pm 2", display: true },
+      { type: 'text', text: " done" },
+    ]);
+  });
+
+  it("reads \\( \\) as inline and \\[ \\] as display", () => {
+    expect(parseMath("\\(a+b\\) and \\[ c \\]")).toEqual([
+      { type: 'math', tex: "a+b", display: false },
+      { type: 'text', text: " and " },
+      { type: 'math', tex: "c", display: true },
+    ]);
+  });
+
+  it("leaves prices as text", () => {
+    for (const text of ["It costs $5 and $10", "Pay $ 3 or $4", "Between $5 and $6"]) {
+      expect(parseMath(text)).toEqual([{ type: 'text', text }]);
+    }
+  });
+
+  it("keeps an escaped dollar as a plain one", () => {
+    expect(parseMath("\\$5 plus $y$")).toEqual([
+      { type: 'text', text: "$5 plus " },
+      { type: 'math', tex: "y", display: false },
+    ]);
+  });
+
+  it("does not run an inline formula across lines", () => {
+    expect(containsMath("$a\nb$")).toBe(false);
+    expect(parseMath("")).toEqual([]);
+  });
+});
+
+describe("plainMath", () => {
+  it("drops the delimiters", () => {
+    expect(plainMath("Answer: $x = 5$.")).toBe("Answer: x = 5.");
+  });
+});
+
+describe("truncateMath", () => {
+  it("never cuts through a formula", () => {
+    expect(truncateMath("ab $x+y$ cd", 6)).toBe("ab ");
+    expect(truncateMath("ab $x+y$ cd", 10)).toBe("ab $x+y$ c");
+  });
+
+  it("escapes plain dollars and doesn't leave half an escape", () => {
+    expect(truncateMath("\\$5 more", 20)).toBe("\\$5 more");
+    expect(truncateMath("ab\\$5", 3)).toBe("ab");
+  });
+});
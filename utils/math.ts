@@ -0,0 +1,145 @@
+import { mathConfig } from "../config";
+
+// Formulas in marks are LaTeX between $...$ (inline) or $$...$$ (display); \(...\) and \[...\] work too.
+// They are typeset to self-contained SVG by MathJax, loaded on demand the first time a formula shows.
+
+export type MathPart =
+  | { type: 'text'; text: string }
+  | { type: 'math'; tex: string; display: boolean };
+
+// Display delimiters first, so "$$" isn't read as an empty inline formula. Inline $...$ follows the
+// usual rule for telling formulas from prices: no space just inside the dollars, no digit right after.
+// An escaped \$ is always a plain dollar sign.
+const MATH_PATTERN = /\\\$|\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\]|\\\(([\s\S]+?)\\\)|\$(?=\S)((?:\\\$|[^$\n])*?[^\s\\])\$(?!\d)/g;
+
+export const parseMath = (text: string): MathPart[] => {
+  const parts: MathPart[] = [];
+  let plain = '';
+  let last = 0;
+  for (const match of text.matchAll(MATH_PATTERN)) {
+    const index = match.index ?? 0;
+    plain += text.slice(last, index);
+    last = index + match[0].length;
+    if (match[0] === '\\$') {
+      plain += '$';
+      continue;
+    }
+    if (plain) parts.push({ type: 'text', text: plain });
+    plain = '';
+    const display = match[1] !== undefined || match[2] !== undefined;
+    parts.push({ type: 'math', tex: (match[1] ?? match[2] ?? match[3] ?? match[4]).trim(), display });
+  }
+  plain += text.slice(last);
+  if (plain) parts.push({ type: 'text', text: plain });
+  return parts;
+};
+
+export const containsMath = (text: string): boolean => parseMath(text).some(p => p.type === 'math');
+
+// The text with formulas left as bare LaTeX, for places that can't typeset (or while MathJax loads)
+export const plainMath = (text: string): string => {
+  return parseMath(text).map(p => p.type === 'math' ? p.tex : p.text).join('');
+};
+
+/**
+ * Cuts text to at most `limit` characters without splitting a formula, which would leave a stray
+ * delimiter behind. Formulas come out between dollars and plain dollar signs escaped.
+ */
+export const truncateMath = (text: string, limit: number): string => {
+  let result = '';
+  for (const part of parseMath(text)) {
+    const source = part.type === 'math'
+      ? (part.display ? `$$${part.tex}$$` : `$${part.tex}$`)
+      : part.text.replace(/\$/g, '\\$');
+    if (result.length + source.length > limit) {
+      if (part.type === 'text') result += source.slice(0, limit - result.length).replace(/\\$/, '');
+      break;
+    }
+    result += source;
+  }
+  return result;
+};
+
+// The slice of the MathJax API used here (loaded at runtime, so there are no package typings)
+interface MathJaxApi {
+  tex2svg(tex: string, options: { display: boolean }): HTMLElement;
+  startup: { promise: Promise<void> };
+}
+
+declare global {
+  interface Window {
+    MathJax?: MathJaxApi | object;
+  }
+}
+
+let mathJaxPromise: Promise<MathJaxApi> | null = null;
+
+const loadMathJax = (): Promise<MathJaxApi> => {
+  if (!mathJaxPromise) {
+    mathJaxPromise = new Promise<MathJaxApi>((resolve, reject) => {
+      // Configuration is read from window.MathJax when the script starts; it is then replaced by the API
+      window.MathJax = {
+        loader: { load: ['ui/safe'] }, // Drops \href, \style and the like from model output
+        svg: { fontCache: 'local' },   // Glyphs inside each SVG, so a formula stands alone as an image
+        startup: { typeset: false },
+      };
+      const script = document.createElement('script');
+      script.src = mathConfig.mathJaxUrl;
+      script.async = true;
+      script.onload = () => {
+        const api = window.MathJax as MathJaxApi;
+        api.startup.promise.then(() => resolve(api), reject);
+      };
+      script.onerror = () => {
+        script.remove();
+        reject(new Error(`MathJax not available from ${mathConfig.mathJaxUrl}`));
+      };
+      document.head.appendChild(script);
+    });
+    mathJaxPromise.catch(() => { mathJaxPromise = null; }); // Allow a retry once back online
+  }
+  return mathJaxPromise;
+};
+
+export const ensureMathJax = async (): Promise<void> => {
+  await loadMathJax();
+};
+
+export const isMathJaxReady = (): boolean => typeof (window.MathJax as MathJaxApi | undefined)?.tex2svg === 'function';
+
+// A formula as standalone SVG. Sizes are in ems of the surrounding text; depth is how far it reaches below the baseline.
+export interface TypesetMath {
+  svg: string;
+  width: number;
+  height: number;
+  depth: number;
+}
+
+const typesetCache = new Map<string, TypesetMath>();
+
+/**
+ * Typesets one formula in the given colour. MathJax must be loaded (see ensureMathJax).
+ * MathJax's viewBox is in thousandths of an em with the baseline at y = 0, which gives the metrics.
+ */
+export const typesetMath = (tex: string, display: boolean, color: string = 'currentColor'): TypesetMath => {
+  const key = `${display ? 'D' : 'I'}|${color}|${tex}`;
+  const cached = typesetCache.get(key);
+  if (cached) return cached;
+
+  const container = (window.MathJax as MathJaxApi).tex2svg(tex, { display });
+  const svg = container.querySelector('svg');
+  if (!svg) throw new Error(`Could not typeset ${tex}`);
+
+  const [, minY, viewWidth, viewHeight] = (svg.getAttribute('viewBox') || '0 0 0 0').split(/\s+/).map(Number);
+  const width = viewWidth / 1000;
+  const height = viewHeight / 1000;
+  // Sized in ems rather than MathJax's ex, so the metrics hold; vertical-align is up to whoever places it
+  svg.setAttribute('width', `${width}em`);
+  svg.setAttribute('height', `${height}em`);
+  svg.setAttribute('color', color);
+  svg.removeAttribute('style');
+
+  const result = { svg: svg.outerHTML, width, height, depth: (minY + viewHeight) / 1000 };
+  typesetCache.set(key, result);
+  return result;
+};
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { jsPDF } from "jspdf";
+import { fitsWinAnsi, registerPdfFonts } from "./pdfFonts";
+
+describe("fitsWinAnsi", () => {
+  it("accepts Western European text and typographic punctuation", () => {
+    expect(fitsWinAnsi("Très bien — « x² = 4 » … 50 € ½ Œuvre ™")).toBe(true);
+    expect(fitsWinAnsi("Línea 1\nLínea 2\tñ")).toBe(true);
+  });
+
+  it("rejects other scripts and math symbols", () => {
+    for (const text of ["Правильно", "Σωστό", "x ≤ 5", "2π r", "√2", "Čeština", "🙂"]) {
+      expect(fitsWinAnsi(text)).toBe(false);
+    }
+  });
+});
+
+describe("registerPdfFonts", () => {
+  it("uses Helvetica for text it can show", async () => {
+    const fonts = await registerPdfFonts(new jsPDF(), false, "Réponse correcte, bien joué !");
+    expect(fonts).toEqual({ family: "helvetica", hasStyles: true, supportsCjk: false });
+  });
+
+  it("throws for text Helvetica would garble, so the raster renderer takes over", async () => {
+    await expect(registerPdfFonts(new jsPDF(), false, "Ответ: x ≤ π")).rejects.toThrow();
+  });
+});
@@ -0,0 +1,79 @@
+import { jsPDF } from "jspdf";
+import { pdfConfig } from "../config";
+
+const CJK_FONT_FILE = "NotoSansSC-Regular.ttf";
+const CJK_FONT_NAME = "NotoSansSC";
+
+export type PdfFontStyle = 'normal' | 'bold' | 'italic';
+
+export interface PdfFonts {
+  family: string;
+  hasStyles: boolean; // The embedded CJK font only has a regular weight
+  supportsCjk: boolean;
+}
+
+// CJK ideographs, kana, hangul and full-width punctuation
+export const containsCjk = (text: string): boolean => {
+  return /[\u2E80-\u9FFF\uAC00-\uD7AF\uF900-\uFAFF\uFF00-\uFFEF]/.test(text);
+};
+
+// The built-in Helvetica only has the Windows-1252 characters: Latin-1 plus a few typographic ones
+const WIN_ANSI_EXTRAS = "€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ";
+
+export const fitsWinAnsi = (text: string): boolean => {
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (code <= 0x7e || (code >= 0xa0 && code <= 0xff) || WIN_ANSI_EXTRAS.includes(char)) continue;
+    return false;
+  }
+  return true;
+};
+
+// Cached for the app's lifetime; the font is several megabytes
+let cjkFontData: Promise<string> | null = null;
+
+const fetchFontBase64 = async (url: string): Promise<string> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Font ${url} not available (${response.status})`);
+
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  // btoa needs a binary string; build it in chunks to stay under the argument limit
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const loadCjkFont = (): Promise<string> => {
+  if (!cjkFontData) {
+    cjkFontData = fetchFontBase64(pdfConfig.cjkFontUrl).catch(error => {
+      cjkFontData = null; // Allow a retry on the next export
+      throw error;
+    });
+  }
+  return cjkFontData;
+};
+
+/**
+ * Embeds the CJK font when the document needs it; otherwise uses the built-in Helvetica.
+ * Throws when `text` has characters Helvetica can't show (Cyrillic, Greek, math symbols...),
+ * as jsPDF would write them as garbage.
+ */
+export const registerPdfFonts = async (pdf: jsPDF, needsCjk: boolean, text: string): Promise<PdfFonts> => {
+  if (!needsCjk) {
+    if (!fitsWinAnsi(text)) throw new Error("Text has characters the built-in PDF font can't show");
+    return { family: "helvetica", hasStyles: true, supportsCjk: false };
+  }
+
+  const data = await loadCjkFont();
+  pdf.addFileToVFS(CJK_FONT_FILE, data);
+  pdf.addFont(CJK_FONT_FILE, CJK_FONT_NAME, "normal");
+  return { family: CJK_FONT_NAME, hasStyles: false, supportsCjk: true };
+};
+
+// Sets the font at a size in px (jsPDF sizes are in points; with px_scaling 1px = 0.75pt)
+export const setPdfFont = (pdf: jsPDF, fonts: PdfFonts, style: PdfFontStyle, sizePx: number) => {
+  pdf.setFont(fonts.family, fonts.hasStyles ? style : "normal");
+  pdf.setFontSize(sizePx * 0.75);
+};
@@ -1,40 +1,201 @@
 import { jsPDF } from "jspdf";
-import { ExamPage, GradingMark } from "../types";
+import { Annotation, ExamPage, GradingMark, MarkStatus } from "../types";
+import { formatPoints, summarizeScore } from "./scoring";
+import { ItemAnalysisReport } from "./itemAnalysis";
+import { REPORT_HEIGHT, REPORT_MARGIN, REPORT_WIDTH, SIDEBAR_RATIO, STATUS_COLORS, loadImage } from "./pdfShared";
+import { FeedbackSegment, MeasuredBlock, collectAppendix, feedbackSegments, firstErrorBox, layoutSidebar, segmentHeight, symbolPosition } from "./pdfLayout";
+import { PdfFormulas, RichLine, createPdfFormulas, richHeight, wrapRichText } from "./pdfMath";
+import { containsMath } from "./math";
+import { generateVectorPDF } from "./pdfVector";
+import { pdfConfig } from "../config";
+import { HIGHLIGHTER_OPACITY, stampBox } from "./annotations";
+import { Translate, examLanguage, translator } from "../i18n";
 
-// Helper to wrap text for Canvas
-const wrapText = (
+export type PdfRenderMode = 'vector' | 'raster';
+
+export interface GradedPdfOptions {
+  mode?: PdfRenderMode;
+  overrideNotes?: Record<string, string>; // Mark id -> note printed under that mark's feedback
+  language?: string; // Language of the report's labels; defaults to the language the marks are in
+  onRasterFallback?: () => void; // Called when vector mode couldn't render and raster was used instead
+}
+
+// Helper to split text into lines that fit maxWidth on a Canvas
+const wrapLines = (
   ctx: CanvasRenderingContext2D,
   text: string,
-  x: number,
-  y: number,
-  maxWidth: number,
-  lineHeight: number
-): number => {
+  maxWidth: number
+): string[] => {
   // Simple character-based wrapping for better multi-language support (esp. Chinese)
   const characters = text.split("");
+  const lines: string[] = [];
   let line = "";
-  let currentY = y;
 
   for (let i = 0; i < characters.length; i++) {
     const testLine = line + characters[i];
-    const metrics = ctx.measureText(testLine);
-    const testWidth = metrics.width;
-
-    if (testWidth > maxWidth && i > 0) {
-      ctx.fillText(line, x, currentY);
+    if (ctx.measureText(testLine).width > maxWidth && i > 0) {
+      lines.push(line);
       line = characters[i];
-      currentY += lineHeight;
     } else {
       line = testLine;
     }
   }
-  ctx.fillText(line, x, currentY);
-  return currentY + lineHeight;
+  lines.push(line);
+  return lines;
+};
+
+// Helper to wrap text for Canvas
+const wrapText = (
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  x: number,
+  y: number,
+  maxWidth: number,
+  lineHeight: number
+): number => {
+  const lines = wrapLines(ctx, text, maxWidth);
+  lines.forEach((line, i) => ctx.fillText(line, x, y + i * lineHeight));
+  return y + lines.length * lineHeight;
 };
 
+/**
+ * Vector mode draws marks and feedback as real PDF shapes and text (selectable, searchable, small).
+ * Raster mode paints everything onto one canvas per page and embeds it as a JPEG. Vector falls back
+ * to raster when it cannot render, e.g. when the Chinese font cannot be loaded or the feedback is
+ * in a script the built-in font lacks, such as Cyrillic or Greek.
+ */
 export const generateGradedPDF = async (
   pages: ExamPage[],
-  marks: GradingMark[]
+  marks: GradingMark[],
+  options: GradedPdfOptions = {}
+): Promise<Blob> => {
+  const mode = options.mode ?? pdfConfig.renderMode;
+  const language = options.language ?? examLanguage(pages);
+
+  if (mode === 'vector') {
+    try {
+      return await generateVectorPDF(pages, marks, language, options.overrideNotes);
+    } catch (error) {
+      console.warn("Vector PDF failed, falling back to raster", error);
+      options.onRasterFallback?.();
+    }
+  }
+  return generateRasterPDF(pages, marks, translator(language), options.overrideNotes);
+};
+
+const setFeedbackFont = (ctx: CanvasRenderingContext2D, segment: FeedbackSegment, baseFontSize: number) => {
+  const style = segment.style === 'normal' ? '' : `${segment.style} `;
+  ctx.font = `${style}${Math.floor(baseFontSize * segment.scale)}px Arial, sans-serif`;
+};
+
+// Helper to draw one line of text and formulas with its baseline at y
+const drawRichLine = (ctx: CanvasRenderingContext2D, line: RichLine, x: number, y: number) => {
+  let currentX = x;
+  line.runs.forEach(run => {
+    if (run.type === 'text') {
+      ctx.fillText(run.text, currentX, y);
+    } else {
+      ctx.drawImage(run.formula.image, currentX, y - (run.height - run.depth), run.width, run.height);
+    }
+    currentX += run.width;
+  });
+};
+
+// Helper to draw a measured block with its top baseline at y
+const drawRasterBlock = (
+  ctx: CanvasRenderingContext2D,
+  block: MeasuredBlock,
+  x: number,
+  y: number,
+  width: number,
+  baseFontSize: number,
+  lineHeight: number
+) => {
+  // Status dot beside the first line
+  ctx.fillStyle = STATUS_COLORS[block.mark.status];
+  ctx.beginPath();
+  ctx.arc(x - 15, y - baseFontSize / 3, 6, 0, Math.PI * 2);
+  ctx.fill();
+
+  let currentY = y;
+  block.segments.forEach((segment, s) => {
+    const richLines = block.richLines[s];
+    if (segment.highlight) {
+      ctx.fillStyle = segment.highlight;
+      ctx.fillRect(x - 6, currentY - lineHeight * segment.scale * 0.75, width + 12, segmentHeight(segment, block.lines[s], richLines, lineHeight));
+    }
+    ctx.fillStyle = segment.color;
+    setFeedbackFont(ctx, segment, baseFontSize);
+    if (richLines) {
+      richLines.forEach(line => {
+        drawRichLine(ctx, line, x, currentY + line.above);
+        currentY += line.advance;
+      });
+    } else {
+      block.lines[s].forEach(line => {
+        ctx.fillText(line, x, currentY);
+        currentY += lineHeight * segment.scale;
+      });
+    }
+    currentY += 5;
+  });
+};
+
+// Helper to paint the teacher's ink, text and stamps onto the exam image
+const drawRasterAnnotations = (ctx: CanvasRenderingContext2D, annotations: Annotation[], width: number, height: number) => {
+  annotations.forEach(annotation => {
+    ctx.save();
+    switch (annotation.type) {
+      case 'stroke':
+        ctx.globalAlpha = annotation.tool === 'highlighter' ? HIGHLIGHTER_OPACITY : 1;
+        ctx.strokeStyle = annotation.color;
+        ctx.lineWidth = annotation.width * width;
+        ctx.lineCap = "round";
+        ctx.lineJoin = "round";
+        ctx.beginPath();
+        annotation.points.forEach((p, i) => {
+          if (i === 0) ctx.moveTo(p.x * width, p.y * height);
+          else ctx.lineTo(p.x * width, p.y * height);
+        });
+        // A single tap leaves a dot
+        if (annotation.points.length === 1) ctx.lineTo(annotation.points[0].x * width, annotation.points[0].y * height);
+        ctx.stroke();
+        break;
+      case 'text':
+        ctx.fillStyle = annotation.color;
+        ctx.font = `${Math.round(annotation.size * width)}px Arial, sans-serif`;
+        ctx.fillText(annotation.text, annotation.at.x * width, annotation.at.y * height);
+        break;
+      case 'stamp': {
+        const box = stampBox(annotation);
+        const w = box.width * width;
+        const h = box.height * width;
+        const x = annotation.at.x * width;
+        const y = annotation.at.y * height;
+        ctx.beginPath();
+        ctx.roundRect(x - w / 2, y - h / 2, w, h, h * 0.25);
+        ctx.fillStyle = "rgba(255, 255, 255, 0.8)";
+        ctx.fill();
+        ctx.strokeStyle = annotation.color;
+        ctx.lineWidth = annotation.size * 0.12 * width;
+        ctx.stroke();
+        ctx.fillStyle = annotation.color;
+        ctx.font = `bold ${Math.round(annotation.size * width)}px Arial, sans-serif`;
+        ctx.textAlign = "center";
+        ctx.textBaseline = "middle";
+        ctx.fillText(annotation.label, x, y);
+        break;
+      }
+    }
+    ctx.restore();
+  });
+};
+
+const generateRasterPDF = async (
+  pages: ExamPage[],
+  marks: GradingMark[],
+  t: Translate,
+  overrideNotes: Record<string, string> = {}
 ): Promise<Blob> => {
   const pdf = new jsPDF({
     orientation: "landscape",
@@ -45,6 +206,17 @@ export const generateGradedPDF = async (
   // Remove the default initial page so we can add pages with specific dimensions
   pdf.deletePage(1);
 
+  const totalScore = summarizeScore(marks);
+  const appendix = collectAppendix(marks, t);
+  const formulas: PdfFormulas = createPdfFormulas();
+
+  const addCanvasPage = (canvas: HTMLCanvasElement) => {
+    // Using high quality JPEG to keep file size reasonable
+    const pageDataUrl = canvas.toDataURL("image/jpeg", 0.85);
+    pdf.addPage([canvas.width, canvas.height], canvas.width > canvas.height ? 'l' : 'p');
+    pdf.addImage(pageDataUrl, 'JPEG', 0, 0, canvas.width, canvas.height);
+  };
+
   for (let i = 0; i < pages.length; i++) {
     const page = pages[i];
     const pageMarks = marks
@@ -52,70 +224,141 @@ export const generateGradedPDF = async (
       .sort((a, b) => a.y - b.y); // Sort by vertical position for sidebar flow
 
     // 1. Load Image
-    const img = new Image();
-    img.src = page.imageUrl;
-    await new Promise((resolve, reject) => {
-      img.onload = resolve;
-      img.onerror = reject;
-    });
+    const img = await loadImage(page.imageUrl);
 
     const originalWidth = img.naturalWidth;
     const originalHeight = img.naturalHeight;
 
     // 2. Setup Canvas
     // We create a canvas that is wider than the original image to hold the sidebar
-    // Sidebar width = 40% of image width
-    const sidebarWidth = Math.floor(originalWidth * 0.45);
-    const totalWidth = originalWidth + sidebarWidth;
+    const sidebarWidth = Math.floor(originalWidth * SIDEBAR_RATIO);
     const canvas = document.createElement("canvas");
-    canvas.width = totalWidth;
-    canvas.height = originalHeight;
     const ctx = canvas.getContext("2d");
 
     if (!ctx) continue;
 
-    // 3. Draw Base Layout
+    const sidebarPadding = 40;
+    const sidebarContentWidth = sidebarWidth - (sidebarPadding * 2);
+    const baseFontSize = Math.floor(originalWidth * 0.015);
+    const lineHeight = baseFontSize * 1.5;
+    const summaryHeight = baseFontSize * 4.5;
+
+    // 3. Typeset Formulas, Measure Feedback and Lay Out the Sidebar
+    const feedback = pageMarks.map((mark, index) => {
+      const ref = appendix.find(a => a.markId === mark.id)?.ref;
+      return feedbackSegments(mark, index + 1, t, ref, overrideNotes[mark.id]);
+    });
+    await formulas.prepare(feedback.flat());
+
+    const blocks: MeasuredBlock[] = pageMarks.map((mark, index) => {
+      const segments = feedback[index];
+      const richLines = segments.map(segment => {
+        if (!containsMath(segment.text)) return null;
+        setFeedbackFont(ctx, segment, baseFontSize);
+        const fontSize = Math.floor(baseFontSize * segment.scale);
+        return wrapRichText(segment.text, segment.color, formulas, sidebarContentWidth, fontSize, lineHeight * segment.scale, text => ctx.measureText(text).width);
+      });
+      const lines = segments.map((segment, s) => {
+        if (richLines[s]) return [];
+        setFeedbackFont(ctx, segment, baseFontSize);
+        return wrapLines(ctx, segment.text, sidebarContentWidth);
+      });
+      const height = segments.reduce((sum, segment, s) => sum + segmentHeight(segment, lines[s], richLines[s], lineHeight) + 5, 0);
+      return { mark, number: index + 1, segments, lines, richLines, height };
+    });
+
+    const headerBottom = 120 + (i === 0 ? summaryHeight : 0) + (pages.length > 1 ? lineHeight * 2 : 0);
+    const layout = layoutSidebar(
+      blocks.map(b => ({ anchorY: (b.mark.y / 100) * originalHeight, height: b.height })),
+      {
+        imageWidth: originalWidth,
+        columnWidth: sidebarWidth,
+        top: headerBottom,
+        continuationTop: 120,
+        bottom: originalHeight - baseFontSize,
+        gap: lineHeight,
+        maxColumns: 2,
+      }
+    );
+
+    const totalWidth = originalWidth + layout.columns * sidebarWidth;
+    canvas.width = totalWidth;
+    canvas.height = originalHeight;
+
+    // 4. Draw Base Layout
     // Fill Background
     ctx.fillStyle = "#ffffff";
     ctx.fillRect(0, 0, totalWidth, originalHeight);
 
-    // Draw Exam Image
+    // Draw Exam Image, with the teacher's ink on top
     ctx.drawImage(img, 0, 0);
+    drawRasterAnnotations(ctx, page.annotations || [], originalWidth, originalHeight);
 
     // Draw Sidebar Background
     ctx.fillStyle = "#f8f9fa"; // Light gray
-    ctx.fillRect(originalWidth, 0, sidebarWidth, originalHeight);
+    ctx.fillRect(originalWidth, 0, totalWidth - originalWidth, originalHeight);
     
-    // Draw Sidebar Divider
-    ctx.beginPath();
-    ctx.moveTo(originalWidth, 0);
-    ctx.lineTo(originalWidth, originalHeight);
+    // Draw Sidebar Divider (one per column)
     ctx.strokeStyle = "#e5e7eb";
     ctx.lineWidth = 2;
-    ctx.stroke();
+    for (let c = 0; c < layout.columns; c++) {
+      ctx.beginPath();
+      ctx.moveTo(originalWidth + c * sidebarWidth, 0);
+      ctx.lineTo(originalWidth + c * sidebarWidth, originalHeight);
+      ctx.stroke();
+    }
 
-    // 4. Render Marks and Feedback
-    const sidebarPadding = 40;
-    const sidebarContentWidth = sidebarWidth - (sidebarPadding * 2);
+    // 5. Sidebar Header
     let currentSidebarY = 60; // Start with some top padding
-
-    // Sidebar Header
     ctx.fillStyle = "#1f2937";
     ctx.font = `bold ${Math.floor(originalWidth * 0.025)}px Arial, sans-serif`;
-    ctx.fillText("Grading Report / 评分报告", originalWidth + sidebarPadding, currentSidebarY);
+    ctx.fillText(t('pdf.title'), originalWidth + sidebarPadding, currentSidebarY);
     currentSidebarY += 60;
 
-    const baseFontSize = Math.floor(originalWidth * 0.015);
-    const lineHeight = baseFontSize * 1.5;
+    // Score Summary (total on the first page, page subtotal on every page)
+    if (i === 0) {
+      ctx.fillStyle = "#eff6ff"; // Blue-50
+      ctx.fillRect(originalWidth + sidebarPadding / 2, currentSidebarY - baseFontSize * 1.5, sidebarWidth - sidebarPadding, summaryHeight);
+
+      ctx.fillStyle = "#1e3a8a"; // Blue-900
+      ctx.font = `bold ${Math.floor(baseFontSize * 1.6)}px Arial, sans-serif`;
+      ctx.fillText(
+        `${t('pdf.score')}: ${formatPoints(totalScore.awarded)} / ${formatPoints(totalScore.possible)} (${totalScore.percent}%)`,
+        originalWidth + sidebarPadding,
+        currentSidebarY + baseFontSize * 0.3
+      );
+
+      const countOf = (status: MarkStatus) => marks.filter(m => m.status === status).length;
+      ctx.fillStyle = "#4b5563"; // Gray-600
+      ctx.font = `${baseFontSize}px Arial, sans-serif`;
+      ctx.fillText(
+        `✓ ${countOf('correct')}   ◐ ${countOf('partial')}   ✗ ${countOf('incorrect')}   ○ ${countOf('unanswered')}`,
+        originalWidth + sidebarPadding,
+        currentSidebarY + baseFontSize * 2
+      );
+      currentSidebarY += summaryHeight;
+    }
+
+    if (pages.length > 1) {
+      const pageScore = summarizeScore(pageMarks);
+      ctx.fillStyle = "#6b7280"; // Gray-500
+      ctx.font = `bold ${baseFontSize}px Arial, sans-serif`;
+      ctx.fillText(
+        t('pdf.pageScore', { number: i + 1, awarded: formatPoints(pageScore.awarded), possible: formatPoints(pageScore.possible) }),
+        originalWidth + sidebarPadding,
+        currentSidebarY
+      );
+    }
+
+    // 6. Render Marks and Feedback on the Exam Sheet
+    const continuationCanvases: HTMLCanvasElement[] = [];
+
+    blocks.forEach((block, index) => {
+      const { mark } = block;
+      const placement = layout.placements[index];
 
-    pageMarks.forEach((mark, index) => {
-      // Coordinates
-      const markX = (mark.x / 100) * originalWidth;
-      const markY = (mark.y / 100) * originalHeight;
-      const sidebarX = originalWidth + sidebarPadding;
-      
       // Determine color
-      const color = mark.status === 'correct' ? '#22c55e' : '#ef4444';
+      const color = STATUS_COLORS[mark.status];
       
       // --- Draw Marks on Paper ---
       ctx.lineWidth = Math.max(3, originalWidth * 0.005);
@@ -123,7 +366,9 @@ export const generateGradedPDF = async (
       ctx.lineCap = "round";
       ctx.lineJoin = "round";
 
+      // Coordinates (beside the answer box when there is one)
       const markSize = originalWidth * 0.03;
+      const { x: markX, y: markY } = symbolPosition(mark, originalWidth, originalHeight, markSize);
 
       if (mark.status === 'correct') {
         ctx.beginPath();
@@ -131,6 +376,20 @@ export const generateGradedPDF = async (
         ctx.lineTo(markX - markSize/10, markY + markSize/2);
         ctx.lineTo(markX + markSize/2, markY - markSize);
         ctx.stroke();
+      } else if (mark.status === 'partial') {
+        // Tick with a slash through it
+        ctx.beginPath();
+        ctx.moveTo(markX - markSize/2, markY);
+        ctx.lineTo(markX - markSize/10, markY + markSize/2);
+        ctx.lineTo(markX + markSize/2, markY - markSize);
+        ctx.moveTo(markX - markSize/10, markY - markSize/2);
+        ctx.lineTo(markX + markSize/3, markY);
+        ctx.stroke();
+      } else if (mark.status === 'unanswered') {
+        // Empty circle where the answer should have been
+        ctx.beginPath();
+        ctx.arc(markX, markY, markSize * 0.4, 0, Math.PI * 2);
+        ctx.stroke();
       } else {
         const half = markSize * 0.4;
         ctx.beginPath();
@@ -141,62 +400,265 @@ export const generateGradedPDF = async (
         ctx.stroke();
       }
 
-      // --- Draw Connector Line ---
-      // Dashed line from mark to sidebar text
-      ctx.beginPath();
-      ctx.setLineDash([10, 10]);
-      ctx.moveTo(markX + markSize, markY);
-      // Curve slightly to the text position
-      ctx.lineTo(originalWidth, currentSidebarY + baseFontSize);
-      ctx.strokeStyle = "#d1d5db"; // light gray
-      ctx.lineWidth = 2;
-      ctx.stroke();
-      ctx.setLineDash([]); // Reset
-
-      // --- Draw Sidebar Text ---
-      
-      // 1. Badge (Q1, Q2 etc based on index)
-      ctx.fillStyle = color;
-      ctx.beginPath();
-      ctx.arc(sidebarX - 15, currentSidebarY + (baseFontSize/2), 6, 0, Math.PI * 2);
-      ctx.fill();
+      // --- Outline the First Wrong Step of the Working ---
+      const errorBox = firstErrorBox(mark);
+      if (errorBox) {
+        ctx.strokeStyle = STATUS_COLORS.incorrect;
+        ctx.lineWidth = Math.max(2, originalWidth * 0.002);
+        ctx.strokeRect(
+          (errorBox.x / 100) * originalWidth,
+          (errorBox.y / 100) * originalHeight,
+          (errorBox.width / 100) * originalWidth,
+          (errorBox.height / 100) * originalHeight
+        );
+      }
 
-      // 2. Question
-      ctx.fillStyle = "#6b7280"; // Gray-500
-      ctx.font = `bold ${baseFontSize}px Arial, sans-serif`;
-      currentSidebarY = wrapText(ctx, `${mark.question || 'Question'}`, sidebarX, currentSidebarY, sidebarContentWidth, lineHeight);
-      
-      // 3. Student Answer
-      ctx.fillStyle = "#111827"; // Gray-900
-      ctx.font = `${baseFontSize}px Arial, sans-serif`;
-      currentSidebarY = wrapText(ctx, `Ans: ${mark.studentAnswer || ''}`, sidebarX, currentSidebarY + 5, sidebarContentWidth, lineHeight);
+      if (placement.sheet === 0 && placement.column === 0) {
+        // --- Draw Connector Line ---
+        // Dashed line from mark to sidebar text
+        ctx.beginPath();
+        ctx.setLineDash([10, 10]);
+        ctx.moveTo(markX + markSize, markY);
+        ctx.lineTo(originalWidth, placement.y - baseFontSize / 3);
+        ctx.strokeStyle = "#d1d5db"; // light gray
+        ctx.lineWidth = 2;
+        ctx.stroke();
+        ctx.setLineDash([]); // Reset
+      } else {
+        // No connector reaches a second column or continuation sheet; the number links them
+        ctx.fillStyle = color;
+        ctx.font = `bold ${baseFontSize}px Arial, sans-serif`;
+        ctx.fillText(String(block.number), markX + markSize * 0.7, markY - markSize * 0.6);
+      }
 
-      // 4. Analysis / Correct Answer (if wrong)
-      if (mark.status === 'incorrect' && mark.correctAnswer) {
-         ctx.fillStyle = "#15803d"; // Green-700
-         ctx.font = `italic ${baseFontSize}px Arial, sans-serif`;
-         currentSidebarY = wrapText(ctx, `Correct: ${mark.correctAnswer}`, sidebarX, currentSidebarY + 5, sidebarContentWidth, lineHeight);
+      if (placement.sheet === 0) {
+        drawRasterBlock(ctx, block, placement.x + sidebarPadding, placement.y, sidebarContentWidth, baseFontSize, lineHeight);
       }
+    });
+
+    // 7. Continuation Sheets for Feedback That Didn't Fit
+    for (let sheet = 1; sheet <= layout.continuationSheets; sheet++) {
+      const sheetCanvas = document.createElement("canvas");
+      sheetCanvas.width = totalWidth;
+      sheetCanvas.height = originalHeight;
+      const sheetCtx = sheetCanvas.getContext("2d");
+      if (!sheetCtx) continue;
+
+      sheetCtx.fillStyle = "#f8f9fa";
+      sheetCtx.fillRect(0, 0, totalWidth, originalHeight);
+      sheetCtx.fillStyle = "#1f2937";
+      sheetCtx.font = `bold ${Math.floor(originalWidth * 0.025)}px Arial, sans-serif`;
+      sheetCtx.fillText(t('pdf.continued', { number: i + 1 }), sidebarPadding, 60);
+
+      blocks.forEach((block, index) => {
+        const placement = layout.placements[index];
+        if (placement.sheet === sheet) {
+          drawRasterBlock(sheetCtx, block, placement.x + sidebarPadding, placement.y, sidebarContentWidth, baseFontSize, lineHeight);
+        }
+      });
+      continuationCanvases.push(sheetCanvas);
+    }
+
+    // 8. Add to PDF
+    addCanvasPage(canvas);
+    continuationCanvases.forEach(addCanvasPage);
+  }
+
+  // 9. Appendix with the full text of truncated explanations
+  if (appendix.length > 0) {
+    const canvas = document.createElement("canvas");
+    canvas.width = REPORT_WIDTH;
+    canvas.height = REPORT_HEIGHT;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("No context");
+
+    const contentWidth = REPORT_WIDTH - REPORT_MARGIN * 2;
+    const startPage = () => {
+      ctx.fillStyle = "#ffffff";
+      ctx.fillRect(0, 0, REPORT_WIDTH, REPORT_HEIGHT);
+      ctx.fillStyle = "#111827";
+      ctx.font = "bold 40px Arial, sans-serif";
+      ctx.fillText(t('pdf.appendix'), REPORT_MARGIN, REPORT_MARGIN + 20);
+      return REPORT_MARGIN + 90;
+    };
+
+    await formulas.prepare(appendix.map(entry => ({ text: entry.text, color: "#374151" })));
 
-      if (mark.explanation) {
-         ctx.fillStyle = "#4b5563"; // Gray-600
-         ctx.font = `${Math.floor(baseFontSize * 0.9)}px Arial, sans-serif`;
-         currentSidebarY = wrapText(ctx, `Note: ${mark.explanation}`, sidebarX, currentSidebarY + 5, sidebarContentWidth, lineHeight * 0.9);
+    let y = startPage();
+    appendix.forEach(entry => {
+      ctx.font = "22px Arial, sans-serif";
+      const lines = wrapRichText(entry.text, "#374151", formulas, contentWidth, 22, 32, text => ctx.measureText(text).width);
+      if (y + 40 + richHeight(lines) > REPORT_HEIGHT - REPORT_MARGIN && y > REPORT_MARGIN + 90) {
+        addCanvasPage(canvas);
+        y = startPage();
       }
 
-      // Add spacing between items
-      currentSidebarY += lineHeight * 1.5;
+      ctx.fillStyle = "#1f2937";
+      ctx.font = "bold 24px Arial, sans-serif";
+      y = wrapText(ctx, t('pdf.appendixEntry', { ref: entry.ref, number: entry.pageIndex + 1, label: entry.label }), REPORT_MARGIN, y, contentWidth, 34);
+      ctx.fillStyle = "#374151";
+      ctx.font = "22px Arial, sans-serif";
+      lines.forEach(line => {
+        drawRichLine(ctx, line, REPORT_MARGIN, y + line.above);
+        y += line.advance;
+      });
+      y += 30;
     });
+    addCanvasPage(canvas);
+  }
 
-    // 5. Add to PDF
-    // Convert the entire canvas to an image
-    // Using high quality JPEG to keep file size reasonable
-    const pageDataUrl = canvas.toDataURL("image/jpeg", 0.85);
-    
-    // Add page matching the canvas dimensions
-    pdf.addPage([totalWidth, originalHeight], totalWidth > originalHeight ? 'l' : 'p');
-    pdf.addImage(pageDataUrl, 'JPEG', 0, 0, totalWidth, originalHeight);
+  return pdf.output("blob");
+};
+
+// --- Item Analysis Report ---
+
+export const generateItemAnalysisPDF = async (
+  report: ItemAnalysisReport,
+  assignment: string,
+  t: Translate = translator('en')
+): Promise<Blob> => {
+  const pdf = new jsPDF({
+    orientation: "portrait",
+    unit: "px",
+    hotfixes: ["px_scaling"],
+  });
+  pdf.deletePage(1);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = REPORT_WIDTH;
+  canvas.height = REPORT_HEIGHT;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("No context");
+
+  const contentWidth = REPORT_WIDTH - REPORT_MARGIN * 2;
+  let y = REPORT_MARGIN;
+
+  const startPage = () => {
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, REPORT_WIDTH, REPORT_HEIGHT);
+    y = REPORT_MARGIN;
+  };
+
+  const flushPage = () => {
+    pdf.addPage([REPORT_WIDTH, REPORT_HEIGHT], 'p');
+    pdf.addImage(canvas.toDataURL("image/jpeg", 0.9), 'JPEG', 0, 0, REPORT_WIDTH, REPORT_HEIGHT);
+  };
+
+  // Moves to a new page when the next block would run past the bottom margin
+  const ensureSpace = (height: number) => {
+    if (y + height > REPORT_HEIGHT - REPORT_MARGIN) {
+      flushPage();
+      startPage();
+    }
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(80);
+    y += 20;
+    ctx.fillStyle = "#1f2937";
+    ctx.font = "bold 30px Arial, sans-serif";
+    ctx.fillText(text, REPORT_MARGIN, y);
+    y += 40;
+  };
+
+  startPage();
+
+  // 1. Title
+  ctx.fillStyle = "#111827";
+  ctx.font = "bold 44px Arial, sans-serif";
+  y = wrapText(ctx, t('analysis.title', { assignment }), REPORT_MARGIN, y + 20, contentWidth, 54);
+  ctx.fillStyle = "#4b5563";
+  ctx.font = "24px Arial, sans-serif";
+  ctx.fillText(
+    t('analysis.reportSummary', {
+      students: t('common.studentCount', { count: report.studentCount }),
+      percent: report.averagePercent,
+      date: new Date().toLocaleDateString(),
+    }),
+    REPORT_MARGIN,
+    y
+  );
+  y += 40;
+
+  // 2. Score Distribution Histogram
+  heading(t('analysis.distribution'));
+  const chartHeight = 260;
+  ensureSpace(chartHeight + 60);
+  const maxCount = Math.max(1, ...report.distribution.map(b => b.count));
+  const barSlot = contentWidth / report.distribution.length;
+  const chartBottom = y + chartHeight;
+
+  report.distribution.forEach((bucket, i) => {
+    const barHeight = (bucket.count / maxCount) * (chartHeight - 30);
+    const barX = REPORT_MARGIN + i * barSlot + barSlot * 0.15;
+    ctx.fillStyle = "#3b82f6";
+    ctx.fillRect(barX, chartBottom - barHeight, barSlot * 0.7, barHeight);
+
+    ctx.fillStyle = "#111827";
+    ctx.font = "bold 20px Arial, sans-serif";
+    ctx.textAlign = "center";
+    if (bucket.count > 0) ctx.fillText(String(bucket.count), barX + barSlot * 0.35, chartBottom - barHeight - 8);
+    ctx.fillStyle = "#6b7280";
+    ctx.font = "16px Arial, sans-serif";
+    ctx.fillText(bucket.label, barX + barSlot * 0.35, chartBottom + 24);
+    ctx.textAlign = "left";
+  });
+  y = chartBottom + 60;
+
+  // 3. Per-Question Breakdown
+  heading(t('analysis.questions'));
+  report.questions.forEach(q => {
+    ensureSpace(150);
+
+    ctx.fillStyle = "#111827";
+    ctx.font = "bold 24px Arial, sans-serif";
+    ctx.fillText(q.label, REPORT_MARGIN, y);
+
+    // Percent correct bar
+    const barX = REPORT_MARGIN + 120;
+    const barWidth = contentWidth - 360;
+    ctx.fillStyle = "#e5e7eb";
+    ctx.fillRect(barX, y - 20, barWidth, 24);
+    ctx.fillStyle = q.percentCorrect >= 70 ? "#22c55e" : q.percentCorrect >= 40 ? "#f59e0b" : "#ef4444";
+    ctx.fillRect(barX, y - 20, barWidth * (q.percentCorrect / 100), 24);
+
+    ctx.fillStyle = "#374151";
+    ctx.font = "20px Arial, sans-serif";
+    ctx.fillText(t('analysis.percentCorrectAverage', { percent: q.percentCorrect, average: q.averagePercent }), barX + barWidth + 16, y);
+    y += 34;
+
+    ctx.font = "20px Arial, sans-serif";
+    if (q.question) {
+      ctx.fillStyle = "#6b7280";
+      y = wrapText(ctx, q.question, REPORT_MARGIN + 120, y, contentWidth - 120, 28);
+    }
+    if (q.commonWrongAnswers.length > 0) {
+      ctx.fillStyle = "#b91c1c";
+      const wrongText = q.commonWrongAnswers.map(w => `"${w.answer}" ×${w.count}`).join("   ");
+      y = wrapText(ctx, t('analysis.commonWrong', { answers: wrongText }), REPORT_MARGIN + 120, y, contentWidth - 120, 28);
+    }
+    y += 20;
+  });
+
+  // 4. AI / Teacher Disagreements
+  heading(t('analysis.disputed'));
+  ctx.font = "22px Arial, sans-serif";
+  if (report.mostDisputed.length === 0) {
+    ctx.fillStyle = "#6b7280";
+    ctx.fillText(t('analysis.noDisputes'), REPORT_MARGIN, y);
+    y += 34;
   }
+  report.mostDisputed.forEach(q => {
+    ensureSpace(40);
+    ctx.fillStyle = "#374151";
+    ctx.fillText(
+      t('analysis.overriddenReport', { label: q.label, count: q.disagreements, percent: q.disagreementRate }),
+      REPORT_MARGIN,
+      y
+    );
+    y += 34;
+  });
 
+  flushPage();
   return pdf.output("blob");
-};
\ No newline at end of file
+};
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { LayoutBlock, SidebarGeometry, layoutSidebar } from "./pdfLayout";
+
+const geometry: SidebarGeometry = {
+  imageWidth: 1000,
+  columnWidth: 300,
+  top: 100,
+  continuationTop: 50,
+  bottom: 1000,
+  gap: 10,
+  maxColumns: 2,
+};
+
+const blocks = (...spec: [number, number][]): LayoutBlock[] => spec.map(([anchorY, height]) => ({ anchorY, height }));
+
+// Helper to check that no two blocks in the same column of the same sheet overlap
+const expectNoOverlap = (input: LayoutBlock[], placements: ReturnType<typeof layoutSidebar>['placements']) => {
+  placements.forEach((a, i) => placements.forEach((b, j) => {
+    if (j <= i || a.sheet !== b.sheet || a.column !== b.column) return;
+    const [upper, lower, upperHeight] = a.y <= b.y ? [a, b, input[i].height] : [b, a, input[j].height];
+    expect(lower.y).toBeGreaterThanOrEqual(upper.y + upperHeight + geometry.gap);
+  }));
+};
+
+describe("layoutSidebar", () => {
+  it("puts blocks level with their marks when there is room", () => {
+    const input = blocks([200, 50], [500, 50], [800, 50]);
+    const layout = layoutSidebar(input, geometry);
+
+    expect(layout.placements).toEqual([
+      { sheet: 0, column: 0, x: 1000, y: 200 },
+      { sheet: 0, column: 0, x: 1000, y: 500 },
+      { sheet: 0, column: 0, x: 1000, y: 800 },
+    ]);
+    expect(layout).toMatchObject({ columns: 1, continuationSheets: 0 });
+  });
+
+  it("pushes crowded blocks down and pulls the last ones back above the bottom", () => {
+    const input = blocks([90, 100], [120, 100], [950, 100]);
+    const { placements } = layoutSidebar(input, geometry);
+
+    expect(placements.map(p => p.y)).toEqual([100, 210, 900]);
+    expectNoOverlap(input, placements);
+  });
+
+  it("opens a second column when one can't hold every block", () => {
+    const input = blocks([100, 400], [300, 400], [500, 400]);
+    const layout = layoutSidebar(input, geometry);
+
+    expect(layout.columns).toBe(2);
+    expect(layout.placements.map(p => [p.column, p.x])).toEqual([[0, 1000], [0, 1000], [1, 1300]]);
+    expectNoOverlap(input, layout.placements);
+  });
+
+  it("spills what the exam sheet can't hold onto continuation sheets", () => {
+    const input = blocks(...Array.from({ length: 12 }, (_, i): [number, number] => [100 + i * 70, 280]));
+    const layout = layoutSidebar(input, geometry);
+
+    const onExamSheet = layout.placements.filter(p => p.sheet === 0);
+    expect(onExamSheet).toHaveLength(6);
+    expect(layout.continuationColumns).toBe(5); // 1000 + 2 * 300 wide
+    expect(layout.continuationSheets).toBe(1);
+
+    const continued = layout.placements.filter(p => p.sheet === 1);
+    expect(continued[0]).toEqual({ sheet: 1, column: 0, x: 0, y: 50 });
+    expect(continued[1]).toEqual({ sheet: 1, column: 0, x: 0, y: 340 });
+    expect(continued[3]).toMatchObject({ column: 1, x: 300, y: 50 });
+    expectNoOverlap(input, layout.placements);
+  });
+
+  it("pins a block taller than the column to the top instead of dropping it", () => {
+    const layout = layoutSidebar(blocks([600, 2000], [700, 50]), geometry);
+
+    expect(layout.placements[0]).toEqual({ sheet: 0, column: 0, x: 1000, y: 100 });
+    expect(layout.placements[1]).toMatchObject({ sheet: 0, column: 1, y: 700 });
+  });
+
+  it("keeps paper order across columns", () => {
+    const input = blocks(...Array.from({ length: 8 }, (_, i): [number, number] => [100 + i * 100, 200]));
+    const { placements } = layoutSidebar(input, geometry);
+    const order = placements.map(p => [p.sheet, p.column]);
+
+    expect(order).toEqual([...order].sort((a, b) => a[0] - b[0] || a[1] - b[1]));
+  });
+
+  it("reserves a column even for a page without feedback", () => {
+    expect(layoutSidebar([], geometry)).toEqual({ placements: [], columns: 1, continuationSheets: 0, continuationColumns: 4 });
+  });
+});
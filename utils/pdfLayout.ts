@@ -0,0 +1,238 @@
+import { GradingMark } from "../types";
+import { firstErrorStep, formatPoints, getMethodPoints, getPointsAwarded, getPointsPossible } from "./scoring";
+import { Translate } from "../i18n";
+import { RichLine, richHeight } from "./pdfMath";
+import { truncateMath } from "./math";
+
+// Sidebar layout shared by the raster and vector PDF renderers. The renderers measure each
+// feedback block in their own units; the engine only works with heights and y positions.
+
+export type FeedbackStyle = 'normal' | 'bold' | 'italic';
+
+export interface FeedbackSegment {
+  text: string;
+  style: FeedbackStyle;
+  color: string;
+  scale: number; // Relative to the base font size and line height
+  highlight?: string; // Background behind the lines, e.g. for the first wrong step
+}
+
+// Explanations longer than this are cut short in the sidebar and printed in full in the appendix
+export const NOTE_CHAR_LIMIT = 240;
+
+export interface AppendixEntry {
+  ref: string; // "A1", "A2", ...
+  markId: string;
+  pageIndex: number;
+  label: string;
+  text: string;
+}
+
+// Numbers the over-long explanations in paper order so references read A1, A2, ... through the PDF
+export const collectAppendix = (marks: GradingMark[], t: Translate): AppendixEntry[] => {
+  return [...marks]
+    .sort((a, b) => a.pageIndex - b.pageIndex || a.y - b.y)
+    .filter(m => (m.explanation || '').length > NOTE_CHAR_LIMIT)
+    .map((m, i) => ({
+      ref: `A${i + 1}`,
+      markId: m.id,
+      pageIndex: m.pageIndex,
+      label: m.question || t('mark.question'),
+      text: m.explanation as string,
+    }));
+};
+
+// The text lines of one sidebar entry, top to bottom
+export const feedbackSegments = (
+  mark: GradingMark,
+  number: number,
+  t: Translate,
+  appendixRef?: string,
+  overrideNote?: string
+): FeedbackSegment[] => {
+  const questionScore = `[${formatPoints(getPointsAwarded(mark))}/${formatPoints(getPointsPossible(mark))}]`;
+  const segments: FeedbackSegment[] = [
+    { text: `${number}. ${questionScore} ${mark.question || t('mark.question')}`, style: 'bold', color: '#6b7280', scale: 1 },
+    { text: t('pdf.answer', { answer: mark.studentAnswer || '' }), style: 'normal', color: '#111827', scale: 1 },
+  ];
+
+  // The working step by step; wrong steps in red, the first of them highlighted with what went wrong
+  const firstError = firstErrorStep(mark.steps);
+  mark.steps?.forEach((step, i) => {
+    const wrong = step.verdict === 'incorrect';
+    const highlight = i === firstError ? '#fee2e2' : undefined;
+    segments.push({ text: t('pdf.step', { number: i + 1, step: step.text }), style: highlight ? 'bold' : 'normal', color: wrong ? '#b91c1c' : '#374151', scale: 0.9, highlight });
+    if (highlight) {
+      const comment = step.comment ? `: ${step.comment}` : '';
+      segments.push({ text: `${t('pdf.firstError')}${comment}`, style: 'italic', color: '#b91c1c', scale: 0.85, highlight });
+    }
+  });
+
+  const methodPoints = getMethodPoints(mark);
+  if (methodPoints > 0) {
+    segments.push({ text: t('pdf.methodCredit', { points: formatPoints(methodPoints) }), style: 'italic', color: '#15803d', scale: 0.9 });
+  }
+
+  if (mark.status !== 'correct' && mark.correctAnswer) {
+    segments.push({ text: t('pdf.correct', { answer: mark.correctAnswer }), style: 'italic', color: '#15803d', scale: 1 });
+  }
+
+  if (mark.explanation) {
+    const note = appendixRef
+      ? `${truncateMath(mark.explanation, NOTE_CHAR_LIMIT).trimEnd()}… ${t('pdf.seeAppendix', { ref: appendixRef })}`
+      : mark.explanation;
+    segments.push({ text: t('pdf.note', { note }), style: 'normal', color: '#4b5563', scale: 0.9 });
+  }
+
+  if (overrideNote) {
+    segments.push({ text: overrideNote, style: 'italic', color: '#7c3aed', scale: 0.9 });
+  }
+
+  return segments;
+};
+
+// Region of the first wrong step of the working, if the AI located it
+export const firstErrorBox = (mark: GradingMark) => mark.steps?.[firstErrorStep(mark.steps)]?.box;
+
+/**
+ * Where a mark's tick or cross is drawn, in image pixels. With an answer box it sits just right of
+ * the box so it doesn't cover the handwriting (left of it if the box runs to the edge of the page);
+ * without one it goes on the mark's point.
+ */
+export const symbolPosition = (
+  mark: GradingMark,
+  imageWidth: number,
+  imageHeight: number,
+  symbolSize: number
+): { x: number; y: number } => {
+  const box = mark.answerBox;
+  if (!box) return { x: (mark.x / 100) * imageWidth, y: (mark.y / 100) * imageHeight };
+
+  const y = ((box.y + box.height / 2) / 100) * imageHeight;
+  const right = ((box.x + box.width) / 100) * imageWidth + symbolSize;
+  if (right + symbolSize / 2 <= imageWidth) return { x: right, y };
+
+  const left = (box.x / 100) * imageWidth - symbolSize;
+  if (left - symbolSize / 2 >= 0) return { x: left, y };
+  return { x: imageWidth - symbolSize, y };
+};
+
+// Wrapped text of one feedback block, measured in a particular renderer's units
+export interface MeasuredBlock {
+  mark: GradingMark;
+  number: number;
+  segments: FeedbackSegment[];
+  lines: string[][];
+  richLines: (RichLine[] | null)[]; // Segments with formulas are wrapped here instead of in lines
+  height: number;
+}
+
+export const segmentHeight = (segment: FeedbackSegment, lines: string[], richLines: RichLine[] | null, lineHeight: number): number => {
+  return richLines ? richHeight(richLines) : lines.length * lineHeight * segment.scale;
+};
+
+export interface LayoutBlock {
+  anchorY: number; // Preferred top of the block, usually level with its mark
+  height: number;
+}
+
+export interface SidebarGeometry {
+  imageWidth: number;  // Columns on the exam sheet start right of the image
+  columnWidth: number;
+  top: number;         // First free y on the exam sheet, below the header and score
+  continuationTop: number;
+  bottom: number;
+  gap: number;
+  maxColumns: number;  // Columns on the exam sheet before spilling onto continuation sheets
+}
+
+export interface BlockPlacement {
+  sheet: number;  // 0 = the exam sheet, 1+ = continuation sheets
+  column: number;
+  x: number;
+  y: number;
+}
+
+export interface SidebarLayout {
+  placements: BlockPlacement[]; // Same order as the input blocks
+  columns: number;              // Sidebar columns on the exam sheet
+  continuationSheets: number;
+  continuationColumns: number;
+}
+
+// Places blocks as close to their anchors as possible without overlapping, or returns null if
+// they can't all fit between top and bottom. A single oversized block is pinned to the top.
+const packAnchored = (blocks: LayoutBlock[], top: number, bottom: number, gap: number): number[] | null => {
+  const total = blocks.reduce((sum, b) => sum + b.height, 0) + gap * Math.max(0, blocks.length - 1);
+  if (blocks.length > 1 && total > bottom - top) return null;
+
+  // Forward pass: push blocks down so none overlaps the one above it
+  const ys: number[] = [];
+  blocks.forEach((block, i) => {
+    const floor = i === 0 ? top : ys[i - 1] + blocks[i - 1].height + gap;
+    ys.push(Math.max(block.anchorY, floor));
+  });
+
+  // Backward pass: pull blocks that ran off the bottom back up
+  for (let i = blocks.length - 1; i >= 0; i--) {
+    const ceiling = i === blocks.length - 1 ? bottom : ys[i + 1] - gap;
+    ys[i] = Math.max(top, Math.min(ys[i], ceiling - blocks[i].height));
+  }
+  return ys;
+};
+
+// Largest leading run of blocks that fits in one column (at least one, so oversized blocks still land somewhere)
+const fittingPrefix = (blocks: LayoutBlock[], top: number, bottom: number, gap: number): number => {
+  let used = 0;
+  for (let i = 0; i < blocks.length; i++) {
+    used += blocks[i].height + (i > 0 ? gap : 0);
+    if (used > bottom - top) return Math.max(1, i);
+  }
+  return blocks.length;
+};
+
+/**
+ * Lays out a page's feedback blocks, which must already be sorted by anchor. Blocks fill the
+ * sidebar column by column, keeping paper order so connectors don't cross; whatever doesn't fit
+ * on the exam sheet stacks onto continuation sheets of the same size.
+ */
+export const layoutSidebar = (blocks: LayoutBlock[], geometry: SidebarGeometry): SidebarLayout => {
+  const { imageWidth, columnWidth, top, continuationTop, bottom, gap, maxColumns } = geometry;
+  const placements: BlockPlacement[] = [];
+  let next = 0;
+  let columns = 0;
+
+  // 1. Exam sheet: anchored columns beside the image
+  while (next < blocks.length && columns < maxColumns) {
+    const rest = blocks.slice(next);
+    const count = fittingPrefix(rest, top, bottom, gap);
+    const ys = packAnchored(rest.slice(0, count), top, bottom, gap) || [top];
+    ys.forEach(y => placements.push({ sheet: 0, column: columns, x: imageWidth + columns * columnWidth, y }));
+    next += count;
+    columns++;
+  }
+
+  // 2. Continuation sheets: plain top-down columns across the full sheet width
+  const sheetWidth = imageWidth + Math.max(1, columns) * columnWidth;
+  const continuationColumns = Math.max(1, Math.floor(sheetWidth / columnWidth));
+  let sheet = 0;
+  let column = continuationColumns;
+
+  while (next < blocks.length) {
+    if (column === continuationColumns) {
+      sheet++;
+      column = 0;
+    }
+    const rest = blocks.slice(next);
+    const count = fittingPrefix(rest, continuationTop, bottom, gap);
+    let y = continuationTop;
+    rest.slice(0, count).forEach(block => {
+      placements.push({ sheet, column, x: column * columnWidth, y });
+      y += block.height + gap;
+    });
+    next += count;
+    column++;
+  }
+
+  return { placements, columns: Math.max(1, columns), continuationSheets: sheet, continuationColumns };
+};
@@ -0,0 +1,178 @@
+import { TypesetMath, ensureMathJax, parseMath, typesetMath } from "./math";
+import { containsCjk } from "./pdfFonts";
+
+// Formulas for both PDF renderers: typeset once per export, then wrapped inline with the text
+// around them. Each renderer measures text and draws the runs in its own way.
+
+// Resolution of formula images embedded by the vector renderer, in pixels per em
+const FORMULA_PX_PER_EM = 96;
+
+export interface PdfFormula extends TypesetMath {
+  id: string;              // Image alias, so jsPDF embeds each formula once
+  image: HTMLImageElement; // The SVG itself, for painting onto a canvas
+  png: string;             // Rasterized copy for jsPDF, which can't embed SVG
+}
+
+export interface PdfFormulas {
+  // Typesets every formula in these texts; afterwards get() has them, unless MathJax could not load
+  prepare(texts: { text: string; color: string }[]): Promise<void>;
+  get(tex: string, display: boolean, color: string): PdfFormula | undefined;
+}
+
+const loadSvgImage = (svg: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
+};
+
+const rasterize = (img: HTMLImageElement, math: TypesetMath): string => {
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.ceil(math.width * FORMULA_PX_PER_EM));
+  canvas.height = Math.max(1, Math.ceil(math.height * FORMULA_PX_PER_EM));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("No context");
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL("image/png");
+};
+
+export const createPdfFormulas = (): PdfFormulas => {
+  const formulas = new Map<string, PdfFormula>();
+  let unavailable = false;
+  const keyOf = (tex: string, display: boolean, color: string) => `${display ? 'D' : 'I'}|${color}|${tex}`;
+
+  return {
+    prepare: async (texts) => {
+      const wanted = texts.flatMap(({ text, color }) => parseMath(text)
+        .flatMap(part => part.type === 'math' ? [{ ...part, color }] : [])
+        .filter(part => !formulas.has(keyOf(part.tex, part.display, part.color))));
+      if (wanted.length === 0 || unavailable) return;
+
+      try {
+        await ensureMathJax();
+      } catch (error) {
+        console.warn("Formulas printed as LaTeX:", error);
+        unavailable = true;
+        return;
+      }
+
+      for (const { tex, display, color } of wanted) {
+        const key = keyOf(tex, display, color);
+        if (formulas.has(key)) continue;
+        try {
+          const math = typesetMath(tex, display, color);
+          const image = await loadSvgImage(math.svg);
+          formulas.set(key, { ...math, id: `formula-${formulas.size + 1}`, image, png: rasterize(image, math) });
+        } catch (error) {
+          console.warn(`Formula ${tex} printed as LaTeX:`, error);
+        }
+      }
+    },
+    get: (tex, display, color) => formulas.get(keyOf(tex, display, color)),
+  };
+};
+
+// One piece of a wrapped line, in the renderer's pixels. Formulas sit on the text baseline.
+export type LineRun =
+  | { type: 'text'; text: string; width: number }
+  | { type: 'math'; formula: PdfFormula; width: number; height: number; depth: number };
+
+export interface RichLine {
+  runs: LineRun[];
+  above: number;   // Extra room above the line for tall formulas; the baseline drops by this much
+  advance: number; // Vertical space the whole line takes
+}
+
+type Token = { text: string; space: boolean } | { math: LineRun & { type: 'math' }; display: boolean };
+
+/**
+ * Wraps text containing formulas to maxWidth, like the renderers' plain wrapping but with formulas
+ * kept whole (shrunk if wider than a line) and display formulas on lines of their own.
+ * `measure` gives the width of text in the current font. Formulas that weren't typeset stay as LaTeX.
+ */
+export const wrapRichText = (
+  text: string,
+  color: string,
+  formulas: PdfFormulas,
+  maxWidth: number,
+  fontSize: number,
+  lineHeight: number,
+  measure: (text: string) => number
+): RichLine[] => {
+  // 1. Break the text into words, spaces, single CJK characters and formulas
+  const tokens: Token[] = parseMath(text).flatMap((part): Token[] => {
+    if (part.type === 'math') {
+      const formula = formulas.get(part.tex, part.display, color);
+      if (!formula) return [{ text: part.tex, space: false }];
+      const fit = Math.min(1, maxWidth / (formula.width * fontSize));
+      const size = fontSize * fit;
+      return [{
+        math: { type: 'math', formula, width: formula.width * size, height: formula.height * size, depth: formula.depth * size },
+        display: part.display,
+      }];
+    }
+    return (part.text.match(/\s+|[^\s]+/g) || []).flatMap((word): Token[] => {
+      if (/^\s+$/.test(word)) return [{ text: ' ', space: true }];
+      return containsCjk(word) ? [...word].map(char => ({ text: char, space: false })) : [{ text: word, space: false }];
+    });
+  });
+
+  // 2. Fill lines greedily
+  const lines: LineRun[][] = [];
+  let line: LineRun[] = [];
+  let width = 0;
+  const breakLine = () => {
+    const last = line[line.length - 1];
+    if (last?.type === 'text') last.text = last.text.trimEnd(); // Trailing space doesn't print
+    if (line.length > 0) lines.push(line);
+    line = [];
+    width = 0;
+  };
+  const addText = (text: string) => {
+    const last = line[line.length - 1];
+    if (last?.type === 'text') {
+      last.text += text;
+      last.width = measure(last.text);
+    } else {
+      line.push({ type: 'text', text, width: measure(text) });
+    }
+    width = line.reduce((sum, run) => sum + run.width, 0);
+  };
+
+  tokens.forEach(token => {
+    if ('math' in token) {
+      if (token.display || width + token.math.width > maxWidth) breakLine();
+      line.push(token.math);
+      width += token.math.width;
+      if (token.display) breakLine();
+      return;
+    }
+    if (token.space) {
+      if (line.length > 0) addText(token.text);
+      return;
+    }
+    if (width + measure(token.text) > maxWidth) breakLine();
+    // A word longer than a whole line is broken between characters
+    if (measure(token.text) > maxWidth) {
+      [...token.text].forEach(char => {
+        if (width + measure(char) > maxWidth) breakLine();
+        addText(char);
+      });
+      return;
+    }
+    addText(token.text);
+  });
+  breakLine();
+
+  // 3. Make room for formulas that rise above or reach below an ordinary line
+  return (lines.length > 0 ? lines : [[]]).map(runs => {
+    const maths = runs.filter((run): run is LineRun & { type: 'math' } => run.type === 'math');
+    const above = Math.max(0, ...maths.map(run => run.height - run.depth - fontSize * 0.8));
+    const below = Math.max(0, ...maths.map(run => run.depth - fontSize * 0.3));
+    return { runs, above, advance: lineHeight + above + below };
+  });
+};
+
+export const richHeight = (lines: RichLine[]): number => lines.reduce((sum, line) => sum + line.advance, 0);
@@ -0,0 +1,28 @@
+import { MarkStatus } from "../types";
+
+// Shared by the raster and vector PDF renderers
+
+export const STATUS_COLORS: Record<MarkStatus, string> = {
+  correct: '#22c55e',
+  partial: '#f59e0b',
+  incorrect: '#ef4444',
+  unanswered: '#64748b',
+};
+
+// Sidebar width as a share of the exam image width
+export const SIDEBAR_RATIO = 0.45;
+
+// Portrait report pages (item analysis, appendix): A4 at 150 dpi
+export const REPORT_WIDTH = 1240;
+export const REPORT_HEIGHT = 1754;
+export const REPORT_MARGIN = 80;
+
+export const loadImage = async (src: string): Promise<HTMLImageElement> => {
+  const img = new Image();
+  img.src = src;
+  await new Promise((resolve, reject) => {
+    img.onload = resolve;
+    img.onerror = reject;
+  });
+  return img;
+};
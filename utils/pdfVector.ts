@@ -0,0 +1,399 @@
+import { GState, jsPDF } from "jspdf";
+import { Annotation, ExamPage, GradingMark, MarkStatus } from "../types";
+import { formatPoints, summarizeScore } from "./scoring";
+import { REPORT_HEIGHT, REPORT_MARGIN, REPORT_WIDTH, SIDEBAR_RATIO, STATUS_COLORS, loadImage } from "./pdfShared";
+import { MeasuredBlock, collectAppendix, feedbackSegments, firstErrorBox, layoutSidebar, segmentHeight, symbolPosition } from "./pdfLayout";
+import { PdfFormulas, RichLine, createPdfFormulas, richHeight, wrapRichText } from "./pdfMath";
+import { containsMath } from "./math";
+import { PdfFonts, containsCjk, registerPdfFonts, setPdfFont } from "./pdfFonts";
+import { HIGHLIGHTER_OPACITY, stampBox } from "./annotations";
+import { isCjkLanguage, translator } from "../i18n";
+
+// Helper to re-encode the page photo as JPEG at its native resolution
+const imageToJpeg = (img: HTMLImageElement): string => {
+  const canvas = document.createElement("canvas");
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("No context");
+  ctx.drawImage(img, 0, 0);
+  return canvas.toDataURL("image/jpeg", 0.85);
+};
+
+// Draws wrapped text and returns the y position below it (mirrors the canvas wrapText)
+const writeText = (
+  pdf: jsPDF,
+  text: string,
+  x: number,
+  y: number,
+  maxWidth: number,
+  lineHeight: number
+): number => {
+  const lines: string[] = pdf.splitTextToSize(text, maxWidth);
+  lines.forEach((line, i) => pdf.text(line, x, y + i * lineHeight));
+  return y + lines.length * lineHeight;
+};
+
+// Helper to draw one line of text and formulas with its baseline at y
+const drawRichLine = (pdf: jsPDF, line: RichLine, x: number, y: number) => {
+  let currentX = x;
+  line.runs.forEach(run => {
+    if (run.type === 'text') {
+      pdf.text(run.text, currentX, y);
+    } else {
+      pdf.addImage(run.formula.png, 'PNG', currentX, y - (run.height - run.depth), run.width, run.height, run.formula.id);
+    }
+    currentX += run.width;
+  });
+};
+
+const drawMarkSymbol = (pdf: jsPDF, status: MarkStatus, x: number, y: number, size: number) => {
+  if (status === 'correct' || status === 'partial') {
+    pdf.line(x - size / 2, y, x - size / 10, y + size / 2);
+    pdf.line(x - size / 10, y + size / 2, x + size / 2, y - size);
+    if (status === 'partial') {
+      // Slash through the tick
+      pdf.line(x - size / 10, y - size / 2, x + size / 3, y);
+    }
+  } else if (status === 'unanswered') {
+    // Empty circle where the answer should have been
+    pdf.circle(x, y, size * 0.4, 'S');
+  } else {
+    const half = size * 0.4;
+    pdf.line(x - half, y - half, x + half, y + half);
+    pdf.line(x + half, y - half, x - half, y + half);
+  }
+};
+
+// Helper to draw a measured block with its top baseline at y
+const drawVectorBlock = (
+  pdf: jsPDF,
+  fonts: PdfFonts,
+  block: MeasuredBlock,
+  x: number,
+  y: number,
+  width: number,
+  baseFontSize: number,
+  lineHeight: number
+) => {
+  pdf.setFillColor(STATUS_COLORS[block.mark.status]);
+  pdf.circle(x - 15, y - baseFontSize / 3, 6, 'F');
+
+  let currentY = y;
+  block.segments.forEach((segment, s) => {
+    const richLines = block.richLines[s];
+    if (segment.highlight) {
+      pdf.setFillColor(segment.highlight);
+      pdf.rect(x - 6, currentY - lineHeight * segment.scale * 0.75, width + 12, segmentHeight(segment, block.lines[s], richLines, lineHeight), 'F');
+    }
+    pdf.setTextColor(segment.color);
+    setPdfFont(pdf, fonts, segment.style, Math.floor(baseFontSize * segment.scale));
+    if (richLines) {
+      richLines.forEach(line => {
+        drawRichLine(pdf, line, x, currentY + line.above);
+        currentY += line.advance;
+      });
+    } else {
+      block.lines[s].forEach(line => {
+        pdf.text(line, x, currentY);
+        currentY += lineHeight * segment.scale;
+      });
+    }
+    currentY += 5;
+  });
+};
+
+// Helper to draw the teacher's ink, text and stamps over the exam image
+const drawVectorAnnotations = (
+  pdf: jsPDF,
+  fonts: PdfFonts,
+  annotations: Annotation[],
+  width: number,
+  height: number
+) => {
+  annotations.forEach(annotation => {
+    switch (annotation.type) {
+      case 'stroke': {
+        pdf.saveGraphicsState();
+        if (annotation.tool === 'highlighter') pdf.setGState(new GState({ "stroke-opacity": HIGHLIGHTER_OPACITY }));
+        pdf.setDrawColor(annotation.color);
+        pdf.setLineWidth(annotation.width * width);
+        pdf.setLineCap('round');
+        pdf.setLineJoin('round');
+        const points = annotation.points.map(p => [p.x * width, p.y * height]);
+        if (points.length === 1) points.push(points[0]); // A single tap leaves a dot
+        // jsPDF draws a polyline as relative steps from the first point
+        const steps = points.slice(1).map(([x, y], i) => [x - points[i][0], y - points[i][1]]);
+        pdf.lines(steps, points[0][0], points[0][1], [1, 1], 'S');
+        pdf.restoreGraphicsState();
+        break;
+      }
+      case 'text':
+        pdf.setTextColor(annotation.color);
+        setPdfFont(pdf, fonts, 'normal', Math.round(annotation.size * width));
+        pdf.text(annotation.text, annotation.at.x * width, annotation.at.y * height);
+        break;
+      case 'stamp': {
+        const box = stampBox(annotation);
+        const w = box.width * width;
+        const h = box.height * width;
+        const x = annotation.at.x * width;
+        const y = annotation.at.y * height;
+        pdf.setFillColor("#ffffff");
+        pdf.setDrawColor(annotation.color);
+        pdf.setLineWidth(annotation.size * 0.12 * width);
+        pdf.roundedRect(x - w / 2, y - h / 2, w, h, h * 0.25, h * 0.25, 'FD');
+        pdf.setTextColor(annotation.color);
+        setPdfFont(pdf, fonts, 'bold', Math.round(annotation.size * width));
+        pdf.text(annotation.label, x, y, { align: 'center', baseline: 'middle' });
+        break;
+      }
+    }
+  });
+};
+
+export const generateVectorPDF = async (
+  pages: ExamPage[],
+  marks: GradingMark[],
+  language: string,
+  overrideNotes: Record<string, string> = {}
+): Promise<Blob> => {
+  const pdf = new jsPDF({
+    orientation: "landscape",
+    unit: "px",
+    hotfixes: ["px_scaling"],
+  });
+  pdf.deletePage(1);
+  const t = translator(language);
+
+  const inkText = pages.flatMap(p => p.annotations || []).map(a => a.type === 'text' ? a.text : a.type === 'stamp' ? a.label : '');
+  const allText = marks.map(m => [m.question, m.studentAnswer, m.correctAnswer, m.explanation, overrideNotes[m.id], ...(m.steps || []).map(s => `${s.text} ${s.comment || ''}`)].join(" "))
+    .concat(inkText)
+    .join(" ");
+  const needsCjk = isCjkLanguage(language) || containsCjk(allText);
+  // Throws when the CJK font can't be loaded or the text needs another script, which sends the caller to raster mode
+  const fonts: PdfFonts = await registerPdfFonts(pdf, needsCjk, allText);
+
+  const totalScore = summarizeScore(marks);
+  const countOf = (status: MarkStatus) => marks.filter(m => m.status === status).length;
+  const appendix = collectAppendix(marks, t);
+  const formulas: PdfFormulas = createPdfFormulas();
+
+  for (let i = 0; i < pages.length; i++) {
+    const page = pages[i];
+    const pageMarks = marks
+      .filter((m) => m.pageIndex === i)
+      .sort((a, b) => a.y - b.y); // Sort by vertical position for sidebar flow
+
+    // 1. Page Metrics
+    const img = await loadImage(page.imageUrl);
+    const originalWidth = img.naturalWidth;
+    const originalHeight = img.naturalHeight;
+    const sidebarWidth = Math.floor(originalWidth * SIDEBAR_RATIO);
+    const sidebarPadding = 40;
+    const sidebarContentWidth = sidebarWidth - (sidebarPadding * 2);
+    const baseFontSize = Math.floor(originalWidth * 0.015);
+    const lineHeight = baseFontSize * 1.5;
+    const summaryHeight = baseFontSize * 4.5;
+
+    // 2. Typeset Formulas, Measure Feedback and Lay Out the Sidebar
+    const feedback = pageMarks.map((mark, index) => {
+      const ref = appendix.find(a => a.markId === mark.id)?.ref;
+      return feedbackSegments(mark, index + 1, t, ref, overrideNotes[mark.id]);
+    });
+    await formulas.prepare(feedback.flat());
+
+    const blocks: MeasuredBlock[] = pageMarks.map((mark, index) => {
+      const segments = feedback[index];
+      const richLines = segments.map(segment => {
+        if (!containsMath(segment.text)) return null;
+        const fontSize = Math.floor(baseFontSize * segment.scale);
+        setPdfFont(pdf, fonts, segment.style, fontSize);
+        return wrapRichText(segment.text, segment.color, formulas, sidebarContentWidth, fontSize, lineHeight * segment.scale, text => pdf.getTextWidth(text));
+      });
+      const lines = segments.map((segment, s) => {
+        if (richLines[s]) return [];
+        setPdfFont(pdf, fonts, segment.style, Math.floor(baseFontSize * segment.scale));
+        return pdf.splitTextToSize(segment.text, sidebarContentWidth) as string[];
+      });
+      const height = segments.reduce((sum, segment, s) => sum + segmentHeight(segment, lines[s], richLines[s], lineHeight) + 5, 0);
+      return { mark, number: index + 1, segments, lines, richLines, height };
+    });
+
+    const headerBottom = 120 + (i === 0 ? summaryHeight : 0) + (pages.length > 1 ? lineHeight * 2 : 0);
+    const layout = layoutSidebar(
+      blocks.map(b => ({ anchorY: (b.mark.y / 100) * originalHeight, height: b.height })),
+      {
+        imageWidth: originalWidth,
+        columnWidth: sidebarWidth,
+        top: headerBottom,
+        continuationTop: 120,
+        bottom: originalHeight - baseFontSize,
+        gap: lineHeight,
+        maxColumns: 2,
+      }
+    );
+    const totalWidth = originalWidth + layout.columns * sidebarWidth;
+    const orientation = totalWidth > originalHeight ? 'l' : 'p';
+
+    pdf.addPage([totalWidth, originalHeight], orientation);
+
+    // 3. Exam Image and Sidebar Background
+    pdf.addImage(imageToJpeg(img), 'JPEG', 0, 0, originalWidth, originalHeight);
+    drawVectorAnnotations(pdf, fonts, page.annotations || [], originalWidth, originalHeight);
+
+    pdf.setFillColor("#f8f9fa");
+    pdf.rect(originalWidth, 0, totalWidth - originalWidth, originalHeight, 'F');
+    pdf.setDrawColor("#e5e7eb");
+    pdf.setLineWidth(2);
+    for (let c = 0; c < layout.columns; c++) {
+      pdf.line(originalWidth + c * sidebarWidth, 0, originalWidth + c * sidebarWidth, originalHeight);
+    }
+
+    // 4. Sidebar Header
+    const sidebarX = originalWidth + sidebarPadding;
+    let currentSidebarY = 60;
+
+    pdf.setTextColor("#1f2937");
+    setPdfFont(pdf, fonts, 'bold', Math.floor(originalWidth * 0.025));
+    pdf.text(t('pdf.title'), sidebarX, currentSidebarY);
+    currentSidebarY += 60;
+
+    // 5. Score Summary (total on the first page, page subtotal on every page)
+    if (i === 0) {
+      pdf.setFillColor("#eff6ff");
+      pdf.rect(originalWidth + sidebarPadding / 2, currentSidebarY - baseFontSize * 1.5, sidebarWidth - sidebarPadding, summaryHeight, 'F');
+
+      pdf.setTextColor("#1e3a8a");
+      setPdfFont(pdf, fonts, 'bold', Math.floor(baseFontSize * 1.6));
+      pdf.text(
+        `${t('pdf.score')}: ${formatPoints(totalScore.awarded)} / ${formatPoints(totalScore.possible)} (${totalScore.percent}%)`,
+        sidebarX,
+        currentSidebarY + baseFontSize * 0.3
+      );
+
+      pdf.setTextColor("#4b5563");
+      setPdfFont(pdf, fonts, 'normal', baseFontSize);
+      pdf.text(
+        `${t('status.correct')} ${countOf('correct')}   ${t('status.partial')} ${countOf('partial')}   ${t('status.incorrect')} ${countOf('incorrect')}   ${t('status.unanswered')} ${countOf('unanswered')}`,
+        sidebarX,
+        currentSidebarY + baseFontSize * 2
+      );
+      currentSidebarY += summaryHeight;
+    }
+
+    if (pages.length > 1) {
+      const pageScore = summarizeScore(pageMarks);
+      pdf.setTextColor("#6b7280");
+      setPdfFont(pdf, fonts, 'bold', baseFontSize);
+      pdf.text(
+        t('pdf.pageScore', { number: i + 1, awarded: formatPoints(pageScore.awarded), possible: formatPoints(pageScore.possible) }),
+        sidebarX,
+        currentSidebarY
+      );
+    }
+
+    // 6. Marks and Feedback on the Exam Sheet
+    blocks.forEach((block, index) => {
+      const { mark } = block;
+      const placement = layout.placements[index];
+      const color = STATUS_COLORS[mark.status];
+      const markSize = originalWidth * 0.03;
+      const { x: markX, y: markY } = symbolPosition(mark, originalWidth, originalHeight, markSize);
+
+      // --- Mark on Paper ---
+      pdf.setDrawColor(color);
+      pdf.setLineWidth(Math.max(3, originalWidth * 0.005));
+      pdf.setLineCap('round');
+      pdf.setLineJoin('round');
+      drawMarkSymbol(pdf, mark.status, markX, markY, markSize);
+
+      // --- First Wrong Step of the Working ---
+      const errorBox = firstErrorBox(mark);
+      if (errorBox) {
+        pdf.setDrawColor(STATUS_COLORS.incorrect);
+        pdf.setLineWidth(Math.max(2, originalWidth * 0.002));
+        pdf.rect(
+          (errorBox.x / 100) * originalWidth,
+          (errorBox.y / 100) * originalHeight,
+          (errorBox.width / 100) * originalWidth,
+          (errorBox.height / 100) * originalHeight,
+          'S'
+        );
+      }
+
+      if (placement.sheet === 0 && placement.column === 0) {
+        // --- Connector Line ---
+        pdf.setDrawColor("#d1d5db");
+        pdf.setLineWidth(2);
+        pdf.setLineDashPattern([10, 10], 0);
+        pdf.line(markX + markSize, markY, originalWidth, placement.y - baseFontSize / 3);
+        pdf.setLineDashPattern([], 0);
+      } else {
+        // No connector reaches a second column or continuation sheet; the number links them
+        pdf.setTextColor(color);
+        setPdfFont(pdf, fonts, 'bold', baseFontSize);
+        pdf.text(String(block.number), markX + markSize * 0.7, markY - markSize * 0.6);
+      }
+
+      if (placement.sheet === 0) {
+        drawVectorBlock(pdf, fonts, block, placement.x + sidebarPadding, placement.y, sidebarContentWidth, baseFontSize, lineHeight);
+      }
+    });
+
+    // 7. Continuation Sheets for Feedback That Didn't Fit
+    for (let sheet = 1; sheet <= layout.continuationSheets; sheet++) {
+      pdf.addPage([totalWidth, originalHeight], orientation);
+      pdf.setFillColor("#f8f9fa");
+      pdf.rect(0, 0, totalWidth, originalHeight, 'F');
+
+      pdf.setTextColor("#1f2937");
+      setPdfFont(pdf, fonts, 'bold', Math.floor(originalWidth * 0.025));
+      pdf.text(t('pdf.continued', { number: i + 1 }), sidebarPadding, 60);
+
+      blocks.forEach((block, index) => {
+        const placement = layout.placements[index];
+        if (placement.sheet === sheet) {
+          drawVectorBlock(pdf, fonts, block, placement.x + sidebarPadding, placement.y, sidebarContentWidth, baseFontSize, lineHeight);
+        }
+      });
+    }
+  }
+
+  // 8. Appendix with the full text of truncated explanations
+  if (appendix.length > 0) {
+    const contentWidth = REPORT_WIDTH - REPORT_MARGIN * 2;
+    const startPage = () => {
+      pdf.addPage([REPORT_WIDTH, REPORT_HEIGHT], 'p');
+      pdf.setTextColor("#111827");
+      setPdfFont(pdf, fonts, 'bold', 40);
+      pdf.text(t('pdf.appendix'), REPORT_MARGIN, REPORT_MARGIN + 20);
+      return REPORT_MARGIN + 90;
+    };
+
+    await formulas.prepare(appendix.map(entry => ({ text: entry.text, color: "#374151" })));
+
+    let y = startPage();
+    appendix.forEach(entry => {
+      setPdfFont(pdf, fonts, 'normal', 22);
+      const lines = wrapRichText(entry.text, "#374151", formulas, contentWidth, 22, 32, text => pdf.getTextWidth(text));
+      if (y + 40 + richHeight(lines) > REPORT_HEIGHT - REPORT_MARGIN && y > REPORT_MARGIN + 90) {
+        y = startPage();
+      }
+
+      pdf.setTextColor("#1f2937");
+      setPdfFont(pdf, fonts, 'bold', 24);
+      y = writeText(pdf, t('pdf.appendixEntry', { ref: entry.ref, number: entry.pageIndex + 1, label: entry.label }), REPORT_MARGIN, y, contentWidth, 34);
+      pdf.setTextColor("#374151");
+      setPdfFont(pdf, fonts, 'normal', 22);
+      lines.forEach(line => {
+        drawRichLine(pdf, line, REPORT_MARGIN, y + line.above);
+        y += line.advance;
+      });
+      y += 30;
+    });
+  }
+
+  pdf.setProperties({ title: "Graded Exam", subject: "Grading Report", creator: "SmartGrade AI" });
+  return pdf.output("blob");
+};
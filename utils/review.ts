@@ -0,0 +1,42 @@
+import { GradingMark } from "../types";
+import { reviewConfig } from "../config";
+
+// A mark is flagged when the AI could not read it or was unsure of it; manual marks never are
+export const isFlagged = (mark: GradingMark, threshold: number = reviewConfig.confidenceThreshold): boolean => {
+  return !!mark.illegible || (mark.confidence !== undefined && mark.confidence < threshold);
+};
+
+// Flagged marks the teacher has not yet confirmed or changed
+export const needsReview = (mark: GradingMark): boolean => isFlagged(mark) && !mark.reviewed;
+
+// A place on the exam to step from: a mark, or e.g. the top of the page being viewed
+export type ReviewPosition = Pick<GradingMark, 'pageIndex' | 'x' | 'y'> & { id?: string };
+
+// Reading order: page by page, then top to bottom, then left to right
+const compareReadingOrder = (a: ReviewPosition, b: ReviewPosition): number => {
+  return a.pageIndex - b.pageIndex || a.y - b.y || a.x - b.x;
+};
+
+export const reviewQueue = (marks: GradingMark[]): GradingMark[] => {
+  return marks.filter(needsReview).sort(compareReadingOrder);
+};
+
+/**
+ * The next (or previous) mark in the queue after `from`, wrapping around at either end.
+ * `from` need not be in the queue (a mark drops out once confirmed); only its position is used.
+ */
+export const stepReviewQueue = (
+  queue: GradingMark[],
+  from: ReviewPosition,
+  direction: 1 | -1
+): GradingMark | undefined => {
+  if (queue.length === 0) return undefined;
+  const others = queue.filter(m => m.id !== from.id);
+  if (others.length === 0) return queue[0];
+
+  if (direction === 1) {
+    return others.find(m => compareReadingOrder(m, from) >= 0) ?? others[0];
+  }
+  const before = others.filter(m => compareReadingOrder(m, from) <= 0);
+  return before[before.length - 1] ?? others[others.length - 1];
+};
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { GradingMark } from "../types";
+import { firstErrorStep, formatPoints, getMethodPoints, getPointsAwarded, getPointsPossible, nextStatus, statusForPoints, summarizeScore, withMethodPoints, withPoints, withStatus } from "./scoring";
+
+const mark = (overrides: Partial<GradingMark>): GradingMark => ({
+  id: "m1",
+  x: 50,
+  y: 50,
+  pageIndex: 0,
+  status: "incorrect",
+  ...overrides,
+});
+
+describe("points", () => {
+  it("defaults to one point, all of it for a correct answer and half for a partial one", () => {
+    expect(getPointsPossible(mark({}))).toBe(1);
+    expect(getPointsAwarded(mark({ status: "correct", pointsPossible: 4 }))).toBe(4);
+    expect(getPointsAwarded(mark({ status: "partial", pointsPossible: 3 }))).toBe(1.5);
+    expect(getPointsAwarded(mark({ status: "incorrect", pointsPossible: 3 }))).toBe(0);
+  });
+
+  it("keeps explicit points within range and gives blanks nothing", () => {
+    expect(getPointsAwarded(mark({ status: "partial", pointsAwarded: 3, pointsPossible: 4 }))).toBe(3);
+    expect(getPointsAwarded(mark({ pointsAwarded: 7, pointsPossible: 4 }))).toBe(4);
+    expect(getPointsAwarded(mark({ pointsAwarded: -2, pointsPossible: 4 }))).toBe(0);
+    expect(getPointsAwarded(mark({ status: "unanswered", pointsAwarded: 2, pointsPossible: 4 }))).toBe(0);
+  });
+
+  it("caps method credit at the points awarded", () => {
+    expect(getMethodPoints(mark({ status: "partial", pointsAwarded: 1, pointsPossible: 4, methodPoints: 3 }))).toBe(1);
+    expect(getMethodPoints(mark({ status: "partial", pointsAwarded: 2, pointsPossible: 4 }))).toBe(0);
+  });
+});
+
+describe("statusForPoints", () => {
+  it("matches the verdict to the score", () => {
+    expect(statusForPoints(4, 4)).toBe("correct");
+    expect(statusForPoints(0, 4)).toBe("incorrect");
+    expect(statusForPoints(2.5, 4)).toBe("partial");
+  });
+});
+
+describe("withStatus", () => {
+  it("brings the points in line with the new verdict", () => {
+    const base = mark({ status: "incorrect", pointsAwarded: 0, pointsPossible: 4 });
+    expect(withStatus(base, "correct")).toMatchObject({ status: "correct", pointsAwarded: 4, pointsPossible: 4 });
+    expect(withStatus(base, "partial")).toMatchObject({ pointsAwarded: 2 });
+    expect(withStatus(base, "unanswered")).toMatchObject({ pointsAwarded: 0 });
+  });
+
+  it("keeps an existing partial score and trims method credit", () => {
+    const partial = mark({ status: "partial", pointsAwarded: 3, pointsPossible: 4, methodPoints: 2 });
+    expect(withStatus(partial, "partial")).toMatchObject({ pointsAwarded: 3, methodPoints: 2 });
+    expect(withStatus(partial, "incorrect")).toMatchObject({ pointsAwarded: 0, methodPoints: 0 });
+  });
+});
+
+describe("withPoints", () => {
+  it("clamps the points and derives the verdict from them", () => {
+    const base = mark({ status: "correct", pointsAwarded: 4, pointsPossible: 4 });
+    expect(withPoints(base, 1)).toMatchObject({ status: "partial", pointsAwarded: 1 });
+    expect(withPoints(base, -1)).toMatchObject({ status: "incorrect", pointsAwarded: 0 });
+    expect(withPoints(base, 9)).toMatchObject({ status: "correct", pointsAwarded: 4 });
+  });
+
+  it("keeps the verdict of ungraded questions and of blanks left at zero", () => {
+    expect(withPoints(mark({ status: "partial", pointsPossible: 0 }), 0).status).toBe("partial");
+    expect(withPoints(mark({ status: "unanswered", pointsPossible: 2 }), 0).status).toBe("unanswered");
+    expect(withPoints(mark({ status: "unanswered", pointsPossible: 2 }), 1).status).toBe("partial");
+  });
+});
+
+describe("withMethodPoints", () => {
+  it("changes the credit for the working without touching the result's points", () => {
+    const base = mark({ status: "partial", pointsAwarded: 2, pointsPossible: 5, methodPoints: 1 });
+    expect(withMethodPoints(base, 3)).toMatchObject({ pointsAwarded: 4, methodPoints: 3, status: "partial" });
+    expect(withMethodPoints(base, 0)).toMatchObject({ pointsAwarded: 1, methodPoints: 0 });
+    // Room is left only for what the result didn't earn
+    expect(withMethodPoints(base, 10)).toMatchObject({ pointsAwarded: 5, methodPoints: 4, status: "correct" });
+  });
+});
+
+describe("firstErrorStep", () => {
+  it("finds the first wrong step", () => {
+    expect(firstErrorStep([
+      { text: "2x = 6", verdict: "correct" },
+      { text: "x = 4", verdict: "incorrect" },
+      { text: "x + 1 = 5", verdict: "incorrect" },
+    ])).toBe(1);
+    expect(firstErrorStep([{ text: "x = 3", verdict: "correct" }])).toBe(-1);
+    expect(firstErrorStep()).toBe(-1);
+  });
+});
+
+describe("nextStatus", () => {
+  it("cycles through every verdict", () => {
+    expect(["correct", "partial", "incorrect", "unanswered"].map(s => nextStatus(s as GradingMark["status"])))
+      .toEqual(["partial", "incorrect", "unanswered", "correct"]);
+  });
+});
+
+describe("summarizeScore", () => {
+  it("totals the points and rounds the percentage to one decimal", () => {
+    expect(summarizeScore([
+      mark({ status: "correct", pointsPossible: 2 }),
+      mark({ status: "partial", pointsAwarded: 1, pointsPossible: 3 }),
+      mark({ status: "unanswered", pointsPossible: 1 }),
+    ])).toEqual({ awarded: 3, possible: 6, percent: 50 });
+    expect(summarizeScore([mark({ status: "correct" }), mark({}), mark({})]).percent).toBe(33.3);
+    expect(summarizeScore([])).toEqual({ awarded: 0, possible: 0, percent: 0 });
+  });
+});
+
+describe("formatPoints", () => {
+  it("drops trailing zeros and rounds to two decimals", () => {
+    expect(formatPoints(2)).toBe("2");
+    expect(formatPoints(1.5)).toBe("1.5");
+    expect(formatPoints(2 / 3)).toBe("0.67");
+  });
+});
@@ -0,0 +1,99 @@
+import { GradingMark, MarkStatus, WorkStep } from "../types";
+
+export interface ScoreSummary {
+  awarded: number;
+  possible: number;
+  percent: number; // 0-100, rounded to one decimal
+}
+
+// Marks without an explicit value (e.g. manually added) are worth one point
+export const DEFAULT_POINTS = 1;
+
+export const getPointsPossible = (mark: GradingMark): number => {
+  return mark.pointsPossible ?? DEFAULT_POINTS;
+};
+
+export const getPointsAwarded = (mark: GradingMark): number => {
+  if (mark.status === 'unanswered') return 0;
+  const possible = getPointsPossible(mark);
+  if (mark.pointsAwarded !== undefined) {
+    return Math.max(0, Math.min(possible, mark.pointsAwarded));
+  }
+  if (mark.status === 'correct') return possible;
+  if (mark.status === 'partial') return possible / 2;
+  return 0;
+};
+
+// Method credit never exceeds the points actually awarded
+export const getMethodPoints = (mark: GradingMark): number => {
+  return Math.min(mark.methodPoints ?? 0, getPointsAwarded(mark));
+};
+
+// Index of the first wrong step of the working, or -1 if every step holds
+export const firstErrorStep = (steps: WorkStep[] = []): number => {
+  return steps.findIndex(s => s.verdict === 'incorrect');
+};
+
+// Helper to keep method credit within the points awarded after a change
+const capMethodPoints = (mark: GradingMark): GradingMark => {
+  return mark.methodPoints !== undefined ? { ...mark, methodPoints: getMethodPoints(mark) } : mark;
+};
+
+// Derives the status that matches a point value
+export const statusForPoints = (awarded: number, possible: number): MarkStatus => {
+  if (awarded >= possible) return 'correct';
+  if (awarded <= 0) return 'incorrect';
+  return 'partial';
+};
+
+// Changes a mark's status and brings its points in line with it
+export const withStatus = (mark: GradingMark, status: MarkStatus): GradingMark => {
+  const possible = getPointsPossible(mark);
+  const currentAwarded = getPointsAwarded(mark);
+  let pointsAwarded = 0;
+
+  if (status === 'correct') {
+    pointsAwarded = possible;
+  } else if (status === 'partial') {
+    // Keep an existing partial score, otherwise default to half credit
+    pointsAwarded = currentAwarded > 0 && currentAwarded < possible ? currentAwarded : possible / 2;
+  }
+
+  return capMethodPoints({ ...mark, status, pointsAwarded, pointsPossible: possible });
+};
+
+// Changes a mark's points and brings its status in line with them
+export const withPoints = (mark: GradingMark, pointsAwarded: number): GradingMark => {
+  const possible = getPointsPossible(mark);
+  const clamped = Math.max(0, Math.min(possible, pointsAwarded));
+  // Ungraded (zero-point) questions keep their verdict, and so do blank ones left at zero
+  const keepStatus = possible <= 0 || (mark.status === 'unanswered' && clamped <= 0);
+  const status = keepStatus ? mark.status : statusForPoints(clamped, possible);
+  return capMethodPoints({ ...mark, pointsAwarded: clamped, pointsPossible: possible, status });
+};
+
+// Changes the credit given for the working; the points for the result stay as they were
+export const withMethodPoints = (mark: GradingMark, methodPoints: number): GradingMark => {
+  const resultPoints = getPointsAwarded(mark) - getMethodPoints(mark);
+  const clamped = Math.max(0, Math.min(getPointsPossible(mark) - resultPoints, methodPoints));
+  return { ...withPoints(mark, resultPoints + clamped), methodPoints: clamped };
+};
+
+export const nextStatus = (status: MarkStatus): MarkStatus => {
+  if (status === 'correct') return 'partial';
+  if (status === 'partial') return 'incorrect';
+  if (status === 'incorrect') return 'unanswered';
+  return 'correct';
+};
+
+export const summarizeScore = (marks: GradingMark[]): ScoreSummary => {
+  const awarded = marks.reduce((sum, m) => sum + getPointsAwarded(m), 0);
+  const possible = marks.reduce((sum, m) => sum + getPointsPossible(m), 0);
+  const percent = possible > 0 ? Math.round((awarded / possible) * 1000) / 10 : 0;
+  return { awarded, possible, percent };
+};
+
+// Formats a point value without trailing zeros (e.g. 2, 1.5)
+export const formatPoints = (points: number): string => {
+  return String(Math.round(points * 100) / 100);
+};
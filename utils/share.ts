@@ -0,0 +1,60 @@
+import { Share } from '@capacitor/share';
+import { Filesystem, Directory } from '@capacitor/filesystem';
+import { Capacitor } from '@capacitor/core';
+
+// Convert Blob to Base64 for Capacitor Filesystem
+export const blobToBase64 = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const base64String = reader.result as string;
+      // Remove the data URI prefix (e.g. "data:application/pdf;base64,")
+      const base64Data = base64String.split(',')[1];
+      resolve(base64Data);
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+};
+
+interface ShareOptions {
+  title: string;
+  text: string;
+}
+
+// Opens the OS share sheet for a file, falling back to a plain download on the web
+export const shareFile = async (blob: Blob, fileName: string, { title, text }: ShareOptions): Promise<void> => {
+  if (Capacitor.isNativePlatform()) {
+    // --- Native Logic (iOS/Android) ---
+    const base64Data = await blobToBase64(blob);
+
+    // 1. Write file to cache directory
+    const result = await Filesystem.writeFile({
+      path: fileName,
+      data: base64Data,
+      directory: Directory.Cache,
+    });
+
+    // 2. Share the file URI
+    await Share.share({ title, text, files: [result.uri] });
+    return;
+  }
+
+  // --- Web Logic Fallback ---
+  const file = new File([blob], fileName, { type: blob.type });
+  if (navigator.share && navigator.canShare && navigator.canShare({ files: [file] })) {
+    await navigator.share({ files: [file], title, text });
+  } else {
+    downloadFile(blob, fileName);
+  }
+};
+
+export const downloadFile = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Give the browser a moment to start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
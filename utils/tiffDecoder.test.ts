@@ -0,0 +1,168 @@
+import { describe, expect, it } from "vitest";
+import { decodeTiff } from "./tiffDecoder";
+
+// --- Building test files ---
+
+type Entry = [tag: number, type: number, values: number[]];
+
+interface PageSpec {
+  entries: Entry[]; // Everything but the strip tags, which are filled in
+  strip: Uint8Array;
+}
+
+const SHORT = 3;
+const LONG = 4;
+const RATIONAL = 5;
+
+const dimensions = (width: number, height: number, bits: number, compression: number, photometric: number): Entry[] => [
+  [256, LONG, [width]],
+  [257, LONG, [height]],
+  [258, SHORT, [bits]],
+  [259, SHORT, [compression]],
+  [262, SHORT, [photometric]],
+];
+
+// Helper to write a one-strip-per-page TIFF in either byte order
+const buildTiff = (pages: PageSpec[], le = true): ArrayBuffer => {
+  const bytes: number[] = [];
+  const u16 = (v: number) => le ? [v & 0xff, (v >> 8) & 0xff] : [(v >> 8) & 0xff, v & 0xff];
+  const u32 = (v: number) => {
+    const b = [v & 0xff, (v >> 8) & 0xff, (v >> 16) & 0xff, (v >>> 24) & 0xff];
+    return le ? b : b.reverse();
+  };
+  const valueBytes = ([, type, values]: Entry) => values.flatMap(v => type === SHORT ? u16(v) : type === RATIONAL ? [...u32(v), ...u32(1)] : u32(v));
+
+  bytes.push(...(le ? [0x49, 0x49] : [0x4d, 0x4d]), ...u16(42), 0, 0, 0, 0);
+  let link = 4;
+
+  pages.forEach(({ entries, strip }) => {
+    const stripOffset = bytes.length;
+    bytes.push(...strip);
+    const stripTags: Entry[] = [[273, LONG, [stripOffset]], [279, LONG, [strip.length]]];
+    const all = [...entries, ...stripTags].sort((a, b) => a[0] - b[0]);
+
+    // Values over four bytes live outside the directory
+    const external = new Map<Entry, number>();
+    all.forEach(entry => {
+      const data = valueBytes(entry);
+      if (data.length > 4) {
+        external.set(entry, bytes.length);
+        bytes.push(...data);
+      }
+    });
+
+    const directory = bytes.length;
+    u32(directory).forEach((b, i) => { bytes[link + i] = b; });
+    bytes.push(...u16(all.length));
+    all.forEach(entry => {
+      const inline = [...valueBytes(entry), 0, 0, 0, 0].slice(0, 4);
+      bytes.push(...u16(entry[0]), ...u16(entry[1]), ...u32(entry[2].length), ...(external.has(entry) ? u32(external.get(entry) as number) : inline));
+    });
+    link = bytes.length;
+    bytes.push(0, 0, 0, 0);
+  });
+
+  return new Uint8Array(bytes).buffer;
+};
+
+// Helper to LZW-encode a short input (codes stay 9 bits wide)
+const lzw = (data: number[]): Uint8Array => {
+  const codes = [256];
+  const table = new Map<string, number>();
+  const codeOf = (key: string) => table.get(key) ?? Number(key);
+  let current = '';
+  data.forEach(byte => {
+    const extended = current === '' ? `${byte}` : `${current},${byte}`;
+    if (current === '' || table.has(extended)) {
+      current = extended;
+      return;
+    }
+    codes.push(codeOf(current));
+    table.set(extended, 258 + table.size);
+    current = `${byte}`;
+  });
+  codes.push(codeOf(current), 257);
+
+  const bits = codes.map(c => c.toString(2).padStart(9, '0')).join('');
+  return Uint8Array.from(bits.padEnd(Math.ceil(bits.length / 8) * 8, '0').match(/.{8}/g) as string[], b => parseInt(b, 2));
+};
+
+const deflate = async (data: number[]): Promise<Uint8Array> => {
+  const stream = new Blob([new Uint8Array(data)]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Gray level of each pixel, row by row
+const grays = (data: Uint8ClampedArray): number[] => Array.from(data).filter((_, i) => i % 4 === 0);
+
+// --- Tests ---
+
+describe("decodeTiff", () => {
+  it("reads every page of an uncompressed file with its resolution", async () => {
+    const pages = await decodeTiff(buildTiff([
+      { entries: [...dimensions(2, 2, 8, 1, 1), [282, RATIONAL, [300]], [296, SHORT, [2]]], strip: Uint8Array.of(0, 64, 128, 255) },
+      { entries: [...dimensions(1, 1, 8, 1, 0), [282, RATIONAL, [100]], [296, SHORT, [3]]], strip: Uint8Array.of(255) },
+    ]));
+
+    expect(pages).toHaveLength(2);
+    expect(pages[0].image).toMatchObject({ width: 2, height: 2 });
+    expect(grays(pages[0].image.data)).toEqual([0, 64, 128, 255]);
+    expect(pages[0].dpi).toBe(300);
+    expect(grays(pages[1].image.data)).toEqual([0]); // WhiteIsZero
+    expect(pages[1].dpi).toBeCloseTo(254);
+  });
+
+  it("reads big-endian RGB", async () => {
+    const [page] = await decodeTiff(buildTiff([{
+      entries: [...dimensions(2, 1, 8, 1, 2), [277, SHORT, [3]]],
+      strip: Uint8Array.of(255, 0, 0, 0, 0, 255),
+    }], false));
+
+    expect(Array.from(page.image.data)).toEqual([255, 0, 0, 255, 0, 0, 255, 255]);
+  });
+
+  it("unpacks PackBits bilevel strips", async () => {
+    const [page] = await decodeTiff(buildTiff([{
+      entries: dimensions(16, 2, 1, 32773, 0),
+      strip: Uint8Array.of(0x00, 0xf0, 0xff, 0x00, 0x00, 0x0f), // Rows f0 00 / 00 0f
+    }]));
+
+    const pixels = grays(page.image.data);
+    expect(pixels.slice(0, 16)).toEqual([0, 0, 0, 0, ...Array(12).fill(255)]);
+    expect(pixels.slice(16)).toEqual([...Array(12).fill(255), 0, 0, 0, 0]);
+  });
+
+  it("unpacks LZW with horizontal differencing", async () => {
+    const [page] = await decodeTiff(buildTiff([{
+      entries: [...dimensions(4, 2, 8, 5, 1), [317, SHORT, [2]]],
+      strip: lzw([10, 10, 10, 10, 5, 0, 0, 0]),
+    }]));
+
+    expect(grays(page.image.data)).toEqual([10, 20, 30, 40, 5, 5, 5, 5]);
+  });
+
+  it("inflates Deflate strips", async () => {
+    const data = Array.from({ length: 64 }, (_, i) => i * 4);
+    const [page] = await decodeTiff(buildTiff([{ entries: dimensions(8, 8, 8, 8, 1), strip: await deflate(data) }]));
+
+    expect(grays(page.image.data)).toEqual(data);
+  });
+
+  it("decodes CCITT Group 4", async () => {
+    // Row 1: horizontal mode (white 2, black 3) then V0; row 2: pass then V0
+    const [page] = await decodeTiff(buildTiff([{ entries: dimensions(8, 2, 1, 4, 0), strip: Uint8Array.of(0x2f, 0x46) }]));
+
+    expect(grays(page.image.data)).toEqual([
+      255, 255, 0, 0, 0, 255, 255, 255,
+      255, 255, 255, 255, 255, 255, 255, 255,
+    ]);
+  });
+
+  it("rejects files it can't read", async () => {
+    await expect(decodeTiff(new Uint8Array([0x25, 0x50, 0x44, 0x46, 0, 0, 0, 0]).buffer)).rejects.toThrow("Not a TIFF file");
+    await expect(decodeTiff(buildTiff([{ entries: [...dimensions(2, 2, 8, 1, 1), [322, SHORT, [16]]], strip: new Uint8Array(4) }])))
+      .rejects.toThrow("Tiled");
+    await expect(decodeTiff(buildTiff([{ entries: dimensions(2, 2, 8, 7, 1), strip: new Uint8Array(4) }])))
+      .rejects.toThrow("compression 7");
+  });
+});
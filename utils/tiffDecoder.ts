@@ -0,0 +1,524 @@
+import { RgbaImage } from "./docScan";
+
+// Baseline multi-page TIFF reader for scanner and fax output. Handles strips (not tiles) with no
+// compression, PackBits, LZW, Deflate or CCITT Group 4, at 1-16 bits per sample in bilevel,
+// grayscale, palette or RGB. Every page (IFD) is decoded to RGBA.
+
+export interface TiffPage {
+  image: RgbaImage;
+  dpi?: number; // Horizontal resolution from the file, when it states one
+}
+
+const TAG = {
+  imageWidth: 256,
+  imageLength: 257,
+  bitsPerSample: 258,
+  compression: 259,
+  photometric: 262,
+  fillOrder: 266,
+  stripOffsets: 273,
+  samplesPerPixel: 277,
+  rowsPerStrip: 278,
+  stripByteCounts: 279,
+  xResolution: 282,
+  planarConfig: 284,
+  resolutionUnit: 296,
+  predictor: 317,
+  colorMap: 320,
+  tileWidth: 322,
+};
+
+const COMPRESSION = {
+  none: 1,
+  group4: 4,
+  lzw: 5,
+  deflate: 8,
+  deflateLegacy: 32946,
+  packBits: 32773,
+};
+
+const PHOTOMETRIC = {
+  whiteIsZero: 0,
+  blackIsZero: 1,
+  rgb: 2,
+  palette: 3,
+};
+
+// Byte size of each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+type Ifd = Map<number, number[]>;
+
+// --- Directory parsing ---
+
+const readIfds = (view: DataView): Ifd[] => {
+  const order = view.getUint16(0);
+  if (order !== 0x4949 && order !== 0x4d4d) throw new Error("Not a TIFF file");
+  const le = order === 0x4949;
+  if (view.getUint16(2, le) !== 42) throw new Error("Unsupported TIFF variant");
+
+  const readValue = (type: number, offset: number): number => {
+    switch (type) {
+      case 1: case 2: case 7: return view.getUint8(offset);
+      case 6: return view.getInt8(offset);
+      case 3: return view.getUint16(offset, le);
+      case 8: return view.getInt16(offset, le);
+      case 4: return view.getUint32(offset, le);
+      case 9: return view.getInt32(offset, le);
+      case 5: return view.getUint32(offset, le) / (view.getUint32(offset + 4, le) || 1);
+      case 10: return view.getInt32(offset, le) / (view.getInt32(offset + 4, le) || 1);
+      case 11: return view.getFloat32(offset, le);
+      case 12: return view.getFloat64(offset, le);
+      default: return 0;
+    }
+  };
+
+  const ifds: Ifd[] = [];
+  const seen = new Set<number>();
+  let offset = view.getUint32(4, le);
+
+  // Follow the chain of directories, one per page, guarding against loops
+  while (offset !== 0 && !seen.has(offset) && offset + 2 <= view.byteLength) {
+    seen.add(offset);
+    const count = view.getUint16(offset, le);
+    const ifd: Ifd = new Map();
+
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      const tag = view.getUint16(entry, le);
+      const type = view.getUint16(entry + 2, le);
+      const n = view.getUint32(entry + 4, le);
+      const size = TYPE_SIZES[type];
+      if (!size) continue;
+
+      const valueOffset = size * n <= 4 ? entry + 8 : view.getUint32(entry + 8, le);
+      if (valueOffset + size * n > view.byteLength) continue;
+      const values: number[] = [];
+      for (let k = 0; k < n; k++) values.push(readValue(type, valueOffset + k * size));
+      ifd.set(tag, values);
+    }
+
+    ifds.push(ifd);
+    offset = view.getUint32(offset + 2 + count * 12, le);
+  }
+
+  return ifds;
+};
+
+// --- Decompressors ---
+
+const unpackBits = (input: Uint8Array, expected: number): Uint8Array => {
+  const out = new Uint8Array(expected);
+  let i = 0;
+  let o = 0;
+  while (i < input.length && o < expected) {
+    const n = (input[i++] << 24) >> 24; // Signed byte
+    if (n >= 0) {
+      for (let k = 0; k <= n && o < expected; k++) out[o++] = input[i++];
+    } else if (n !== -128) {
+      const value = input[i++];
+      for (let k = 0; k < 1 - n && o < expected; k++) out[o++] = value;
+    }
+  }
+  return out;
+};
+
+// TIFF LZW: MSB-first codes of 9-12 bits, with the code width growing one code early
+const unpackLzw = (input: Uint8Array, expected: number): Uint8Array => {
+  const CLEAR = 256;
+  const EOI = 257;
+  const out = new Uint8Array(expected);
+  const prefixes = new Int32Array(4096);
+  const suffixes = new Uint8Array(4096);
+  const lengths = new Uint16Array(4096);
+  for (let c = 0; c < 256; c++) {
+    suffixes[c] = c;
+    lengths[c] = 1;
+  }
+
+  let o = 0;
+  let bitPos = 0;
+  let width = 9;
+  let nextCode = 258;
+  let previous = -1;
+
+  const readCode = (): number => {
+    const byte = bitPos >> 3;
+    if (byte >= input.length) return EOI;
+    const chunk = (input[byte] << 16) | ((input[byte + 1] ?? 0) << 8) | (input[byte + 2] ?? 0);
+    const code = (chunk >> (24 - (bitPos & 7) - width)) & ((1 << width) - 1);
+    bitPos += width;
+    return code;
+  };
+
+  // Writes the string for `code` and returns its first byte
+  const emit = (code: number): number => {
+    const length = lengths[code];
+    let c = code;
+    for (let k = length - 1; k >= 0; k--) {
+      if (o + k < expected) out[o + k] = suffixes[c];
+      c = prefixes[c];
+    }
+    const first = out[Math.min(o, expected - 1)];
+    o += length;
+    return first;
+  };
+
+  while (o < expected) {
+    const code = readCode();
+    if (code === EOI) break;
+
+    if (code === CLEAR) {
+      width = 9;
+      nextCode = 258;
+      previous = -1;
+      continue;
+    }
+
+    if (previous === -1) {
+      emit(code);
+    } else if (code < nextCode) {
+      const first = emit(code);
+      if (nextCode >= 4096) {
+        previous = code;
+        continue;
+      }
+      prefixes[nextCode] = previous;
+      suffixes[nextCode] = first;
+      lengths[nextCode] = lengths[previous] + 1;
+      nextCode++;
+    } else {
+      // The code being defined right now: previous string plus its own first byte
+      const start = o;
+      emit(previous);
+      const first = out[Math.min(start, expected - 1)];
+      if (o < expected) out[o] = first;
+      o++;
+      if (nextCode >= 4096) break;
+      prefixes[nextCode] = previous;
+      suffixes[nextCode] = first;
+      lengths[nextCode] = lengths[previous] + 1;
+      nextCode++;
+    }
+
+    previous = code;
+    if (nextCode + 1 >= 1 << width && width < 12) width++;
+  }
+
+  return out;
+};
+
+const inflate = async (input: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([new Uint8Array(input)]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// --- CCITT Group 4 (T.6) ---
+
+// Run-length codes from T.4, indexed by run length: terminating codes for 0-63, make-up codes for 64-1728
+const WHITE_TERMINATING = [
+  '00110101', '000111', '0111', '1000', '1011', '1100', '1110', '1111', '10011', '10100', '00111', '01000',
+  '001000', '000011', '110100', '110101', '101010', '101011', '0100111', '0001100', '0001000', '0010111',
+  '0000011', '0000100', '0101000', '0101011', '0010011', '0100100', '0011000', '00000010', '00000011',
+  '00011010', '00011011', '00010010', '00010011', '00010100', '00010101', '00010110', '00010111', '00101000',
+  '00101001', '00101010', '00101011', '00101100', '00101101', '00000100', '00000101', '00001010', '00001011',
+  '01010010', '01010011', '01010100', '01010101', '00100100', '00100101', '01011000', '01011001', '01011010',
+  '01011011', '01001010', '01001011', '00110010', '00110011', '00110100',
+];
+const WHITE_MAKEUP = [
+  '11011', '10010', '010111', '0110111', '00110110', '00110111', '01100100', '01100101', '01101000', '01100111',
+  '011001100', '011001101', '011010010', '011010011', '011010100', '011010101', '011010110', '011010111',
+  '011011000', '011011001', '011011010', '011011011', '010011000', '010011001', '010011010', '011000', '010011011',
+];
+const BLACK_TERMINATING = [
+  '0000110111', '010', '11', '10', '011', '0011', '0010', '00011', '000101', '000100', '0000100', '0000101',
+  '0000111', '00000100', '00000111', '000011000', '0000010111', '0000011000', '0000001000', '00001100111',
+  '00001101000', '00001101100', '00000110111', '00000101000', '00000010111', '00000011000', '000011001010',
+  '000011001011', '000011001100', '000011001101', '000001101000', '000001101001', '000001101010',
+  '000001101011', '000011010010', '000011010011', '000011010100', '000011010101', '000011010110',
+  '000011010111', '000001101100', '000001101101', '000011011010', '000011011011', '000001010100',
+  '000001010101', '000001010110', '000001010111', '000001100100', '000001100101', '000001010010',
+  '000001010011', '000000100100', '000000110111', '000000111000', '000000100111', '000000101000',
+  '000001011000', '000001011001', '000000101011', '000000101100', '000001011010', '000001100110',
+  '000001100111',
+];
+const BLACK_MAKEUP = [
+  '0000001111', '000011001000', '000011001001', '000001011011', '000000110011', '000000110100',
+  '000000110101', '0000001101100', '0000001101101', '0000001001010', '0000001001011', '0000001001100',
+  '0000001001101', '0000001110010', '0000001110011', '0000001110100', '0000001110101', '0000001110110',
+  '0000001110111', '0000001010010', '0000001010011', '0000001010100', '0000001010101', '0000001011010',
+  '0000001011011', '0000001100100', '0000001100101',
+];
+// Make-up codes for 1792-2560, shared by both colours
+const EXTENDED_MAKEUP = [
+  '00000001000', '00000001100', '00000001101', '000000010010', '000000010011', '000000010100',
+  '000000010101', '000000010110', '000000010111', '000000011100', '000000011101', '000000011110',
+  '000000011111',
+];
+
+// Helper to index a code table by its bit strings
+const buildRunTable = (terminating: string[], makeup: string[]): Map<string, number> => {
+  const table = new Map<string, number>();
+  terminating.forEach((code, run) => table.set(code, run));
+  makeup.forEach((code, i) => table.set(code, (i + 1) * 64));
+  EXTENDED_MAKEUP.forEach((code, i) => table.set(code, 1792 + i * 64));
+  return table;
+};
+
+let runTables: [Map<string, number>, Map<string, number>] | null = null;
+
+const getRunTables = () => {
+  if (!runTables) {
+    runTables = [buildRunTable(WHITE_TERMINATING, WHITE_MAKEUP), buildRunTable(BLACK_TERMINATING, BLACK_MAKEUP)];
+  }
+  return runTables;
+};
+
+// Decodes a Group 4 strip into packed rows where 1 bits are black
+const decodeGroup4 = (input: Uint8Array, width: number, rows: number): Uint8Array => {
+  const rowBytes = Math.ceil(width / 8);
+  const out = new Uint8Array(rowBytes * rows);
+  const tables = getRunTables();
+  let bitPos = 0;
+  const totalBits = input.length * 8;
+
+  const bit = (): number => {
+    if (bitPos >= totalBits) throw new Error("Group 4 data ended early");
+    const value = (input[bitPos >> 3] >> (7 - (bitPos & 7))) & 1;
+    bitPos++;
+    return value;
+  };
+
+  // One complete run: any make-up codes followed by a terminating code
+  const readRun = (color: number): number => {
+    let total = 0;
+    for (;;) {
+      let code = '';
+      let run: number | undefined;
+      while (run === undefined) {
+        code += bit();
+        if (code.length > 13) throw new Error("Invalid Group 4 run code");
+        run = tables[color].get(code);
+      }
+      total += run;
+      if (run < 64) return total;
+    }
+  };
+
+  // Changing elements of the previous line; starts as an all-white line
+  let reference: number[] = [];
+
+  for (let y = 0; y < rows; y++) {
+    const changes: number[] = [];
+    let a0 = -1;
+    let color = 0; // 0 = white, 1 = black
+
+    // First change on the reference line right of a0 whose new colour is the opposite of a0's colour
+    const findB1 = (): number => {
+      let i = 0;
+      while (i < reference.length && (reference[i] <= a0 || (i & 1) !== color)) i++;
+      return i;
+    };
+
+    while (a0 < width) {
+      const b1Index = findB1();
+      const b1 = b1Index < reference.length ? reference[b1Index] : width;
+      const b2 = b1Index + 1 < reference.length ? reference[b1Index + 1] : width;
+
+      if (bit() === 1) {
+        // V0
+        changes.push(b1);
+        a0 = b1;
+        color ^= 1;
+        continue;
+      }
+
+      if (bit() === 1) {
+        if (bit() === 1) {
+          // VR1
+          changes.push(b1 + 1);
+          a0 = b1 + 1;
+        } else {
+          // VL1
+          changes.push(b1 - 1);
+          a0 = b1 - 1;
+        }
+        color ^= 1;
+        continue;
+      }
+
+      if (bit() === 1) {
+        // Horizontal: two runs, the first in a0's colour
+        const start = Math.max(a0, 0);
+        const a1 = start + readRun(color);
+        const a2 = a1 + readRun(color ^ 1);
+        changes.push(a1, a2);
+        a0 = a2;
+        continue;
+      }
+
+      if (bit() === 1) {
+        // Pass: skip to below b2 without a colour change
+        a0 = b2;
+        continue;
+      }
+
+      // Longer vertical codes: 000011 / 000010 (±2), 0000011 / 0000010 (±3)
+      if (bit() === 1) {
+        const delta = bit() === 1 ? 2 : -2;
+        changes.push(b1 + delta);
+        a0 = b1 + delta;
+        color ^= 1;
+        continue;
+      }
+      if (bit() === 1) {
+        const delta = bit() === 1 ? 3 : -3;
+        changes.push(b1 + delta);
+        a0 = b1 + delta;
+        color ^= 1;
+        continue;
+      }
+
+      // 0000000: end of data or an extension we don't support
+      return out;
+    }
+
+    // Paint the black runs of this line
+    const row = y * rowBytes;
+    for (let i = 0; i < changes.length; i += 2) {
+      const from = Math.max(0, Math.min(width, changes[i]));
+      const to = Math.max(from, Math.min(width, changes[i + 1] ?? width));
+      for (let x = from; x < to; x++) out[row + (x >> 3)] |= 0x80 >> (x & 7);
+    }
+
+    reference = changes.map(c => Math.min(c, width));
+  }
+
+  return out;
+};
+
+// --- Pixels ---
+
+const reverseBits = (data: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    let b = data[i];
+    b = ((b & 0xf0) >> 4) | ((b & 0x0f) << 4);
+    b = ((b & 0xcc) >> 2) | ((b & 0x33) << 2);
+    b = ((b & 0xaa) >> 1) | ((b & 0x55) << 1);
+    out[i] = b;
+  }
+  return out;
+};
+
+const decodePage = async (bytes: Uint8Array, ifd: Ifd, le: boolean): Promise<TiffPage> => {
+  const get = (tag: number, fallback: number) => ifd.get(tag)?.[0] ?? fallback;
+
+  const width = get(TAG.imageWidth, 0);
+  const height = get(TAG.imageLength, 0);
+  if (!width || !height) throw new Error("TIFF page has no size");
+  if (ifd.has(TAG.tileWidth)) throw new Error("Tiled TIFF files are not supported");
+  if (get(TAG.planarConfig, 1) !== 1) throw new Error("Planar TIFF files are not supported");
+
+  const compression = get(TAG.compression, COMPRESSION.none);
+  const samples = get(TAG.samplesPerPixel, 1);
+  const bits = get(TAG.bitsPerSample, 1);
+  const photometric = get(TAG.photometric, PHOTOMETRIC.blackIsZero);
+  const isGroup4 = compression === COMPRESSION.group4;
+  const rowBytes = Math.ceil((width * samples * bits) / 8);
+  const rowsPerStrip = Math.min(get(TAG.rowsPerStrip, height), height);
+  const offsets = ifd.get(TAG.stripOffsets) || [];
+  const counts = ifd.get(TAG.stripByteCounts) || offsets.map((o, i) => (offsets[i + 1] ?? bytes.length) - o);
+
+  // 1. Decompress every strip into one buffer of packed rows
+  const raw = new Uint8Array(rowBytes * height);
+  for (let s = 0; s < offsets.length; s++) {
+    const rows = Math.min(rowsPerStrip, height - s * rowsPerStrip);
+    if (rows <= 0) break;
+    const expected = rows * rowBytes;
+    let strip = bytes.subarray(offsets[s], offsets[s] + counts[s]);
+    if (get(TAG.fillOrder, 1) === 2) strip = reverseBits(strip);
+
+    let decoded: Uint8Array;
+    switch (compression) {
+      case COMPRESSION.none: decoded = strip; break;
+      case COMPRESSION.packBits: decoded = unpackBits(strip, expected); break;
+      case COMPRESSION.lzw: decoded = unpackLzw(strip, expected); break;
+      case COMPRESSION.deflate:
+      case COMPRESSION.deflateLegacy: decoded = await inflate(strip); break;
+      case COMPRESSION.group4: decoded = decodeGroup4(strip, width, rows); break;
+      default: throw new Error(`TIFF compression ${compression} is not supported`);
+    }
+    raw.set(decoded.subarray(0, expected), s * rowsPerStrip * rowBytes);
+  }
+
+  // 2. Undo horizontal differencing
+  if (get(TAG.predictor, 1) === 2 && bits === 8) {
+    for (let y = 0; y < height; y++) {
+      const row = y * rowBytes;
+      for (let i = samples; i < width * samples; i++) raw[row + i] = (raw[row + i] + raw[row + i - samples]) & 0xff;
+    }
+  }
+
+  // 3. Samples to RGBA
+  const max = (1 << bits) - 1;
+  const sample = (row: number, index: number): number => {
+    if (bits === 8) return raw[row + index];
+    if (bits === 16) {
+      const o = row + index * 2;
+      return le ? raw[o] | (raw[o + 1] << 8) : (raw[o] << 8) | raw[o + 1];
+    }
+    const bitOffset = index * bits;
+    return (raw[row + (bitOffset >> 3)] >> (8 - bits - (bitOffset & 7))) & max;
+  };
+  const to8 = (value: number) => Math.round((value * 255) / max);
+
+  const colorMap = ifd.get(TAG.colorMap);
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    const row = y * rowBytes;
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      const first = sample(row, x * samples);
+
+      if (isGroup4 || photometric === PHOTOMETRIC.whiteIsZero) {
+        // Group 4 output always has 1 bits for black, whatever the photometric tag says
+        data[o] = data[o + 1] = data[o + 2] = 255 - to8(first);
+      } else if (photometric === PHOTOMETRIC.rgb && samples >= 3) {
+        data[o] = to8(first);
+        data[o + 1] = to8(sample(row, x * samples + 1));
+        data[o + 2] = to8(sample(row, x * samples + 2));
+      } else if (photometric === PHOTOMETRIC.palette && colorMap) {
+        const entries = colorMap.length / 3;
+        data[o] = colorMap[first] >> 8;
+        data[o + 1] = colorMap[entries + first] >> 8;
+        data[o + 2] = colorMap[2 * entries + first] >> 8;
+      } else {
+        data[o] = data[o + 1] = data[o + 2] = to8(first);
+      }
+      data[o + 3] = 255;
+    }
+  }
+
+  // 4. Resolution in dots per inch (unit 2 = inch, 3 = centimetre)
+  const resolution = ifd.get(TAG.xResolution)?.[0];
+  const unit = get(TAG.resolutionUnit, 2);
+  const dpi = resolution && unit !== 1 ? (unit === 3 ? resolution * 2.54 : resolution) : undefined;
+
+  return { image: { width, height, data }, dpi };
+};
+
+// Decodes every page of a TIFF file
+export const decodeTiff = async (buffer: ArrayBuffer): Promise<TiffPage[]> => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const le = view.getUint16(0) === 0x4949;
+
+  const pages: TiffPage[] = [];
+  for (const ifd of readIfds(view)) {
+    pages.push(await decodePage(bytes, ifd, le));
+  }
+  if (pages.length === 0) throw new Error("TIFF file has no pages");
+  return pages;
+};
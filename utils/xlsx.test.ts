@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { toXlsx } from "./xlsx";
+
+interface StoredFile {
+  name: string;
+  text: string;
+  crc: number;
+  computedCrc: number;
+}
+
+// Bit-by-bit CRC-32, independent of the table the writer uses
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let k = 0; k < 8; k++) crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Helper to read back a stored (uncompressed) ZIP, checking its directory along the way
+const readZip = async (blob: Blob): Promise<Map<string, StoredFile>> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const decoder = new TextDecoder();
+
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  let central = view.getUint32(end + 16, true);
+  expect(central + view.getUint32(end + 12, true)).toBe(end);
+
+  const files = new Map<string, StoredFile>();
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(central, true)).toBe(0x02014b50);
+    const nameLength = view.getUint16(central + 28, true);
+    const offset = view.getUint32(central + 42, true);
+
+    expect(view.getUint32(offset, true)).toBe(0x04034b50);
+    expect(view.getUint16(offset + 8, true)).toBe(0); // Stored
+    const size = view.getUint32(offset + 18, true);
+    const name = decoder.decode(bytes.subarray(offset + 30, offset + 30 + nameLength));
+    const data = bytes.subarray(offset + 30 + nameLength, offset + 30 + nameLength + size);
+    expect(view.getUint32(central + 16, true)).toBe(view.getUint32(offset + 14, true));
+
+    files.set(name, { name, text: decoder.decode(data), crc: view.getUint32(offset + 14, true), computedCrc: crc32(data) });
+    central += 46 + nameLength;
+  }
+  return files;
+};
+
+describe("toXlsx", () => {
+  it("packs the workbook parts into a valid stored ZIP", async () => {
+    const blob = toXlsx([["Name", "Score"], ["Ana", 9]]);
+    const files = await readZip(blob);
+
+    expect(blob.type).toBe("application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+    expect([...files.keys()]).toEqual([
+      "[Content_Types].xml",
+      "_rels/.rels",
+      "xl/workbook.xml",
+      "xl/_rels/workbook.xml.rels",
+      "xl/worksheets/sheet1.xml",
+    ]);
+    files.forEach(file => expect(file.crc).toBe(file.computedCrc));
+  });
+
+  it("writes numbers as values and text as inline strings", async () => {
+    const sheet = (await readZip(toXlsx([["Name", "Score"], ["Zoë <3 & \"co\"\u0007", 9.5], ["NaN", NaN]]))).get("xl/worksheets/sheet1.xml")?.text;
+
+    expect(sheet).toContain('<row r="1"><c r="A1" t="inlineStr"><is><t xml:space="preserve">Name</t></is></c>');
+    expect(sheet).toContain('<c r="A2" t="inlineStr"><is><t xml:space="preserve">Zoë &lt;3 &amp; &quot;co&quot;</t></is></c><c r="B2"><v>9.5</v></c>');
+    expect(sheet).toContain('<c r="B3" t="inlineStr"><is><t xml:space="preserve">NaN</t></is></c>');
+  });
+
+  it("names columns past Z with two letters", async () => {
+    const row = Array.from({ length: 28 }, (_, i) => i);
+    const sheet = (await readZip(toXlsx([row]))).get("xl/worksheets/sheet1.xml")?.text;
+
+    expect(sheet).toContain('<c r="Z1"><v>25</v></c><c r="AA1"><v>26</v></c><c r="AB1"><v>27</v></c>');
+  });
+
+  it("cleans up the sheet name", async () => {
+    const workbook = (await readZip(toXlsx([], "Unit 3: A&B/C [retake]"))).get("xl/workbook.xml")?.text;
+    expect(workbook).toContain('<sheet name="Unit 3  A&amp;B C  retake " sheetId="1"');
+
+    const long = (await readZip(toXlsx([], "x".repeat(40)))).get("xl/workbook.xml")?.text;
+    expect(long).toContain(`<sheet name="${"x".repeat(31)}"`);
+
+    const fallback = (await readZip(toXlsx([], ""))).get("xl/workbook.xml")?.text;
+    expect(fallback).toContain('<sheet name="Sheet1"');
+  });
+});
@@ -0,0 +1,26 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_GEMINI_API_KEY?: string;
+  readonly VITE_GRADING_PROVIDER?: string;
+  readonly VITE_GRADING_MODEL?: string;
+  readonly VITE_PDF_RENDER_MODE?: string;
+  readonly VITE_CJK_FONT_URL?: string;
+  readonly VITE_IMPORT_DPI?: string;
+  readonly VITE_PDFJS_URL?: string;
+  readonly VITE_PDFJS_WORKER_URL?: string;
+  readonly VITE_REVIEW_CONFIDENCE?: string;
+  readonly VITE_MATHJAX_URL?: string;
+  readonly VITE_MAILER_URL?: string;
+  readonly VITE_MAILER_TOKEN?: string;
+  readonly VITE_LMS_PROVIDER?: string;
+  readonly VITE_LMS_URL?: string;
+  readonly VITE_LMS_TOKEN?: string;
+  readonly VITE_LMS_COURSE_ID?: string;
+  readonly VITE_DRIVE_URL?: string;
+  readonly VITE_DELIVERY_MAX_ATTEMPTS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}